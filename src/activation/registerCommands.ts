@@ -4,19 +4,37 @@ import { createOpenPreviewCommand } from '../commands/openPreview';
 import { createRefreshPreviewCommand } from '../commands/refreshPreview';
 import { createConfigureTranslationApiKeyCommand } from '../commands/configureTranslationApiKey';
 import { createOpenTranslationPreviewCommand } from '../commands/openTranslationPreview';
+import { createOpenTranslationPreviewForLanguageCommand } from '../commands/openTranslationPreviewForLanguage';
 import { createRefreshTranslationPreviewCommand } from '../commands/refreshTranslationPreview';
+import { createSaveTranslationAsMarkdownCommand } from '../commands/saveTranslationAsMarkdown';
+import { createTranslateWorkspaceCommand } from '../commands/translateWorkspace';
+import { createExportTranslationXliffCommand } from '../commands/exportTranslationXliff';
+import { createImportTranslationXliffCommand } from '../commands/importTranslationXliff';
+import { createExportTranslationMemoryCommand } from '../commands/exportTranslationMemory';
 import { MarkdownPreviewPanel } from '../panel/MarkdownPreviewPanel';
 import { createExportMarkdownCommand } from '../commands/exportMarkdown';
+import { createExportWorkspaceCommand } from '../commands/exportWorkspace';
 import { TranslationPreviewManager } from '../panel/TranslationPreviewManager';
 import { BabelMarkdownService } from '../services/BabelMarkdownService';
 import { SecretStorageService } from '../services/SecretStorageService';
 import { OpenAITranslationClient } from '../services/OpenAITranslationClient';
+import { AzureOpenAITranslationClient } from '../services/AzureOpenAITranslationClient';
+import { AnthropicTranslationClient } from '../services/AnthropicTranslationClient';
+import { OllamaTranslationClient } from '../services/OllamaTranslationClient';
+import { DeepLTranslationClient } from '../services/DeepLTranslationClient';
+import { MockTranslationClient } from '../services/MockTranslationClient';
+import { TranslationProviderRegistry } from '../services/TranslationProviderRegistry';
 import { TranslationService } from '../services/TranslationService';
 import { PromptResolver } from '../services/PromptResolver';
 import { ExtensionLogger } from '../utils/logger';
 import { MarkdownExportService } from '../services/MarkdownExportService';
 import { EditorExportService } from '../services/EditorExportService';
 import { TranslationCacheStore } from '../services/TranslationCacheStore';
+import { TranslationOverrideStore } from '../services/TranslationOverrideStore';
+import { TranslationMemory } from '../services/TranslationMemory';
+import { TranslationOutputService } from '../services/TranslationOutputService';
+import { BatchTranslationService } from '../services/BatchTranslationService';
+import { UsageLedger } from '../services/UsageLedger';
 
 export function registerCommands(context: vscode.ExtensionContext): vscode.Disposable[] {
   const logger = new ExtensionLogger();
@@ -35,16 +53,41 @@ export function registerCommands(context: vscode.ExtensionContext): vscode.Dispo
     logger,
   );
   const secretStorageService = new SecretStorageService(context.secrets, logger);
-  const openAIClient = new OpenAITranslationClient(logger);
-  const translationService = new TranslationService(logger, openAIClient);
+  const translationProviders = new TranslationProviderRegistry(logger, [
+    new OpenAITranslationClient(logger),
+    new AzureOpenAITranslationClient(logger),
+    new AnthropicTranslationClient(logger),
+    new OllamaTranslationClient(logger),
+    new DeepLTranslationClient(logger),
+    new MockTranslationClient(logger),
+  ]);
+  const translationService = new TranslationService(logger, translationProviders);
   const promptResolver = new PromptResolver(logger);
   const cacheStore = new TranslationCacheStore(context.globalStorageUri, logger);
+  const overrideStore = new TranslationOverrideStore(logger);
+  const translationMemory = new TranslationMemory(context.globalStorageUri, logger);
+  const usageLedger = new UsageLedger(context.globalStorageUri, logger);
+  const outputService = new TranslationOutputService(logger);
+  const batchTranslationService = new BatchTranslationService(
+    translationService,
+    promptResolver,
+    cacheStore,
+    overrideStore,
+    translationMemory,
+    usageLedger,
+    outputService,
+    logger,
+  );
   const translationPreviewManager = new TranslationPreviewManager(
     context.extensionUri,
     translationService,
     promptResolver,
     cacheStore,
+    overrideStore,
+    translationMemory,
+    usageLedger,
     exportService,
+    secretStorageService,
     logger,
   );
 
@@ -61,13 +104,63 @@ export function registerCommands(context: vscode.ExtensionContext): vscode.Dispo
     ),
     vscode.commands.registerCommand(
       'babelMdViewer.openTranslationPreview',
-      createOpenTranslationPreviewCommand(translationPreviewManager, secretStorageService, logger),
+      createOpenTranslationPreviewCommand(
+        translationPreviewManager,
+        secretStorageService,
+        translationProviders,
+        logger,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.openTranslationPreviewForLanguage',
+      createOpenTranslationPreviewForLanguageCommand(
+        translationPreviewManager,
+        secretStorageService,
+        translationProviders,
+        logger,
+      ),
     ),
     vscode.commands.registerCommand(
       'babelMdViewer.refreshTranslationPreview',
       createRefreshTranslationPreviewCommand(
         translationPreviewManager,
         secretStorageService,
+        translationProviders,
+        logger,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.saveTranslationAsMarkdown',
+      createSaveTranslationAsMarkdownCommand(translationPreviewManager, outputService, logger),
+    ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.exportTranslationXliff',
+      createExportTranslationXliffCommand(translationPreviewManager, exportService, logger),
+    ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.importTranslationXliff',
+      createImportTranslationXliffCommand(
+        translationPreviewManager,
+        translationService,
+        overrideStore,
+        logger,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.exportTranslationMemory',
+      createExportTranslationMemoryCommand(
+        translationMemory,
+        exportService,
+        logger,
+        String(context.extension.packageJSON.version ?? ''),
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.translateWorkspace',
+      createTranslateWorkspaceCommand(
+        batchTranslationService,
+        secretStorageService,
+        translationProviders,
         logger,
       ),
     ),
@@ -83,5 +176,18 @@ export function registerCommands(context: vscode.ExtensionContext): vscode.Dispo
       'babelMdViewer.exportMarkdownAsPdf',
       createExportMarkdownCommand(editorExportService, logger, 'pdf'),
     ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.exportMarkdownAsDocx',
+      createExportMarkdownCommand(editorExportService, logger, 'docx'),
+    ),
+    vscode.commands.registerCommand(
+      'babelMdViewer.exportWorkspace',
+      createExportWorkspaceCommand(
+        editorExportService,
+        batchTranslationService,
+        outputService,
+        logger,
+      ),
+    ),
   ];
 }
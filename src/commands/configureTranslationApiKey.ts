@@ -27,7 +27,7 @@ export function createConfigureTranslationApiKeyCommand(
           return null;
         }
 
-        if (!value.trim().startsWith('sk-')) {
+        if (configuration.translation.provider === 'openai' && !value.trim().startsWith('sk-')) {
           return localize('command.configureApiKey.validation');
         }
 
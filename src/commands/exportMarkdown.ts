@@ -4,7 +4,7 @@ import { EditorExportService } from '../services/EditorExportService';
 import { ExtensionLogger } from '../utils/logger';
 import { localize } from '../i18n/localize';
 
-type ExportFormat = 'png' | 'pdf';
+type ExportFormat = 'png' | 'pdf' | 'docx';
 
 export function createExportMarkdownCommand(
   editorExportService: EditorExportService,
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+
+import { MarkdownExportService } from '../services/MarkdownExportService';
+import { TranslationMemory } from '../services/TranslationMemory';
+import { getExtensionConfiguration } from '../utils/config';
+import { localize } from '../i18n/localize';
+import { ExtensionLogger } from '../utils/logger';
+import { buildTmx } from '../utils/tmx';
+
+export function createExportTranslationMemoryCommand(
+  translationMemory: TranslationMemory,
+  exportService: MarkdownExportService,
+  logger: ExtensionLogger,
+  toolVersion: string,
+): () => Promise<void> {
+  return async () => {
+    const documentUri = vscode.window.activeTextEditor?.document.uri;
+    const configuration = getExtensionConfiguration(documentUri);
+    const languages = configuration.translation.targetLanguages;
+    const targetLanguage =
+      languages.length === 1
+        ? languages[0]
+        : await vscode.window.showQuickPick(languages, {
+            placeHolder: localize('command.tmx.pickLanguage'),
+          });
+
+    if (!targetLanguage) {
+      return;
+    }
+
+    const entries = await translationMemory.getEntries(targetLanguage);
+
+    if (entries.length === 0) {
+      void vscode.window.showInformationMessage(
+        localize('command.tmx.empty', { language: targetLanguage }),
+      );
+      return;
+    }
+
+    logger.info(
+      `Exporting ${entries.length} translation memory entries (${targetLanguage}) as TMX.`,
+    );
+    await exportService.exportText({
+      content: buildTmx({
+        srcLang: configuration.translation.sourceLanguage,
+        trgLang: targetLanguage,
+        toolVersion,
+        units: entries.map((entry) => ({
+          source: entry.source,
+          target: entry.translation,
+          changedAt: entry.updatedAt,
+        })),
+      }),
+      format: 'tmx',
+      documentUri,
+      fileNameHint: `translation-memory.${targetLanguage}.tmx`,
+    });
+  };
+}
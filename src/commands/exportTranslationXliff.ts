@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { basename } from 'path';
+
+import { TranslationPreviewManager } from '../panel/TranslationPreviewManager';
+import { MarkdownExportService } from '../services/MarkdownExportService';
+import { getExtensionConfiguration } from '../utils/config';
+import { localize } from '../i18n/localize';
+import { ExtensionLogger } from '../utils/logger';
+import { hasTranslatableText, maskMarkdown } from '../utils/masking';
+import { buildXliff } from '../utils/xliff';
+
+export function createExportTranslationXliffCommand(
+  previewManager: TranslationPreviewManager,
+  exportService: MarkdownExportService,
+  logger: ExtensionLogger,
+): () => Promise<void> {
+  return async () => {
+    const editor = vscode.window.activeTextEditor;
+
+    if (!editor || editor.document.languageId !== 'markdown') {
+      void vscode.window.showWarningMessage(localize('command.xliff.noDocument'));
+      return;
+    }
+
+    const document = editor.document;
+    const languages = previewManager
+      .getTranslatedDocuments(document)
+      .map((translation) => translation.targetLanguage);
+
+    if (languages.length === 0) {
+      void vscode.window.showWarningMessage(localize('command.xliff.noResult'));
+      return;
+    }
+
+    const targetLanguage =
+      languages.length === 1
+        ? languages[0]
+        : await vscode.window.showQuickPick(languages, {
+            placeHolder: localize('command.xliff.pickLanguage'),
+          });
+
+    if (!targetLanguage) {
+      return;
+    }
+
+    const translation = await previewManager.getTranslatedSegments(document, targetLanguage);
+
+    if (!translation) {
+      void vscode.window.showWarningMessage(localize('command.xliff.noResult'));
+      return;
+    }
+
+    if (translation.sourceVersion !== document.version) {
+      void vscode.window.showWarningMessage(localize('command.xliff.outdated'));
+      return;
+    }
+
+    const configuration = getExtensionConfiguration(document);
+    const xliff = buildXliff({
+      srcLang: configuration.translation.sourceLanguage,
+      trgLang: targetLanguage,
+      original: vscode.workspace.asRelativePath(document.uri, false),
+      // Hand-edited segments count as reviewed; code-only ones are never sent for translation.
+      units: translation.segments.map((segment, index) => ({
+        id: `s${index + 1}`,
+        source: segment.source,
+        target: segment.translation,
+        state: segment.override === 'applied' ? 'reviewed' : 'translated',
+        translate: hasTranslatableText(maskMarkdown(segment.source)),
+      })),
+    });
+    const name = basename(document.uri.path).replace(/\.[^.]+$/, '');
+
+    logger.info(
+      `Exporting ${translation.segments.length} segment(s) of ${vscode.workspace.asRelativePath(document.uri)} (${targetLanguage}) as XLIFF.`,
+    );
+    await exportService.exportText({
+      content: xliff,
+      format: 'xlf',
+      documentUri: document.uri,
+      fileNameHint: `${name}.${targetLanguage}.xlf`,
+    });
+  };
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+
+import { BatchTranslationService } from '../services/BatchTranslationService';
+import {
+  BatchExportItem,
+  BatchExportJob,
+  EditorExportService,
+} from '../services/EditorExportService';
+import type { ExportFormat } from '../services/MarkdownExportService';
+import { TranslationOutputService } from '../services/TranslationOutputService';
+import { getExtensionConfiguration } from '../utils/config';
+import { localize } from '../i18n/localize';
+import type { TranslationKey } from '../i18n/localize';
+import { ExtensionLogger } from '../utils/logger';
+import { resolveExportPath } from '../utils/outputPath';
+
+const DEFAULT_GLOB = '**/*.md';
+const FORMAT_LABELS: Record<ExportFormat, TranslationKey> = {
+  pdf: 'export.fileFilter.pdf',
+  png: 'export.fileFilter.image',
+  html: 'export.fileFilter.html',
+  docx: 'export.fileFilter.docx',
+};
+/** Failed files named in the summary; the log has all of them. */
+const MAX_LISTED_FAILURES = 5;
+
+export function createExportWorkspaceCommand(
+  editorExportService: EditorExportService,
+  batchService: BatchTranslationService,
+  outputService: TranslationOutputService,
+  logger: ExtensionLogger,
+): () => Promise<void> {
+  return async () => {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+
+    if (!workspaceFolders?.length) {
+      void vscode.window.showWarningMessage(localize('command.exportWorkspace.noWorkspace'));
+      return;
+    }
+
+    const glob = await vscode.window.showInputBox({
+      prompt: localize('command.exportWorkspace.globPrompt'),
+      value: DEFAULT_GLOB,
+      ignoreFocusOut: true,
+    });
+
+    if (!glob?.trim()) {
+      return;
+    }
+
+    const formatPick = await vscode.window.showQuickPick(
+      (Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => ({
+        label: localize(FORMAT_LABELS[format]),
+        description: `.${format}`,
+        format,
+      })),
+      { placeHolder: localize('command.exportWorkspace.pickFormat') },
+    );
+
+    if (!formatPick) {
+      return;
+    }
+
+    const targetLanguages = getExtensionConfiguration(workspaceFolders[0].uri).translation
+      .targetLanguages;
+    const versions = await pickVersions(targetLanguages);
+
+    if (!versions?.length) {
+      return;
+    }
+
+    const [outputFolder] =
+      (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: workspaceFolders[0].uri,
+        openLabel: localize('command.exportWorkspace.pickFolder'),
+      })) ?? [];
+
+    if (!outputFolder) {
+      return;
+    }
+
+    const matches = await vscode.workspace.findFiles(glob.trim(), '**/node_modules/**');
+    const files = batchService
+      .excludeTranslationOutputs(matches, targetLanguages)
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    if (files.length === 0) {
+      void vscode.window.showInformationMessage(
+        localize('command.translateWorkspace.noFiles', { glob }),
+      );
+      return;
+    }
+
+    // Files are named after their workspace path, so repeated runs overwrite the same outputs.
+    const jobs = files.flatMap((uri): BatchExportJob[] => {
+      const documentPath = vscode.workspace.asRelativePath(uri, workspaceFolders.length > 1);
+      const pattern = getExtensionConfiguration(uri).translation.outputPathPattern;
+
+      return versions.map((targetLanguage) => ({
+        uri: targetLanguage ? outputService.resolveTarget(uri, targetLanguage, pattern) : uri,
+        target: vscode.Uri.joinPath(
+          outputFolder,
+          resolveExportPath(documentPath, formatPick.format, targetLanguage),
+        ),
+        documentPath,
+        targetLanguage,
+      }));
+    });
+
+    try {
+      const items = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: localize('command.exportWorkspace.progressTitle'),
+          cancellable: true,
+        },
+        (progress, token) =>
+          editorExportService.exportDocuments({
+            jobs,
+            format: formatPick.format,
+            token,
+            onItemCompleted: (item, completed, total) => {
+              progress.report({
+                increment: 100 / total,
+                message: `${completed}/${total} · ${item.documentPath}${
+                  item.targetLanguage ? ` (${item.targetLanguage})` : ''
+                }`,
+              });
+            },
+          }),
+      );
+
+      const count = (status: BatchExportItem['status']): string =>
+        String(items.filter((item) => item.status === status).length);
+      const failed = items.filter((item) => item.status === 'failed');
+      const summary = localize('command.exportWorkspace.summary', {
+        exported: count('exported'),
+        failed: count('failed'),
+        cancelled: count('cancelled'),
+        folder: outputFolder.fsPath,
+      });
+      const openFolder = localize('command.exportWorkspace.openFolder');
+      const choice =
+        failed.length > 0
+          ? await vscode.window.showWarningMessage(
+              `${summary} ${localize('command.exportWorkspace.failedFiles', {
+                files: failed
+                  .slice(0, MAX_LISTED_FAILURES)
+                  .map((item) =>
+                    item.targetLanguage
+                      ? `${item.documentPath} (${item.targetLanguage})`
+                      : item.documentPath,
+                  )
+                  .join(', ')
+                  .concat(failed.length > MAX_LISTED_FAILURES ? ', …' : ''),
+              })}`,
+              openFolder,
+            )
+          : await vscode.window.showInformationMessage(summary, openFolder);
+
+      if (choice === openFolder) {
+        await vscode.commands.executeCommand('revealFileInOS', outputFolder);
+      }
+    } catch (error) {
+      logger.error('Failed to export workspace Markdown files.', error);
+      void vscode.window.showErrorMessage(localize('command.exportWorkspace.failure'));
+    }
+  };
+}
+
+/** The original document and/or saved translations; `undefined` stands for the original. */
+async function pickVersions(
+  languages: readonly string[],
+): Promise<Array<string | undefined> | undefined> {
+  if (languages.length === 0) {
+    return [undefined];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: localize('command.exportWorkspace.original'), language: undefined, picked: true },
+      ...languages.map((language) => ({
+        label: language,
+        description: localize('command.exportWorkspace.translation'),
+        language,
+        picked: false,
+      })),
+    ],
+    { canPickMany: true, placeHolder: localize('command.exportWorkspace.pickVersions') },
+  );
+
+  return picked?.map((item) => item.language);
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+
+import { TranslationPreviewManager } from '../panel/TranslationPreviewManager';
+import { TranslationOverrideStore } from '../services/TranslationOverrideStore';
+import { TranslationService } from '../services/TranslationService';
+import { getExtensionConfiguration } from '../utils/config';
+import { localize } from '../i18n/localize';
+import { ExtensionLogger } from '../utils/logger';
+import { fingerprintSegmentSource } from '../utils/overrides';
+import { XliffDocument, matchTargetLanguage, parseXliff } from '../utils/xliff';
+
+const decoder = new TextDecoder();
+
+/**
+ * Imports the targets of a reviewed XLIFF file as overrides of the active document. Units are
+ * matched to the current segments by their source text, so reordered segments still line up and
+ * units whose source was edited since the export are skipped.
+ */
+export function createImportTranslationXliffCommand(
+  previewManager: TranslationPreviewManager,
+  translationService: TranslationService,
+  overrideStore: TranslationOverrideStore,
+  logger: ExtensionLogger,
+): () => Promise<void> {
+  return async () => {
+    const editor = vscode.window.activeTextEditor;
+
+    if (!editor || editor.document.languageId !== 'markdown') {
+      void vscode.window.showWarningMessage(localize('command.xliff.noDocument'));
+      return;
+    }
+
+    const document = editor.document;
+
+    if (!overrideStore.supports(document)) {
+      void vscode.window.showWarningMessage(localize('translation.override.noWorkspace'));
+      return;
+    }
+
+    const [fileUri] =
+      (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: vscode.workspace.getWorkspaceFolder(document.uri)?.uri,
+        filters: { [localize('export.fileFilter.xliff')]: ['xlf', 'xliff'] },
+        openLabel: localize('command.xliff.openLabel'),
+      })) ?? [];
+
+    if (!fileUri) {
+      return;
+    }
+
+    let xliff: XliffDocument;
+
+    try {
+      xliff = parseXliff(decoder.decode(await vscode.workspace.fs.readFile(fileUri)));
+      if (!xliff.trgLang) {
+        throw new Error('The file has no trgLang attribute.');
+      }
+    } catch (error) {
+      logger.warn(
+        `Failed to read XLIFF from ${fileUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+      );
+      void vscode.window.showErrorMessage(
+        localize('command.xliff.invalid', {
+          path: vscode.workspace.asRelativePath(fileUri),
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+      return;
+    }
+
+    const documentPath = vscode.workspace.asRelativePath(document.uri, false);
+
+    if (xliff.original && xliff.original !== documentPath) {
+      const importAnyway = localize('command.xliff.importAnyway');
+      const choice = await vscode.window.showWarningMessage(
+        localize('command.xliff.otherDocument', { original: xliff.original, path: documentPath }),
+        { modal: true },
+        importAnyway,
+      );
+
+      if (choice !== importAnyway) {
+        return;
+      }
+    }
+
+    const configuration = getExtensionConfiguration(document);
+    // Overrides are keyed by the configured tag, so `de_de` in the file must become `de-DE`.
+    const targetLanguage =
+      matchTargetLanguage(xliff.trgLang, configuration.translation.targetLanguages) ??
+      (await vscode.window.showQuickPick(configuration.translation.targetLanguages, {
+        placeHolder: localize('command.xliff.unknownLanguage', { language: xliff.trgLang }),
+      }));
+
+    if (!targetLanguage) {
+      return;
+    }
+
+    const segments = translationService
+      .planDocument(document, configuration)
+      .map(({ markdown, startLine, endLine }) => ({ markdown, startLine, endLine }));
+    const indexBySource = new Map(
+      segments.map((segment, index) => [fingerprintSegmentSource(segment.markdown), index]),
+    );
+    const translations = new Map<number, string>();
+    let skipped = 0;
+
+    for (const unit of xliff.units) {
+      const target = unit.target?.trim();
+
+      if (!unit.translate || !target || unit.state === 'initial') {
+        continue;
+      }
+
+      const index = indexBySource.get(fingerprintSegmentSource(unit.source));
+
+      if (index === undefined) {
+        skipped += 1;
+        continue;
+      }
+
+      translations.set(index, target);
+    }
+
+    if (translations.size === 0) {
+      void vscode.window.showWarningMessage(localize('command.xliff.nothingToImport'));
+      return;
+    }
+
+    try {
+      await overrideStore.saveAll(document, targetLanguage, segments, translations);
+    } catch (error) {
+      logger.error(`Failed to import XLIFF overrides for ${documentPath}.`, error);
+      void vscode.window.showErrorMessage(localize('command.xliff.importFailure'));
+      return;
+    }
+
+    logger.event('translation.xliffImported', {
+      documentPath,
+      targetLanguage,
+      imported: translations.size,
+      skipped,
+    });
+    void vscode.window.showInformationMessage(
+      localize('command.xliff.imported', {
+        count: translations.size,
+        language: targetLanguage,
+        skipped,
+      }),
+    );
+    await previewManager.reloadPreview(document, targetLanguage);
+  };
+}
@@ -2,14 +2,15 @@ import * as vscode from 'vscode';
 
 import { TranslationPreviewManager } from '../panel/TranslationPreviewManager';
 import { SecretStorageService } from '../services/SecretStorageService';
-import type { ResolvedTranslationConfiguration } from '../types/translation';
-import { getExtensionConfiguration } from '../utils/config';
+import { TranslationProviderRegistry } from '../services/TranslationProviderRegistry';
+import { getExtensionConfiguration, resolveTranslationConfiguration } from '../utils/config';
 import { localize } from '../i18n/localize';
 import { ExtensionLogger } from '../utils/logger';
 
 export function createOpenTranslationPreviewCommand(
   previewManager: TranslationPreviewManager,
   secretService: SecretStorageService,
+  providers: TranslationProviderRegistry,
   logger: ExtensionLogger,
 ): () => Promise<void> {
   return async () => {
@@ -30,18 +31,12 @@ export function createOpenTranslationPreviewCommand(
     const configKey = configuration.translation.apiKey;
     const apiKey = secretKey ?? configKey;
 
-    if (!apiKey) {
+    if (!apiKey && providers.requiresApiKey(configuration.translation.provider)) {
       void vscode.window.showWarningMessage(localize('command.openTranslation.missingKey'));
       return;
     }
 
-    const resolvedConfig: ResolvedTranslationConfiguration = {
-      apiBaseUrl: configuration.translation.apiBaseUrl,
-      apiKey,
-      model: configuration.translation.model,
-      targetLanguage: configuration.translation.targetLanguage,
-      timeoutMs: configuration.translation.timeoutMs,
-    };
+    const resolvedConfig = resolveTranslationConfiguration(configuration.translation, apiKey ?? '');
 
     try {
       await previewManager.openPreview({
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+
+import { TranslationPreviewManager } from '../panel/TranslationPreviewManager';
+import { SecretStorageService } from '../services/SecretStorageService';
+import { TranslationProviderRegistry } from '../services/TranslationProviderRegistry';
+import { getExtensionConfiguration, resolveTranslationConfiguration } from '../utils/config';
+import { localize } from '../i18n/localize';
+import { ExtensionLogger } from '../utils/logger';
+
+export function createOpenTranslationPreviewForLanguageCommand(
+  previewManager: TranslationPreviewManager,
+  secretService: SecretStorageService,
+  providers: TranslationProviderRegistry,
+  logger: ExtensionLogger,
+): () => Promise<void> {
+  return async () => {
+    const editor = vscode.window.activeTextEditor;
+
+    if (!editor) {
+      void vscode.window.showWarningMessage(localize('command.openTranslation.noDocument'));
+      return;
+    }
+
+    if (editor.document.languageId !== 'markdown') {
+      void vscode.window.showWarningMessage(localize('command.openTranslation.onlyMarkdown'));
+      return;
+    }
+
+    const configuration = getExtensionConfiguration(editor.document);
+    const targetLanguage = await pickTargetLanguage(configuration.translation.targetLanguages);
+
+    if (!targetLanguage) {
+      return;
+    }
+
+    const secretKey = await secretService.getTranslationApiKey();
+    const configKey = configuration.translation.apiKey;
+    const apiKey = secretKey ?? configKey;
+
+    if (!apiKey && providers.requiresApiKey(configuration.translation.provider)) {
+      void vscode.window.showWarningMessage(localize('command.openTranslation.missingKey'));
+      return;
+    }
+
+    const resolvedConfig = resolveTranslationConfiguration(
+      configuration.translation,
+      apiKey ?? '',
+      targetLanguage,
+    );
+
+    try {
+      await previewManager.openPreview({
+        document: editor.document,
+        configuration,
+        resolvedConfig,
+      });
+    } catch (error) {
+      logger.error(`Failed to open translation preview for ${targetLanguage}.`, error);
+      void vscode.window.showErrorMessage(localize('command.openTranslation.failure'));
+    }
+  };
+}
+
+async function pickTargetLanguage(languages: readonly string[]): Promise<string | undefined> {
+  const otherLabel = localize('command.openTranslationForLanguage.other');
+  const picked = await vscode.window.showQuickPick([...languages, otherLabel], {
+    placeHolder: localize('command.openTranslationForLanguage.placeholder'),
+  });
+
+  if (picked !== otherLabel) {
+    return picked;
+  }
+
+  const entered = await vscode.window.showInputBox({
+    prompt: localize('command.openTranslationForLanguage.inputPrompt'),
+    ignoreFocusOut: true,
+  });
+
+  return entered?.trim() || undefined;
+}
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+
+import { TranslationPreviewManager } from '../panel/TranslationPreviewManager';
+import { TranslationOutputService } from '../services/TranslationOutputService';
+import { getExtensionConfiguration } from '../utils/config';
+import { localize } from '../i18n/localize';
+import { ExtensionLogger } from '../utils/logger';
+
+export function createSaveTranslationAsMarkdownCommand(
+  previewManager: TranslationPreviewManager,
+  outputService: TranslationOutputService,
+  logger: ExtensionLogger,
+): () => Promise<void> {
+  return async () => {
+    const editor = vscode.window.activeTextEditor;
+
+    if (!editor || editor.document.languageId !== 'markdown') {
+      void vscode.window.showWarningMessage(localize('command.saveTranslation.noDocument'));
+      return;
+    }
+
+    const document = editor.document;
+    const translations = previewManager.getTranslatedDocuments(document);
+
+    if (translations.length === 0) {
+      void vscode.window.showWarningMessage(localize('command.saveTranslation.noResult'));
+      return;
+    }
+
+    const translation =
+      translations.length === 1
+        ? translations[0]
+        : await vscode.window
+            .showQuickPick(
+              translations.map((entry) => ({ label: entry.targetLanguage, entry })),
+              { placeHolder: localize('command.saveTranslation.pickLanguage') },
+            )
+            .then((picked) => picked?.entry);
+
+    if (!translation) {
+      return;
+    }
+
+    if (translation.sourceVersion !== document.version) {
+      const saveAnyway = localize('command.saveTranslation.saveAnyway');
+      const choice = await vscode.window.showWarningMessage(
+        localize('command.saveTranslation.outdated'),
+        { modal: true },
+        saveAnyway,
+      );
+
+      if (choice !== saveAnyway) {
+        return;
+      }
+    }
+
+    const configuration = getExtensionConfiguration(document);
+
+    try {
+      const { status, uri } = await outputService.write({
+        document,
+        targetLanguage: translation.targetLanguage,
+        markdown: translation.markdown,
+        pattern: configuration.translation.outputPathPattern,
+        confirmOverwrite: true,
+      });
+      const path = vscode.workspace.asRelativePath(uri);
+
+      if (status === 'written') {
+        void vscode.window.showInformationMessage(
+          localize('command.saveTranslation.success', { path }),
+        );
+      } else if (status === 'unchanged') {
+        void vscode.window.showInformationMessage(
+          localize('command.saveTranslation.unchanged', { path }),
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to save translation as Markdown.', error);
+      void vscode.window.showErrorMessage(localize('command.saveTranslation.failure'));
+    }
+  };
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+
+import { BatchTranslationService } from '../services/BatchTranslationService';
+import { SecretStorageService } from '../services/SecretStorageService';
+import { TranslationProviderRegistry } from '../services/TranslationProviderRegistry';
+import { buildBatchReport, summarizeBatch } from '../utils/batchReport';
+import { getExtensionConfiguration } from '../utils/config';
+import { localize } from '../i18n/localize';
+import { ExtensionLogger } from '../utils/logger';
+import { createUsageMeter, formatCost } from '../utils/usage';
+
+const DEFAULT_GLOB = '**/*.md';
+const encoder = new TextEncoder();
+
+export function createTranslateWorkspaceCommand(
+  batchService: BatchTranslationService,
+  secretService: SecretStorageService,
+  providers: TranslationProviderRegistry,
+  logger: ExtensionLogger,
+): () => Promise<void> {
+  return async () => {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+    if (!workspaceFolder) {
+      void vscode.window.showWarningMessage(localize('command.translateWorkspace.noWorkspace'));
+      return;
+    }
+
+    const glob = await vscode.window.showInputBox({
+      prompt: localize('command.translateWorkspace.globPrompt'),
+      value: DEFAULT_GLOB,
+      ignoreFocusOut: true,
+    });
+
+    if (!glob?.trim()) {
+      return;
+    }
+
+    const configuration = getExtensionConfiguration(workspaceFolder.uri);
+    const targetLanguages = await pickTargetLanguages(configuration.translation.targetLanguages);
+
+    if (!targetLanguages?.length) {
+      return;
+    }
+
+    const secretKey = await secretService.getTranslationApiKey();
+    const apiKey = secretKey ?? configuration.translation.apiKey;
+
+    if (!apiKey && providers.requiresApiKey(configuration.translation.provider)) {
+      void vscode.window.showWarningMessage(localize('command.openTranslation.missingKey'));
+      return;
+    }
+
+    const matches = await vscode.workspace.findFiles(glob.trim(), '**/node_modules/**');
+    const files = batchService
+      .excludeTranslationOutputs(matches, targetLanguages)
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    if (files.length === 0) {
+      void vscode.window.showInformationMessage(
+        localize('command.translateWorkspace.noFiles', { glob }),
+      );
+      return;
+    }
+
+    const start = localize('command.translateWorkspace.start');
+    const choice = await vscode.window.showWarningMessage(
+      localize('command.translateWorkspace.confirm', {
+        count: String(files.length),
+        languages: targetLanguages.join(', '),
+      }),
+      { modal: true },
+      start,
+    );
+
+    if (choice !== start) {
+      return;
+    }
+
+    const usageMeter = createUsageMeter({
+      maxCost: configuration.translation.budgetMaxCost,
+      action: configuration.translation.budgetAction,
+      onBudgetWarning: (spent, maxCost) => {
+        void vscode.window.showWarningMessage(
+          localize('translation.budget.warning', {
+            spent: formatCost(spent),
+            limit: formatCost(maxCost),
+          }),
+        );
+      },
+    });
+
+    try {
+      const startedAt = new Date();
+      const items = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: localize('command.translateWorkspace.progressTitle'),
+          cancellable: true,
+        },
+        (progress, token) =>
+          batchService.run({
+            files,
+            targetLanguages,
+            apiKey: apiKey ?? '',
+            concurrency: configuration.translation.batchConcurrency,
+            token,
+            usageMeter,
+            onItemCompleted: (item, completed, total) => {
+              progress.report({
+                increment: 100 / total,
+                message: `${completed}/${total} · ${item.documentPath} (${item.targetLanguage})`,
+              });
+            },
+          }),
+      );
+
+      const report = buildBatchReport(items, { glob, startedAt, finishedAt: new Date() });
+      const reportUri = vscode.Uri.joinPath(
+        workspaceFolder.uri,
+        '.babelmd',
+        'reports',
+        `translation-${startedAt.toISOString().replace(/[:.]/g, '-')}.md`,
+      );
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(reportUri, '..'));
+      await vscode.workspace.fs.writeFile(reportUri, encoder.encode(report));
+      await vscode.window.showTextDocument(reportUri, { preview: false });
+
+      const summary = summarizeBatch(items);
+      void vscode.window.showInformationMessage(
+        localize('command.translateWorkspace.summary', {
+          translated: String(summary.translated),
+          cached: String(summary.cached),
+          warnings: String(summary.withWarnings),
+          failed: String(summary.failed),
+          cancelled: String(summary.cancelled),
+        }),
+      );
+    } catch (error) {
+      logger.error('Failed to translate workspace Markdown files.', error);
+      void vscode.window.showErrorMessage(localize('command.translateWorkspace.failure'));
+    }
+  };
+}
+
+async function pickTargetLanguages(languages: readonly string[]): Promise<string[] | undefined> {
+  if (languages.length <= 1) {
+    return [...languages];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    languages.map((language) => ({ label: language, picked: true })),
+    { canPickMany: true, placeHolder: localize('command.translateWorkspace.pickLanguages') },
+  );
+
+  return picked?.map((item) => item.label);
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 
+import type { TranslationViewMode } from '../types/config';
+
 type SupportedLocale = 'en' | 'zh-cn';
 
 type LocalizationParams = Record<string, string | number>;
@@ -43,6 +45,209 @@ const translations = {
     en: 'Unable to open translation preview. Check logs for details.',
     'zh-cn': '无法打开翻译预览。请查看日志了解详情。',
   },
+  'command.openTranslationForLanguage.placeholder': {
+    en: 'Select the language for the new translation preview',
+    'zh-cn': '选择新翻译预览的目标语言',
+  },
+  'command.openTranslationForLanguage.other': {
+    en: 'Other language…',
+    'zh-cn': '其他语言…',
+  },
+  'command.openTranslationForLanguage.inputPrompt': {
+    en: 'Enter a target language code, for example "ja" or "zh-CN".',
+    'zh-cn': '请输入目标语言代码，例如 “ja” 或 “zh-CN”。',
+  },
+  'command.saveTranslation.noDocument': {
+    en: 'No active Markdown document to save a translation for.',
+    'zh-cn': '没有可保存译文的活动 Markdown 文档。',
+  },
+  'command.saveTranslation.noResult': {
+    en: 'Open a translation preview and wait for it to finish before saving.',
+    'zh-cn': '请先打开翻译预览并等待翻译完成，然后再保存。',
+  },
+  'command.saveTranslation.pickLanguage': {
+    en: 'Select the translation to save',
+    'zh-cn': '选择要保存的译文',
+  },
+  'command.saveTranslation.outdated': {
+    en: 'The source changed after this translation finished. Save the older translation anyway?',
+    'zh-cn': '该译文完成后源文档已被修改。仍要保存较旧的译文吗？',
+  },
+  'command.saveTranslation.saveAnyway': {
+    en: 'Save Anyway',
+    'zh-cn': '仍然保存',
+  },
+  'command.saveTranslation.success': {
+    en: 'Saved translation to {path}',
+    'zh-cn': '已将译文保存到 {path}',
+  },
+  'command.saveTranslation.unchanged': {
+    en: '{path} is already up to date.',
+    'zh-cn': '{path} 已是最新内容。',
+  },
+  'command.saveTranslation.failure': {
+    en: 'Unable to save the translation. Check logs for details.',
+    'zh-cn': '无法保存译文。请查看日志了解详情。',
+  },
+  'command.xliff.noDocument': {
+    en: 'No active Markdown document to exchange translations for.',
+    'zh-cn': '没有可交换译文的活动 Markdown 文档。',
+  },
+  'command.xliff.noResult': {
+    en: 'Open a translation preview and wait for it to finish before exporting XLIFF.',
+    'zh-cn': '请先打开翻译预览并等待翻译完成，然后再导出 XLIFF。',
+  },
+  'command.xliff.pickLanguage': {
+    en: 'Select the translation to export as XLIFF',
+    'zh-cn': '选择要导出为 XLIFF 的译文',
+  },
+  'command.xliff.outdated': {
+    en: 'The source changed after this translation finished. Wait for the preview to update before exporting XLIFF.',
+    'zh-cn': '该译文完成后源文档已被修改。请等待预览更新后再导出 XLIFF。',
+  },
+  'command.xliff.openLabel': {
+    en: 'Import XLIFF',
+    'zh-cn': '导入 XLIFF',
+  },
+  'command.xliff.invalid': {
+    en: 'Could not read {path} as an XLIFF 2.0 file with a target language. ({message})',
+    'zh-cn': '无法将 {path} 读取为带目标语言的 XLIFF 2.0 文件。（{message}）',
+  },
+  'command.xliff.otherDocument': {
+    en: 'This XLIFF file was exported from {original}. Import its translations into {path} anyway?',
+    'zh-cn': '该 XLIFF 文件导出自 {original}。仍要将其译文导入 {path} 吗？',
+  },
+  'command.xliff.importAnyway': {
+    en: 'Import Anyway',
+    'zh-cn': '仍然导入',
+  },
+  'command.xliff.unknownLanguage': {
+    en: 'The XLIFF file targets {language}, which is not a configured target language. Select the language to import it as',
+    'zh-cn': '该 XLIFF 文件的目标语言 {language} 不在已配置的目标语言中。请选择导入时使用的语言',
+  },
+  'command.xliff.nothingToImport': {
+    en: 'No translated unit in the XLIFF file matches the current text of the document.',
+    'zh-cn': 'XLIFF 文件中没有与文档当前内容匹配的已翻译单元。',
+  },
+  'command.xliff.imported': {
+    en: 'Imported {count} reviewed translation(s) for {language} as overrides; {skipped} unit(s) no longer match the document.',
+    'zh-cn':
+      '已将 {count} 条审校后的 {language} 译文导入为手动修改；{skipped} 个单元已与文档不匹配。',
+  },
+  'command.xliff.importFailure': {
+    en: 'Unable to import the XLIFF file. Check logs for details.',
+    'zh-cn': '无法导入 XLIFF 文件。请查看日志了解详情。',
+  },
+  'command.tmx.pickLanguage': {
+    en: 'Select the translation memory to export',
+    'zh-cn': '选择要导出的翻译记忆',
+  },
+  'command.tmx.empty': {
+    en: 'The translation memory for {language} is empty.',
+    'zh-cn': '{language} 的翻译记忆为空。',
+  },
+  'output.overwrite.prompt': {
+    en: '{path} already exists with different content. Overwrite it?',
+    'zh-cn': '{path} 已存在且内容不同。是否覆盖？',
+  },
+  'output.overwrite.confirm': {
+    en: 'Overwrite',
+    'zh-cn': '覆盖',
+  },
+  'output.overwrite.compare': {
+    en: 'Compare',
+    'zh-cn': '比较',
+  },
+  'output.overwrite.diffTitle': {
+    en: '{file} ↔ New Translation',
+    'zh-cn': '{file} ↔ 新译文',
+  },
+  'command.translateWorkspace.noWorkspace': {
+    en: 'Open a workspace folder to translate its Markdown files.',
+    'zh-cn': '请先打开一个工作区文件夹再批量翻译 Markdown 文件。',
+  },
+  'command.translateWorkspace.globPrompt': {
+    en: 'Glob pattern of Markdown files to translate',
+    'zh-cn': '要翻译的 Markdown 文件的 glob 模式',
+  },
+  'command.translateWorkspace.pickLanguages': {
+    en: 'Select the target languages',
+    'zh-cn': '选择目标语言',
+  },
+  'command.translateWorkspace.noFiles': {
+    en: 'No Markdown files match {glob}.',
+    'zh-cn': '没有与 {glob} 匹配的 Markdown 文件。',
+  },
+  'command.translateWorkspace.confirm': {
+    en: 'Translate {count} file(s) into {languages}? Existing translation outputs will be overwritten.',
+    'zh-cn': '要将 {count} 个文件翻译为 {languages} 吗？已有的译文文件将被覆盖。',
+  },
+  'command.translateWorkspace.start': {
+    en: 'Translate',
+    'zh-cn': '开始翻译',
+  },
+  'command.translateWorkspace.progressTitle': {
+    en: 'Babel Markdown: Translating workspace',
+    'zh-cn': 'Babel Markdown：正在翻译工作区',
+  },
+  'command.translateWorkspace.summary': {
+    en: 'Workspace translation finished: {translated} translated, {cached} from cache, {warnings} with warnings, {failed} failed, {cancelled} cancelled.',
+    'zh-cn':
+      '工作区翻译完成：已翻译 {translated} 个，缓存命中 {cached} 个，含警告 {warnings} 个，失败 {failed} 个，已取消 {cancelled} 个。',
+  },
+  'command.translateWorkspace.failure': {
+    en: 'Unable to translate workspace Markdown files. Check logs for details.',
+    'zh-cn': '无法批量翻译工作区 Markdown 文件。请查看日志了解详情。',
+  },
+  'command.exportWorkspace.noWorkspace': {
+    en: 'Open a workspace folder to export its Markdown files.',
+    'zh-cn': '请先打开一个工作区文件夹再批量导出 Markdown 文件。',
+  },
+  'command.exportWorkspace.globPrompt': {
+    en: 'Glob pattern of Markdown files to export',
+    'zh-cn': '要导出的 Markdown 文件的 glob 模式',
+  },
+  'command.exportWorkspace.pickFormat': {
+    en: 'Select the export format',
+    'zh-cn': '选择导出格式',
+  },
+  'command.exportWorkspace.pickVersions': {
+    en: 'Select what to export: the original files and/or their saved translations',
+    'zh-cn': '选择要导出的内容：原始文件和/或已保存的译文',
+  },
+  'command.exportWorkspace.original': {
+    en: 'Original',
+    'zh-cn': '原文',
+  },
+  'command.exportWorkspace.translation': {
+    en: 'Saved translation',
+    'zh-cn': '已保存的译文',
+  },
+  'command.exportWorkspace.pickFolder': {
+    en: 'Export Here',
+    'zh-cn': '导出到此处',
+  },
+  'command.exportWorkspace.progressTitle': {
+    en: 'Babel Markdown: Exporting workspace',
+    'zh-cn': 'Babel Markdown：正在导出工作区',
+  },
+  'command.exportWorkspace.summary': {
+    en: 'Workspace export finished: {exported} exported to {folder}, {failed} failed, {cancelled} cancelled.',
+    'zh-cn':
+      '工作区导出完成：已导出 {exported} 个到 {folder}，失败 {failed} 个，已取消 {cancelled} 个。',
+  },
+  'command.exportWorkspace.failedFiles': {
+    en: 'Failed: {files}. Check logs for details.',
+    'zh-cn': '失败的文件：{files}。请查看日志了解详情。',
+  },
+  'command.exportWorkspace.openFolder': {
+    en: 'Open Folder',
+    'zh-cn': '打开文件夹',
+  },
+  'command.exportWorkspace.failure': {
+    en: 'Unable to export workspace Markdown files. Check logs for details.',
+    'zh-cn': '无法批量导出工作区 Markdown 文件。请查看日志了解详情。',
+  },
   'command.refreshTranslation.noDocument': {
     en: 'No active Markdown document to refresh.',
     'zh-cn': '没有可刷新的活动 Markdown 文档。',
@@ -65,7 +270,8 @@ const translations = {
   },
   'command.configureApiKey.prompt': {
     en: 'Enter your OpenAI-compatible API key. Leave empty to clear the stored key. Value is stored securely via VS Code Secret Storage.',
-    'zh-cn': '请输入兼容 OpenAI 的 API 密钥。留空将清除已存储的密钥。数值会通过 VS Code 机密存储安全保存。',
+    'zh-cn':
+      '请输入兼容 OpenAI 的 API 密钥。留空将清除已存储的密钥。数值会通过 VS Code 机密存储安全保存。',
   },
   'command.configureApiKey.placeholder': {
     en: 'sk-...your key...',
@@ -115,6 +321,19 @@ const translations = {
     en: 'Network error. Check the translation API base URL or your internet connection.',
     'zh-cn': '发生网络错误。请检查翻译 API 基础地址或网络连接。',
   },
+  'translation.error.budgetHint': {
+    en: 'The run was stopped before it exceeded the translation budget. Raise the budget or translate fewer documents at once.',
+    'zh-cn': '本次翻译在超出预算前已停止。请提高预算，或减少一次翻译的文档数量。',
+  },
+  'translation.error.action.adjustBudget': {
+    en: 'Adjust Budget',
+    'zh-cn': '调整预算',
+  },
+  'translation.budget.warning': {
+    en: 'Translation has used {spent} and is about to exceed the budget of {limit}. The run continues because translation.budget.action is "warn".',
+    'zh-cn':
+      '翻译已花费 {spent}，即将超出 {limit} 的预算。由于 translation.budget.action 为 "warn"，翻译将继续进行。',
+  },
   'translation.error.unknownHint': {
     en: 'Check the extension output channel for more details and retry.',
     'zh-cn': '请查看扩展输出面板了解详情，然后重试。',
@@ -132,8 +351,8 @@ const translations = {
     'zh-cn': '打开翻译设置',
   },
   'preview.translationPanelTitle': {
-    en: 'Translated: {document}',
-    'zh-cn': '翻译：{document}',
+    en: 'Translated ({language}): {document}',
+    'zh-cn': '翻译（{language}）：{document}',
   },
   'preview.markdownPanelTitle': {
     en: 'Babel Preview: {document}',
@@ -175,6 +394,10 @@ const translations = {
     en: 'Export as PDF',
     'zh-cn': '导出为 PDF',
   },
+  'preview.exportHtmlButton': {
+    en: 'Export as HTML',
+    'zh-cn': '导出为 HTML',
+  },
   'preview.exportTargetLabel': {
     en: 'Content',
     'zh-cn': '内容',
@@ -215,6 +438,82 @@ const translations = {
     en: 'Save PDF',
     'zh-cn': '保存 PDF',
   },
+  'export.fileFilter.html': {
+    en: 'HTML Document',
+    'zh-cn': 'HTML 文档',
+  },
+  'export.saveLabel.html': {
+    en: 'Save HTML',
+    'zh-cn': '保存 HTML',
+  },
+  'export.fileFilter.docx': {
+    en: 'Word Document',
+    'zh-cn': 'Word 文档',
+  },
+  'export.saveLabel.docx': {
+    en: 'Save Word Document',
+    'zh-cn': '保存 Word 文档',
+  },
+  'translation.segment.unavailable': {
+    en: 'This segment cannot be changed right now. Wait for the preview to finish updating and try again.',
+    'zh-cn': '当前无法修改该片段。请等待预览更新完成后重试。',
+  },
+  'translation.override.noWorkspace': {
+    en: 'Edited translations are saved in the workspace. Open the file from a workspace folder to edit its translation.',
+    'zh-cn': '编辑后的译文保存在工作区中。请从工作区文件夹中打开该文件后再编辑译文。',
+  },
+  'translation.override.saveFailure': {
+    en: 'Could not update the edited translation in .babelmd/overrides. See the Babel Markdown output for details.',
+    'zh-cn': '无法更新 .babelmd/overrides 中的译文修改。详情请查看 Babel Markdown 输出面板。',
+  },
+  'translation.retrySegment.failure': {
+    en: 'Could not re-translate segment {index}; the previous translation was kept. ({message})',
+    'zh-cn': '无法重新翻译第 {index} 个片段，已保留原译文。（{message}）',
+  },
+  'export.fileFilter.markdown': {
+    en: 'Markdown Document',
+    'zh-cn': 'Markdown 文档',
+  },
+  'export.saveLabel.markdown': {
+    en: 'Save Markdown',
+    'zh-cn': '保存 Markdown',
+  },
+  'export.success.markdown': {
+    en: 'Saved bilingual Markdown: {path}',
+    'zh-cn': '已保存双语 Markdown：{path}',
+  },
+  'export.fileFilter.xliff': {
+    en: 'XLIFF 2.0',
+    'zh-cn': 'XLIFF 2.0',
+  },
+  'export.saveLabel.xliff': {
+    en: 'Save XLIFF',
+    'zh-cn': '保存 XLIFF',
+  },
+  'export.success.xliff': {
+    en: 'Saved XLIFF: {path}',
+    'zh-cn': '已保存 XLIFF：{path}',
+  },
+  'export.fileFilter.tmx': {
+    en: 'TMX Translation Memory',
+    'zh-cn': 'TMX 翻译记忆',
+  },
+  'export.saveLabel.tmx': {
+    en: 'Save TMX',
+    'zh-cn': '保存 TMX',
+  },
+  'export.success.tmx': {
+    en: 'Saved translation memory: {path}',
+    'zh-cn': '已保存翻译记忆：{path}',
+  },
+  'export.failure.file': {
+    en: 'Failed to write {path}. Check logs for details.',
+    'zh-cn': '写入 {path} 失败。请查看日志了解详情。',
+  },
+  'export.bilingual.notReady': {
+    en: 'Wait for the translation to finish before exporting bilingual Markdown.',
+    'zh-cn': '请等待翻译完成后再导出双语 Markdown。',
+  },
   'export.success.image': {
     en: 'Saved preview as PNG: {path}',
     'zh-cn': '已将预览保存为 PNG：{path}',
@@ -223,6 +522,26 @@ const translations = {
     en: 'Saved preview as PDF: {path}',
     'zh-cn': '已将预览保存为 PDF：{path}',
   },
+  'export.pdf.imageFallback': {
+    en: 'The PDF fonts cannot show some characters ({characters}), so the PDF was saved as an image of the preview instead. Set "babelMdViewer.export.pdfFont" to a font that covers them to keep the text selectable.',
+    'zh-cn': 'PDF 字体无法显示部分字符（{characters}），因此已改为将预览图片保存为 PDF。将 "babelMdViewer.export.pdfFont" 设置为包含这些字符的字体即可保留可选中的文本。',
+  },
+  'export.success.html': {
+    en: 'Saved preview as HTML: {path}',
+    'zh-cn': '已将预览保存为 HTML：{path}',
+  },
+  'export.success.docx': {
+    en: 'Saved preview as Word document: {path}',
+    'zh-cn': '已将预览保存为 Word 文档：{path}',
+  },
+  'export.document.notReady': {
+    en: 'Wait for the translation to finish before exporting it as HTML or Word.',
+    'zh-cn': '请等待翻译完成后再导出为 HTML 或 Word。',
+  },
+  'export.html.tableOfContents': {
+    en: 'Contents',
+    'zh-cn': '目录',
+  },
   'export.failure.generic': {
     en: 'Failed to export preview. Check logs for details.',
     'zh-cn': '导出预览失败。请查看日志了解详情。',
@@ -267,6 +586,14 @@ const translations = {
     en: 'Showing original text for {count} segment(s) because translation failed.',
     'zh-cn': '因翻译失败，{count} 个片段显示原文。',
   },
+  'webview.warning.glossary': {
+    en: '{count} segment(s) did not follow the workspace glossary.',
+    'zh-cn': '{count} 个片段未遵循工作区术语表。',
+  },
+  'webview.warning.maskMismatch': {
+    en: 'Code, links or math may be incomplete in {count} segment(s).',
+    'zh-cn': '{count} 个片段中的代码、链接或公式可能不完整。',
+  },
   'webview.export.imageButton': {
     en: 'Save as PNG',
     'zh-cn': '保存为 PNG',
@@ -275,6 +602,14 @@ const translations = {
     en: 'Save as PDF',
     'zh-cn': '保存为 PDF',
   },
+  'webview.export.htmlButton': {
+    en: 'Save as HTML',
+    'zh-cn': '保存为 HTML',
+  },
+  'webview.export.docxButton': {
+    en: 'Save as Word',
+    'zh-cn': '保存为 Word',
+  },
   'webview.export.error': {
     en: 'Unable to capture the preview for export.',
     'zh-cn': '无法捕获预览用于导出。',
@@ -291,6 +626,74 @@ const translations = {
     en: 'warnings',
     'zh-cn': '警告',
   },
+  'webview.meta.tokens': {
+    en: '{count} tokens',
+    'zh-cn': '{count} 个 token',
+  },
+  'webview.meta.session': {
+    en: 'session: {usage}',
+    'zh-cn': '本次会话：{usage}',
+  },
+  'webview.languageSelectLabel': {
+    en: 'Target language',
+    'zh-cn': '目标语言',
+  },
+  'webview.viewModeLabel': {
+    en: 'Layout',
+    'zh-cn': '布局',
+  },
+  'webview.viewMode.translation': {
+    en: 'Translation only',
+    'zh-cn': '仅译文',
+  },
+  'webview.viewMode.parallel': {
+    en: 'Side by side',
+    'zh-cn': '左右对照',
+  },
+  'webview.viewMode.interleaved': {
+    en: 'Interleaved',
+    'zh-cn': '段落交替',
+  },
+  'webview.segment.retry': {
+    en: 'Re-translate…',
+    'zh-cn': '重新翻译…',
+  },
+  'webview.segment.instructionPlaceholder': {
+    en: 'Optional instruction, e.g. "more formal" or "keep English terms"',
+    'zh-cn': '可选指令，例如“更正式”或“保留英文术语”',
+  },
+  'webview.segment.submit': {
+    en: 'Re-translate',
+    'zh-cn': '重新翻译',
+  },
+  'webview.segment.edit': {
+    en: 'Edit…',
+    'zh-cn': '编辑…',
+  },
+  'webview.segment.save': {
+    en: 'Save edit',
+    'zh-cn': '保存修改',
+  },
+  'webview.segment.revert': {
+    en: 'Discard edit',
+    'zh-cn': '放弃修改',
+  },
+  'webview.segment.overrideApplied': {
+    en: 'Edited by hand; kept until the source text changes.',
+    'zh-cn': '已手动编辑；在原文改变前会一直保留。',
+  },
+  'webview.segment.overrideOutdated': {
+    en: 'An edit saved for an earlier version of this text no longer applies.',
+    'zh-cn': '为该段落旧版本保存的修改已不再适用。',
+  },
+  'webview.segment.cancel': {
+    en: 'Cancel',
+    'zh-cn': '取消',
+  },
+  'webview.export.markdownButton': {
+    en: 'Save Bilingual Markdown',
+    'zh-cn': '保存双语 Markdown',
+  },
   'webview.placeholder.currentDocument': {
     en: 'current document',
     'zh-cn': '当前文档',
@@ -350,6 +753,9 @@ export interface WebviewLocaleBundle {
   pageTitle: string;
   retryButtonLabel: string;
   ariaContentLabel: string;
+  languageSelectLabel: string;
+  viewModeLabel: string;
+  viewModes: Record<TranslationViewMode, string>;
   placeholders: {
     currentDocument: string;
     configuredLanguage: string;
@@ -363,14 +769,32 @@ export interface WebviewLocaleBundle {
     errorMessage: string;
     warningCacheFallback: string;
     warningPlaceholder: string;
+    warningGlossary: string;
+    warningMaskMismatch: string;
   };
   meta: {
     cachedLabel: string;
     recoveredLabel: string;
+    tokensTemplate: string;
+    sessionTemplate: string;
+  };
+  segmentActions: {
+    retryLabel: string;
+    instructionPlaceholder: string;
+    submitLabel: string;
+    cancelLabel: string;
+    editLabel: string;
+    saveLabel: string;
+    revertLabel: string;
+    overrideAppliedNotice: string;
+    overrideOutdatedNotice: string;
   };
   exportControls: {
     imageButtonLabel: string;
     pdfButtonLabel: string;
+    htmlButtonLabel: string;
+    docxButtonLabel: string;
+    markdownButtonLabel: string;
     failureMessage: string;
     inProgressMessage: string;
   };
@@ -384,27 +808,58 @@ export function getWebviewLocaleBundle(language?: string): WebviewLocaleBundle {
     pageTitle: localize('preview.translationWebviewTitle', undefined, { language }),
     retryButtonLabel: localize('preview.translationRetryButton', undefined, { language }),
     ariaContentLabel: localize('preview.translationContentAriaLabel', undefined, { language }),
+    languageSelectLabel: localize('webview.languageSelectLabel', undefined, { language }),
+    viewModeLabel: localize('webview.viewModeLabel', undefined, { language }),
+    viewModes: {
+      translation: localize('webview.viewMode.translation', undefined, { language }),
+      parallel: localize('webview.viewMode.parallel', undefined, { language }),
+      interleaved: localize('webview.viewMode.interleaved', undefined, { language }),
+    },
     placeholders: {
       currentDocument: localize('webview.placeholder.currentDocument', undefined, { language }),
-      configuredLanguage: localize('webview.placeholder.configuredLanguage', undefined, { language }),
+      configuredLanguage: localize('webview.placeholder.configuredLanguage', undefined, {
+        language,
+      }),
     },
     translations: {
       statusInProgress: localize('webview.statusInProgress', undefined, { language }),
       progressTemplate: localize('webview.progressTemplate', undefined, { language }),
       statusCompleted: localize('webview.statusCompleted', undefined, { language }),
-      statusCompletedWithWarnings: localize('webview.statusCompletedWithWarnings', undefined, { language }),
+      statusCompletedWithWarnings: localize('webview.statusCompletedWithWarnings', undefined, {
+        language,
+      }),
       statusLastAttempt: localize('webview.statusLastAttempt', undefined, { language }),
       errorMessage: localize('webview.errorMessage', undefined, { language }),
       warningCacheFallback: localize('webview.warning.cacheFallback', undefined, { language }),
       warningPlaceholder: localize('webview.warning.placeholder', undefined, { language }),
+      warningGlossary: localize('webview.warning.glossary', undefined, { language }),
+      warningMaskMismatch: localize('webview.warning.maskMismatch', undefined, { language }),
     },
     meta: {
       cachedLabel: localize('webview.meta.cached', undefined, { language }),
       recoveredLabel: localize('webview.meta.recovered', undefined, { language }),
+      tokensTemplate: localize('webview.meta.tokens', undefined, { language }),
+      sessionTemplate: localize('webview.meta.session', undefined, { language }),
+    },
+    segmentActions: {
+      retryLabel: localize('webview.segment.retry', undefined, { language }),
+      instructionPlaceholder: localize('webview.segment.instructionPlaceholder', undefined, {
+        language,
+      }),
+      submitLabel: localize('webview.segment.submit', undefined, { language }),
+      cancelLabel: localize('webview.segment.cancel', undefined, { language }),
+      editLabel: localize('webview.segment.edit', undefined, { language }),
+      saveLabel: localize('webview.segment.save', undefined, { language }),
+      revertLabel: localize('webview.segment.revert', undefined, { language }),
+      overrideAppliedNotice: localize('webview.segment.overrideApplied', undefined, { language }),
+      overrideOutdatedNotice: localize('webview.segment.overrideOutdated', undefined, { language }),
     },
     exportControls: {
       imageButtonLabel: localize('webview.export.imageButton', undefined, { language }),
       pdfButtonLabel: localize('webview.export.pdfButton', undefined, { language }),
+      htmlButtonLabel: localize('webview.export.htmlButton', undefined, { language }),
+      docxButtonLabel: localize('webview.export.docxButton', undefined, { language }),
+      markdownButtonLabel: localize('webview.export.markdownButton', undefined, { language }),
       failureMessage: localize('webview.export.error', undefined, { language }),
       inProgressMessage: localize('webview.export.inProgress', undefined, { language }),
     },
@@ -1,7 +1,13 @@
-import type { TranslationErrorCode } from '../types/translation';
+import type { TranslationViewMode } from '../types/config';
+import type {
+  TranslationErrorCode,
+  TranslationOverrideState,
+  TranslationRecoveryType,
+  TranslationUsage,
+} from '../types/translation';
 
 type SerializedSegmentRecovery = {
-  type: 'cacheFallback' | 'placeholder';
+  type: TranslationRecoveryType;
   code: TranslationErrorCode;
   attempts: number;
   message: string;
@@ -20,6 +26,10 @@ export type HostToWebviewMessage =
         sourceVersion: number;
         wasCached: boolean;
         recoveries?: SerializedSegmentRecovery[];
+        /** Provider usage of the translation shown; absent when it came from the cache. */
+        usage?: TranslationUsage;
+        /** Usage of every run since the window opened. */
+        sessionUsage?: TranslationUsage;
       };
     }
   | {
@@ -38,6 +48,8 @@ export type HostToWebviewMessage =
         documentPath: string;
         targetLanguage: string;
         totalSegments?: number;
+        /** Keep the current translation visible instead of clearing the panel. */
+        incremental?: boolean;
       };
     }
   | {
@@ -45,9 +57,16 @@ export type HostToWebviewMessage =
       payload: {
         documentPath: string;
         targetLanguage: string;
+        /** Reuse rendered blocks whose source is unchanged instead of resetting the panel. */
+        incremental?: boolean;
         segments: Array<{
           segmentIndex: number;
           markdown: string;
+          /** Rendered source, shown next to the translation in bilingual layouts. */
+          html: string;
+          /** Zero-based source lines covered by the segment; `endLine` is exclusive. */
+          startLine: number;
+          endLine: number;
         }>;
       };
     }
@@ -64,6 +83,41 @@ export type HostToWebviewMessage =
         targetLanguage: string;
         wasCached: boolean;
         recovery?: SerializedSegmentRecovery;
+        override?: TranslationOverrideState;
+        startLine?: number;
+        endLine?: number;
+      };
+    }
+  | {
+      type: 'translationChunkDelta';
+      payload: {
+        segmentIndex: number;
+        totalSegments: number;
+        markdown: string;
+        html: string;
+        documentPath: string;
+        targetLanguage: string;
+      };
+    }
+  | {
+      type: 'setLanguages';
+      payload: {
+        targetLanguage: string;
+        languages: string[];
+      };
+    }
+  | {
+      type: 'setViewMode';
+      payload: {
+        viewMode: TranslationViewMode;
+      };
+    }
+  | {
+      type: 'scrollToLine';
+      payload: {
+        /** Top visible source line; fractional values point inside a line. */
+        line: number;
+        lineCount: number;
       };
     };
 
@@ -71,13 +125,57 @@ export type WebviewToHostMessage =
   | {
       type: 'requestRetry';
     }
+  | {
+      type: 'retrySegment';
+      payload: {
+        segmentIndex: number;
+        /** Extra guidance for this request only, e.g. "more formal". */
+        instruction?: string;
+      };
+    }
+  | {
+      type: 'saveSegmentOverride';
+      payload: {
+        segmentIndex: number;
+        /** Hand-edited translation of the segment. */
+        markdown: string;
+      };
+    }
+  | {
+      type: 'clearSegmentOverride';
+      payload: {
+        segmentIndex: number;
+      };
+    }
+  | {
+      type: 'revealSourceLine';
+      payload: {
+        line: number;
+      };
+    }
+  | {
+      type: 'switchLanguage';
+      payload: {
+        targetLanguage: string;
+      };
+    }
+  | {
+      type: 'changeViewMode';
+      payload: {
+        viewMode: TranslationViewMode;
+      };
+    }
+  | {
+      type: 'exportBilingualMarkdown';
+    }
   | {
       type: 'exportContent';
       payload: {
-        format: 'png' | 'pdf';
-        dataUrl: string;
-        width: number;
-        height: number;
+        format: 'png' | 'pdf' | 'html' | 'docx';
+        /** Captured preview; HTML exports are built from the Markdown and send none. */
+        dataUrl?: string;
+        width?: number;
+        height?: number;
         content: 'preview';
       };
     }
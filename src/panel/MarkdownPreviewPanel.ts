@@ -3,12 +3,11 @@ import { basename } from 'path';
 
 import type { BabelMarkdownService, TransformationResult } from '../services/BabelMarkdownService';
 import { getLanguageTag, localize } from '../i18n/localize';
+import { getExtensionConfiguration } from '../utils/config';
 import { ExtensionLogger } from '../utils/logger';
-import { MarkdownExportService } from '../services/MarkdownExportService';
+import { ExportFormat, MarkdownExportService } from '../services/MarkdownExportService';
 import { buildPreviewStyles } from '../utils/previewStyles';
 
-type ExportFormat = 'png' | 'pdf';
-
 type MarkdownPreviewHostMessage = {
   type: 'requestExport';
   payload: {
@@ -22,9 +21,10 @@ type MarkdownPreviewMessage =
       type: 'exportContent';
       payload: {
         format: ExportFormat;
-        dataUrl: string;
-        width: number;
-        height: number;
+        /** Captured preview; HTML exports are built from the Markdown and send none. */
+        dataUrl?: string;
+        width?: number;
+        height?: number;
         content: 'preview' | 'source';
       };
     }
@@ -156,6 +156,7 @@ export class MarkdownPreviewPanel implements vscode.Disposable {
     const title = this.escapeHtml(localize('preview.markdownHtmlTitle'));
     const exportImageLabel = this.escapeHtml(localize('preview.exportImageButton'));
     const exportPdfLabel = this.escapeHtml(localize('preview.exportPdfButton'));
+    const exportHtmlLabel = this.escapeHtml(localize('preview.exportHtmlButton'));
     const exportTargetLabel = this.escapeHtml(localize('preview.exportTargetLabel'));
     const exportTargetPreviewLabel = this.escapeHtml(localize('preview.exportTarget.preview'));
     const exportTargetSourceLabel = this.escapeHtml(localize('preview.exportTarget.source'));
@@ -169,6 +170,7 @@ export class MarkdownPreviewPanel implements vscode.Disposable {
     const csp = `default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource}; connect-src ${webview.cspSource} https: data:;`;
     const imageIcon = `<svg class="preview-actions__iconSvg" viewBox="0 0 24 24" role="presentation" focusable="false"><path fill="currentColor" d="M4 6h16a2 2 0 0 1 2 2v10.5A1.5 1.5 0 0 1 20.5 20h-17A1.5 1.5 0 0 1 2 18.5V8a2 2 0 0 1 2-2Zm0 2v10h16V8zm3.5 1.5a1.5 1.5 0 1 1 0 3 1.5 1.5 0 0 1 0-3Zm11 7.25-3.25-4.24-2.54 3.39-1.71-2.06L7.5 17.75z"/></svg>`;
     const pdfIcon = `<svg class="preview-actions__iconSvg" viewBox="0 0 24 24" role="presentation" focusable="false"><path fill="currentColor" d="M6 2h9l5 5v13a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2Zm8 2H6v18h12V8h-4zm-2.5 6H13c1.38 0 2.5 1.12 2.5 2.5S14.38 15 13 15h-.5v3H11.5V10Zm1.5 1.5H11.5v2h1.5a1 1 0 0 0 0-2Z"/></svg>`;
+    const htmlIcon = `<svg class="preview-actions__iconSvg" viewBox="0 0 24 24" role="presentation" focusable="false"><path fill="currentColor" d="M8.7 16.3 4.4 12l4.3-4.3 1.4 1.4L7.2 12l2.9 2.9zm6.6 0-1.4-1.4 2.9-2.9-2.9-2.9 1.4-1.4 4.3 4.3z"/></svg>`;
     const sharedStyles = buildPreviewStyles({
       theme: result.theme,
       background,
@@ -282,6 +284,7 @@ export class MarkdownPreviewPanel implements vscode.Disposable {
         </label>
         <button type="button" class="preview-actions__button" data-export-format="png">${imageIcon}<span>${exportImageLabel}</span></button>
         <button type="button" class="preview-actions__button" data-export-format="pdf">${pdfIcon}<span>${exportPdfLabel}</span></button>
+        <button type="button" class="preview-actions__button" data-export-format="html">${htmlIcon}<span>${exportHtmlLabel}</span></button>
         <span id="preview-export-error" class="preview-actions__error" hidden>${exportError}</span>
       </div>
     </header>
@@ -400,6 +403,14 @@ export class MarkdownPreviewPanel implements vscode.Disposable {
       }
 
       async function handleExport(format, preferredTarget) {
+        if (format === 'html') {
+          // Built by the extension from the Markdown source; nothing to capture.
+          const content = getExportTarget(preferredTarget);
+          logExport('Requesting HTML export', { content });
+          vscode.postMessage({ type: 'exportContent', payload: { format, content } });
+          return;
+        }
+
         if (!window.__babelMdViewerExport?.captureElement) {
           logExport('Export bridge is unavailable.');
           errorElement?.removeAttribute('hidden');
@@ -450,7 +461,7 @@ export class MarkdownPreviewPanel implements vscode.Disposable {
       for (const button of exportButtons) {
         button.addEventListener('click', () => {
           const format = button.getAttribute('data-export-format');
-          if (format === 'png' || format === 'pdf') {
+          if (format === 'png' || format === 'pdf' || format === 'html') {
             void handleExport(format);
           }
         });
@@ -461,7 +472,7 @@ export class MarkdownPreviewPanel implements vscode.Disposable {
         if (message?.type === 'requestExport') {
           const format = message.payload?.format;
           const target = message.payload?.target === 'source' ? 'source' : 'preview';
-          if (format === 'png' || format === 'pdf') {
+          if (format === 'png' || format === 'pdf' || format === 'html') {
             void handleExport(format, target);
           }
         }
@@ -541,11 +552,18 @@ export class MarkdownPreviewPanel implements vscode.Disposable {
 
   private async handleWebviewMessage(message: MarkdownPreviewMessage): Promise<void> {
     if (message.type === 'exportContent') {
+      const source = this.currentDocumentUri
+        ? (await vscode.workspace.openTextDocument(this.currentDocumentUri)).getText()
+        : undefined;
+
       await this.exportService.export({
         format: message.payload.format,
         dataUri: message.payload.dataUrl,
         width: message.payload.width,
         height: message.payload.height,
+        markdown: source,
+        preformatted: message.payload.content === 'source',
+        language: getExtensionConfiguration(this.currentDocumentUri).translation.sourceLanguage,
         documentUri: this.currentDocumentUri,
         fileNameHint: this.buildFileNameHint(message.payload.content),
       });
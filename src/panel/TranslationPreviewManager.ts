@@ -1,22 +1,71 @@
 import * as vscode from 'vscode';
 import { basename } from 'path';
 
-import type { ExtensionConfiguration } from '../types/config';
-import type { ResolvedTranslationConfiguration } from '../types/translation';
-import { TranslationService, TranslationSegmentUpdate } from '../services/TranslationService';
+import type { ExtensionConfiguration, TranslationViewMode } from '../types/config';
+import type {
+  ResolvedTranslationConfiguration,
+  TranslationErrorCode,
+  TranslationOverrideState,
+  TranslationRecovery,
+  TranslationResult,
+} from '../types/translation';
+import {
+  TranslationRunError,
+  TranslationService,
+  TranslationSegment,
+  TranslationSegmentProgress,
+  TranslationSegmentUpdate,
+} from '../services/TranslationService';
 import { TranslationCache } from '../services/TranslationCache';
 import { TranslationCacheStore } from '../services/TranslationCacheStore';
+import { TranslationOverrideStore } from '../services/TranslationOverrideStore';
+import { TranslationMemory } from '../services/TranslationMemory';
+import { UsageLedger } from '../services/UsageLedger';
 import { PromptResolver } from '../services/PromptResolver';
+import { SecretStorageService } from '../services/SecretStorageService';
 import type { HostToWebviewMessage, WebviewToHostMessage } from '../messaging/channel';
 import { getWebviewLocaleBundle, localize } from '../i18n/localize';
 import { ExtensionLogger } from '../utils/logger';
 import { MarkdownExportService } from '../services/MarkdownExportService';
+import { renderMarkdownToHtml } from '../utils/markdown';
+import { getExtensionConfiguration, resolveTranslationConfiguration } from '../utils/config';
+import { debounce } from '../utils/async';
+import { BilingualSegment, buildInterleavedMarkdown } from '../utils/bilingual';
+import { splitFrontMatter } from '../utils/frontMatter';
+import { UsageMeter, addUsage, createUsageMeter, formatCost } from '../utils/usage';
 
 interface PreviewEntry {
+  /** `${documentUri}::${targetLanguage}`; one panel per document and language. */
+  key: string;
   panel: vscode.WebviewPanel;
   disposable: vscode.Disposable;
   lastVersion: number;
   context: RenderContext;
+  /** Markdown of the last completed translation shown in the panel. */
+  lastResult?: TranslatedDocument;
+  viewMode: TranslationViewMode;
+  /** Source and translation per segment of `lastResult`; unset when it came from the file cache. */
+  lastSegments?: PreviewSegment[];
+  /** Full result behind `lastResult` while `lastSegments` is set, patched by segment retries. */
+  lastTranslation?: TranslationResult;
+}
+
+export type PreviewSegment = BilingualSegment & {
+  startLine: number;
+  endLine: number;
+  override?: TranslationOverrideState;
+};
+
+export interface TranslatedDocument {
+  targetLanguage: string;
+  markdown: string;
+  sourceVersion: number;
+}
+
+export interface TranslatedSegments {
+  targetLanguage: string;
+  sourceVersion: number;
+  segments: ReadonlyArray<Readonly<PreviewSegment>>;
 }
 
 interface RenderContext {
@@ -25,7 +74,13 @@ interface RenderContext {
   resolvedConfig: ResolvedTranslationConfiguration;
 }
 
-type TranslationErrorCategory = 'authentication' | 'timeout' | 'rateLimit' | 'network' | 'unknown';
+type TranslationErrorCategory =
+  | 'authentication'
+  | 'timeout'
+  | 'rateLimit'
+  | 'network'
+  | 'budgetExceeded'
+  | 'unknown';
 
 interface ErrorResolutionAction {
   title: string;
@@ -41,37 +96,76 @@ interface ErrorInterpretation {
 }
 
 export class TranslationPreviewManager implements vscode.Disposable {
+  private static readonly STREAM_THROTTLE_MS = 100;
+  private static readonly SCROLL_SYNC_DELAY_MS = 50;
+  /** Editor scroll events caused by revealing a line for the preview are ignored this long. */
+  private static readonly SCROLL_ECHO_SUPPRESS_MS = 300;
+  /** Large enough to hold every segment of a few long documents restored from disk. */
+  private static readonly SEGMENT_CACHE_CAPACITY = 4096;
+
   private readonly previews = new Map<string, PreviewEntry>();
   private readonly disposables: vscode.Disposable[] = [];
   private readonly abortControllers = new Map<string, AbortController>();
-  private readonly segmentCache = new TranslationCache();
+  /** Pending `onType` auto-refreshes keyed by document URI. */
+  private readonly autoRefreshTimers = new Map<string, NodeJS.Timeout>();
+  private readonly editorScrollSuppressedUntil = new Map<string, number>();
+  private readonly syncPreviewScroll = debounce(
+    (editor: vscode.TextEditor) => this.postEditorScroll(editor),
+    TranslationPreviewManager.SCROLL_SYNC_DELAY_MS,
+  );
+  private readonly segmentCache = new TranslationCache({
+    segmentMaxEntries: TranslationPreviewManager.SEGMENT_CACHE_CAPACITY,
+  });
 
   constructor(
     private readonly extensionUri: vscode.Uri,
     private readonly translationService: TranslationService,
     private readonly promptResolver: PromptResolver,
     private readonly cacheStore: TranslationCacheStore,
+    private readonly overrideStore: TranslationOverrideStore,
+    private readonly translationMemory: TranslationMemory,
+    private readonly usageLedger: UsageLedger,
     private readonly exportService: MarkdownExportService,
+    private readonly secretService: SecretStorageService,
     private readonly logger: ExtensionLogger,
   ) {
     this.disposables.push(
       vscode.workspace.onDidCloseTextDocument((document) => {
-        const key = document.uri.toString();
-        const preview = this.previews.get(key);
-        if (preview) {
-          this.cancelPendingTranslation(key, 'source-document-closed', {
+        for (const preview of this.getDocumentPreviews(document)) {
+          this.cancelPendingTranslation(preview.key, 'source-document-closed', {
             documentPath: this.getDocumentLabel(document),
             targetLanguage: preview.context.resolvedConfig.targetLanguage,
           });
-          this.logger.info(`Closing translation preview for ${key} (source document closed).`);
+          this.logger.info(`Closing translation preview for ${preview.key} (source document closed).`);
           preview.panel.dispose();
         }
+        this.clearAutoRefresh(document);
         this.segmentCache.clearForDocument(document);
       }),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.contentChanges.length > 0) {
+          this.scheduleAutoRefresh(event.document, 'type');
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        this.scheduleAutoRefresh(document, 'save');
+      }),
+      vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+        if (this.getDocumentPreviews(event.textEditor.document).length > 0) {
+          this.syncPreviewScroll(event.textEditor);
+        }
+      }),
     );
   }
 
   dispose(): void {
+    this.syncPreviewScroll.cancel();
+
+    for (const timer of this.autoRefreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.autoRefreshTimers.clear();
+
     for (const controller of this.abortControllers.values()) {
       controller.abort();
     }
@@ -90,7 +184,7 @@ export class TranslationPreviewManager implements vscode.Disposable {
   }
 
   async openPreview(context: RenderContext): Promise<void> {
-    const key = context.document.uri.toString();
+    const key = this.buildPreviewKey(context.document, context.resolvedConfig.targetLanguage);
     const existing = this.previews.get(key);
 
     if (existing) {
@@ -102,7 +196,7 @@ export class TranslationPreviewManager implements vscode.Disposable {
 
     const panel = vscode.window.createWebviewPanel(
       'babelMdViewer.translationPreview',
-      this.buildTitle(context.document),
+      this.buildTitle(context.document, context.resolvedConfig.targetLanguage),
       { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
       {
         enableScripts: true,
@@ -115,7 +209,7 @@ export class TranslationPreviewManager implements vscode.Disposable {
     panel.webview.html = this.getWebviewHtml(panel.webview);
     panel.iconPath = vscode.Uri.joinPath(this.extensionUri, 'assets', 'icons', 'preview.svg');
     panel.webview.onDidReceiveMessage((message: WebviewToHostMessage) => {
-      const previewEntry = this.previews.get(key);
+      const previewEntry = this.findPreview(panel);
 
       if (!previewEntry) {
         this.logger.warn('Received webview message for a disposed translation preview.');
@@ -132,6 +226,35 @@ export class TranslationPreviewManager implements vscode.Disposable {
         case 'exportContent':
           void this.handleExportRequest(message.payload, previewEntry);
           break;
+        case 'switchLanguage':
+          void this.switchLanguage(previewEntry, message.payload.targetLanguage);
+          break;
+        case 'revealSourceLine':
+          this.revealSourceLine(previewEntry, message.payload.line);
+          break;
+        case 'changeViewMode':
+          void this.changeViewMode(previewEntry, message.payload.viewMode);
+          break;
+        case 'exportBilingualMarkdown':
+          void this.exportBilingualMarkdown(previewEntry);
+          break;
+        case 'saveSegmentOverride':
+          void this.saveSegmentOverride(
+            previewEntry,
+            message.payload.segmentIndex,
+            message.payload.markdown,
+          );
+          break;
+        case 'clearSegmentOverride':
+          void this.clearSegmentOverride(previewEntry, message.payload.segmentIndex);
+          break;
+        case 'retrySegment':
+          void this.retrySegment(
+            previewEntry,
+            message.payload.segmentIndex,
+            message.payload.instruction,
+          );
+          break;
         default:
           this.logger.warn(`Unhandled message from webview: ${(message as { type: string }).type}`);
           break;
@@ -139,48 +262,630 @@ export class TranslationPreviewManager implements vscode.Disposable {
     });
 
     const disposable = panel.onDidDispose(() => {
-      this.logger.info(`Translation preview disposed for ${key}.`);
-      const entry = this.previews.get(key);
+      const entry = this.findPreview(panel);
       if (entry) {
-        this.cancelPendingTranslation(key, 'preview-closed', {
+        this.logger.info(`Translation preview disposed for ${entry.key}.`);
+        this.cancelPendingTranslation(entry.key, 'preview-closed', {
           documentPath: this.getDocumentLabel(entry.context.document),
           targetLanguage: entry.context.resolvedConfig.targetLanguage,
         });
+        this.previews.delete(entry.key);
       }
-      this.previews.delete(key);
       disposable.dispose();
     });
 
     const entry: PreviewEntry = {
+      key,
       panel,
       disposable,
       lastVersion: context.document.version,
       context,
+      viewMode: context.configuration.translation.viewMode,
     };
 
     this.previews.set(key, entry);
     await this.render(panel, context, { force: true });
   }
 
+  /** Re-translates every open preview of the document, each in its own language. */
   async refreshPreview(context: RenderContext): Promise<boolean> {
-    const key = context.document.uri.toString();
-    const preview = this.previews.get(key);
+    const previews = this.getDocumentPreviews(context.document);
 
-    if (!preview) {
+    if (previews.length === 0) {
       return false;
     }
 
-    preview.context = context;
-    await this.render(preview.panel, context, { force: true, invalidateCache: true });
+    await Promise.all(
+      previews.map((preview) =>
+        this.render(
+          preview.panel,
+          this.withTargetLanguage(context, preview.context.resolvedConfig.targetLanguage),
+          { force: true, invalidateCache: true },
+        ),
+      ),
+    );
     return true;
   }
 
+  /** Completed translations of the document, one per open preview language. */
+  getTranslatedDocuments(document: vscode.TextDocument): TranslatedDocument[] {
+    return this.getDocumentPreviews(document).flatMap((preview) =>
+      preview.lastResult ? [preview.lastResult] : [],
+    );
+  }
+
+  /** Source and translation per segment of the completed translation in `targetLanguage`. */
+  async getTranslatedSegments(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+  ): Promise<TranslatedSegments | undefined> {
+    const preview = this.previews.get(this.buildPreviewKey(document, targetLanguage));
+
+    if (!preview?.lastResult || !preview.lastSegments) {
+      return undefined;
+    }
+
+    return {
+      targetLanguage,
+      sourceVersion: preview.lastResult.sourceVersion,
+      segments: preview.lastSegments,
+    };
+  }
+
+  /** Re-renders the document's open previews in `targetLanguage`, e.g. after overrides changed. */
+  async reloadPreview(document: vscode.TextDocument, targetLanguage: string): Promise<void> {
+    const preview = this.previews.get(this.buildPreviewKey(document, targetLanguage));
+
+    if (preview) {
+      await this.render(preview.panel, preview.context, { force: true });
+    }
+  }
+
+  /**
+   * Re-renders open previews after an edit or save when `translation.autoRefresh` asks for it.
+   * Typing is debounced per document; the render itself cancels the stale run and only sends
+   * segments that miss the cache.
+   */
+  private scheduleAutoRefresh(document: vscode.TextDocument, trigger: 'type' | 'save'): void {
+    if (this.getDocumentPreviews(document).length === 0) {
+      return;
+    }
+
+    const { autoRefresh, autoRefreshDelayMs } = getExtensionConfiguration(document).translation;
+
+    if (autoRefresh === 'onSave' && trigger === 'save') {
+      this.clearAutoRefresh(document);
+      void this.autoRefreshPreviews(document, trigger);
+      return;
+    }
+
+    if (autoRefresh !== 'onType' || trigger !== 'type') {
+      return;
+    }
+
+    this.clearAutoRefresh(document);
+    this.autoRefreshTimers.set(
+      document.uri.toString(),
+      setTimeout(
+        () => {
+          this.autoRefreshTimers.delete(document.uri.toString());
+          void this.autoRefreshPreviews(document, trigger);
+        },
+        Math.max(0, autoRefreshDelayMs),
+      ),
+    );
+  }
+
+  private clearAutoRefresh(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const timer = this.autoRefreshTimers.get(key);
+
+    if (timer) {
+      clearTimeout(timer);
+      this.autoRefreshTimers.delete(key);
+    }
+  }
+
+  private async autoRefreshPreviews(
+    document: vscode.TextDocument,
+    trigger: 'type' | 'save',
+  ): Promise<void> {
+    const previews = this.getDocumentPreviews(document).filter(
+      (preview) => preview.lastVersion !== document.version,
+    );
+
+    if (previews.length === 0) {
+      return;
+    }
+
+    // Settings or the API key may have changed since the previews opened; read them again, as
+    // the refresh command does, and keep each preview's language.
+    const configuration = getExtensionConfiguration(document);
+    const apiKey =
+      (await this.secretService.getTranslationApiKey()) ?? configuration.translation.apiKey ?? '';
+
+    await Promise.all(
+      previews.map((preview) => {
+        const meta = {
+          documentPath: this.getDocumentLabel(document),
+          targetLanguage: preview.context.resolvedConfig.targetLanguage,
+        };
+        this.logger.event('translation.autoRefresh', {
+          ...meta,
+          trigger,
+          version: document.version,
+        });
+        this.cancelPendingTranslation(preview.key, 'source-changed', meta);
+        const context: RenderContext = {
+          document,
+          configuration,
+          resolvedConfig: resolveTranslationConfiguration(
+            configuration.translation,
+            apiKey,
+            preview.context.resolvedConfig.targetLanguage,
+          ),
+        };
+        preview.context = context;
+        return this.render(preview.panel, context);
+      }),
+    );
+  }
+
+  private postEditorScroll(editor: vscode.TextEditor): void {
+    const document = editor.document;
+    const suppressedUntil = this.editorScrollSuppressedUntil.get(document.uri.toString());
+    const topLine = editor.visibleRanges[0]?.start.line;
+
+    if (
+      topLine === undefined ||
+      (suppressedUntil !== undefined && Date.now() < suppressedUntil) ||
+      !getExtensionConfiguration(document).translation.scrollSyncEnabled
+    ) {
+      return;
+    }
+
+    for (const preview of this.getDocumentPreviews(document)) {
+      this.postMessage(preview.panel, {
+        type: 'scrollToLine',
+        payload: { line: topLine, lineCount: document.lineCount },
+      });
+    }
+  }
+
+  private revealSourceLine(entry: PreviewEntry, line: number): void {
+    const document = entry.context.document;
+    const editor = vscode.window.visibleTextEditors.find(
+      (candidate) => candidate.document.uri.toString() === document.uri.toString(),
+    );
+
+    if (!editor || !getExtensionConfiguration(document).translation.scrollSyncEnabled) {
+      return;
+    }
+
+    const target = Math.min(Math.max(0, Math.floor(line)), Math.max(0, document.lineCount - 1));
+
+    if (editor.visibleRanges[0]?.start.line === target) {
+      return;
+    }
+
+    this.editorScrollSuppressedUntil.set(
+      document.uri.toString(),
+      Date.now() + TranslationPreviewManager.SCROLL_ECHO_SUPPRESS_MS,
+    );
+    editor.revealRange(new vscode.Range(target, 0, target, 0), vscode.TextEditorRevealType.AtTop);
+  }
+
+  private async changeViewMode(entry: PreviewEntry, viewMode: TranslationViewMode): Promise<void> {
+    if (entry.viewMode === viewMode) {
+      return;
+    }
+
+    entry.viewMode = viewMode;
+    this.logger.event('translation.viewModeChanged', {
+      documentPath: this.getDocumentLabel(entry.context.document),
+      targetLanguage: entry.context.resolvedConfig.targetLanguage,
+      viewMode,
+    });
+
+    // A result served whole from the file cache has no segment boundaries to align; re-render
+    // it from the persisted segments, which costs no provider requests for unchanged text.
+    if (viewMode !== 'translation' && entry.lastResult && !entry.lastSegments) {
+      await this.render(entry.panel, entry.context, { force: true });
+    }
+  }
+
+  private async exportBilingualMarkdown(entry: PreviewEntry): Promise<void> {
+    if (!entry.lastResult || !entry.lastSegments) {
+      void vscode.window.showWarningMessage(localize('export.bilingual.notReady'));
+      return;
+    }
+
+    await this.exportService.exportMarkdown({
+      markdown: buildInterleavedMarkdown(entry.lastSegments, entry.lastResult.markdown),
+      documentUri: entry.context.document.uri,
+      fileNameHint: this.buildTranslationFileName(entry.context, 'bilingual'),
+    });
+  }
+
+  /**
+   * Re-translates one segment of the finished translation, optionally with an ad-hoc
+   * instruction, and patches the panel, the segment caches and the document cache in place.
+   */
+  private async retrySegment(
+    entry: PreviewEntry,
+    segmentIndex: number,
+    instruction?: string,
+  ): Promise<void> {
+    const { document, configuration, resolvedConfig } = entry.context;
+    const segments = entry.lastSegments ?? [];
+    const segment = this.getEditableSegment(entry, segmentIndex);
+    const meta = {
+      documentPath: this.getDocumentLabel(document),
+      targetLanguage: resolvedConfig.targetLanguage,
+    };
+
+    if (!segment) {
+      void vscode.window.showWarningMessage(localize('translation.segment.unavailable'));
+      this.postRetriedSegment(entry, segmentIndex);
+      return;
+    }
+
+    const controller = new AbortController();
+    const documentText = document.getText();
+    this.abortControllers.set(entry.key, controller);
+    this.logger.event('translation.segmentRetryRequested', {
+      ...meta,
+      segmentIndex,
+      withInstruction: Boolean(instruction?.trim()),
+    });
+
+    let update: TranslationSegmentUpdate | undefined;
+    const usageMeter = this.startUsageMeter(configuration);
+
+    try {
+      const prompt = await this.promptResolver.resolve(document, configuration);
+      try {
+        update = await this.translationService.translateSegment(
+          {
+            document,
+            configuration,
+            resolvedConfig,
+            prompt,
+            signal: controller.signal,
+            cache: this.segmentCache,
+            memory: this.translationMemory,
+            usageMeter,
+          },
+          { markdown: segment.source, segmentIndex, totalSegments: segments.length },
+          instruction,
+        );
+      } finally {
+        await this.recordUsage(entry.context, usageMeter);
+      }
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      const patched = this.patchTranslation(entry, documentText, update);
+      if (!segments.some((candidate) => candidate.override === 'applied')) {
+        await this.cacheStore.save(document, documentText, resolvedConfig, prompt, patched);
+      }
+      await this.cacheStore.saveSegments(
+        document,
+        resolvedConfig.targetLanguage,
+        this.segmentCache.getUsedSegments(document, resolvedConfig.targetLanguage),
+      );
+      await this.translationMemory.persist();
+      this.logger.event('translation.segmentRetried', {
+        ...meta,
+        segmentIndex,
+        providerId: update.providerId,
+        latencyMs: update.latencyMs,
+        recoveryType: update.recovery?.type ?? null,
+        promptTokens: update.usage?.promptTokens ?? 0,
+        completionTokens: update.usage?.completionTokens ?? 0,
+      });
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        this.logger.warn(`Segment retry cancelled for ${entry.key}.`);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : localize('common.unknownError');
+      this.logger.error(
+        `Failed to re-translate segment ${segmentIndex + 1} of ${meta.documentPath}.`,
+        error,
+      );
+      this.logger.event('translation.segmentRetryFailed', {
+        ...meta,
+        segmentIndex,
+        error: message,
+      });
+      void vscode.window.showErrorMessage(
+        localize('translation.retrySegment.failure', { index: segmentIndex + 1, message }),
+      );
+      update = undefined;
+    } finally {
+      if (this.abortControllers.get(entry.key) === controller) {
+        this.abortControllers.delete(entry.key);
+      }
+    }
+
+    if (!controller.signal.aborted) {
+      this.postRetriedSegment(entry, segmentIndex, update);
+    }
+  }
+
+  /** Stores a hand-edited translation of one segment as a workspace override. */
+  private async saveSegmentOverride(
+    entry: PreviewEntry,
+    segmentIndex: number,
+    markdown: string,
+  ): Promise<void> {
+    const { document, resolvedConfig } = entry.context;
+    const segment = this.getEditableSegment(entry, segmentIndex);
+
+    if (!segment) {
+      void vscode.window.showWarningMessage(localize('translation.segment.unavailable'));
+      this.postRetriedSegment(entry, segmentIndex);
+      return;
+    }
+
+    if (!this.overrideStore.supports(document)) {
+      void vscode.window.showWarningMessage(localize('translation.override.noWorkspace'));
+      this.postRetriedSegment(entry, segmentIndex);
+      return;
+    }
+
+    const documentText = document.getText();
+
+    try {
+      await this.overrideStore.save(
+        document,
+        resolvedConfig.targetLanguage,
+        this.toPlannedSegments(entry),
+        segmentIndex,
+        markdown,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to save translation override for ${this.getDocumentLabel(document)}.`,
+        error,
+      );
+      void vscode.window.showErrorMessage(localize('translation.override.saveFailure'));
+      this.postRetriedSegment(entry, segmentIndex);
+      return;
+    }
+
+    this.patchTranslation(entry, documentText, {
+      segmentIndex,
+      totalSegments: entry.lastSegments?.length ?? 0,
+      markdown,
+      html: renderMarkdownToHtml(markdown),
+      latencyMs: 0,
+      providerId: 'override',
+      wasCached: false,
+      override: 'applied',
+    });
+    this.logger.event('translation.overrideSaved', {
+      documentPath: this.getDocumentLabel(document),
+      targetLanguage: resolvedConfig.targetLanguage,
+      segmentIndex,
+    });
+    this.postRetriedSegment(entry, segmentIndex);
+  }
+
+  /** Drops the override attached to a segment and re-renders with the machine translation. */
+  private async clearSegmentOverride(entry: PreviewEntry, segmentIndex: number): Promise<void> {
+    const { document, resolvedConfig } = entry.context;
+
+    if (!this.getEditableSegment(entry, segmentIndex)) {
+      void vscode.window.showWarningMessage(localize('translation.segment.unavailable'));
+      this.postRetriedSegment(entry, segmentIndex);
+      return;
+    }
+
+    try {
+      await this.overrideStore.remove(
+        document,
+        resolvedConfig.targetLanguage,
+        this.toPlannedSegments(entry),
+        segmentIndex,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove translation override for ${this.getDocumentLabel(document)}.`,
+        error,
+      );
+      void vscode.window.showErrorMessage(localize('translation.override.saveFailure'));
+      this.postRetriedSegment(entry, segmentIndex);
+      return;
+    }
+
+    this.logger.event('translation.overrideCleared', {
+      documentPath: this.getDocumentLabel(document),
+      targetLanguage: resolvedConfig.targetLanguage,
+      segmentIndex,
+    });
+    await this.render(entry.panel, entry.context, { force: true });
+  }
+
+  /** A segment of the finished translation, unless the source has moved on or a run is active. */
+  private getEditableSegment(entry: PreviewEntry, segmentIndex: number): PreviewSegment | undefined {
+    const segment = entry.lastSegments?.[segmentIndex];
+
+    if (
+      !segment ||
+      !entry.lastTranslation ||
+      entry.lastResult?.sourceVersion !== entry.context.document.version ||
+      this.abortControllers.has(entry.key)
+    ) {
+      return undefined;
+    }
+
+    return segment;
+  }
+
+  private toPlannedSegments(
+    entry: PreviewEntry,
+  ): Array<{ markdown: string; startLine: number; endLine: number }> {
+    return (entry.lastSegments ?? []).map((segment) => ({
+      markdown: segment.source,
+      startLine: segment.startLine,
+      endLine: segment.endLine,
+    }));
+  }
+
+  /**
+   * Swaps one segment's translation into the preview state and rebuilds the document result
+   * around it, as `translateDocument` would have.
+   */
+  private patchTranslation(
+    entry: PreviewEntry,
+    documentText: string,
+    update: TranslationSegmentUpdate,
+  ): TranslationResult {
+    const previous = entry.lastTranslation!;
+    const segment = entry.lastSegments?.[update.segmentIndex];
+
+    if (segment) {
+      segment.translation = update.markdown;
+      segment.override = update.override;
+    }
+
+    const body = (entry.lastSegments ?? [])
+      .map((segment) => segment.translation.trimEnd())
+      .join('\n\n');
+    const frontMatter = splitFrontMatter(documentText).frontMatter
+      ? splitFrontMatter(previous.markdown).frontMatter?.lines.join('\n')
+      : undefined;
+    const recoveries: TranslationRecovery[] = (previous.recoveries ?? []).filter(
+      (recovery) => recovery.segmentIndex !== update.segmentIndex,
+    );
+
+    if (update.recovery) {
+      recoveries.push({ segmentIndex: update.segmentIndex, ...update.recovery });
+      recoveries.sort((a, b) => a.segmentIndex - b.segmentIndex);
+    }
+
+    const patched: TranslationResult = {
+      markdown: [frontMatter ?? '', body].filter((part) => part.length > 0).join('\n\n'),
+      html: renderMarkdownToHtml(body),
+      providerId: update.override === 'applied' ? previous.providerId : update.providerId,
+      latencyMs: previous.latencyMs,
+      recoveries,
+    };
+    const usage = addUsage(previous.usage, update.usage);
+
+    if (usage) {
+      patched.usage = usage;
+    }
+
+    entry.lastTranslation = patched;
+    if (entry.lastResult) {
+      entry.lastResult = { ...entry.lastResult, markdown: patched.markdown };
+    }
+
+    return patched;
+  }
+
+  /** Shows the segment's current translation again and restores the completed status line. */
+  private postRetriedSegment(
+    entry: PreviewEntry,
+    segmentIndex: number,
+    update?: TranslationSegmentUpdate,
+  ): void {
+    const segment = entry.lastSegments?.[segmentIndex];
+    const translation = entry.lastTranslation;
+
+    if (!segment || !translation || !entry.lastResult) {
+      return;
+    }
+
+    const documentPath = this.getDocumentLabel(entry.context.document);
+    const targetLanguage = entry.context.resolvedConfig.targetLanguage;
+
+    this.postMessage(entry.panel, {
+      type: 'translationChunk',
+      payload: {
+        segmentIndex,
+        totalSegments: entry.lastSegments?.length ?? 0,
+        markdown: segment.translation,
+        html: update?.html ?? renderMarkdownToHtml(segment.translation),
+        providerId: update?.providerId ?? translation.providerId,
+        latencyMs: update?.latencyMs ?? 0,
+        documentPath,
+        targetLanguage,
+        wasCached: false,
+        recovery:
+          update?.recovery ??
+          translation.recoveries?.find((recovery) => recovery.segmentIndex === segmentIndex),
+        override: segment.override,
+      },
+    });
+    this.postMessage(entry.panel, {
+      type: 'translationResult',
+      payload: {
+        markdown: translation.markdown,
+        html: translation.html,
+        providerId: translation.providerId,
+        latencyMs: translation.latencyMs,
+        targetLanguage,
+        documentPath,
+        sourceVersion: entry.lastResult.sourceVersion,
+        wasCached: false,
+        recoveries: translation.recoveries ?? [],
+        usage: translation.usage,
+        sessionUsage: this.usageLedger.getSessionUsage(),
+      },
+    });
+  }
+
+  private async switchLanguage(entry: PreviewEntry, targetLanguage: string): Promise<void> {
+    const currentLanguage = entry.context.resolvedConfig.targetLanguage;
+
+    if (!targetLanguage || targetLanguage === currentLanguage) {
+      return;
+    }
+
+    const nextKey = this.buildPreviewKey(entry.context.document, targetLanguage);
+    const existing = this.previews.get(nextKey);
+
+    if (existing) {
+      // That language already has its own panel; show it and put this panel's switcher back.
+      existing.panel.reveal(undefined, false);
+      this.postLanguages(entry.panel, entry.context);
+      return;
+    }
+
+    this.cancelPendingTranslation(entry.key, 'language-switched', {
+      documentPath: this.getDocumentLabel(entry.context.document),
+      targetLanguage: currentLanguage,
+    });
+    this.logger.event('translation.languageSwitched', {
+      documentPath: this.getDocumentLabel(entry.context.document),
+      from: currentLanguage,
+      to: targetLanguage,
+    });
+
+    this.previews.delete(entry.key);
+    entry.key = nextKey;
+    entry.lastResult = undefined;
+    entry.lastSegments = undefined;
+    entry.lastTranslation = undefined;
+    this.previews.set(nextKey, entry);
+    await this.render(entry.panel, this.withTargetLanguage(entry.context, targetLanguage), {
+      force: true,
+    });
+  }
+
   private async render(
     panel: vscode.WebviewPanel,
     context: RenderContext,
     options?: { force?: boolean; invalidateCache?: boolean },
   ): Promise<void> {
-    const key = context.document.uri.toString();
+    const key = this.buildPreviewKey(context.document, context.resolvedConfig.targetLanguage);
     const preview = this.previews.get(key);
 
     if (!preview) {
@@ -188,6 +893,8 @@ export class TranslationPreviewManager implements vscode.Disposable {
     }
 
     preview.context = context;
+    this.postLanguages(panel, context);
+    this.postMessage(panel, { type: 'setViewMode', payload: { viewMode: preview.viewMode } });
 
     const documentPath = this.getDocumentLabel(context.document);
     let requestMeta: {
@@ -230,45 +937,22 @@ export class TranslationPreviewManager implements vscode.Disposable {
     preview.lastVersion = context.document.version;
 
     if (options?.invalidateCache) {
-      this.segmentCache.clearForDocument(context.document);
-      await this.cacheStore.clearForDocument(context.document);
+      this.segmentCache.clearForDocument(context.document, context.resolvedConfig.targetLanguage);
+      await this.cacheStore.clearForDocument(context.document, context.resolvedConfig.targetLanguage);
     }
 
+    // Read together: edits made while the run is in flight must not stamp its result as current.
     const documentText = context.document.getText();
-    const cached = options?.invalidateCache
-      ? undefined
-      : await this.cacheStore.load(
-          context.document,
-          documentText,
-          context.resolvedConfig,
-          prompt,
-        );
-
-    if (cached) {
-      this.logger.info(`Serving translation for ${key} from cache.`);
-      this.logger.event('translation.cacheHit', {
-        ...requestMeta,
-        providerId: cached.providerId,
-        latencyMs: cached.latencyMs,
-        wasCached: true,
-      });
-      panel.title = this.buildTitle(context.document);
-      this.postMessage(panel, {
-        type: 'translationResult',
-        payload: {
-          markdown: cached.markdown,
-          html: cached.html,
-          providerId: cached.providerId,
-          latencyMs: cached.latencyMs,
-          targetLanguage: context.resolvedConfig.targetLanguage,
-          documentPath,
-          sourceVersion: context.document.version,
-          wasCached: true,
-          recoveries: cached.recoveries ?? [],
-        },
-      });
-      return;
-    }
+    const sourceVersion = context.document.version;
+    const overrides = await this.overrideStore.load(
+      context.document,
+      context.resolvedConfig.targetLanguage,
+    );
+    // The preview always renders per segment, so every block keeps its actions and source lines;
+    // unchanged segments come from the persisted segment cache instead of the provider. The
+    // whole-document cache is only written here, for batch runs. Overrides can change without
+    // the source changing, so their documents do not write it.
+    const hasOverrides = Object.keys(overrides).length > 0;
 
     this.logger.info(
       `Rendering translation preview for ${documentPath} → ${context.resolvedConfig.targetLanguage} (v${context.document.version}).`,
@@ -279,24 +963,52 @@ export class TranslationPreviewManager implements vscode.Disposable {
     this.cancelPendingTranslation(key, 'superseded');
     this.abortControllers.set(key, controller);
 
+    // Unless the cache was just invalidated, unchanged blocks keep their translation on screen
+    // while only the edited segments are re-translated.
+    const incremental = !options?.invalidateCache;
     this.postMessage(panel, {
       type: 'setLoading',
       payload: {
         isLoading: true,
         documentPath,
         targetLanguage: context.resolvedConfig.targetLanguage,
+        incremental,
       },
     });
 
+    const pendingProgress = new Map<number, TranslationSegmentProgress>();
+    let progressTimer: NodeJS.Timeout | undefined;
+    let plannedSegments: TranslationSegment[] = [];
+    const translatedSegments = new Map<number, TranslationSegmentUpdate>();
+
     try {
-      const onPlan = (segments: string[]): void => {
+      const persistedSegments = await this.cacheStore.loadSegments(
+        context.document,
+        context.resolvedConfig.targetLanguage,
+      );
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      this.segmentCache.resetSegmentUsage(context.document, context.resolvedConfig.targetLanguage);
+      this.segmentCache.restoreSegments(
+        context.document,
+        context.resolvedConfig.targetLanguage,
+        persistedSegments,
+      );
+
+      const onPlan = (segments: TranslationSegment[]): void => {
         if (controller.signal.aborted) {
           return;
         }
 
+        plannedSegments = segments;
+
         this.logger.event('translation.planReady', {
           ...requestMeta,
           totalSegments: segments.length,
+          persistedSegments: Object.keys(persistedSegments).length,
         });
 
         this.postMessage(panel, {
@@ -304,19 +1016,60 @@ export class TranslationPreviewManager implements vscode.Disposable {
           payload: {
             documentPath,
             targetLanguage: context.resolvedConfig.targetLanguage,
-            segments: segments.map((markdown, index) => ({
+            incremental,
+            segments: segments.map((segment, index) => ({
               segmentIndex: index,
-              markdown,
+              markdown: segment.markdown,
+              html: renderMarkdownToHtml(segment.markdown),
+              startLine: segment.startLine,
+              endLine: segment.endLine,
             })),
           },
         });
       };
 
+      const flushProgress = (): void => {
+        progressTimer = undefined;
+
+        if (controller.signal.aborted) {
+          pendingProgress.clear();
+          return;
+        }
+
+        for (const progress of pendingProgress.values()) {
+          this.postMessage(panel, {
+            type: 'translationChunkDelta',
+            payload: {
+              segmentIndex: progress.segmentIndex,
+              totalSegments: progress.totalSegments,
+              markdown: progress.markdown,
+              html: renderMarkdownToHtml(progress.markdown),
+              documentPath,
+              targetLanguage: context.resolvedConfig.targetLanguage,
+            },
+          });
+        }
+
+        pendingProgress.clear();
+      };
+
+      const onSegmentProgress = (progress: TranslationSegmentProgress): void => {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        pendingProgress.set(progress.segmentIndex, progress);
+        progressTimer ??= setTimeout(flushProgress, TranslationPreviewManager.STREAM_THROTTLE_MS);
+      };
+
       const onSegment = (update: TranslationSegmentUpdate): void => {
         if (controller.signal.aborted) {
           return;
         }
 
+        pendingProgress.delete(update.segmentIndex);
+        translatedSegments.set(update.segmentIndex, update);
+
         this.logger.event('translation.segmentCompleted', {
           ...requestMeta,
           segmentIndex: update.segmentIndex,
@@ -326,6 +1079,8 @@ export class TranslationPreviewManager implements vscode.Disposable {
           wasCached: update.wasCached,
           recoveryType: update.recovery?.type ?? null,
           recoveryCode: update.recovery?.code ?? null,
+          promptTokens: update.usage?.promptTokens ?? 0,
+          completionTokens: update.usage?.completionTokens ?? 0,
         });
 
         this.postMessage(panel, {
@@ -341,27 +1096,41 @@ export class TranslationPreviewManager implements vscode.Disposable {
             documentPath,
             wasCached: update.wasCached,
             recovery: update.recovery,
+            override: update.override,
+            startLine: plannedSegments[update.segmentIndex]?.startLine,
+            endLine: plannedSegments[update.segmentIndex]?.endLine,
           },
         });
       };
 
-      const result = await this.translationService.translateDocument(
-        {
-          document: context.document,
-          configuration: context.configuration,
-          resolvedConfig: context.resolvedConfig,
-          signal: controller.signal,
-          cache: this.segmentCache,
-          prompt,
-        },
-        { onPlan, onSegment },
-      );
+      const usageMeter = this.startUsageMeter(context.configuration);
+      let result: TranslationResult;
+
+      try {
+        result = await this.translationService.translateDocument(
+          {
+            document: context.document,
+            configuration: context.configuration,
+            resolvedConfig: context.resolvedConfig,
+            signal: controller.signal,
+            cache: this.segmentCache,
+            prompt,
+            overrides,
+            memory: this.translationMemory,
+            usageMeter,
+          },
+          { onPlan, onSegment, onSegmentProgress },
+        );
+      } finally {
+        // Tokens spent on a superseded or failed run were billed all the same.
+        await this.recordUsage(context, usageMeter);
+      }
 
       if (controller.signal.aborted) {
         return;
       }
 
-      panel.title = this.buildTitle(context.document);
+      panel.title = this.buildTitle(context.document, context.resolvedConfig.targetLanguage);
       const recoveries = result.recoveries ?? [];
 
       if (recoveries.length > 0) {
@@ -370,6 +1139,8 @@ export class TranslationPreviewManager implements vscode.Disposable {
           recoveredSegments: recoveries.length,
           cacheFallbackCount: recoveries.filter((entry) => entry.type === 'cacheFallback').length,
           placeholderCount: recoveries.filter((entry) => entry.type === 'placeholder').length,
+          glossaryCount: recoveries.filter((entry) => entry.type === 'glossary').length,
+          maskMismatchCount: recoveries.filter((entry) => entry.type === 'maskMismatch').length,
         });
       }
 
@@ -382,18 +1153,46 @@ export class TranslationPreviewManager implements vscode.Disposable {
           latencyMs: result.latencyMs,
           targetLanguage: context.resolvedConfig.targetLanguage,
           documentPath,
-          sourceVersion: context.document.version,
-          wasCached: false,
+          sourceVersion,
+          wasCached:
+            translatedSegments.size > 0 &&
+            Array.from(translatedSegments.values()).every((update) => update.wasCached),
           recoveries,
+          usage: result.usage,
+          sessionUsage: this.usageLedger.getSessionUsage(),
         },
       });
-      await this.cacheStore.save(context.document, documentText, context.resolvedConfig, prompt, result);
+      preview.lastResult = {
+        targetLanguage: context.resolvedConfig.targetLanguage,
+        markdown: result.markdown,
+        sourceVersion,
+      };
+      preview.lastSegments = plannedSegments.map((segment, index) => ({
+        source: segment.markdown,
+        translation: translatedSegments.get(index)?.markdown ?? '',
+        startLine: segment.startLine,
+        endLine: segment.endLine,
+        override: translatedSegments.get(index)?.override,
+      }));
+      preview.lastTranslation = result;
+      if (!hasOverrides) {
+        await this.cacheStore.save(context.document, documentText, context.resolvedConfig, prompt, result);
+      }
+      await this.cacheStore.saveSegments(
+        context.document,
+        context.resolvedConfig.targetLanguage,
+        this.segmentCache.getUsedSegments(context.document, context.resolvedConfig.targetLanguage),
+      );
+      await this.translationMemory.persist();
       this.logger.event('translation.success', {
         ...requestMeta,
         providerId: result.providerId,
         latencyMs: result.latencyMs,
-        wasCached: false,
+        wasCached: Array.from(translatedSegments.values()).every((update) => update.wasCached),
         recoveredSegments: recoveries.length,
+        promptTokens: result.usage?.promptTokens ?? 0,
+        completionTokens: result.usage?.completionTokens ?? 0,
+        cost: result.usage?.cost ?? null,
       });
       this.logger.info(
         `Translation succeeded for ${documentPath} → ${context.resolvedConfig.targetLanguage} using ${result.providerId} in ${result.latencyMs}ms.`,
@@ -407,10 +1206,14 @@ export class TranslationPreviewManager implements vscode.Disposable {
 
     this.logger.error(`Failed to render translation preview for ${documentPath}.`, error);
     const message = error instanceof Error ? error.message : localize('common.unknownError');
-      const interpretation = this.interpretError(message, {
-        documentPath,
-        targetLanguage: context.resolvedConfig.targetLanguage,
-      });
+      const interpretation = this.interpretError(
+        message,
+        {
+          documentPath,
+          targetLanguage: context.resolvedConfig.targetLanguage,
+        },
+        error instanceof TranslationRunError ? error.code : undefined,
+      );
 
       this.logger.event('translation.error', {
         ...requestMeta,
@@ -465,6 +1268,11 @@ export class TranslationPreviewManager implements vscode.Disposable {
           });
       }
     } finally {
+      if (progressTimer) {
+        clearTimeout(progressTimer);
+      }
+      pendingProgress.clear();
+
       const storedController = this.abortControllers.get(key);
       if (storedController === controller) {
         this.abortControllers.delete(key);
@@ -472,9 +1280,82 @@ export class TranslationPreviewManager implements vscode.Disposable {
     }
   }
 
-  private buildTitle(document: vscode.TextDocument): string {
+  /** Meter for one run, warning once when it is about to go past `translation.budget.maxCost`. */
+  private startUsageMeter(configuration: ExtensionConfiguration): UsageMeter {
+    return createUsageMeter({
+      maxCost: configuration.translation.budgetMaxCost,
+      action: configuration.translation.budgetAction,
+      onBudgetWarning: (spent, maxCost) => {
+        void vscode.window.showWarningMessage(
+          localize('translation.budget.warning', {
+            spent: formatCost(spent),
+            limit: formatCost(maxCost),
+          }),
+        );
+      },
+    });
+  }
+
+  private async recordUsage(context: RenderContext, usageMeter: UsageMeter): Promise<void> {
+    await this.usageLedger.record(
+      {
+        documentPath: this.getDocumentLabel(context.document),
+        targetLanguage: context.resolvedConfig.targetLanguage,
+        provider: context.resolvedConfig.provider,
+        model: context.resolvedConfig.model,
+      },
+      usageMeter.usage,
+    );
+    await this.usageLedger.persist();
+  }
+
+  private buildTitle(document: vscode.TextDocument, targetLanguage: string): string {
     const relativePath = this.getDocumentLabel(document);
-    return localize('preview.translationPanelTitle', { document: relativePath });
+    return localize('preview.translationPanelTitle', {
+      document: relativePath,
+      language: targetLanguage,
+    });
+  }
+
+  private buildPreviewKey(document: vscode.TextDocument, targetLanguage: string): string {
+    return `${document.uri.toString()}::${targetLanguage}`;
+  }
+
+  private findPreview(panel: vscode.WebviewPanel): PreviewEntry | undefined {
+    for (const preview of this.previews.values()) {
+      if (preview.panel === panel) {
+        return preview;
+      }
+    }
+
+    return undefined;
+  }
+
+  private getDocumentPreviews(document: vscode.TextDocument): PreviewEntry[] {
+    const documentUri = document.uri.toString();
+    return Array.from(this.previews.values()).filter(
+      (preview) => preview.context.document.uri.toString() === documentUri,
+    );
+  }
+
+  private withTargetLanguage(context: RenderContext, targetLanguage: string): RenderContext {
+    return {
+      ...context,
+      resolvedConfig: { ...context.resolvedConfig, targetLanguage },
+    };
+  }
+
+  private postLanguages(panel: vscode.WebviewPanel, context: RenderContext): void {
+    const targetLanguage = context.resolvedConfig.targetLanguage;
+    const configured = context.configuration.translation.targetLanguages;
+
+    this.postMessage(panel, {
+      type: 'setLanguages',
+      payload: {
+        targetLanguage,
+        languages: configured.includes(targetLanguage) ? configured : [...configured, targetLanguage],
+      },
+    });
   }
 
   private getDocumentLabel(document: vscode.TextDocument): string {
@@ -561,6 +1442,17 @@ export class TranslationPreviewManager implements vscode.Disposable {
       }
     }
 
+    .preview__language,
+    .preview__viewMode {
+      flex: 0 0 auto;
+      padding: 4px 6px;
+      font-size: 0.85rem;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-dropdown-border, rgba(128, 128, 128, 0.35));
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+    }
+
     .preview__retry {
       flex: 0 0 auto;
       padding: 6px 14px;
@@ -645,13 +1537,119 @@ export class TranslationPreviewManager implements vscode.Disposable {
     }
 
     .preview__chunk {
+      position: relative;
       margin: 0 0 16px;
     }
 
+    .preview__chunk-actions {
+      display: none;
+      position: absolute;
+      top: 0;
+      right: 0;
+      gap: 4px;
+    }
+
+    .preview__chunk--translated:not(.preview__chunk--streaming):hover > .preview__chunk-actions,
+    .preview__chunk--translated:not(.preview__chunk--streaming):focus-within > .preview__chunk-actions {
+      display: flex;
+    }
+
+    .preview__chunkAction {
+      padding: 2px 8px;
+      font-size: 0.78rem;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-button-border, rgba(128, 128, 128, 0.35));
+      background: var(--vscode-button-secondaryBackground, var(--vscode-button-background));
+      color: var(--vscode-button-secondaryForeground, var(--vscode-button-foreground));
+      cursor: pointer;
+    }
+
+    /* Re-translating would be overruled by the hand edit; discarding only makes sense for one. */
+    .preview__chunk--override .preview__chunkAction[data-segment-action='retry'],
+    .preview__chunk:not(.preview__chunk--override):not(.preview__chunk--override-outdated)
+      .preview__chunkAction[data-segment-action='revert'] {
+      display: none;
+    }
+
+    .preview__segmentForm {
+      grid-column: 1 / -1;
+      display: flex;
+      gap: 6px;
+      margin-top: 8px;
+    }
+
+    .preview__segmentForm--edit {
+      flex-wrap: wrap;
+      justify-content: flex-end;
+    }
+
+    .preview__segmentEditor {
+      flex: 1 1 100%;
+      padding: 6px;
+      font-family: var(--vscode-editor-font-family, monospace);
+      font-size: 0.85rem;
+      resize: vertical;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-input-border, rgba(128, 128, 128, 0.35));
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+    }
+
+    .preview__retryInput {
+      flex: 1 1 auto;
+      padding: 3px 6px;
+      font-size: 0.85rem;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-input-border, rgba(128, 128, 128, 0.35));
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+    }
+
     .preview__chunk--source {
       opacity: 0.65;
     }
 
+    .preview__chunk-source {
+      display: none;
+    }
+
+    .preview__content[data-view-mode='parallel'] .preview__chunk-source,
+    .preview__content[data-view-mode='interleaved'] .preview__chunk-source {
+      display: block;
+    }
+
+    .preview__content[data-view-mode='parallel'] .preview__chunk {
+      display: grid;
+      grid-template-columns: minmax(0, 1fr) minmax(0, 1fr);
+      gap: 24px;
+    }
+
+    .preview__content[data-view-mode='interleaved'] .preview__chunk-source {
+      margin-bottom: 8px;
+      padding-left: 12px;
+      border-left: 3px solid var(--vscode-editorWidget-border, rgba(128, 128, 128, 0.35));
+      color: var(--vscode-descriptionForeground);
+    }
+
+    /* The raw-Markdown placeholder would only repeat the source shown next to it. */
+    .preview__content[data-view-mode='parallel'] .preview__chunk--source .preview__chunk-translation {
+      visibility: hidden;
+    }
+
+    .preview__content[data-view-mode='interleaved'] .preview__chunk--source .preview__chunk-translation {
+      display: none;
+    }
+
+    .preview__chunk-source > :first-child,
+    .preview__chunk-translation > :first-child {
+      margin-top: 0;
+    }
+
+    .preview__chunk--streaming {
+      border-left: 3px solid var(--vscode-progressBar-background, #0e70c0);
+      padding-left: 12px;
+    }
+
     .preview__chunk--cached {
       border-left: 3px solid var(--vscode-terminal-ansiGreen, #4caf50);
       padding-left: 12px;
@@ -667,6 +1665,22 @@ export class TranslationPreviewManager implements vscode.Disposable {
       background: var(--vscode-inputValidation-warningBackground, rgba(255, 152, 0, 0.08));
     }
 
+    .preview__chunk--glossary,
+    .preview__chunk--mask-mismatch {
+      border-left: 3px dashed var(--vscode-inputValidation-warningBorder, #ff9800);
+      padding-left: 12px;
+    }
+
+    .preview__chunk--override {
+      border-left: 3px solid var(--vscode-textLink-foreground, #3794ff);
+      padding-left: 12px;
+    }
+
+    .preview__chunk--override-outdated {
+      border-left: 3px dotted var(--vscode-inputValidation-warningBorder, #ff9800);
+      padding-left: 12px;
+    }
+
     a {
       color: var(--vscode-textLink-foreground);
     }
@@ -709,6 +1723,17 @@ export class TranslationPreviewManager implements vscode.Disposable {
   <main>
     <header class="preview__header">
       <p id="preview-status" class="preview__status" role="status" aria-live="polite" data-state="idle"></p>
+      <select id="preview-language" class="preview__language" aria-label="${escapeAttribute(
+        localeBundle.languageSelectLabel,
+      )}" hidden></select>
+      <select id="preview-view-mode" class="preview__viewMode" aria-label="${escapeAttribute(
+        localeBundle.viewModeLabel,
+      )}">${(['translation', 'parallel', 'interleaved'] as const)
+        .map(
+          (mode) =>
+            `<option value="${mode}">${escapeHtml(localeBundle.viewModes[mode])}</option>`,
+        )
+        .join('')}</select>
       <div class="preview__actions">
         <button type="button" class="preview__exportButton" data-export-format="png"><span>${escapeHtml(
           localeBundle.exportControls.imageButtonLabel,
@@ -716,6 +1741,15 @@ export class TranslationPreviewManager implements vscode.Disposable {
         <button type="button" class="preview__exportButton" data-export-format="pdf"><span>${escapeHtml(
           localeBundle.exportControls.pdfButtonLabel,
         )}</span></button>
+        <button type="button" class="preview__exportButton" data-export-format="html"><span>${escapeHtml(
+          localeBundle.exportControls.htmlButtonLabel,
+        )}</span></button>
+        <button type="button" class="preview__exportButton" data-export-format="docx"><span>${escapeHtml(
+          localeBundle.exportControls.docxButtonLabel,
+        )}</span></button>
+        <button type="button" class="preview__exportButton" data-export-markdown hidden><span>${escapeHtml(
+          localeBundle.exportControls.markdownButtonLabel,
+        )}</span></button>
         <span id="preview-export-error" class="preview__exportError" hidden>${escapeHtml(
           localeBundle.exportControls.failureMessage,
         )}</span>
@@ -759,11 +1793,27 @@ export class TranslationPreviewManager implements vscode.Disposable {
     payload: Extract<WebviewToHostMessage, { type: 'exportContent' }>['payload'],
     previewEntry: PreviewEntry,
   ): Promise<void> {
+    const { lastResult, lastSegments, viewMode } = previewEntry;
+    const markdown =
+      lastResult && lastSegments && viewMode !== 'translation'
+        ? buildInterleavedMarkdown(lastSegments, lastResult.markdown)
+        : lastResult?.markdown;
+
+    if ((payload.format === 'html' || payload.format === 'docx') && markdown === undefined) {
+      void vscode.window.showWarningMessage(localize('export.document.notReady'));
+      return;
+    }
+
     await this.exportService.export({
       format: payload.format,
       dataUri: payload.dataUrl,
       width: payload.width,
       height: payload.height,
+      markdown,
+      language:
+        viewMode === 'translation'
+          ? previewEntry.context.resolvedConfig.targetLanguage
+          : previewEntry.context.configuration.translation.sourceLanguage,
       documentUri: previewEntry.context.document.uri,
       fileNameHint: this.buildTranslationFileName(previewEntry.context),
     });
@@ -771,6 +1821,7 @@ export class TranslationPreviewManager implements vscode.Disposable {
 
   private buildTranslationFileName(
     context: RenderContext,
+    suffix = 'translation-preview',
   ): string {
     const baseName =
       context.document.uri.scheme === 'file'
@@ -779,12 +1830,13 @@ export class TranslationPreviewManager implements vscode.Disposable {
     const index = baseName.lastIndexOf('.');
     const stripped = index >= 0 ? baseName.slice(0, index) : baseName;
     const language = context.resolvedConfig.targetLanguage || 'translation';
-    return `${stripped}-${language}-translation-preview`;
+    return `${stripped}-${language}-${suffix}`;
   }
 
   private interpretError(
     message: string,
     info: { documentPath: string; targetLanguage: string },
+    code?: TranslationErrorCode,
   ): ErrorInterpretation {
     const normalized = message.toLowerCase();
     const baseNotification = localize('translation.error.base', {
@@ -793,7 +1845,12 @@ export class TranslationPreviewManager implements vscode.Disposable {
     });
     const formatNotification = (hint: string): string => `${baseNotification} ${hint} (${message})`;
 
-    if (normalized.includes('401') || normalized.includes('unauthorized') || normalized.includes('forbidden')) {
+    if (
+      code === 'authentication' ||
+      normalized.includes('401') ||
+      normalized.includes('unauthorized') ||
+      normalized.includes('forbidden')
+    ) {
       const hint = localize('translation.error.authHint');
       return {
         category: 'authentication',
@@ -809,6 +1866,7 @@ export class TranslationPreviewManager implements vscode.Disposable {
     }
 
     if (
+      code === 'timeout' ||
       normalized.includes('timeout') ||
       normalized.includes('timed out') ||
       normalized.includes('etimedout')
@@ -828,7 +1886,23 @@ export class TranslationPreviewManager implements vscode.Disposable {
       };
     }
 
-    if (normalized.includes('429') || normalized.includes('rate limit')) {
+    if (code === 'budgetExceeded') {
+      const hint = localize('translation.error.budgetHint');
+      return {
+        category: 'budgetExceeded',
+        hint,
+        notification: formatNotification(hint),
+        actions: [
+          {
+            title: localize('translation.error.action.adjustBudget'),
+            command: 'workbench.action.openSettings',
+            args: ['babelMdViewer.translation.budget'],
+          },
+        ],
+      };
+    }
+
+    if (code === 'rateLimit' || normalized.includes('429') || normalized.includes('rate limit')) {
       const hint = localize('translation.error.rateLimitHint');
       return {
         category: 'rateLimit',
@@ -838,6 +1912,7 @@ export class TranslationPreviewManager implements vscode.Disposable {
     }
 
     if (
+      code === 'network' ||
       normalized.includes('enotfound') ||
       normalized.includes('econnrefused') ||
       normalized.includes('network') ||
@@ -868,7 +1943,12 @@ export class TranslationPreviewManager implements vscode.Disposable {
 
   private cancelPendingTranslation(
     key: string,
-    reason: 'source-document-closed' | 'preview-closed' | 'superseded',
+    reason:
+      | 'source-document-closed'
+      | 'preview-closed'
+      | 'superseded'
+      | 'language-switched'
+      | 'source-changed',
     meta?: { documentPath: string; targetLanguage: string },
   ): void {
     const controller = this.abortControllers.get(key);
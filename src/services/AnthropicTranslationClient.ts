@@ -0,0 +1,97 @@
+import type { TranslationProviderId } from '../types/translation';
+import {
+  HttpTranslationProvider,
+  ProviderHttpRequest,
+  ProviderResponseContent,
+  ProviderStreamEvent,
+} from './HttpTranslationProvider';
+import type { TranslateRequest } from './TranslationProvider';
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+interface AnthropicMessageResponse {
+  id: string;
+  type: 'message';
+  model: string;
+  stop_reason: string | null;
+  content: Array<{ type: 'text'; text: string } | { type: string }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+type AnthropicStreamEvent =
+  | {
+      type: 'message_start';
+      message: { model: string; usage?: { input_tokens?: number; output_tokens?: number } };
+    }
+  | { type: 'content_block_delta'; index: number; delta: { type: string; text?: string } }
+  | { type: 'message_delta'; usage?: { output_tokens?: number } }
+  | { type: string };
+
+export class AnthropicTranslationClient extends HttpTranslationProvider {
+  readonly id: TranslationProviderId = 'anthropic';
+
+  protected buildRequest(request: TranslateRequest, options: { stream: boolean }): ProviderHttpRequest {
+    const { resolvedConfig } = request;
+
+    return {
+      url: this.joinEndpoint(resolvedConfig.apiBaseUrl, '/messages'),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': resolvedConfig.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      body: {
+        model: resolvedConfig.model,
+        system: this.buildInstructions(request),
+        messages: [{ role: 'user', content: this.buildUserPrompt(request) }],
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        temperature: 0.2,
+        ...(options.stream ? { stream: true } : {}),
+      },
+    };
+  }
+
+  protected parseResponse(body: unknown): ProviderResponseContent {
+    const message = body as AnthropicMessageResponse;
+    const text = (message.content ?? [])
+      .map((block) => ('text' in block && typeof block.text === 'string' ? block.text : ''))
+      .join('');
+
+    return {
+      markdown: text,
+      providerId: message.model,
+      usage: message.usage
+        ? { promptTokens: message.usage.input_tokens, completionTokens: message.usage.output_tokens }
+        : undefined,
+    };
+  }
+
+  protected parseStreamEvent(data: unknown): ProviderStreamEvent {
+    const event = data as AnthropicStreamEvent;
+
+    if (event.type === 'message_start' && 'message' in event) {
+      const usage = event.message.usage;
+      return {
+        providerId: event.message.model,
+        usage: usage
+          ? { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens }
+          : undefined,
+      };
+    }
+
+    // The running output token count arrives with the closing `message_delta` event.
+    if (event.type === 'message_delta' && 'usage' in event && event.usage) {
+      return { usage: { completionTokens: event.usage.output_tokens } };
+    }
+
+    if (event.type === 'content_block_delta' && 'delta' in event && event.delta.type === 'text_delta') {
+      return { delta: event.delta.text };
+    }
+
+    return {};
+  }
+}
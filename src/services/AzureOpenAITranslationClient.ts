@@ -0,0 +1,38 @@
+import type { ResolvedTranslationConfiguration, TranslationProviderId } from '../types/translation';
+import { OpenAITranslationClient } from './OpenAITranslationClient';
+
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+
+/**
+ * Azure OpenAI deployments expose the chat completions API under
+ * `{resource}/openai/deployments/{deployment}` and authenticate with an `api-key` header. The
+ * configured model doubles as the deployment name unless the base URL already points at one.
+ */
+export class AzureOpenAITranslationClient extends OpenAITranslationClient {
+  readonly id: TranslationProviderId = 'azureOpenAI';
+  // `stream_options` is rejected by the default API version.
+  protected readonly streamUsageSupported: boolean = false;
+
+  protected buildEndpointUrl(resolvedConfig: ResolvedTranslationConfiguration): string {
+    const [base, query] = resolvedConfig.apiBaseUrl.trim().split('?', 2);
+    const trimmed = base.replace(/\/+$/, '');
+    const deploymentBase = /\/openai\/deployments\/[^/]+/i.test(trimmed)
+      ? trimmed
+      : `${trimmed}/openai/deployments/${encodeURIComponent(resolvedConfig.model)}`;
+    const endpoint = this.joinEndpoint(deploymentBase, '/chat/completions');
+    const params = new URLSearchParams(query ?? '');
+
+    if (!params.has('api-version')) {
+      params.set('api-version', DEFAULT_AZURE_API_VERSION);
+    }
+
+    return `${endpoint}?${params.toString()}`;
+  }
+
+  protected buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'api-key': apiKey,
+    };
+  }
+}
@@ -4,6 +4,8 @@ import MarkdownIt from 'markdown-it';
 
 import { ExtensionLogger } from '../utils/logger';
 import { getExtensionConfiguration } from '../utils/config';
+import { TransformPlugin, runTransformPipeline } from '../utils/transformPipeline';
+import { TransformPluginLoader } from './TransformPluginLoader';
 
 export interface TransformationResult {
   html: string;
@@ -13,7 +15,11 @@ export interface TransformationResult {
 }
 
 export class BabelMarkdownService {
-  constructor(private readonly logger: ExtensionLogger) {}
+  private readonly pluginLoader: TransformPluginLoader;
+
+  constructor(private readonly logger: ExtensionLogger) {
+    this.pluginLoader = new TransformPluginLoader(logger);
+  }
 
   async transformDocument(document: vscode.TextDocument): Promise<TransformationResult> {
   const configuration = getExtensionConfiguration(document);
@@ -25,8 +31,13 @@ export class BabelMarkdownService {
     );
 
     const markdownContent = document.getText();
-    const transformedHtml = await this.applyTransformations(markdownContent, plugins);
-    const hash = this.computeContentHash(document, markdownContent, plugins);
+    const loaded = await this.pluginLoader.load(plugins, document);
+    const transformedHtml = await this.applyTransformations(
+      markdownContent,
+      loaded.plugins,
+      document,
+    );
+    const hash = this.computeContentHash(document, markdownContent, plugins, loaded.signature);
 
     return {
       html: transformedHtml,
@@ -36,28 +47,50 @@ export class BabelMarkdownService {
     };
   }
 
-  private async applyTransformations(content: string, plugins: string[]): Promise<string> {
+  private async applyTransformations(
+    content: string,
+    plugins: TransformPlugin[],
+    document: vscode.TextDocument,
+  ): Promise<string> {
     if (!content.trim()) {
       return '<p><em>This document is empty.</em></p>';
     }
 
-    if (plugins.length > 0) {
-      this.logger.warn('Babel plugins are declared but the pipeline is not implemented yet.');
+    const started = performance.now();
+    const result = await runTransformPipeline(
+      content,
+      plugins,
+      { documentUri: document.uri.toString() },
+      () =>
+        new MarkdownIt({
+          html: false,
+          linkify: true,
+          breaks: false,
+        }),
+    );
+
+    for (const failure of result.failures) {
+      this.logger.error(
+        `Transform plugin "${failure.id}" failed (${failure.phase}) and was skipped.`,
+        failure.error,
+      );
     }
 
-    const markdown = new MarkdownIt({
-      html: false,
-      linkify: true,
-      breaks: false,
-    });
+    if (plugins.length > 0) {
+      const timings = result.timings.map((timing) => `${timing.id} ${timing.ms.toFixed(1)}ms`);
+      this.logger.info(
+        `Transform plugins took ${timings.join(', ')}; ${(performance.now() - started).toFixed(1)}ms in total.`,
+      );
+    }
 
-    return markdown.render(content);
+    return result.html;
   }
 
   private computeContentHash(
     document: vscode.TextDocument,
     markdown: string,
     plugins: string[],
+    pluginSignature: string,
   ): string {
     const hash = createHash('sha256');
 
@@ -65,6 +98,7 @@ export class BabelMarkdownService {
     hash.update(String(document.version));
     hash.update(markdown);
     hash.update(JSON.stringify(plugins));
+    hash.update(pluginSignature);
 
     return hash.digest('hex');
   }
@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+
+import { TranslationService } from './TranslationService';
+import { TranslationCache } from './TranslationCache';
+import { TranslationCacheStore } from './TranslationCacheStore';
+import { TranslationMemory } from './TranslationMemory';
+import { TranslationOverrideStore } from './TranslationOverrideStore';
+import { TranslationOutputService } from './TranslationOutputService';
+import { PromptResolver } from './PromptResolver';
+import { UsageLedger } from './UsageLedger';
+import { ConcurrencyLimiter, createConcurrencyLimiter } from '../utils/async';
+import type { BatchTranslationItem } from '../utils/batchReport';
+import { getExtensionConfiguration, resolveTranslationConfiguration } from '../utils/config';
+import { ExtensionLogger } from '../utils/logger';
+import { UsageMeter, createUsageMeter } from '../utils/usage';
+
+interface BatchTranslationRequest {
+  files: readonly vscode.Uri[];
+  targetLanguages: readonly string[];
+  apiKey: string;
+  /** Maximum provider requests in flight across all files. */
+  concurrency: number;
+  token: vscode.CancellationToken;
+  /** Holds the whole run to one budget; each document is also recorded in the usage ledger. */
+  usageMeter?: UsageMeter;
+  onItemCompleted?: (item: BatchTranslationItem, completed: number, total: number) => void;
+}
+
+interface BatchJob {
+  uri: vscode.Uri;
+  targetLanguage: string;
+}
+
+export class BatchTranslationService {
+  constructor(
+    private readonly translationService: TranslationService,
+    private readonly promptResolver: PromptResolver,
+    private readonly cacheStore: TranslationCacheStore,
+    private readonly overrideStore: TranslationOverrideStore,
+    private readonly translationMemory: TranslationMemory,
+    private readonly usageLedger: UsageLedger,
+    private readonly outputService: TranslationOutputService,
+    private readonly logger: ExtensionLogger,
+  ) {}
+
+  /**
+   * Drops files that are themselves translation outputs of another matched file, so a second
+   * run over `**\/*.md` does not translate `README.zh-CN.md` again.
+   */
+  excludeTranslationOutputs(
+    files: readonly vscode.Uri[],
+    targetLanguages: readonly string[],
+  ): vscode.Uri[] {
+    const outputs = new Set<string>();
+
+    for (const uri of files) {
+      const pattern = getExtensionConfiguration(uri).translation.outputPathPattern;
+      for (const language of targetLanguages) {
+        outputs.add(this.outputService.resolveTarget(uri, language, pattern).toString());
+      }
+    }
+
+    return files.filter((uri) => !outputs.has(uri.toString()));
+  }
+
+  async run(request: BatchTranslationRequest): Promise<BatchTranslationItem[]> {
+    const jobs: BatchJob[] = request.files.flatMap((uri) =>
+      request.targetLanguages.map((targetLanguage) => ({ uri, targetLanguage })),
+    );
+    const controller = new AbortController();
+    const cancellation = request.token.onCancellationRequested(() => controller.abort());
+    const limiter = createConcurrencyLimiter(request.concurrency);
+    const segmentCache = new TranslationCache({ segmentMaxEntries: 2048 });
+    const items: BatchTranslationItem[] = [];
+    let nextIndex = 0;
+
+    this.logger.event('translation.batchStarted', {
+      files: request.files.length,
+      targetLanguages: request.targetLanguages.join(','),
+      concurrency: request.concurrency,
+    });
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < jobs.length) {
+        const job = jobs[nextIndex];
+        nextIndex += 1;
+
+        // Each document gets its own meter for the ledger; the run's meter holds the budget.
+        const usageMeter = createUsageMeter({ parent: request.usageMeter });
+        const item = controller.signal.aborted
+          ? this.createItem(job, { status: 'cancelled', recoveries: 0 })
+          : await this.recordUsage(
+              job,
+              await this.translateJob(job, request.apiKey, {
+                signal: controller.signal,
+                limiter,
+                segmentCache,
+                usageMeter,
+              }),
+              usageMeter,
+            );
+
+        items.push(item);
+        request.onItemCompleted?.(item, items.length, jobs.length);
+      }
+    };
+
+    try {
+      // Documents waiting on the limiter are cheap, so one worker per request slot is enough
+      // to keep the budget saturated.
+      const workerCount = Math.min(Math.max(1, Math.floor(request.concurrency)), jobs.length);
+      await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    } finally {
+      cancellation.dispose();
+      await this.translationMemory.persist();
+      await this.usageLedger.persist();
+    }
+
+    this.logger.event('translation.batchFinished', {
+      total: items.length,
+      failed: items.filter((item) => item.status === 'failed').length,
+      cancelled: controller.signal.aborted,
+    });
+
+    return items;
+  }
+
+  private async translateJob(
+    job: BatchJob,
+    apiKey: string,
+    shared: {
+      signal: AbortSignal;
+      limiter: ConcurrencyLimiter;
+      segmentCache: TranslationCache;
+      usageMeter: UsageMeter;
+    },
+  ): Promise<BatchTranslationItem> {
+    try {
+      const document = await vscode.workspace.openTextDocument(job.uri);
+      const configuration = getExtensionConfiguration(document);
+      const resolvedConfig = resolveTranslationConfiguration(
+        configuration.translation,
+        apiKey,
+        job.targetLanguage,
+      );
+      const prompt = await this.promptResolver.resolve(document, configuration);
+      const documentText = document.getText();
+      const overrides = await this.overrideStore.load(document, job.targetLanguage);
+      // Overrides can change while the source does not, so their documents skip the
+      // whole-document cache, as the preview does.
+      const hasOverrides = Object.keys(overrides).length > 0;
+      const cached = hasOverrides
+        ? undefined
+        : await this.cacheStore.load(document, documentText, resolvedConfig, prompt);
+      let markdown: string;
+      let recoveries: number;
+
+      if (cached) {
+        markdown = cached.markdown;
+        recoveries = cached.recoveries?.length ?? 0;
+      } else {
+        shared.segmentCache.resetSegmentUsage(document, job.targetLanguage);
+        shared.segmentCache.restoreSegments(
+          document,
+          job.targetLanguage,
+          await this.cacheStore.loadSegments(document, job.targetLanguage),
+        );
+        const result = await this.translationService.translateDocument({
+          document,
+          configuration,
+          resolvedConfig,
+          prompt,
+          signal: shared.signal,
+          cache: shared.segmentCache,
+          requestLimiter: shared.limiter,
+          overrides,
+          memory: this.translationMemory,
+          usageMeter: shared.usageMeter,
+        });
+        if (!hasOverrides) {
+          await this.cacheStore.save(document, documentText, resolvedConfig, prompt, result);
+        }
+        await this.cacheStore.saveSegments(
+          document,
+          job.targetLanguage,
+          shared.segmentCache.getUsedSegments(document, job.targetLanguage),
+        );
+        markdown = result.markdown;
+        recoveries = result.recoveries?.length ?? 0;
+      }
+
+      const output = await this.outputService.write({
+        document,
+        targetLanguage: job.targetLanguage,
+        markdown,
+        pattern: configuration.translation.outputPathPattern,
+        confirmOverwrite: false,
+      });
+
+      return this.createItem(job, {
+        status: cached ? 'cached' : 'translated',
+        outputPath: vscode.workspace.asRelativePath(output.uri, false),
+        recoveries,
+      });
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        return this.createItem(job, { status: 'cancelled', recoveries: 0 });
+      }
+
+      this.logger.error(
+        `Batch translation failed for ${vscode.workspace.asRelativePath(job.uri, false)} → ${job.targetLanguage}.`,
+        error,
+      );
+      return this.createItem(job, {
+        status: 'failed',
+        recoveries: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async recordUsage(
+    job: BatchJob,
+    item: BatchTranslationItem,
+    usageMeter: UsageMeter,
+  ): Promise<BatchTranslationItem> {
+    const usage = usageMeter.usage;
+
+    if (usage.promptTokens + usage.completionTokens === 0) {
+      return item;
+    }
+
+    const { translation } = getExtensionConfiguration(job.uri);
+    await this.usageLedger.record(
+      {
+        documentPath: item.documentPath,
+        targetLanguage: job.targetLanguage,
+        provider: translation.provider,
+        model: translation.model,
+      },
+      usage,
+    );
+
+    return { ...item, usage };
+  }
+
+  private createItem(
+    job: BatchJob,
+    outcome: Omit<BatchTranslationItem, 'documentPath' | 'targetLanguage'>,
+  ): BatchTranslationItem {
+    return {
+      documentPath: vscode.workspace.asRelativePath(job.uri, false),
+      targetLanguage: job.targetLanguage,
+      ...outcome,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import type { TranslationProviderId } from '../types/translation';
+import {
+  HttpTranslationProvider,
+  ProviderHttpRequest,
+  ProviderResponseContent,
+} from './HttpTranslationProvider';
+import type { TranslateRequest, TranslationProviderErrorCode } from './TranslationProvider';
+
+interface DeepLTranslateResponse {
+  translations?: Array<{
+    detected_source_language: string;
+    text: string;
+  }>;
+}
+
+const DEEPL_TARGET_LANGUAGE_ALIASES: Record<string, string> = {
+  EN: 'EN-US',
+  PT: 'PT-PT',
+  ZH: 'ZH-HANS',
+  'ZH-CN': 'ZH-HANS',
+  'ZH-SG': 'ZH-HANS',
+  'ZH-TW': 'ZH-HANT',
+  'ZH-HK': 'ZH-HANT',
+};
+
+/**
+ * DeepL-style REST translation API (`POST /v2/translate`). DeepL does not accept free-form
+ * instructions, so the prompt template is ignored and only the target language is sent.
+ */
+export class DeepLTranslationClient extends HttpTranslationProvider {
+  readonly id: TranslationProviderId = 'deepl';
+
+  protected buildRequest(request: TranslateRequest): ProviderHttpRequest {
+    const { resolvedConfig } = request;
+    const trimmedBase = resolvedConfig.apiBaseUrl.replace(/\/+$/, '');
+    const url = /\/v2$/i.test(trimmedBase)
+      ? `${trimmedBase}/translate`
+      : this.joinEndpoint(trimmedBase, '/v2/translate');
+
+    return {
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `DeepL-Auth-Key ${resolvedConfig.apiKey}`,
+      },
+      body: {
+        text: [request.documentText],
+        target_lang: this.normalizeTargetLanguage(resolvedConfig.targetLanguage),
+        preserve_formatting: true,
+      },
+    };
+  }
+
+  protected parseResponse(body: unknown): ProviderResponseContent {
+    const response = body as DeepLTranslateResponse;
+
+    return {
+      markdown: response.translations?.map((entry) => entry.text).join('\n\n'),
+      providerId: this.id,
+    };
+  }
+
+  protected mapStatusToError(status: number): { code: TranslationProviderErrorCode; retryable: boolean } {
+    if (status === 456) {
+      // Character quota for the billing period is exhausted; retrying will not help.
+      return { code: 'rateLimit', retryable: false };
+    }
+
+    return super.mapStatusToError(status);
+  }
+
+  private normalizeTargetLanguage(language: string): string {
+    const normalized = language.trim().replace(/_/g, '-').toUpperCase();
+    return DEEPL_TARGET_LANGUAGE_ALIASES[normalized] ?? normalized;
+  }
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 
 import type { TransformationResult, BabelMarkdownService } from './BabelMarkdownService';
-import { MarkdownExportService, ExportFormat } from './MarkdownExportService';
+import { MarkdownExportService, ExportFormat, ExportImage } from './MarkdownExportService';
+import { getExtensionConfiguration } from '../utils/config';
 import { ExtensionLogger } from '../utils/logger';
 import { getLanguageTag, localize } from '../i18n/localize';
 import { buildPreviewStyles } from '../utils/previewStyles';
@@ -13,8 +14,23 @@ type CaptureResult = {
 };
 
 type WorkerMessage =
-  | { type: 'captured'; payload: CaptureResult }
-  | { type: 'error'; payload: string };
+  | { type: 'captured'; id: number; payload: CaptureResult }
+  | { type: 'error'; id: number; payload: string };
+
+export interface BatchExportJob {
+  /** Markdown file to render: the source document or its saved translation. */
+  uri: vscode.Uri;
+  target: vscode.Uri;
+  /** Workspace-relative path of the source document. */
+  documentPath: string;
+  /** Set when `uri` is a translation. */
+  targetLanguage?: string;
+}
+
+export interface BatchExportItem extends BatchExportJob {
+  status: 'exported' | 'failed' | 'cancelled';
+  error?: string;
+}
 
 export class EditorExportService {
   constructor(
@@ -43,12 +59,23 @@ export class EditorExportService {
         title: localize('export.progress.capturing'),
       },
       async () => {
-        const capture = await this.captureDocument(editor);
+        const captureImage = async (): Promise<ExportImage> => {
+          const worker = this.createWorker();
+
+          try {
+            return await this.captureImage(editor.document, worker);
+          } finally {
+            worker.dispose();
+          }
+        };
+
+        // PDF, HTML and Word exports start from the text; the preview is only captured if needed.
         await this.exportService.export({
           format,
-          dataUri: capture.dataUrl,
-          width: capture.width,
-          height: capture.height,
+          ...(format === 'png'
+            ? await captureImage()
+            : { markdown: editor.document.getText(), captureImage }),
+          language: getExtensionConfiguration(editor.document.uri).translation.sourceLanguage,
           documentUri: editor.document.uri,
           fileNameHint: this.buildFileNameHint(editor.document),
         });
@@ -56,8 +83,113 @@ export class EditorExportService {
     );
   }
 
-  private async captureDocument(editor: vscode.TextEditor): Promise<CaptureResult> {
-    const transform = await this.markdownService.transformDocument(editor.document);
+  /**
+   * Exports each job to its target without save dialogs, one document at a time. PNG exports
+   * (and PDFs that fall back to an image) share one hidden worker webview for the whole run.
+   */
+  async exportDocuments(request: {
+    jobs: readonly BatchExportJob[];
+    format: ExportFormat;
+    token: vscode.CancellationToken;
+    onItemCompleted?: (item: BatchExportItem, completed: number, total: number) => void;
+  }): Promise<BatchExportItem[]> {
+    const items: BatchExportItem[] = [];
+    let worker: ExportWorker | undefined;
+    const getWorker = (): ExportWorker => {
+      // Closing the worker panel only fails the capture in progress.
+      if (!worker || worker.isDisposed) {
+        worker = this.createWorker();
+      }
+      return worker;
+    };
+
+    this.logger.event('export.batchStarted', {
+      files: request.jobs.length,
+      format: request.format,
+    });
+
+    try {
+      for (const job of request.jobs) {
+        const item: BatchExportItem = request.token.isCancellationRequested
+          ? { ...job, status: 'cancelled' }
+          : await this.exportJob(job, request.format, getWorker);
+
+        items.push(item);
+        request.onItemCompleted?.(item, items.length, request.jobs.length);
+      }
+    } finally {
+      worker?.dispose();
+    }
+
+    this.logger.event('export.batchFinished', {
+      total: items.length,
+      failed: items.filter((item) => item.status === 'failed').length,
+      cancelled: request.token.isCancellationRequested,
+    });
+
+    return items;
+  }
+
+  private async exportJob(
+    job: BatchExportJob,
+    format: ExportFormat,
+    getWorker: () => ExportWorker,
+  ): Promise<BatchExportItem> {
+    try {
+      try {
+        await vscode.workspace.fs.stat(job.uri);
+      } catch {
+        throw new Error(
+          job.targetLanguage
+            ? `No saved ${job.targetLanguage} translation at ${vscode.workspace.asRelativePath(job.uri, false)}; save or batch-translate it first.`
+            : 'The file no longer exists.',
+        );
+      }
+
+      const document = await vscode.workspace.openTextDocument(job.uri);
+      const contents = await this.exportService.render(
+        {
+          format,
+          markdown: document.getText(),
+          captureImage: () => this.captureImage(document, getWorker()),
+          language:
+            job.targetLanguage ??
+            getExtensionConfiguration(document.uri).translation.sourceLanguage,
+          documentUri: document.uri,
+          quiet: true,
+        },
+        job.target.path.split('/').pop(),
+      );
+
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(job.target, '..'));
+      await vscode.workspace.fs.writeFile(job.target, contents);
+      return { ...job, status: 'exported' };
+    } catch (error) {
+      this.logger.error(
+        `Batch export failed for ${job.documentPath}${job.targetLanguage ? ` (${job.targetLanguage})` : ''}.`,
+        error,
+      );
+      return {
+        ...job,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async captureImage(
+    document: vscode.TextDocument,
+    worker: ExportWorker,
+  ): Promise<ExportImage> {
+    const transform = await this.markdownService.transformDocument(document);
+    const capture = await worker.capture((captureId) =>
+      this.buildPreviewHtml(transform, worker.webview, captureId),
+    );
+
+    return { dataUri: capture.dataUrl, width: capture.width, height: capture.height };
+  }
+
+  private createWorker(): ExportWorker {
     const panel = vscode.window.createWebviewPanel(
       'babelMdViewer.exportWorker',
       localize('export.worker.title'),
@@ -73,47 +205,13 @@ export class EditorExportService {
       },
     );
 
-    const html = this.buildPreviewHtml(transform, panel.webview, editor.document);
-
-    return new Promise<CaptureResult>((resolve, reject) => {
-      let settled = false;
-
-      const subscription = panel.webview.onDidReceiveMessage((message: WorkerMessage) => {
-        if (settled) {
-          return;
-        }
-        if (message.type === 'captured') {
-          settled = true;
-          subscription.dispose();
-          panel.dispose();
-          resolve(message.payload);
-        } else if (message.type === 'error') {
-          settled = true;
-          subscription.dispose();
-          panel.dispose();
-          const error = new Error(message.payload || 'Export worker failed.');
-          reject(error);
-        }
-      });
-
-      panel.onDidDispose(() => {
-        if (settled) {
-          return;
-        }
-        settled = true;
-        subscription.dispose();
-        this.logger.error('Export panel closed before capture finished.');
-        reject(new Error('Export panel was closed before capture completed.'));
-      });
-
-      panel.webview.html = html;
-    });
+    return new ExportWorker(panel, this.logger);
   }
 
   private buildPreviewHtml(
     result: TransformationResult,
     webview: vscode.Webview,
-    document: vscode.TextDocument,
+    captureId: number,
   ): string {
     const isDark = result.theme === 'dark';
     const background = isDark ? '#1e1e1e' : '#ffffff';
@@ -161,6 +259,7 @@ export class EditorExportService {
   <script nonce="${nonce}" src="${exportScriptUri}"></script>
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
+    const captureId = ${captureId};
     function waitForImages() {
       const images = Array.from(document.images);
       if (images.length === 0) {
@@ -200,16 +299,16 @@ export class EditorExportService {
     async function capture() {
       const target = document.getElementById('capture-root');
       if (!window.__babelMdViewerExport?.captureElement) {
-        vscode.postMessage({ type: 'error', payload: 'Capture bridge unavailable.' });
+        vscode.postMessage({ type: 'error', id: captureId, payload: 'Capture bridge unavailable.' });
         return;
       }
       await waitForImages();
       await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
       window.__babelMdViewerExport.captureElement(target)
-        .then((result) => vscode.postMessage({ type: 'captured', payload: result }))
+        .then((result) => vscode.postMessage({ type: 'captured', id: captureId, payload: result }))
         .catch((error) => {
           const message = error?.message || String(error);
-          vscode.postMessage({ type: 'error', payload: message });
+          vscode.postMessage({ type: 'error', id: captureId, payload: message });
         });
     }
     window.addEventListener('load', capture);
@@ -248,3 +347,82 @@ export class EditorExportService {
     return `${stripped}-preview`;
   }
 }
+
+/**
+ * Hidden webview that renders and captures one document at a time. Each capture replaces the
+ * page; replies carry the capture ID, so a late message from the previous page is ignored.
+ */
+class ExportWorker implements vscode.Disposable {
+  private nextId = 0;
+  private disposed = false;
+  private pending:
+    | { id: number; resolve: (result: CaptureResult) => void; reject: (error: Error) => void }
+    | undefined;
+  private readonly subscriptions: vscode.Disposable[];
+
+  constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly logger: ExtensionLogger,
+  ) {
+    this.subscriptions = [
+      panel.webview.onDidReceiveMessage((message: WorkerMessage) => this.handleMessage(message)),
+      panel.onDidDispose(() => {
+        this.disposed = true;
+
+        if (this.pending) {
+          this.logger.error('Export panel closed before capture finished.');
+          this.pending.reject(new Error('Export panel was closed before capture completed.'));
+          this.pending = undefined;
+        }
+      }),
+    ];
+  }
+
+  get webview(): vscode.Webview {
+    return this.panel.webview;
+  }
+
+  get isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  capture(buildHtml: (captureId: number) => string): Promise<CaptureResult> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Export panel was closed before capture completed.'));
+    }
+
+    if (this.pending) {
+      return Promise.reject(new Error('Export worker is already capturing a document.'));
+    }
+
+    this.nextId += 1;
+    const id = this.nextId;
+
+    return new Promise<CaptureResult>((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+      this.panel.webview.html = buildHtml(id);
+    });
+  }
+
+  dispose(): void {
+    if (!this.disposed) {
+      this.panel.dispose();
+    }
+    this.subscriptions.forEach((subscription) => subscription.dispose());
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    const pending = this.pending;
+
+    if (!pending || message.id !== pending.id) {
+      return;
+    }
+
+    this.pending = undefined;
+    if (message.type === 'captured') {
+      pending.resolve(message.payload);
+    } else {
+      pending.reject(new Error(message.payload || 'Export worker failed.'));
+    }
+  }
+}
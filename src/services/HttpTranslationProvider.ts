@@ -0,0 +1,374 @@
+import * as vscode from 'vscode';
+
+import type {
+  RawTranslationResult,
+  TranslationProviderId,
+  TranslationUsage,
+} from '../types/translation';
+import {
+  TranslateRequest,
+  TranslationProvider,
+  TranslationProviderError,
+  TranslationProviderErrorCode,
+} from './TranslationProvider';
+import { ExtensionLogger } from '../utils/logger';
+import { parseQuotaReset, parseRetryAfter } from '../utils/rateLimit';
+
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface ProviderResponseContent {
+  markdown?: string;
+  providerId?: string;
+  usage?: TranslationUsage;
+}
+
+export interface ProviderStreamEvent {
+  delta?: string;
+  providerId?: string;
+  /** Token counts seen so far; later events overwrite the fields they carry. */
+  usage?: Partial<TranslationUsage>;
+}
+
+/**
+ * Shared HTTP plumbing for JSON-over-HTTP translation backends: timeout and cancellation
+ * handling, status code mapping and network error normalization. Subclasses only describe how
+ * to build the request and where the translated text lives in the response.
+ */
+export abstract class HttpTranslationProvider implements TranslationProvider {
+  abstract readonly id: TranslationProviderId;
+  readonly requiresApiKey: boolean = true;
+
+  constructor(protected readonly logger: ExtensionLogger) {}
+
+  protected abstract buildRequest(
+    request: TranslateRequest,
+    options: { stream: boolean },
+  ): ProviderHttpRequest;
+
+  protected abstract parseResponse(body: unknown, request: TranslateRequest): ProviderResponseContent;
+
+  /**
+   * Extracts the text delta from a single server-sent event. Providers that implement this are
+   * asked for a streamed response whenever the caller passes `onProgress`.
+   */
+  protected parseStreamEvent?(data: unknown): ProviderStreamEvent;
+
+  async translate(request: TranslateRequest): Promise<RawTranslationResult> {
+    const { resolvedConfig, signal } = request;
+    const stream = Boolean(this.parseStreamEvent) && typeof request.onProgress === 'function';
+    const httpRequest = this.buildRequest(request, { stream });
+    const payloadJson = JSON.stringify(httpRequest.body);
+    this.logger.info(`Translation request payload (${this.id}): ${payloadJson}`);
+
+    const controller = new AbortController();
+    let timeoutId: NodeJS.Timeout | undefined;
+    let timedOut = false;
+
+    if (signal?.aborted) {
+      throw new vscode.CancellationError();
+    }
+
+    const abortFromUpstream = (): void => {
+      controller.abort();
+    };
+
+    signal?.addEventListener('abort', abortFromUpstream, { once: true });
+
+    timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, resolvedConfig.timeoutMs);
+
+    const started = Date.now();
+
+    try {
+      const response = await fetch(httpRequest.url, {
+        method: 'POST',
+        headers: httpRequest.headers,
+        body: payloadJson,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorBody = await this.safeReadBody(response);
+        const status = response.status;
+        const { code, retryable } = this.mapStatusToError(status);
+        throw new TranslationProviderError(
+          `Translation API responded with ${status}: ${errorBody ?? 'No body'}.`,
+          {
+            code,
+            status,
+            retryable,
+            retryAfterMs:
+              code === 'rateLimit' || status === 503 ? parseRetryAfter(response.headers) : undefined,
+          },
+        );
+      }
+
+      const quotaResetMs = parseQuotaReset(response.headers);
+      if (quotaResetMs !== undefined) {
+        request.onQuotaExhausted?.(quotaResetMs);
+      }
+
+      const content = stream
+        ? await this.readEventStream(response, request)
+        : this.parseResponse((await response.json()) as unknown, request);
+
+      if (!content.markdown) {
+        throw new TranslationProviderError('Translation API returned an empty response.', {
+          code: 'invalidResponse',
+          retryable: false,
+        });
+      }
+
+      const latency = Date.now() - started;
+
+      return {
+        markdown: content.markdown,
+        providerId: content.providerId || resolvedConfig.model,
+        latencyMs: latency,
+        ...(content.usage ? { usage: content.usage } : {}),
+      };
+    } catch (error) {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+
+      if (signal?.aborted && !timedOut) {
+        throw new vscode.CancellationError();
+      }
+
+      if (controller.signal.aborted && timedOut) {
+        throw new TranslationProviderError('Translation request timed out.', {
+          code: 'timeout',
+          retryable: true,
+          cause: error,
+        });
+      }
+
+      if (error instanceof vscode.CancellationError) {
+        throw error;
+      }
+
+      if (error instanceof TranslationProviderError) {
+        throw error;
+      }
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new vscode.CancellationError();
+      }
+
+      if (error instanceof Error) {
+        throw this.normalizeError(error);
+      }
+
+      throw new TranslationProviderError('Translation failed due to an unknown error.', {
+        code: 'unknown',
+        retryable: false,
+        cause: error,
+      });
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+
+      if (signal) {
+        signal.removeEventListener('abort', abortFromUpstream);
+      }
+    }
+  }
+
+  protected buildInstructions(request: TranslateRequest): string {
+    return this.interpolateInstructions(request.prompt.instructions, {
+      targetLanguage: request.resolvedConfig.targetLanguage,
+      fileName: request.documentLabel,
+    });
+  }
+
+  protected buildUserPrompt(request: TranslateRequest): string {
+    return `Translate the following Markdown file (${request.fileName}). Respond only with translated Markdown.
+
+${request.documentText}`;
+  }
+
+  protected joinEndpoint(apiBaseUrl: string, path: string): string {
+    const trimmed = apiBaseUrl.replace(/\/+$/, '');
+
+    if (trimmed.toLowerCase().endsWith(path.toLowerCase())) {
+      return trimmed;
+    }
+
+    return `${trimmed}${path}`;
+  }
+
+  protected mapStatusToError(status: number): { code: TranslationProviderErrorCode; retryable: boolean } {
+    if (status === 401 || status === 403) {
+      return { code: 'authentication', retryable: false };
+    }
+
+    if (status === 408) {
+      return { code: 'timeout', retryable: true };
+    }
+
+    if (status === 429) {
+      return { code: 'rateLimit', retryable: true };
+    }
+
+    if (status >= 500 && status < 600) {
+      return { code: 'server', retryable: true };
+    }
+
+    return { code: 'unknown', retryable: false };
+  }
+
+  private async readEventStream(
+    response: Response,
+    request: TranslateRequest,
+  ): Promise<ProviderResponseContent> {
+    if (!response.body) {
+      throw new TranslationProviderError('Translation API returned an empty stream.', {
+        code: 'invalidResponse',
+        retryable: true,
+      });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let markdown = '';
+    let providerId: string | undefined;
+    let usage: Partial<TranslationUsage> | undefined;
+    let done = false;
+
+    const handleEvent = (rawEvent: string): void => {
+      const data = rawEvent
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+
+      if (!data) {
+        return;
+      }
+
+      if (data === '[DONE]') {
+        done = true;
+        return;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data);
+      } catch (error) {
+        this.logger.warn(`Ignoring malformed stream event from ${this.id}.`);
+        return;
+      }
+
+      const event = this.parseStreamEvent?.(parsed) ?? {};
+      providerId = event.providerId ?? providerId;
+      if (event.usage) {
+        usage = { ...usage, ...event.usage };
+      }
+
+      if (event.delta) {
+        markdown += event.delta;
+        request.onProgress?.(markdown);
+      }
+    };
+
+    while (!done) {
+      const { value, done: streamDone } = await reader.read();
+
+      if (streamDone) {
+        break;
+      }
+
+      buffered += decoder.decode(value, { stream: true });
+      const events = buffered.split(/\r?\n\r?\n/);
+      buffered = events.pop() ?? '';
+      events.forEach(handleEvent);
+    }
+
+    buffered += decoder.decode();
+    if (!done && buffered.trim()) {
+      handleEvent(buffered);
+    }
+
+    if (done) {
+      await reader.cancel().catch(() => undefined);
+    }
+
+    return {
+      markdown,
+      providerId,
+      usage:
+        usage?.promptTokens !== undefined || usage?.completionTokens !== undefined
+          ? { promptTokens: usage.promptTokens ?? 0, completionTokens: usage.completionTokens ?? 0 }
+          : undefined,
+    };
+  }
+
+  private async safeReadBody(response: Response): Promise<string | undefined> {
+    try {
+      return await response.text();
+    } catch (error) {
+      this.logger.warn('Failed to read error response body.');
+      return undefined;
+    }
+  }
+
+  private interpolateInstructions(
+    template: string,
+    values: { targetLanguage: string; fileName: string },
+  ): string {
+    const replace = (needle: string, replacement: string): ((value: string) => string) => {
+      const pattern = new RegExp(`{{\\s*${needle}\\s*}}`, 'gi');
+      return (value: string) => value.replace(pattern, () => replacement);
+    };
+
+    const withTargetLanguage = replace('targetLanguage', values.targetLanguage)(template);
+    return replace('fileName', values.fileName)(withTargetLanguage).trim();
+  }
+
+  private normalizeError(error: Error): TranslationProviderError {
+    const message = error.message || 'Translation failed.';
+    const normalized = message.toLowerCase();
+
+    if (
+      normalized.includes('etimedout') ||
+      normalized.includes('timeout') ||
+      normalized.includes('timed out')
+    ) {
+      return new TranslationProviderError(message, {
+        code: 'timeout',
+        retryable: true,
+        cause: error,
+      });
+    }
+
+    if (
+      normalized.includes('econnrefused') ||
+      normalized.includes('econnreset') ||
+      normalized.includes('enotfound') ||
+      normalized.includes('network') ||
+      normalized.includes('fetch failed') ||
+      normalized.includes('socket hang up')
+    ) {
+      return new TranslationProviderError(message, {
+        code: 'network',
+        retryable: true,
+        cause: error,
+      });
+    }
+
+    return new TranslationProviderError(message, {
+      code: 'unknown',
+      retryable: false,
+      cause: error,
+    });
+  }
+}
@@ -2,39 +2,147 @@ import * as vscode from 'vscode';
 import { basename, dirname } from 'path';
 import { PDFDocument } from 'pdf-lib';
 
+import { getExtensionConfiguration } from '../utils/config';
+import { splitFrontMatter } from '../utils/frontMatter';
+import { DocxImage, renderMarkdownDocx } from '../utils/docxDocument';
+import { buildStandaloneHtml, inlineImageSources } from '../utils/htmlDocument';
 import { ExtensionLogger } from '../utils/logger';
-import { localize } from '../i18n/localize';
+import { renderMarkdownToHtml } from '../utils/markdown';
+import { PdfEncodingError, renderMarkdownPdf } from '../utils/pdfDocument';
+import { escapeHtml } from '../utils/text';
+import { getLanguageTag, localize } from '../i18n/localize';
+import type { TranslationKey } from '../i18n/localize';
 
-export type ExportFormat = 'png' | 'pdf';
+export type ExportFormat = 'png' | 'pdf' | 'html' | 'docx';
 
-interface ExportRequest {
-  format: ExportFormat;
+/** Text files written as-is through a save dialog. */
+export type TextExportFormat = 'md' | 'xlf' | 'tmx';
+
+type SaveFormat = ExportFormat | TextExportFormat;
+
+const TEXT_EXPORT_MESSAGES: Record<
+  TextExportFormat,
+  { filter: TranslationKey; saveLabel: TranslationKey; success: TranslationKey; failure: TranslationKey }
+> = {
+  md: {
+    filter: 'export.fileFilter.markdown',
+    saveLabel: 'export.saveLabel.markdown',
+    success: 'export.success.markdown',
+    failure: 'export.failure.generic',
+  },
+  xlf: {
+    filter: 'export.fileFilter.xliff',
+    saveLabel: 'export.saveLabel.xliff',
+    success: 'export.success.xliff',
+    failure: 'export.failure.file',
+  },
+  tmx: {
+    filter: 'export.fileFilter.tmx',
+    saveLabel: 'export.saveLabel.tmx',
+    success: 'export.success.tmx',
+    failure: 'export.failure.file',
+  },
+};
+
+const EXPORT_MESSAGES: Record<
+  ExportFormat,
+  { filter: TranslationKey; saveLabel: TranslationKey; success: TranslationKey }
+> = {
+  png: {
+    filter: 'export.fileFilter.image',
+    saveLabel: 'export.saveLabel.image',
+    success: 'export.success.image',
+  },
+  pdf: {
+    filter: 'export.fileFilter.pdf',
+    saveLabel: 'export.saveLabel.pdf',
+    success: 'export.success.pdf',
+  },
+  html: {
+    filter: 'export.fileFilter.html',
+    saveLabel: 'export.saveLabel.html',
+    success: 'export.success.html',
+  },
+  docx: {
+    filter: 'export.fileFilter.docx',
+    saveLabel: 'export.saveLabel.docx',
+    success: 'export.success.docx',
+  },
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+};
+const IMAGE_FETCH_TIMEOUT_MS = 15000;
+/**
+ * Unicode fonts installed with common systems, tried in order when `export.pdfFont` is empty.
+ * The CJK fonts come first as they also cover Latin, Greek and Cyrillic text.
+ */
+const SYSTEM_UNICODE_FONTS = [
+  'C:\\Windows\\Fonts\\msyh.ttc',
+  'C:\\Windows\\Fonts\\arialuni.ttf',
+  '/System/Library/Fonts/Supplemental/Arial Unicode.ttf',
+  '/Library/Fonts/Arial Unicode.ttf',
+  '/System/Library/Fonts/Hiragino Sans GB.ttc',
+  '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc',
+  '/usr/share/fonts/noto-cjk/NotoSansCJK-Regular.ttc',
+  '/usr/share/fonts/google-noto-cjk/NotoSansCJK-Regular.ttc',
+  '/usr/share/fonts/truetype/wqy/wqy-microhei.ttc',
+  'C:\\Windows\\Fonts\\arial.ttf',
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+  '/usr/share/fonts/dejavu/DejaVuSans.ttf',
+];
+
+export interface ExportImage {
   dataUri: string;
-  documentUri?: vscode.Uri;
-  fileNameHint?: string;
   width?: number;
   height?: number;
 }
 
+interface ExportRequest extends Partial<ExportImage> {
+  format: ExportFormat;
+  documentUri?: vscode.Uri;
+  fileNameHint?: string;
+  /** Captures the preview on demand when the request carries no `dataUri`. */
+  captureImage?: () => Promise<ExportImage>;
+  /**
+   * Source of HTML and Word exports, and of PDFs when `babelMdViewer.export.pdfMode` is
+   * `document`.
+   */
+  markdown?: string;
+  /** Lays `markdown` out as plain monospace text, for exports of the source view. */
+  preformatted?: boolean;
+  /** Language tag of `markdown` for HTML and Word exports; defaults to the display language. */
+  language?: string;
+  /** Logs fallbacks instead of notifying, for batch exports. */
+  quiet?: boolean;
+}
+
 const PX_PER_INCH = 96;
 const PDF_POINTS_PER_INCH = 72;
 
 export class MarkdownExportService {
+  /** The last font loaded for PDF exports, so batch exports read it once. */
+  private unicodeFont: { path: string; data: Uint8Array } | undefined;
+
   constructor(private readonly logger: ExtensionLogger) {}
 
   async export(request: ExportRequest): Promise<boolean> {
+    const messages = EXPORT_MESSAGES[request.format];
     const fileName = this.buildFileName(request);
     const defaultDir = this.getDefaultDirectory(request.documentUri);
     const target = await vscode.window.showSaveDialog({
       defaultUri: fileName ? this.buildDefaultUri(fileName, request.format, defaultDir) : defaultDir,
-      filters:
-        request.format === 'png'
-          ? { [localize('export.fileFilter.image')]: ['png'] }
-          : { [localize('export.fileFilter.pdf')]: ['pdf'] },
-      saveLabel:
-        request.format === 'png'
-          ? localize('export.saveLabel.image')
-          : localize('export.saveLabel.pdf'),
+      filters: { [localize(messages.filter)]: [request.format] },
+      saveLabel: localize(messages.saveLabel),
     });
 
     if (!target) {
@@ -42,19 +150,10 @@ export class MarkdownExportService {
     }
 
     try {
-      const buffer = this.decodeDataUri(request.dataUri);
+      await vscode.workspace.fs.writeFile(target, await this.render(request, fileName));
 
-      if (request.format === 'png') {
-        await vscode.workspace.fs.writeFile(target, buffer);
-      } else {
-        const pdfBytes = await this.wrapImageInPdf(buffer, request.width, request.height);
-        await vscode.workspace.fs.writeFile(target, pdfBytes);
-      }
-
-      const messageKey =
-        request.format === 'png' ? 'export.success.image' : 'export.success.pdf';
       void vscode.window.showInformationMessage(
-        localize(messageKey, { path: target.fsPath }),
+        localize(messages.success, { path: target.fsPath }),
       );
       return true;
     } catch (error) {
@@ -64,7 +163,66 @@ export class MarkdownExportService {
     }
   }
 
-  private buildFileName(request: ExportRequest): string | undefined {
+  /**
+   * Produces the contents of an export without asking where to save it. `fileName` supplies the
+   * title of documents without a heading.
+   */
+  async render(request: ExportRequest, fileName?: string): Promise<Uint8Array> {
+    switch (request.format) {
+      case 'png':
+        return this.decodeDataUri((await this.resolveImage(request)).dataUri);
+      case 'html':
+        return Buffer.from(await this.buildHtml(request, fileName), 'utf8');
+      case 'docx':
+        return this.buildDocx(request, fileName);
+      case 'pdf':
+        return this.buildPdf(request);
+    }
+  }
+
+  /** Saves generated Markdown, such as a bilingual handout, through a save dialog. */
+  async exportMarkdown(request: {
+    markdown: string;
+    documentUri?: vscode.Uri;
+    fileNameHint?: string;
+  }): Promise<boolean> {
+    return this.exportText({ ...request, content: request.markdown, format: 'md' });
+  }
+
+  /** Saves generated text, such as Markdown, XLIFF or TMX, through a save dialog. */
+  async exportText(request: {
+    content: string;
+    format: TextExportFormat;
+    documentUri?: vscode.Uri;
+    fileNameHint?: string;
+  }): Promise<boolean> {
+    const messages = TEXT_EXPORT_MESSAGES[request.format];
+    const fileName = this.buildFileName(request);
+    const defaultDir = this.getDefaultDirectory(request.documentUri);
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: fileName ? this.buildDefaultUri(fileName, request.format, defaultDir) : defaultDir,
+      filters: { [localize(messages.filter)]: [request.format] },
+      saveLabel: localize(messages.saveLabel),
+    });
+
+    if (!target) {
+      return false;
+    }
+
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(request.content, 'utf8'));
+      void vscode.window.showInformationMessage(localize(messages.success, { path: target.fsPath }));
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to export ${request.format} file.`, error);
+      void vscode.window.showErrorMessage(localize(messages.failure, { path: target.fsPath }));
+      return false;
+    }
+  }
+
+  private buildFileName(
+    request: Pick<ExportRequest, 'documentUri' | 'fileNameHint'>,
+  ): string | undefined {
     if (request.fileNameHint && request.fileNameHint.trim()) {
       return request.fileNameHint;
     }
@@ -82,14 +240,11 @@ export class MarkdownExportService {
 
   private buildDefaultUri(
     fileName: string,
-    format: ExportFormat,
+    format: SaveFormat,
     directory?: vscode.Uri,
   ): vscode.Uri | undefined {
     const sanitized = this.stripExtension(fileName);
-    const file =
-      format === 'png'
-        ? `${sanitized}.png`
-        : `${sanitized}.pdf`;
+    const file = `${sanitized}.${format}`;
 
     if (!directory) {
       return undefined;
@@ -119,6 +274,182 @@ export class MarkdownExportService {
     return undefined;
   }
 
+  /**
+   * Lays the Markdown out as a paginated document when `export.pdfMode` allows it. Text the
+   * standard PDF fonts cannot show is set in a Unicode font; only text that font lacks as well
+   * falls back to a single page holding the preview image.
+   */
+  private async buildPdf(request: ExportRequest): Promise<Uint8Array> {
+    const settings = getExtensionConfiguration(request.documentUri).export;
+
+    if (settings.pdfMode === 'document' && request.markdown !== undefined) {
+      try {
+        return await renderMarkdownPdf(request.markdown, {
+          pageSize: settings.pageSize,
+          preformatted: request.preformatted,
+          loadUnicodeFont: () => this.loadUnicodeFont(settings.pdfFont, request.documentUri),
+        });
+      } catch (error) {
+        if (!(error instanceof PdfEncodingError)) {
+          throw error;
+        }
+
+        this.logger.warn(`${error.message} Exporting the preview image instead.`);
+        if (!request.quiet) {
+          void vscode.window.showWarningMessage(
+            localize('export.pdf.imageFallback', {
+              characters: error.characters.slice(0, 10).join(' '),
+            }),
+          );
+        }
+      }
+    }
+
+    const image = await this.resolveImage(request);
+    return this.wrapImageInPdf(this.decodeDataUri(image.dataUri), image.width, image.height);
+  }
+
+  /**
+   * Reads `export.pdfFont`, resolved against the document's workspace folder, or else the first
+   * system Unicode font found. A configured font that cannot be read is reported in the log.
+   */
+  private async loadUnicodeFont(
+    configured: string,
+    documentUri?: vscode.Uri,
+  ): Promise<Uint8Array | undefined> {
+    const workspaceFolder =
+      (documentUri && vscode.workspace.getWorkspaceFolder(documentUri)) ??
+      vscode.workspace.workspaceFolders?.[0];
+    const candidates = configured
+      ? [
+          /^(?:\/|[A-Za-z]:[\\/])/.test(configured) || !workspaceFolder
+            ? vscode.Uri.file(configured)
+            : vscode.Uri.joinPath(workspaceFolder.uri, configured),
+        ]
+      : SYSTEM_UNICODE_FONTS.map((path) => vscode.Uri.file(path));
+
+    for (const uri of candidates) {
+      if (this.unicodeFont?.path === uri.fsPath) {
+        return this.unicodeFont.data;
+      }
+
+      try {
+        const data = await vscode.workspace.fs.readFile(uri);
+        this.unicodeFont = { path: uri.fsPath, data };
+        return data;
+      } catch (error) {
+        if (configured) {
+          this.logger.warn(
+            `Unable to read the PDF font ${uri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+          );
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /** A single HTML file with inline styles and images, readable without the extension. */
+  private async buildHtml(request: ExportRequest, fileName?: string): Promise<string> {
+    if (request.markdown === undefined) {
+      throw new Error('No Markdown to export as HTML.');
+    }
+
+    const bodyHtml = request.preformatted
+      ? `<pre><code>${escapeHtml(request.markdown)}</code></pre>`
+      : renderMarkdownToHtml(splitFrontMatter(request.markdown).body);
+
+    return buildStandaloneHtml({
+      fallbackTitle: fileName ? this.stripExtension(fileName) : 'Markdown',
+      languageTag: request.language ?? getLanguageTag(),
+      theme: getExtensionConfiguration(request.documentUri).previewTheme,
+      bodyHtml: await inlineImageSources(bodyHtml, async (source) => {
+        const image = await this.loadImage(source, request.documentUri);
+        return image && `data:${image.mimeType};base64,${Buffer.from(image.data).toString('base64')}`;
+      }),
+      tableOfContentsTitle: localize('export.html.tableOfContents'),
+    });
+  }
+
+  /** An editable Word document laid out from the Markdown structure, with images embedded. */
+  private async buildDocx(request: ExportRequest, fileName?: string): Promise<Uint8Array> {
+    if (request.markdown === undefined) {
+      throw new Error('No Markdown to export as a Word document.');
+    }
+
+    return renderMarkdownDocx(request.markdown, {
+      pageSize: getExtensionConfiguration(request.documentUri).export.pageSize,
+      title: request.preformatted && fileName ? this.stripExtension(fileName) : undefined,
+      preformatted: request.preformatted,
+      language: request.language ?? getLanguageTag(),
+      loadImage: (source) => this.loadImage(source, request.documentUri),
+    });
+  }
+
+  /**
+   * Reads an image referenced by the document: relative paths from the document's folder,
+   * root-relative paths from its workspace folder, and `http(s)` URLs over the network. Images
+   * that cannot be read are left as links.
+   */
+  private async loadImage(
+    source: string,
+    documentUri?: vscode.Uri,
+  ): Promise<DocxImage | undefined> {
+    const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(source)?.[1]?.toLowerCase() ?? '';
+
+    try {
+      if (/^https?:/i.test(source)) {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+
+        try {
+          const response = await fetch(source, { signal: controller.signal });
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+
+          const mimeType =
+            response.headers.get('content-type')?.split(';')[0].trim() ||
+            IMAGE_MIME_TYPES[extension] ||
+            'application/octet-stream';
+          return { data: new Uint8Array(await response.arrayBuffer()), mimeType };
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      }
+
+      const mimeType = IMAGE_MIME_TYPES[extension];
+      if (!documentUri || !mimeType || /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(source)) {
+        return undefined;
+      }
+
+      const path = decodeURI(source.replace(/[?#].*$/, ''));
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
+      const uri =
+        path.startsWith('/') && workspaceFolder
+          ? vscode.Uri.joinPath(workspaceFolder.uri, path)
+          : vscode.Uri.joinPath(documentUri, '..', path);
+      return { data: await vscode.workspace.fs.readFile(uri), mimeType };
+    } catch (error) {
+      this.logger.warn(
+        `Could not embed image ${source} in the export: ${error instanceof Error ? error.message : String(error)}.`,
+      );
+      return undefined;
+    }
+  }
+
+  private async resolveImage(request: ExportRequest): Promise<ExportImage> {
+    if (request.dataUri) {
+      return { dataUri: request.dataUri, width: request.width, height: request.height };
+    }
+
+    if (request.captureImage) {
+      return request.captureImage();
+    }
+
+    throw new Error('No preview image to export.');
+  }
+
   private decodeDataUri(dataUri: string): Uint8Array {
     const matches = /^data:(?<mime>.+);base64,(?<content>.+)$/u.exec(dataUri);
     if (!matches?.groups?.content) {
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+
+import type {
+  MockProviderOptions,
+  RawTranslationResult,
+  TranslationProviderId,
+} from '../types/translation';
+import {
+  TranslationFixtureIndex,
+  createFixtureIndex,
+  parseTranslationFixtures,
+} from '../utils/fixtures';
+import { ExtensionLogger } from '../utils/logger';
+import { pseudoLocalize } from '../utils/pseudoLocalize';
+import {
+  TranslateRequest,
+  TranslationProvider,
+  TranslationProviderError,
+} from './TranslationProvider';
+
+const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  mode: 'pseudo',
+  expansion: 0.3,
+  fixturesPath: '',
+  latencyMs: 0,
+};
+/** Number of chunks a streamed preview receives while the simulated latency elapses. */
+const STREAM_STEPS = 8;
+const FIXTURE_FILE_PATTERN = /\.(?:json|xliff?)$/i;
+const decoder = new TextDecoder();
+
+/**
+ * Offline provider for demos, layout checks and tests: no network, no API key. `pseudo` mode
+ * returns pseudo-localized text that keeps the Markdown structure, and `replay` serves recorded
+ * translations from fixture files, failing for segments that were not recorded.
+ */
+export class MockTranslationClient implements TranslationProvider {
+  readonly id: TranslationProviderId = 'mock';
+  readonly requiresApiKey = false;
+  private fixtures: { signature: string; index: TranslationFixtureIndex } | undefined;
+
+  constructor(private readonly logger: ExtensionLogger) {}
+
+  async translate(request: TranslateRequest): Promise<RawTranslationResult> {
+    const { resolvedConfig, signal } = request;
+    const options = resolvedConfig.mock ?? DEFAULT_MOCK_OPTIONS;
+
+    if (signal?.aborted) {
+      throw new vscode.CancellationError();
+    }
+
+    const started = Date.now();
+    const markdown =
+      options.mode === 'replay'
+        ? await this.replay(request, options)
+        : pseudoLocalize(request.documentText, { expansion: options.expansion });
+
+    await this.simulateLatency(request, options, markdown);
+
+    return {
+      markdown,
+      providerId: `mock-${options.mode}`,
+      latencyMs: Date.now() - started,
+    };
+  }
+
+  private async replay(request: TranslateRequest, options: MockProviderOptions): Promise<string> {
+    const index = await this.loadFixtures(options.fixturesPath);
+    const translation = index.lookup(request.resolvedConfig.targetLanguage, request.documentText);
+
+    if (translation === undefined) {
+      throw new TranslationProviderError(
+        `No recorded ${request.resolvedConfig.targetLanguage} translation for ${request.fileName} in ${options.fixturesPath}.`,
+        { code: 'invalidResponse', retryable: false },
+      );
+    }
+
+    return translation;
+  }
+
+  /** Reads the fixtures once and again whenever a fixture file is added, removed or modified. */
+  private async loadFixtures(fixturesPath: string): Promise<TranslationFixtureIndex> {
+    const root = this.resolveFixturesUri(fixturesPath);
+    let files: Array<{ uri: vscode.Uri; mtime: number }>;
+
+    try {
+      files = await this.listFixtureFiles(root);
+    } catch (error) {
+      throw new TranslationProviderError(
+        `Failed to read translation fixtures at ${root.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+        { code: 'unknown', retryable: false, cause: error },
+      );
+    }
+
+    const signature = files.map((file) => `${file.uri.toString()}@${file.mtime}`).join('|');
+
+    if (this.fixtures?.signature === signature) {
+      return this.fixtures.index;
+    }
+
+    const fixtures = [];
+
+    for (const file of files) {
+      try {
+        const content = decoder.decode(await vscode.workspace.fs.readFile(file.uri));
+        fixtures.push(...parseTranslationFixtures(file.uri.path, content));
+      } catch (error) {
+        this.logger.warn(
+          `Skipping translation fixture ${file.uri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+        );
+      }
+    }
+
+    const index = createFixtureIndex(fixtures);
+    this.fixtures = { signature, index };
+    this.logger.info(`Loaded ${index.size} translation fixtures from ${root.fsPath}.`);
+    return index;
+  }
+
+  private async listFixtureFiles(
+    root: vscode.Uri,
+  ): Promise<Array<{ uri: vscode.Uri; mtime: number }>> {
+    const stat = await vscode.workspace.fs.stat(root);
+
+    if (stat.type !== vscode.FileType.Directory) {
+      return [{ uri: root, mtime: stat.mtime }];
+    }
+
+    const files = [];
+
+    for (const [name, type] of await vscode.workspace.fs.readDirectory(root)) {
+      if (type === vscode.FileType.File && FIXTURE_FILE_PATTERN.test(name)) {
+        const uri = vscode.Uri.joinPath(root, name);
+        files.push({ uri, mtime: (await vscode.workspace.fs.stat(uri)).mtime });
+      }
+    }
+
+    return files.sort((a, b) => a.uri.path.localeCompare(b.uri.path));
+  }
+
+  private resolveFixturesUri(fixturesPath: string): vscode.Uri {
+    if (!fixturesPath) {
+      throw new TranslationProviderError(
+        'Set babelMdViewer.translation.mock.fixturesPath to replay recorded translations.',
+        { code: 'unknown', retryable: false },
+      );
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const isAbsolute = /^(?:\/|[A-Za-z]:[\\/])/.test(fixturesPath);
+
+    return isAbsolute || !workspaceFolder
+      ? vscode.Uri.file(fixturesPath)
+      : vscode.Uri.joinPath(workspaceFolder.uri, fixturesPath);
+  }
+
+  /**
+   * Waits `latencyMs`, handing streamed previews the text in chunks meanwhile. A latency beyond
+   * the configured timeout fails like a real request would, which exercises the retry path.
+   */
+  private async simulateLatency(
+    request: TranslateRequest,
+    options: MockProviderOptions,
+    markdown: string,
+  ): Promise<void> {
+    if (options.latencyMs <= 0) {
+      return;
+    }
+
+    const timedOut = options.latencyMs > request.resolvedConfig.timeoutMs;
+    const totalMs = timedOut ? request.resolvedConfig.timeoutMs : options.latencyMs;
+    const steps = request.onProgress ? STREAM_STEPS : 1;
+
+    for (let step = 1; step <= steps; step += 1) {
+      await this.wait(totalMs / steps, request.signal);
+
+      if (!timedOut) {
+        request.onProgress?.(markdown.slice(0, Math.ceil((markdown.length * step) / steps)));
+      }
+    }
+
+    if (timedOut) {
+      throw new TranslationProviderError('Translation request timed out.', {
+        code: 'timeout',
+        retryable: true,
+      });
+    }
+  }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(new vscode.CancellationError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import type { TranslationProviderId } from '../types/translation';
+import {
+  HttpTranslationProvider,
+  ProviderHttpRequest,
+  ProviderResponseContent,
+} from './HttpTranslationProvider';
+import type { TranslateRequest, TranslationProviderErrorCode } from './TranslationProvider';
+
+interface OllamaChatResponse {
+  model: string;
+  done: boolean;
+  message?: {
+    role: 'assistant';
+    content: string;
+  };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Talks to a local Ollama server through its native `/api/chat` endpoint. Local servers usually
+ * run without authentication, so the API key is only forwarded when one is configured (for
+ * example behind a reverse proxy). llama.cpp servers expose an OpenAI-compatible endpoint and
+ * work with the `openai` provider instead.
+ */
+export class OllamaTranslationClient extends HttpTranslationProvider {
+  readonly id: TranslationProviderId = 'ollama';
+  readonly requiresApiKey = false;
+
+  protected buildRequest(request: TranslateRequest): ProviderHttpRequest {
+    const { resolvedConfig } = request;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (resolvedConfig.apiKey) {
+      headers.Authorization = `Bearer ${resolvedConfig.apiKey}`;
+    }
+
+    return {
+      url: this.joinEndpoint(resolvedConfig.apiBaseUrl, '/api/chat'),
+      headers,
+      body: {
+        model: resolvedConfig.model,
+        messages: [
+          { role: 'system', content: this.buildInstructions(request) },
+          { role: 'user', content: this.buildUserPrompt(request) },
+        ],
+        stream: false,
+        options: {
+          temperature: 0.2,
+        },
+      },
+    };
+  }
+
+  protected parseResponse(body: unknown): ProviderResponseContent {
+    const response = body as OllamaChatResponse;
+
+    return {
+      markdown: response.message?.content,
+      providerId: response.model,
+      usage:
+        response.prompt_eval_count !== undefined || response.eval_count !== undefined
+          ? {
+              promptTokens: response.prompt_eval_count ?? 0,
+              completionTokens: response.eval_count ?? 0,
+            }
+          : undefined,
+    };
+  }
+
+  protected mapStatusToError(status: number): { code: TranslationProviderErrorCode; retryable: boolean } {
+    if (status === 404) {
+      // Ollama answers 404 when the requested model has not been pulled yet.
+      return { code: 'invalidResponse', retryable: false };
+    }
+
+    return super.mapStatusToError(status);
+  }
+}
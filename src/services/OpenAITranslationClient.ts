@@ -1,21 +1,11 @@
-import * as vscode from 'vscode';
-
-import type {
-  RawTranslationResult,
-  ResolvedTranslationConfiguration,
-  TranslationErrorCode,
-  TranslationPrompt,
-} from '../types/translation';
-import { ExtensionLogger } from '../utils/logger';
-
-export interface TranslateRequest {
-  documentText: string;
-  fileName: string;
-  documentLabel: string;
-  resolvedConfig: ResolvedTranslationConfiguration;
-  prompt: TranslationPrompt;
-  signal?: AbortSignal;
-}
+import type { ResolvedTranslationConfiguration, TranslationProviderId } from '../types/translation';
+import {
+  HttpTranslationProvider,
+  ProviderHttpRequest,
+  ProviderResponseContent,
+  ProviderStreamEvent,
+} from './HttpTranslationProvider';
+import type { TranslateRequest } from './TranslationProvider';
 
 interface OpenAIResponseChunk {
   id: string;
@@ -37,273 +27,88 @@ interface OpenAIResponseChunk {
   }>;
 }
 
-export type TranslationProviderErrorCode = TranslationErrorCode;
-
-export class TranslationProviderError extends Error {
-  readonly code: TranslationProviderErrorCode;
-  readonly status?: number;
-  readonly retryable: boolean;
-
-  constructor(
-    message: string,
-    options: { code: TranslationProviderErrorCode; status?: number; retryable?: boolean; cause?: unknown },
-  ) {
-    super(message);
-    this.name = 'TranslationProviderError';
-    this.code = options.code;
-    this.status = options.status;
-    this.retryable = options.retryable ?? false;
-
-    if (options.cause !== undefined) {
-      (this as { cause?: unknown }).cause = options.cause;
-    }
-
-    if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, TranslationProviderError);
-    }
-  }
-}
-
-export class OpenAITranslationClient {
-  constructor(private readonly logger: ExtensionLogger) {}
-
-  async translate(request: TranslateRequest): Promise<RawTranslationResult> {
-    const { resolvedConfig, documentText, fileName, documentLabel, prompt, signal } = request;
-    const url = this.buildEndpointUrl(resolvedConfig.apiBaseUrl);
-    const instructions = this.interpolateInstructions(prompt.instructions, {
-      targetLanguage: resolvedConfig.targetLanguage,
-      fileName: documentLabel,
-    });
-    const messages = this.buildPrompt({
-      instructions,
-      markdown: documentText,
-      fileName,
-    });
-    const payload = {
-      model: resolvedConfig.model,
-      messages,
-      temperature: 0.2,
-      top_p: 1,
-      response_format: { type: 'text' },
+interface OpenAIStreamChunk {
+  id: string;
+  model: string;
+  /** Only on the final chunk, and only when the request asked for it. */
+  usage?: OpenAIResponseChunk['usage'] | null;
+  choices: Array<{
+    index: number;
+    finish_reason: string | null;
+    delta?: {
+      role?: 'assistant';
+      content?: string | null;
     };
-    const payloadJson = JSON.stringify(payload);
-    this.logger.info(`Translation request payload: ${payloadJson}`);
-
-    const controller = new AbortController();
-    let timeoutId: NodeJS.Timeout | undefined;
-    let timedOut = false;
-
-    if (signal?.aborted) {
-      throw new vscode.CancellationError();
-    }
+  }>;
+}
 
-    const abortFromUpstream = (): void => {
-      controller.abort();
+export class OpenAITranslationClient extends HttpTranslationProvider {
+  readonly id: TranslationProviderId = 'openai';
+  /** Asks for a final usage chunk on streamed responses (`stream_options.include_usage`). */
+  protected readonly streamUsageSupported: boolean = true;
+
+  protected buildRequest(request: TranslateRequest, options: { stream: boolean }): ProviderHttpRequest {
+    const { resolvedConfig } = request;
+
+    return {
+      url: this.buildEndpointUrl(resolvedConfig),
+      headers: this.buildHeaders(resolvedConfig.apiKey),
+      body: {
+        model: resolvedConfig.model,
+        messages: this.buildMessages(request),
+        temperature: 0.2,
+        top_p: 1,
+        response_format: { type: 'text' },
+        ...(options.stream ? { stream: true } : {}),
+        ...(options.stream && this.streamUsageSupported
+          ? { stream_options: { include_usage: true } }
+          : {}),
+      },
     };
-
-    signal?.addEventListener('abort', abortFromUpstream, { once: true });
-
-    timeoutId = setTimeout(() => {
-      timedOut = true;
-      controller.abort();
-    }, resolvedConfig.timeoutMs);
-
-    const started = Date.now();
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${resolvedConfig.apiKey}`,
-          'api-key': resolvedConfig.apiKey,
-        },
-        body: payloadJson,
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        const errorBody = await this.safeReadBody(response);
-        const status = response.status;
-        const { code, retryable } = this.mapStatusToError(status);
-        throw new TranslationProviderError(
-          `Translation API responded with ${status}: ${errorBody ?? 'No body'}.`,
-          {
-            code,
-            status,
-            retryable,
-          },
-        );
-      }
-
-      const body = (await response.json()) as OpenAIResponseChunk;
-      const message = body.choices?.[0]?.message?.content;
-
-      if (!message) {
-        throw new TranslationProviderError('Translation API returned an empty response.', {
-          code: 'invalidResponse',
-          retryable: false,
-        });
-      }
-
-      const latency = Date.now() - started;
-
-      return {
-        markdown: message,
-        providerId: body.model || resolvedConfig.model,
-        latencyMs: latency,
-      };
-    } catch (error) {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-
-      if (signal?.aborted && !timedOut) {
-        throw new vscode.CancellationError();
-      }
-
-      if (controller.signal.aborted && timedOut) {
-        throw new TranslationProviderError('Translation request timed out.', {
-          code: 'timeout',
-          retryable: true,
-          cause: error,
-        });
-      }
-
-      if (error instanceof vscode.CancellationError) {
-        throw error;
-      }
-
-      if (error instanceof TranslationProviderError) {
-        throw error;
-      }
-
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new vscode.CancellationError();
-      }
-
-      if (error instanceof Error) {
-        throw this.normalizeError(error);
-      }
-
-      throw new TranslationProviderError('Translation failed due to an unknown error.', {
-        code: 'unknown',
-        retryable: false,
-        cause: error,
-      });
-    } finally {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-
-      if (signal) {
-        signal.removeEventListener('abort', abortFromUpstream);
-      }
-    }
   }
 
-  private buildPrompt(params: {
-    instructions: string;
-    markdown: string;
-    fileName: string;
-  }): Array<{ role: 'system' | 'user'; content: string }> {
-    const userPrompt = `Translate the following Markdown file (${params.fileName}). Respond only with translated Markdown.
+  protected parseResponse(body: unknown): ProviderResponseContent {
+    const chunk = body as OpenAIResponseChunk;
 
-${params.markdown}`;
-
-    return [
-      { role: 'system', content: params.instructions.trim() },
-      { role: 'user', content: userPrompt },
-    ];
+    return {
+      markdown: chunk.choices?.[0]?.message?.content,
+      providerId: chunk.model,
+      usage: chunk.usage
+        ? { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens }
+        : undefined,
+    };
   }
 
-  private buildEndpointUrl(apiBaseUrl: string): string {
-    const trimmed = apiBaseUrl.replace(/\/+$/, '');
-
-    if (/\/chat\/completions$/i.test(trimmed)) {
-      return trimmed;
-    }
+  protected parseStreamEvent(data: unknown): ProviderStreamEvent {
+    const chunk = data as OpenAIStreamChunk;
 
-    return `${trimmed}/chat/completions`;
+    return {
+      delta: chunk.choices?.[0]?.delta?.content ?? undefined,
+      providerId: chunk.model,
+      usage: chunk.usage
+        ? { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens }
+        : undefined,
+    };
   }
 
-  private async safeReadBody(response: Response): Promise<string | undefined> {
-    try {
-      return await response.text();
-    } catch (error) {
-      this.logger.warn('Failed to read error response body.');
-      return undefined;
-    }
+  protected buildEndpointUrl(resolvedConfig: ResolvedTranslationConfiguration): string {
+    return this.joinEndpoint(resolvedConfig.apiBaseUrl, '/chat/completions');
   }
 
-  private interpolateInstructions(
-    template: string,
-    values: { targetLanguage: string; fileName: string },
-  ): string {
-    const replace = (needle: string, replacement: string): ((value: string) => string) => {
-      const pattern = new RegExp(`{{\\s*${needle}\\s*}}`, 'gi');
-      return (value: string) => value.replace(pattern, () => replacement);
+  protected buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+      'api-key': apiKey,
     };
-
-    const withTargetLanguage = replace('targetLanguage', values.targetLanguage)(template);
-    return replace('fileName', values.fileName)(withTargetLanguage).trim();
-  }
-
-  private normalizeError(error: Error): TranslationProviderError {
-    const message = error.message || 'Translation failed.';
-    const normalized = message.toLowerCase();
-
-    if (
-      normalized.includes('etimedout') ||
-      normalized.includes('timeout') ||
-      normalized.includes('timed out')
-    ) {
-      return new TranslationProviderError(message, {
-        code: 'timeout',
-        retryable: true,
-        cause: error,
-      });
-    }
-
-    if (
-      normalized.includes('econnrefused') ||
-      normalized.includes('econnreset') ||
-      normalized.includes('enotfound') ||
-      normalized.includes('network') ||
-      normalized.includes('fetch failed') ||
-      normalized.includes('socket hang up')
-    ) {
-      return new TranslationProviderError(message, {
-        code: 'network',
-        retryable: true,
-        cause: error,
-      });
-    }
-
-    return new TranslationProviderError(message, {
-      code: 'unknown',
-      retryable: false,
-      cause: error,
-    });
   }
 
-  private mapStatusToError(status: number): { code: TranslationProviderErrorCode; retryable: boolean } {
-    if (status === 401 || status === 403) {
-      return { code: 'authentication', retryable: false };
-    }
-
-    if (status === 408) {
-      return { code: 'timeout', retryable: true };
-    }
-
-    if (status === 429) {
-      return { code: 'rateLimit', retryable: true };
-    }
-
-    if (status >= 500 && status < 600) {
-      return { code: 'server', retryable: true };
-    }
-
-    return { code: 'unknown', retryable: false };
+  protected buildMessages(
+    request: TranslateRequest,
+  ): Array<{ role: 'system' | 'user'; content: string }> {
+    return [
+      { role: 'system', content: this.buildInstructions(request) },
+      { role: 'user', content: this.buildUserPrompt(request) },
+    ];
   }
 }
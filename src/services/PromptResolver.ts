@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
 
 import type { ExtensionConfiguration } from '../types/config';
-import type { TranslationPrompt } from '../types/translation';
+import type { GlossaryEntry, TranslationPrompt } from '../types/translation';
 import { DEFAULT_TRANSLATION_PROMPT } from '../constants/prompts';
 import { ExtensionLogger } from '../utils/logger';
 import { hashObject } from '../utils/hash';
+import { parseGlossaryCsv, parseGlossaryJson } from '../utils/glossary';
+
+const GLOSSARY_FILES: Array<{ name: string; parse: (raw: string) => GlossaryEntry[] }> = [
+  { name: 'glossary.json', parse: parseGlossaryJson },
+  { name: 'glossary.csv', parse: parseGlossaryCsv },
+];
 
 export interface ResolvedPrompt extends TranslationPrompt {
   uri?: vscode.Uri;
@@ -14,21 +20,72 @@ export class PromptResolver {
   constructor(private readonly logger: ExtensionLogger) {}
 
   async resolve(document: vscode.TextDocument, configuration: ExtensionConfiguration): Promise<ResolvedPrompt> {
-    const workspacePrompt = await this.tryReadWorkspacePrompt(document);
+    const glossary = await this.tryReadWorkspaceGlossary(document);
+    const workspacePrompt = await this.tryReadWorkspacePrompt(document, glossary);
+    const templateFromSettings = configuration.translation.promptTemplate.trim();
+    const prompt =
+      workspacePrompt ??
+      (templateFromSettings && templateFromSettings !== DEFAULT_TRANSLATION_PROMPT
+        ? this.createPrompt(templateFromSettings, 'configuration', glossary)
+        : this.createPrompt(DEFAULT_TRANSLATION_PROMPT, 'default', glossary));
 
-    if (workspacePrompt) {
-      return workspacePrompt;
+    return this.withFrontMatterKeys(prompt, configuration.translation.frontMatterKeys);
+  }
+
+  /**
+   * Front matter keys change the translated output without touching the instructions, so they
+   * are folded into the fingerprint to keep cached translations from going stale.
+   */
+  private withFrontMatterKeys(prompt: ResolvedPrompt, keys: readonly string[]): ResolvedPrompt {
+    if (keys.length === 0) {
+      return prompt;
     }
 
-    const templateFromSettings = configuration.translation.promptTemplate.trim();
-    if (templateFromSettings && templateFromSettings !== DEFAULT_TRANSLATION_PROMPT) {
-      return this.createPrompt(templateFromSettings, 'configuration');
+    return {
+      ...prompt,
+      fingerprint: hashObject({ prompt: prompt.fingerprint, frontMatterKeys: keys.join('\n') }),
+    };
+  }
+
+  private async tryReadWorkspaceGlossary(
+    document: vscode.TextDocument,
+  ): Promise<GlossaryEntry[] | undefined> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+
+    if (!workspaceFolder) {
+      return undefined;
+    }
+
+    for (const candidate of GLOSSARY_FILES) {
+      const glossaryUri = vscode.Uri.joinPath(workspaceFolder.uri, '.babelmd', candidate.name);
+
+      try {
+        const raw = await vscode.workspace.fs.readFile(glossaryUri);
+        const decoded = new TextDecoder('utf-8', { fatal: false }).decode(raw);
+        const entries = candidate.parse(decoded);
+
+        this.logger.info(`Loaded ${entries.length} glossary term(s) from ${glossaryUri.fsPath}.`);
+        return entries.length > 0 ? entries : undefined;
+      } catch (error) {
+        if ((error as vscode.FileSystemError).code === 'FileNotFound') {
+          continue;
+        }
+
+        this.logger.error(
+          `Failed to read workspace glossary from ${glossaryUri.fsPath}. Translating without glossary.`,
+          error,
+        );
+        return undefined;
+      }
     }
 
-    return this.createPrompt(DEFAULT_TRANSLATION_PROMPT, 'default');
+    return undefined;
   }
 
-  private async tryReadWorkspacePrompt(document: vscode.TextDocument): Promise<ResolvedPrompt | undefined> {
+  private async tryReadWorkspacePrompt(
+    document: vscode.TextDocument,
+    glossary: GlossaryEntry[] | undefined,
+  ): Promise<ResolvedPrompt | undefined> {
     const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
 
     if (!workspaceFolder) {
@@ -45,7 +102,7 @@ export class PromptResolver {
         return undefined;
       }
 
-      return this.createPrompt(decoded, 'workspace', promptUri);
+      return this.createPrompt(decoded, 'workspace', glossary, promptUri);
     } catch (error) {
       if ((error as vscode.FileSystemError).code === 'FileNotFound') {
         return undefined;
@@ -62,15 +119,20 @@ export class PromptResolver {
   private createPrompt(
     rawInstructions: string,
     source: TranslationPrompt['source'],
+    glossary?: GlossaryEntry[],
     uri?: vscode.Uri,
   ): ResolvedPrompt {
     const instructions = rawInstructions.trim();
-    const fingerprint = hashObject({ instructions });
+    // hashObject only keeps top-level keys, so the glossary is folded in as a serialized string.
+    const fingerprint = glossary
+      ? hashObject({ instructions, glossary: JSON.stringify(glossary) })
+      : hashObject({ instructions });
 
     return {
       instructions,
       source,
       fingerprint,
+      glossary,
       uri,
     };
   }
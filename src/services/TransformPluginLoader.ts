@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve } from 'path';
+
+import { ExtensionLogger } from '../utils/logger';
+import { BUILTIN_TRANSFORM_PLUGINS, TransformPlugin } from '../utils/transformPipeline';
+
+export interface LoadedTransformPlugins {
+  plugins: TransformPlugin[];
+  /** Changes whenever a workspace module is edited, so previews render again. */
+  signature: string;
+}
+
+type TransformModule = TransformPlugin['markdownIt'] | Partial<Omit<TransformPlugin, 'id'>>;
+
+/**
+ * Resolves `babelMdViewer.transformPlugins` entries: built-in plugin IDs, packages installed in
+ * the workspace (`markdown-it-footnote`) and workspace-relative CommonJS modules
+ * (`./scripts/preview-plugin.js`). Workspace code only runs in trusted workspaces, and an entry
+ * that fails to load is skipped with a warning instead of failing the preview.
+ */
+export class TransformPluginLoader {
+  /** Modification time of each module when it was last required, to pick up edits. */
+  private readonly loadedVersions = new Map<string, number>();
+  /** Last failure reported per plugin ID. */
+  private readonly reportedFailures = new Map<string, string>();
+
+  constructor(private readonly logger: ExtensionLogger) {}
+
+  async load(
+    ids: readonly string[],
+    document: vscode.TextDocument,
+  ): Promise<LoadedTransformPlugins> {
+    const plugins: TransformPlugin[] = [];
+    const versions: string[] = [];
+
+    for (const id of ids.map((entry) => entry.trim()).filter((entry) => entry.length > 0)) {
+      const builtin = BUILTIN_TRANSFORM_PLUGINS[id];
+
+      if (builtin) {
+        plugins.push(builtin);
+        continue;
+      }
+
+      try {
+        const { plugin, version } = await this.loadModule(id, document);
+        plugins.push(plugin);
+        versions.push(`${id}@${version}`);
+        this.reportedFailures.delete(id);
+      } catch (error) {
+        const message = `Transform plugin "${id}" was skipped: ${error instanceof Error ? error.message : String(error)}`;
+
+        // Previews render on every edit; one warning per plugin until it loads again is enough.
+        if (this.reportedFailures.get(id) !== message) {
+          this.reportedFailures.set(id, message);
+          this.logger.warn(message);
+        }
+      }
+    }
+
+    return { plugins, signature: versions.join('|') };
+  }
+
+  private async loadModule(
+    id: string,
+    document: vscode.TextDocument,
+  ): Promise<{ plugin: TransformPlugin; version: number }> {
+    const workspaceFolder =
+      vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.workspace.workspaceFolders?.[0];
+
+    if (!workspaceFolder) {
+      throw new Error('workspace plugins need an open workspace folder.');
+    }
+
+    if (!vscode.workspace.isTrusted) {
+      throw new Error('workspace plugins only run in trusted workspaces.');
+    }
+
+    const root = workspaceFolder.uri.fsPath;
+    const workspaceRequire = createRequire(join(root, 'package.json'));
+    const request = id.startsWith('.') || isAbsolute(id) ? resolve(root, id) : id;
+    const modulePath = workspaceRequire.resolve(request);
+    const version = (await vscode.workspace.fs.stat(vscode.Uri.file(modulePath))).mtime;
+
+    if (this.loadedVersions.get(modulePath) !== version) {
+      delete workspaceRequire.cache[modulePath];
+      this.loadedVersions.set(modulePath, version);
+    }
+
+    const exported = workspaceRequire(modulePath) as
+      | { default?: TransformModule }
+      | TransformModule;
+    const hooks =
+      exported && typeof exported === 'object' && 'default' in exported
+        ? exported.default
+        : exported;
+
+    return { plugin: this.toPlugin(id, hooks as TransformModule), version };
+  }
+
+  /** Accepts a markdown-it plugin function or an object with any of the transform hooks. */
+  private toPlugin(id: string, hooks: TransformModule | undefined): TransformPlugin {
+    if (typeof hooks === 'function') {
+      return { id, markdownIt: hooks };
+    }
+
+    if (hooks && (hooks.markdownIt || hooks.transformTokens || hooks.transformHtml)) {
+      return {
+        id,
+        markdownIt: hooks.markdownIt?.bind(hooks),
+        transformTokens: hooks.transformTokens?.bind(hooks),
+        transformHtml: hooks.transformHtml?.bind(hooks),
+      };
+    }
+
+    throw new Error(
+      'expected a markdown-it plugin function or an object with markdownIt, transformTokens or transformHtml.',
+    );
+  }
+}
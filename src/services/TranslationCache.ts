@@ -18,6 +18,7 @@ interface CacheKey {
 
 interface CacheEntry {
   key: CacheKey;
+  targetLanguage: string;
   result: TranslationResult;
   timestamp: number;
 }
@@ -30,6 +31,7 @@ interface SegmentCacheEntry {
 
 interface SegmentCacheKey {
   fingerprint: string;
+  targetLanguage: string;
 }
 
 export class TranslationCache {
@@ -37,6 +39,8 @@ export class TranslationCache {
   private readonly segmentCache = new Map<string, SegmentCacheEntry>();
   private readonly segmentOwners = new Map<string, Set<string>>();
   private readonly documentSegments = new Map<string, Set<string>>();
+  /** Fingerprints read or written per document since its last `resetSegmentUsage` call. */
+  private readonly usedSegments = new Map<string, Set<string>>();
   private readonly maxEntries: number;
   private readonly ttlMs: number;
   private readonly maxSegmentEntries: number;
@@ -81,16 +85,20 @@ export class TranslationCache {
 
     this.cache.set(key, {
       key: this.parseKey(key),
+      targetLanguage: resolvedConfig.targetLanguage,
       result,
       timestamp: Date.now(),
     });
   }
 
-  clearForDocument(document: DocumentLike): void {
+  /** Drops cached results for a document, either for every language or just `targetLanguage`. */
+  clearForDocument(document: DocumentLike, targetLanguage?: string): void {
     const prefix = `${document.uri.toString()}::`;
+    const matchesLanguage = (language: string): boolean =>
+      targetLanguage === undefined || language === targetLanguage;
 
-    for (const key of this.cache.keys()) {
-      if (key.startsWith(prefix)) {
+    for (const [key, entry] of this.cache.entries()) {
+      if (key.startsWith(prefix) && matchesLanguage(entry.targetLanguage)) {
         this.cache.delete(key);
       }
     }
@@ -100,6 +108,13 @@ export class TranslationCache {
 
     if (fingerprints) {
       for (const fingerprint of fingerprints) {
+        const entry = this.segmentCache.get(fingerprint);
+        if (entry && !matchesLanguage(entry.key.targetLanguage)) {
+          continue;
+        }
+
+        fingerprints.delete(fingerprint);
+        this.usedSegments.get(documentUri)?.delete(fingerprint);
         const owners = this.segmentOwners.get(fingerprint);
         if (owners) {
           owners.delete(documentUri);
@@ -111,7 +126,10 @@ export class TranslationCache {
           this.segmentCache.delete(fingerprint);
         }
       }
-      this.documentSegments.delete(documentUri);
+
+      if (fingerprints.size === 0) {
+        this.documentSegments.delete(documentUri);
+      }
     }
   }
 
@@ -162,7 +180,7 @@ export class TranslationCache {
     );
 
     this.segmentCache.set(fingerprint, {
-      key: { fingerprint },
+      key: { fingerprint, targetLanguage: resolvedConfig.targetLanguage },
       result,
       timestamp: Date.now(),
     });
@@ -171,16 +189,82 @@ export class TranslationCache {
     this.enforceSegmentCapacity();
   }
 
+  /** Starts recording which segments the next run of a document uses in `targetLanguage`. */
+  resetSegmentUsage(document: DocumentLike, targetLanguage: string): void {
+    const used = this.usedSegments.get(document.uri.toString());
+
+    if (!used) {
+      return;
+    }
+
+    for (const fingerprint of used) {
+      const entry = this.segmentCache.get(fingerprint);
+      if (!entry || entry.key.targetLanguage === targetLanguage) {
+        used.delete(fingerprint);
+      }
+    }
+  }
+
+  /** Segment translations used since the last reset, keyed by fingerprint for persistence. */
+  getUsedSegments(
+    document: DocumentLike,
+    targetLanguage: string,
+  ): Record<string, RawTranslationResult> {
+    const segments: Record<string, RawTranslationResult> = {};
+
+    for (const fingerprint of this.usedSegments.get(document.uri.toString()) ?? []) {
+      const entry = this.segmentCache.get(fingerprint);
+      if (entry && entry.key.targetLanguage === targetLanguage) {
+        segments[fingerprint] = entry.result;
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Seeds segment entries loaded from disk. Entries stay owned by the document, so clearing it
+   * drops them again, but they only count as used once a run actually reads them.
+   */
+  restoreSegments(
+    document: DocumentLike,
+    targetLanguage: string,
+    segments: Record<string, RawTranslationResult>,
+  ): void {
+    const documentUri = document.uri.toString();
+    const now = Date.now();
+
+    for (const [fingerprint, result] of Object.entries(segments)) {
+      const existing = this.segmentCache.get(fingerprint);
+
+      if (existing) {
+        existing.timestamp = now;
+      } else {
+        this.segmentCache.set(fingerprint, {
+          key: { fingerprint, targetLanguage },
+          result,
+          timestamp: now,
+        });
+      }
+
+      this.associateSegmentWithDocument(fingerprint, documentUri, false);
+    }
+
+    this.enforceSegmentCapacity();
+  }
+
   private buildKey(
     document: DocumentLike,
     resolvedConfig: ResolvedTranslationConfiguration,
     promptFingerprint: string,
   ): string {
     const configHash = hashObject({
+      provider: resolvedConfig.provider,
       apiBaseUrl: resolvedConfig.apiBaseUrl,
       model: resolvedConfig.model,
       targetLanguage: resolvedConfig.targetLanguage,
       prompt: promptFingerprint,
+      mock: this.describeMockOptions(resolvedConfig),
     });
 
     return `${document.uri.toString()}::${document.version}::${configHash}`;
@@ -195,13 +279,22 @@ export class TranslationCache {
 
     return hashObject({
       content: normalized,
+      provider: resolvedConfig.provider,
       model: resolvedConfig.model,
       targetLanguage: resolvedConfig.targetLanguage,
       apiBaseUrl: resolvedConfig.apiBaseUrl,
       prompt: promptFingerprint,
+      mock: this.describeMockOptions(resolvedConfig),
     });
   }
 
+  /** Keeps pseudo and replayed translations apart; undefined, and so left out, for real providers. */
+  private describeMockOptions(
+    resolvedConfig: ResolvedTranslationConfiguration,
+  ): string | undefined {
+    return resolvedConfig.mock ? JSON.stringify(resolvedConfig.mock) : undefined;
+  }
+
   private parseKey(key: string): CacheKey {
     const [uri, version, configHash] = key.split('::');
 
@@ -239,6 +332,7 @@ export class TranslationCache {
     const owners = this.segmentOwners.get(fingerprint);
     if (owners) {
       for (const documentUri of owners) {
+        this.usedSegments.get(documentUri)?.delete(fingerprint);
         const set = this.documentSegments.get(documentUri);
         if (set) {
           set.delete(fingerprint);
@@ -251,7 +345,20 @@ export class TranslationCache {
     }
   }
 
-  private associateSegmentWithDocument(fingerprint: string, documentUri: string): void {
+  private associateSegmentWithDocument(
+    fingerprint: string,
+    documentUri: string,
+    markUsed = true,
+  ): void {
+    if (markUsed) {
+      let used = this.usedSegments.get(documentUri);
+      if (!used) {
+        used = new Set<string>();
+        this.usedSegments.set(documentUri, used);
+      }
+      used.add(fingerprint);
+    }
+
     let owners = this.segmentOwners.get(fingerprint);
     if (!owners) {
       owners = new Set<string>();
@@ -271,10 +378,15 @@ export class TranslationCache {
   }
 
   private enforceSegmentCapacity(): void {
-    if (this.segmentCache.size <= this.maxSegmentEntries) {
-      return;
+    while (
+      this.segmentCache.size > Math.max(0, this.maxSegmentEntries) &&
+      this.segmentCache.size > 0
+    ) {
+      this.evictOldestSegment();
     }
+  }
 
+  private evictOldestSegment(): void {
     let oldestFingerprint: string | undefined;
     let oldestTs = Number.POSITIVE_INFINITY;
 
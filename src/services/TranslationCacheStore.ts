@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 
 import type {
+  RawTranslationResult,
   ResolvedTranslationConfiguration,
   TranslationPrompt,
   TranslationResult,
@@ -13,6 +14,7 @@ interface CachedTranslationEntry {
   fileUri: string;
   filePath: string;
   contentHash: string;
+  provider: string;
   targetLanguage: string;
   model: string;
   promptFingerprint: string;
@@ -24,6 +26,15 @@ interface CachedTranslationEntry {
   updatedAt: number;
 }
 
+interface CachedSegmentsEntry {
+  fileUri: string;
+  targetLanguage: string;
+  /** Segment translations keyed by the fingerprint `TranslationCache` computes for them. */
+  segments: Record<string, RawTranslationResult>;
+  updatedAt: number;
+}
+
+const SEGMENTS_FILE_NAME = 'segments.json';
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
 
@@ -54,7 +65,7 @@ export class TranslationCacheStore {
       return undefined;
     }
 
-    const entry = this.parseEntry(raw, entryUri);
+    const entry = this.parseJson<CachedTranslationEntry>(raw, entryUri);
     if (!entry) {
       return undefined;
     }
@@ -64,6 +75,7 @@ export class TranslationCacheStore {
     if (
       entry.fileUri !== document.uri.toString() ||
       entry.contentHash !== contentHash ||
+      entry.provider !== resolvedConfig.provider ||
       entry.targetLanguage !== resolvedConfig.targetLanguage ||
       entry.model !== resolvedConfig.model ||
       entry.promptFingerprint !== prompt.fingerprint
@@ -86,6 +98,7 @@ export class TranslationCacheStore {
       fileUri: document.uri.toString(),
       filePath: document.uri.fsPath,
       contentHash: sha256Hex(documentText),
+      provider: resolvedConfig.provider,
       targetLanguage: resolvedConfig.targetLanguage,
       model: resolvedConfig.model,
       promptFingerprint: prompt.fingerprint,
@@ -107,8 +120,77 @@ export class TranslationCacheStore {
     }
   }
 
-  async clearForDocument(document: vscode.TextDocument): Promise<void> {
-    const { entryDir } = this.resolvePaths(document, null, null);
+  /**
+   * Loads the segment translations of the document's last run in `targetLanguage`. Fingerprints
+   * already cover provider, model and prompt, so one file per language is enough.
+   */
+  async loadSegments(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+  ): Promise<Record<string, RawTranslationResult>> {
+    const segmentsUri = vscode.Uri.joinPath(
+      this.resolveLanguageDir(document, targetLanguage),
+      SEGMENTS_FILE_NAME,
+    );
+    let raw: Uint8Array;
+
+    try {
+      raw = await vscode.workspace.fs.readFile(segmentsUri);
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+        this.logger.warn(
+          `Failed to read segment cache at ${segmentsUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+        );
+      }
+      return {};
+    }
+
+    const entry = this.parseJson<CachedSegmentsEntry>(raw, segmentsUri);
+
+    if (
+      !entry ||
+      entry.fileUri !== document.uri.toString() ||
+      entry.targetLanguage !== targetLanguage ||
+      typeof entry.segments !== 'object'
+    ) {
+      return {};
+    }
+
+    return entry.segments;
+  }
+
+  /** Replaces the persisted segments of a document with the ones its latest run used. */
+  async saveSegments(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+    segments: Record<string, RawTranslationResult>,
+  ): Promise<void> {
+    const languageDir = this.resolveLanguageDir(document, targetLanguage);
+    const segmentsUri = vscode.Uri.joinPath(languageDir, SEGMENTS_FILE_NAME);
+    const entry: CachedSegmentsEntry = {
+      fileUri: document.uri.toString(),
+      targetLanguage,
+      segments,
+      updatedAt: Date.now(),
+    };
+
+    try {
+      await vscode.workspace.fs.createDirectory(languageDir);
+      await vscode.workspace.fs.writeFile(segmentsUri, encoder.encode(JSON.stringify(entry)));
+    } catch (error) {
+      this.logger.warn(
+        `Failed to persist segment cache at ${segmentsUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+      );
+    }
+  }
+
+  /** Removes persisted translations of a document, for every language or just `targetLanguage`. */
+  async clearForDocument(document: vscode.TextDocument, targetLanguage?: string): Promise<void> {
+    const documentDir = this.resolveDocumentDir(document);
+    const entryDir =
+      targetLanguage === undefined
+        ? documentDir
+        : this.resolveLanguageDir(document, targetLanguage);
     try {
       await vscode.workspace.fs.delete(entryDir, { recursive: true, useTrash: false });
     } catch (error) {
@@ -121,26 +203,30 @@ export class TranslationCacheStore {
     }
   }
 
-  private resolvePaths(
-    document: vscode.TextDocument,
-    resolvedConfig: ResolvedTranslationConfiguration | null,
-    promptFingerprint: string | null,
-  ): { entryDir: vscode.Uri; entryUri: vscode.Uri } {
+  private resolveDocumentDir(document: vscode.TextDocument): vscode.Uri {
     const workspaceHash = this.getWorkspaceHash(document);
     const fileHash = sha256Hex(document.uri.toString());
-    const entryDir = vscode.Uri.joinPath(
-      this.storageRoot,
-      'translation-cache',
-      workspaceHash,
-      fileHash,
-    );
+    return vscode.Uri.joinPath(this.storageRoot, 'translation-cache', workspaceHash, fileHash);
+  }
 
-    if (!resolvedConfig || !promptFingerprint) {
-      return { entryDir, entryUri: entryDir };
-    }
+  /** Entries are grouped per target language so one language can be cleared on its own. */
+  private resolveLanguageDir(document: vscode.TextDocument, targetLanguage: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.resolveDocumentDir(document), sha256Hex(targetLanguage.trim()));
+  }
 
+  private resolvePaths(
+    document: vscode.TextDocument,
+    resolvedConfig: ResolvedTranslationConfiguration,
+    promptFingerprint: string,
+  ): { entryDir: vscode.Uri; entryUri: vscode.Uri } {
+    const entryDir = this.resolveLanguageDir(document, resolvedConfig.targetLanguage);
     const configKey = sha256Hex(
-      [resolvedConfig.targetLanguage.trim(), resolvedConfig.model.trim(), promptFingerprint.trim()].join('|'),
+      [
+        resolvedConfig.provider,
+        resolvedConfig.targetLanguage.trim(),
+        resolvedConfig.model.trim(),
+        promptFingerprint.trim(),
+      ].join('|'),
     );
     const entryUri = vscode.Uri.joinPath(entryDir, `${configKey}.json`);
     return { entryDir, entryUri };
@@ -152,10 +238,10 @@ export class TranslationCacheStore {
     return sha256Hex(workspaceKey);
   }
 
-  private parseEntry(raw: Uint8Array, entryUri: vscode.Uri): CachedTranslationEntry | undefined {
+  private parseJson<T>(raw: Uint8Array, entryUri: vscode.Uri): T | undefined {
     try {
       const json = decoder.decode(raw);
-      return JSON.parse(json) as CachedTranslationEntry;
+      return JSON.parse(json) as T;
     } catch (error) {
       this.logger.warn(
         `Failed to parse translation cache at ${entryUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
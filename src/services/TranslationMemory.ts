@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+
+import { sha256Hex } from '../utils/hash';
+import { ExtensionLogger } from '../utils/logger';
+import {
+  TranslationMemoryEntry,
+  TranslationMemoryMatch,
+  findFuzzyMatches,
+  normalizeMemorySource,
+} from '../utils/translationMemory';
+
+interface TranslationMemoryFile {
+  targetLanguage: string;
+  /** Entries keyed by the hash of their normalized source. */
+  entries: Record<string, TranslationMemoryEntry>;
+}
+
+/** Oldest entries are dropped beyond this size so fuzzy lookups stay fast. */
+const MAX_ENTRIES_PER_LANGUAGE = 5000;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Source/translation pairs shared by every document, one file per target language under the
+ * extension's global storage. Unlike the segment cache, entries are not tied to a document,
+ * provider or model, so recurring paragraphs are translated once across the documentation set.
+ */
+export class TranslationMemory {
+  private readonly languages = new Map<string, Map<string, TranslationMemoryEntry>>();
+  private readonly loading = new Map<string, Promise<Map<string, TranslationMemoryEntry>>>();
+  private readonly dirty = new Set<string>();
+
+  constructor(
+    private readonly storageRoot: vscode.Uri,
+    private readonly logger: ExtensionLogger,
+  ) {}
+
+  /** Reads the memory of `targetLanguage` from disk once; later calls reuse it. */
+  async load(targetLanguage: string): Promise<void> {
+    const language = targetLanguage.trim();
+
+    if (this.languages.has(language)) {
+      return;
+    }
+
+    let pending = this.loading.get(language);
+    if (!pending) {
+      pending = this.readLanguage(language);
+      this.loading.set(language, pending);
+    }
+
+    const entries = await pending;
+    this.loading.delete(language);
+    if (!this.languages.has(language)) {
+      this.languages.set(language, entries);
+    }
+  }
+
+  /** Every entry recorded for `targetLanguage`, oldest first. */
+  async getEntries(targetLanguage: string): Promise<TranslationMemoryEntry[]> {
+    await this.load(targetLanguage);
+
+    return Array.from(this.languages.get(targetLanguage.trim())?.values() ?? []);
+  }
+
+  /** A translation of exactly this source made with the same prompt, if one was recorded. */
+  lookup(
+    targetLanguage: string,
+    source: string,
+    promptFingerprint: string,
+  ): TranslationMemoryEntry | undefined {
+    const entry = this.languages.get(targetLanguage.trim())?.get(this.buildKey(source));
+
+    return entry?.promptFingerprint === promptFingerprint ? entry : undefined;
+  }
+
+  findSimilar(
+    targetLanguage: string,
+    source: string,
+    options: { threshold: number; limit: number },
+  ): TranslationMemoryMatch[] {
+    const entries = this.languages.get(targetLanguage.trim());
+
+    return entries ? findFuzzyMatches(entries.values(), source, options) : [];
+  }
+
+  /** Adds or replaces the pair for `source`; call `persist` to write it to disk. */
+  record(
+    targetLanguage: string,
+    source: string,
+    translation: string,
+    promptFingerprint: string,
+  ): void {
+    const language = targetLanguage.trim();
+    let entries = this.languages.get(language);
+
+    if (!entries) {
+      entries = new Map();
+      this.languages.set(language, entries);
+    }
+
+    const key = this.buildKey(source);
+    entries.delete(key);
+    entries.set(key, {
+      source: source.trim(),
+      translation: translation.trim(),
+      promptFingerprint,
+      updatedAt: Date.now(),
+    });
+
+    // Maps keep insertion order and updated entries are re-inserted, so the first is the oldest.
+    while (entries.size > MAX_ENTRIES_PER_LANGUAGE) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      entries.delete(oldest);
+    }
+
+    this.dirty.add(language);
+  }
+
+  /** Writes every language with entries recorded since the last call. */
+  async persist(): Promise<void> {
+    const languages = Array.from(this.dirty);
+    this.dirty.clear();
+
+    for (const language of languages) {
+      const memoryUri = this.resolveUri(language);
+      const file: TranslationMemoryFile = {
+        targetLanguage: language,
+        entries: Object.fromEntries(this.languages.get(language) ?? []),
+      };
+
+      try {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(memoryUri, '..'));
+        await vscode.workspace.fs.writeFile(memoryUri, encoder.encode(JSON.stringify(file)));
+      } catch (error) {
+        this.logger.warn(
+          `Failed to persist translation memory at ${memoryUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+        );
+      }
+    }
+  }
+
+  private async readLanguage(language: string): Promise<Map<string, TranslationMemoryEntry>> {
+    const memoryUri = this.resolveUri(language);
+    let raw: Uint8Array;
+
+    try {
+      raw = await vscode.workspace.fs.readFile(memoryUri);
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+        this.logger.warn(
+          `Failed to read translation memory at ${memoryUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+        );
+      }
+      return new Map();
+    }
+
+    try {
+      const file = JSON.parse(decoder.decode(raw)) as Partial<TranslationMemoryFile>;
+      const entries = Object.entries(file.entries ?? {}).sort(
+        ([, a], [, b]) => a.updatedAt - b.updatedAt,
+      );
+      this.logger.info(`Loaded ${entries.length} translation memory entries for ${language}.`);
+      return new Map(entries);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to parse translation memory at ${memoryUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+      );
+      return new Map();
+    }
+  }
+
+  private buildKey(source: string): string {
+    return sha256Hex(normalizeMemorySource(source));
+  }
+
+  private resolveUri(language: string): vscode.Uri {
+    return vscode.Uri.joinPath(
+      this.storageRoot,
+      'translation-memory',
+      `${sha256Hex(language)}.json`,
+    );
+  }
+}
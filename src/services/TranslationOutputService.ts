@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+
+import { ExtensionLogger } from '../utils/logger';
+import { localize } from '../i18n/localize';
+import { resolveOutputPath } from '../utils/outputPath';
+
+export type TranslationOutputStatus = 'written' | 'unchanged' | 'cancelled';
+
+interface TranslationOutputRequest {
+  document: vscode.TextDocument;
+  targetLanguage: string;
+  markdown: string;
+  pattern: string;
+  /** Ask before replacing an existing file whose content differs. */
+  confirmOverwrite: boolean;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class TranslationOutputService {
+  constructor(private readonly logger: ExtensionLogger) {}
+
+  resolveTarget(source: vscode.Uri, targetLanguage: string, pattern: string): vscode.Uri {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(source);
+    const path = resolveOutputPath(pattern, {
+      documentPath: source.path,
+      workspacePath: workspaceFolder?.uri.path,
+      targetLanguage,
+    });
+
+    return source.with({ path });
+  }
+
+  async write(
+    request: TranslationOutputRequest,
+  ): Promise<{ status: TranslationOutputStatus; uri: vscode.Uri }> {
+    const target = this.resolveTarget(
+      request.document.uri,
+      request.targetLanguage,
+      request.pattern,
+    );
+
+    if (target.toString() === request.document.uri.toString()) {
+      throw new Error(`Output path ${target.fsPath} would overwrite the source document.`);
+    }
+
+    const existing = await this.readExisting(target);
+    const content = request.markdown.endsWith('\n') ? request.markdown : `${request.markdown}\n`;
+
+    if (existing === content) {
+      return { status: 'unchanged', uri: target };
+    }
+
+    if (existing !== undefined && request.confirmOverwrite) {
+      const confirmed = await this.confirmOverwrite(target, content);
+      if (!confirmed) {
+        return { status: 'cancelled', uri: target };
+      }
+    }
+
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'));
+    await vscode.workspace.fs.writeFile(target, encoder.encode(content));
+    this.logger.info(
+      `Wrote ${request.targetLanguage} translation of ${request.document.uri.fsPath} to ${target.fsPath}.`,
+    );
+
+    return { status: 'written', uri: target };
+  }
+
+  private async readExisting(target: vscode.Uri): Promise<string | undefined> {
+    try {
+      return decoder.decode(await vscode.workspace.fs.readFile(target));
+    } catch (error) {
+      if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async confirmOverwrite(target: vscode.Uri, content: string): Promise<boolean> {
+    const overwrite = localize('output.overwrite.confirm');
+    const compare = localize('output.overwrite.compare');
+    const choice = await vscode.window.showWarningMessage(
+      localize('output.overwrite.prompt', { path: vscode.workspace.asRelativePath(target) }),
+      { modal: true },
+      overwrite,
+      compare,
+    );
+
+    if (choice === overwrite) {
+      return true;
+    }
+
+    if (choice !== compare) {
+      return false;
+    }
+
+    const proposed = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      target,
+      proposed.uri,
+      localize('output.overwrite.diffTitle', { file: vscode.workspace.asRelativePath(target) }),
+    );
+
+    // The diff editor stays usable while a non-modal prompt waits for the decision.
+    const afterDiff = await vscode.window.showInformationMessage(
+      localize('output.overwrite.prompt', { path: vscode.workspace.asRelativePath(target) }),
+      overwrite,
+    );
+    return afterDiff === overwrite;
+  }
+}
@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+
+import type { TranslationOverrides } from '../types/translation';
+import { fingerprintSegmentSource, matchOverrides } from '../utils/overrides';
+import { ExtensionLogger } from '../utils/logger';
+
+type PlannedSegment = { markdown: string; startLine: number; endLine: number };
+
+interface OverridesFile {
+  document: string;
+  targetLanguage: string;
+  overrides: TranslationOverrides;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: false });
+
+/**
+ * Reads and writes hand-edited segment translations. Files live in the workspace at
+ * `.babelmd/overrides/<document path>.<language>.json` so they can be reviewed and committed.
+ */
+export class TranslationOverrideStore {
+  constructor(private readonly logger: ExtensionLogger) {}
+
+  /** Whether overrides can be stored for the document, i.e. it belongs to a workspace folder. */
+  supports(document: vscode.TextDocument): boolean {
+    return vscode.workspace.getWorkspaceFolder(document.uri) !== undefined;
+  }
+
+  async load(document: vscode.TextDocument, targetLanguage: string): Promise<TranslationOverrides> {
+    const overridesUri = this.resolveUri(document, targetLanguage);
+
+    if (!overridesUri) {
+      return {};
+    }
+
+    let raw: Uint8Array;
+
+    try {
+      raw = await vscode.workspace.fs.readFile(overridesUri);
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+        this.logger.warn(
+          `Failed to read translation overrides at ${overridesUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+        );
+      }
+      return {};
+    }
+
+    try {
+      const file = JSON.parse(decoder.decode(raw)) as Partial<OverridesFile>;
+      return file.overrides && typeof file.overrides === 'object' ? file.overrides : {};
+    } catch (error) {
+      this.logger.warn(
+        `Failed to parse translation overrides at ${overridesUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Stores `translation` for one of the planned segments. An override saved for an earlier
+   * version of the segment's source is replaced rather than left behind.
+   */
+  async save(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+    segments: readonly PlannedSegment[],
+    segmentIndex: number,
+    translation: string,
+  ): Promise<void> {
+    await this.saveAll(document, targetLanguage, segments, new Map([[segmentIndex, translation]]));
+  }
+
+  /** Stores several segment translations at once, keyed by segment index, in a single write. */
+  async saveAll(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+    segments: readonly PlannedSegment[],
+    translations: ReadonlyMap<number, string>,
+  ): Promise<void> {
+    const overrides = await this.load(document, targetLanguage);
+    const matches = matchOverrides(overrides, segments);
+    const updatedAt = Date.now();
+
+    for (const [segmentIndex, translation] of translations) {
+      const segment = segments[segmentIndex];
+      const previous = matches.get(segmentIndex);
+
+      if (previous) {
+        delete overrides[fingerprintSegmentSource(previous.override.source)];
+      }
+
+      overrides[fingerprintSegmentSource(segment.markdown)] = {
+        source: segment.markdown,
+        translation,
+        startLine: segment.startLine,
+        updatedAt,
+      };
+    }
+
+    await this.write(document, targetLanguage, overrides);
+  }
+
+  /**
+   * Drops the override, applied or outdated, attached to one of the planned segments. The file
+   * is deleted once it holds no overrides.
+   */
+  async remove(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+    segments: readonly PlannedSegment[],
+    segmentIndex: number,
+  ): Promise<boolean> {
+    const overrides = await this.load(document, targetLanguage);
+    const match = matchOverrides(overrides, segments).get(segmentIndex);
+
+    if (!match) {
+      return false;
+    }
+
+    delete overrides[fingerprintSegmentSource(match.override.source)];
+    await this.write(document, targetLanguage, overrides);
+    return true;
+  }
+
+  private async write(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+    overrides: TranslationOverrides,
+  ): Promise<void> {
+    const overridesUri = this.resolveUri(document, targetLanguage);
+
+    if (!overridesUri) {
+      throw new Error('Translation overrides can only be stored for files in a workspace folder.');
+    }
+
+    if (Object.keys(overrides).length === 0) {
+      await vscode.workspace.fs.delete(overridesUri, { useTrash: false });
+      return;
+    }
+
+    const file: OverridesFile = {
+      document: vscode.workspace.asRelativePath(document.uri, false),
+      targetLanguage,
+      overrides,
+    };
+
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(overridesUri, '..'));
+    await vscode.workspace.fs.writeFile(
+      overridesUri,
+      encoder.encode(`${JSON.stringify(file, undefined, 2)}\n`),
+    );
+  }
+
+  private resolveUri(
+    document: vscode.TextDocument,
+    targetLanguage: string,
+  ): vscode.Uri | undefined {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+
+    if (!workspaceFolder) {
+      return undefined;
+    }
+
+    const relativePath = document.uri.path
+      .slice(workspaceFolder.uri.path.length)
+      .replace(/^\/+/, '');
+    const segments = relativePath.split('/').filter((segment) => segment.length > 0);
+    const fileName = `${segments.pop() ?? 'untitled'}.${targetLanguage.trim()}.json`;
+
+    return vscode.Uri.joinPath(workspaceFolder.uri, '.babelmd', 'overrides', ...segments, fileName);
+  }
+}
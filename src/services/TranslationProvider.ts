@@ -0,0 +1,73 @@
+import type {
+  RawTranslationResult,
+  ResolvedTranslationConfiguration,
+  TranslationErrorCode,
+  TranslationPrompt,
+  TranslationProviderId,
+} from '../types/translation';
+
+export interface TranslateRequest {
+  documentText: string;
+  fileName: string;
+  documentLabel: string;
+  resolvedConfig: ResolvedTranslationConfiguration;
+  prompt: TranslationPrompt;
+  signal?: AbortSignal;
+  /**
+   * Requests a streamed response. Providers that support streaming invoke this with the text
+   * received so far; the resolved result still carries the complete translation.
+   */
+  onProgress?: (partialMarkdown: string) => void;
+  /**
+   * Called when a successful response reports that a provider quota is used up, with the time
+   * until it resets, so the caller can hold back further requests.
+   */
+  onQuotaExhausted?: (resetMs: number) => void;
+}
+
+/**
+ * A backend capable of translating a single Markdown segment. Implementations must map their
+ * failures onto {@link TranslationProviderError} so the segment retry/recovery pipeline in
+ * `TranslationService` can treat every provider the same way.
+ */
+export interface TranslationProvider {
+  readonly id: TranslationProviderId;
+  readonly requiresApiKey: boolean;
+  translate(request: TranslateRequest): Promise<RawTranslationResult>;
+}
+
+export type TranslationProviderErrorCode = TranslationErrorCode;
+
+export class TranslationProviderError extends Error {
+  readonly code: TranslationProviderErrorCode;
+  readonly status?: number;
+  readonly retryable: boolean;
+  /** Wait requested by the provider (`Retry-After` and friends) before trying again. */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: {
+      code: TranslationProviderErrorCode;
+      status?: number;
+      retryable?: boolean;
+      retryAfterMs?: number;
+      cause?: unknown;
+    },
+  ) {
+    super(message);
+    this.name = 'TranslationProviderError';
+    this.code = options.code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TranslationProviderError);
+    }
+  }
+}
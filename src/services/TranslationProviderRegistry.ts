@@ -0,0 +1,61 @@
+import type { TranslationProviderId } from '../types/translation';
+import { TranslationProvider, TranslationProviderError } from './TranslationProvider';
+import { ExtensionLogger } from '../utils/logger';
+
+export const DEFAULT_TRANSLATION_PROVIDER: TranslationProviderId = 'openai';
+
+export class TranslationProviderRegistry {
+  private readonly providers = new Map<TranslationProviderId, TranslationProvider>();
+
+  constructor(
+    private readonly logger: ExtensionLogger,
+    providers: TranslationProvider[] = [],
+  ) {
+    for (const provider of providers) {
+      this.register(provider);
+    }
+  }
+
+  register(provider: TranslationProvider): void {
+    if (this.providers.has(provider.id)) {
+      this.logger.warn(`Translation provider "${provider.id}" is already registered; replacing it.`);
+    }
+
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: TranslationProviderId): TranslationProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): TranslationProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  resolve(id: TranslationProviderId): TranslationProvider {
+    const provider = this.providers.get(id);
+
+    if (provider) {
+      return provider;
+    }
+
+    const fallback = this.providers.get(DEFAULT_TRANSLATION_PROVIDER) ?? this.list()[0];
+
+    if (!fallback) {
+      throw new TranslationProviderError(`No translation provider registered for "${id}".`, {
+        code: 'unknown',
+        retryable: false,
+      });
+    }
+
+    this.logger.warn(
+      `Translation provider "${id}" is not available; falling back to "${fallback.id}".`,
+    );
+    return fallback;
+  }
+
+  requiresApiKey(id: TranslationProviderId): boolean {
+    const provider = this.providers.get(id) ?? this.providers.get(DEFAULT_TRANSLATION_PROVIDER);
+    return provider?.requiresApiKey ?? true;
+  }
+}
@@ -6,14 +6,48 @@ import type {
   ResolvedTranslationConfiguration,
   TranslationResult,
   TranslationRecovery,
+  TranslationRecoveryType,
   TranslationErrorCode,
+  TranslationOverrideState,
+  TranslationOverrides,
   TranslationPrompt,
+  TranslationUsage,
 } from '../types/translation';
-import { OpenAITranslationClient, TranslationProviderError } from './OpenAITranslationClient';
+import { TranslationProviderError } from './TranslationProvider';
+import { TranslationProviderRegistry } from './TranslationProviderRegistry';
 import { TranslationCache } from './TranslationCache';
+import { TranslationMemory } from './TranslationMemory';
 import { ExtensionLogger } from '../utils/logger';
-import { renderMarkdownToHtml } from '../utils/markdown';
-import { delay } from '../utils/async';
+import { MarkdownBlockType, parseMarkdownBlocks, renderMarkdownToHtml } from '../utils/markdown';
+import { ConcurrencyLimiter, delay } from '../utils/async';
+import {
+  FrontMatter,
+  applyFrontMatterTranslations,
+  findFrontMatterFields,
+  splitFrontMatter,
+} from '../utils/frontMatter';
+import {
+  buildGlossaryInstructions,
+  findGlossaryMatches,
+  findGlossaryViolations,
+} from '../utils/glossary';
+import {
+  MASKING_INSTRUCTIONS,
+  hasTranslatableText,
+  maskMarkdown,
+  unmaskMarkdown,
+} from '../utils/masking';
+import { matchOverrides } from '../utils/overrides';
+import { RateLimiter, createRateLimiter } from '../utils/rateLimit';
+import { buildMemoryInstructions } from '../utils/translationMemory';
+import {
+  UsageMeter,
+  addUsage,
+  calculateCost,
+  estimateTokens,
+  formatCost,
+  resolveModelPricing,
+} from '../utils/usage';
 
 export interface TranslationRequestContext {
   document: vscode.TextDocument;
@@ -22,6 +56,14 @@ export interface TranslationRequestContext {
   prompt: TranslationPrompt;
   signal?: AbortSignal;
   cache?: TranslationCache;
+  /** Shared budget for provider requests when several documents are translated at once. */
+  requestLimiter?: ConcurrencyLimiter;
+  /** Hand-edited translations; they win over both the segment cache and the provider. */
+  overrides?: TranslationOverrides;
+  /** Consulted only while `translation.memory.enabled` is on. */
+  memory?: TranslationMemory;
+  /** Counts provider usage of the run and holds it to `translation.budget.maxCost`. */
+  usageMeter?: UsageMeter;
 }
 
 export interface TranslationSegmentUpdate {
@@ -33,10 +75,28 @@ export interface TranslationSegmentUpdate {
   providerId: string;
   wasCached: boolean;
   recovery?: TranslationSegmentRecovery;
+  override?: TranslationOverrideState;
+  usage?: TranslationUsage;
+}
+
+export interface TranslationSegment {
+  markdown: string;
+  /** `mixed` when adaptive batching merged blocks of different types. */
+  blockType: MarkdownBlockType | 'mixed';
+  /** Zero-based first source line covered by the segment. */
+  startLine: number;
+  /** Zero-based line after the last source line covered by the segment (exclusive). */
+  endLine: number;
+}
+
+export interface TranslationSegmentProgress {
+  segmentIndex: number;
+  totalSegments: number;
+  markdown: string;
 }
 
 export interface TranslationSegmentRecovery {
-  type: 'cacheFallback' | 'placeholder';
+  type: TranslationRecoveryType;
   code: TranslationErrorCode;
   attempts: number;
   message: string;
@@ -60,8 +120,9 @@ type SegmentProcessingOutcome =
     };
 
 export interface TranslationHandlers {
-  onPlan?: (segments: string[]) => void;
+  onPlan?: (segments: TranslationSegment[]) => void;
   onSegment?: (update: TranslationSegmentUpdate) => void;
+  onSegmentProgress?: (progress: TranslationSegmentProgress) => void;
 }
 
 export class TranslationRunError extends Error {
@@ -87,6 +148,8 @@ export class TranslationRunError extends Error {
 export class TranslationService {
   private static readonly ADAPTIVE_TARGET_LENGTH = 500;
   private static readonly ADAPTIVE_MAX_LENGTH = 1400;
+  /** Longer `Retry-After` waits fail the attempt instead of stalling the run. */
+  private static readonly MAX_RETRY_AFTER_MS = 60_000;
   private static readonly WRAPPED_MARKDOWN_LANGUAGES = new Set([
     '',
     'markdown',
@@ -102,9 +165,11 @@ export class TranslationService {
     'none',
   ]);
 
+  private readonly rateLimiters = new Map<string, RateLimiter>();
+
   constructor(
     private readonly logger: ExtensionLogger,
-    private readonly openAIClient: OpenAITranslationClient,
+    private readonly providers: TranslationProviderRegistry,
   ) {}
 
   async translateDocument(
@@ -114,7 +179,7 @@ export class TranslationService {
     const relativePath = vscode.workspace.asRelativePath(context.document.uri);
 
     this.logger.info(
-      `Translating ${relativePath} to ${context.resolvedConfig.targetLanguage} with model ${context.resolvedConfig.model} (prompt source: ${context.prompt.source}).`,
+      `Translating ${relativePath} to ${context.resolvedConfig.targetLanguage} with ${context.resolvedConfig.provider} model ${context.resolvedConfig.model} (prompt source: ${context.prompt.source}).`,
     );
 
     if (context.signal?.aborted) {
@@ -131,8 +196,10 @@ export class TranslationService {
       });
     }
 
-    const plan = this.planSegments(text, {
+    const { frontMatter, body, bodyStartLine } = splitFrontMatter(text);
+    const plan = this.planSegments(body, {
       adaptive: context.configuration.translation.adaptiveBatchingEnabled,
+      lineOffset: bodyStartLine,
     });
     const segments = plan.segments;
     const concurrencyLimit = this.normalizeConcurrencyLimit(
@@ -157,6 +224,30 @@ export class TranslationService {
       });
     }
 
+    const finalize = async (
+      result: RawTranslationResult & { recoveries?: TranslationRecovery[] },
+    ): Promise<TranslationResult> => {
+      if (!frontMatter) {
+        return this.composeResult(result);
+      }
+
+      const translated = await this.translateFrontMatter(frontMatter, context, relativePath);
+      const usage = addUsage(result.usage, translated.usage);
+
+      return this.composeResult(
+        { ...result, ...(usage ? { usage } : {}) },
+        translated.frontMatter,
+      );
+    };
+
+    if (segments.length === 0 && frontMatter) {
+      return finalize({
+        markdown: '',
+        providerId: context.resolvedConfig.model,
+        latencyMs: 0,
+      });
+    }
+
     if (segments.length === 0) {
       return this.composeResult({
         markdown: '_The source document is empty; nothing to translate._',
@@ -165,7 +256,7 @@ export class TranslationService {
       });
     }
 
-    handlers?.onPlan?.([...segments]);
+    handlers?.onPlan?.(segments.map((segment) => ({ ...segment })));
     const executeWithConcurrency = async (
       limit: number,
     ): Promise<RawTranslationResult & { recoveries: TranslationRecovery[] }> =>
@@ -177,7 +268,7 @@ export class TranslationService {
     const runSerial = async (): Promise<TranslationResult> => {
       try {
         const result = await executeWithConcurrency(1);
-        return this.composeResult(result);
+        return await finalize(result);
       } catch (error) {
         if (error instanceof vscode.CancellationError) {
           throw error;
@@ -195,7 +286,7 @@ export class TranslationService {
 
     try {
       const result = await executeWithConcurrency(concurrencyLimit);
-      return this.composeResult(result);
+      return await finalize(result);
     } catch (error) {
       if (error instanceof vscode.CancellationError) {
         throw error;
@@ -227,48 +318,217 @@ export class TranslationService {
     }
   }
 
+  /** Splits the document into the segments `translateDocument` would send, without translating. */
+  planDocument(
+    document: vscode.TextDocument,
+    configuration: ExtensionConfiguration,
+  ): TranslationSegment[] {
+    const { body, bodyStartLine } = splitFrontMatter(document.getText());
+
+    return this.planSegments(body, {
+      adaptive: configuration.translation.adaptiveBatchingEnabled,
+      lineOffset: bodyStartLine,
+    }).segments;
+  }
+
+  /**
+   * Re-translates one planned segment without consulting its cached translation. `instruction`
+   * is appended to the prompt for this request only. A successful result replaces the cached
+   * entry for the segment, so it sticks until the segment's source changes; when every attempt
+   * fails the error is thrown instead of falling back, leaving the current translation in place.
+   */
+  async translateSegment(
+    context: TranslationRequestContext,
+    segment: { markdown: string; segmentIndex: number; totalSegments: number },
+    instruction?: string,
+  ): Promise<TranslationSegmentUpdate> {
+    const relativePath = vscode.workspace.asRelativePath(context.document.uri);
+
+    if (context.signal?.aborted) {
+      throw new vscode.CancellationError();
+    }
+
+    await this.getMemory(context)?.load(context.resolvedConfig.targetLanguage);
+    const outcome = await this.translateSegmentWithRetries({
+      segmentIndex: segment.segmentIndex,
+      totalSegments: segment.totalSegments,
+      segmentMarkdown: segment.markdown,
+      context,
+      attemptLimit: this.normalizeRetryAttempts(context.configuration.translation.retryMaxAttempts),
+      relativePath,
+      instruction: instruction?.trim() || undefined,
+    });
+
+    if (outcome.kind === 'failed') {
+      throw new TranslationRunError(
+        this.sanitizeErrorMessage(outcome.error.message),
+        outcome.error.code,
+        segment.segmentIndex,
+        { cause: outcome.error },
+      );
+    }
+
+    if (
+      outcome.kind === 'recovered' &&
+      (outcome.recovery.type === 'cacheFallback' || outcome.recovery.type === 'placeholder')
+    ) {
+      throw new TranslationRunError(
+        outcome.recovery.message,
+        outcome.recovery.code,
+        segment.segmentIndex,
+      );
+    }
+
+    if (outcome.shouldCache) {
+      context.cache?.setSegment(
+        context.document,
+        context.resolvedConfig,
+        segment.markdown,
+        context.prompt.fingerprint,
+        outcome.result,
+      );
+      this.getMemory(context)?.record(
+        context.resolvedConfig.targetLanguage,
+        segment.markdown,
+        outcome.result.markdown,
+        context.prompt.fingerprint,
+      );
+    }
+
+    return {
+      segmentIndex: segment.segmentIndex,
+      totalSegments: segment.totalSegments,
+      markdown: outcome.result.markdown,
+      html: renderMarkdownToHtml(outcome.result.markdown),
+      latencyMs: outcome.result.latencyMs,
+      providerId: outcome.result.providerId,
+      wasCached: false,
+      recovery: outcome.kind === 'recovered' ? outcome.recovery : undefined,
+      usage: outcome.result.usage,
+    };
+  }
+
+  /**
+   * The memory is shared across providers, so the mock provider's pseudo or replayed text must
+   * neither enter it nor be served from it in place of a real translation.
+   */
+  private getMemory(context: TranslationRequestContext): TranslationMemory | undefined {
+    return context.configuration.translation.memoryEnabled &&
+      context.resolvedConfig.provider !== 'mock'
+      ? context.memory
+      : undefined;
+  }
+
+  /** The front matter is prepended to the Markdown only; the preview HTML renders the body. */
   private composeResult(
     result: RawTranslationResult & { recoveries?: TranslationRecovery[] },
+    frontMatter?: string,
   ): TranslationResult {
+    const markdown =
+      frontMatter === undefined
+        ? result.markdown
+        : [frontMatter, result.markdown].filter((part) => part.length > 0).join('\n\n');
+
     return {
       ...result,
+      markdown,
       html: renderMarkdownToHtml(result.markdown),
     };
   }
 
-  private splitIntoSegments(markdown: string): string[] {
-    const lines = markdown.split(/\r?\n/);
-    const segments: string[] = [];
-    let buffer: string[] = [];
-    let inFence = false;
+  /**
+   * Translates the values of the configured front matter keys one at a time. A value that cannot
+   * be translated keeps its source text, so the front matter is always written back intact.
+   */
+  private async translateFrontMatter(
+    frontMatter: FrontMatter,
+    context: TranslationRequestContext,
+    relativePath: string,
+  ): Promise<{ frontMatter: string; usage?: TranslationUsage }> {
+    const fields = findFrontMatterFields(
+      frontMatter,
+      context.configuration.translation.frontMatterKeys,
+    );
+    const translations = new Map<number, string>();
+    const maxAttempts = this.normalizeRetryAttempts(
+      context.configuration.translation.retryMaxAttempts,
+    );
+    const promptFingerprint = context.prompt.fingerprint;
+    let usage: TranslationUsage | undefined;
+
+    for (const [index, field] of fields.entries()) {
+      const cached = context.cache?.getSegment(
+        context.document,
+        context.resolvedConfig,
+        field.value,
+        promptFingerprint,
+      );
 
-    const flush = () => {
-      if (buffer.length > 0) {
-        segments.push(buffer.join('\n'));
-        buffer = [];
+      if (cached) {
+        translations.set(field.lineIndex, cached.markdown.trim());
+        continue;
       }
-    };
 
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith('```')) {
-        buffer.push(line);
-        inFence = !inFence;
-        continue;
+      const outcome = await this.translateSegmentWithRetries({
+        segmentIndex: index,
+        totalSegments: fields.length,
+        segmentMarkdown: field.value,
+        context,
+        attemptLimit: maxAttempts,
+        relativePath: `${relativePath} (front matter)`,
+      });
+
+      if (outcome.kind !== 'failed') {
+        usage = addUsage(usage, outcome.result.usage);
       }
 
-      if (!inFence && trimmed === '') {
-        flush();
+      if (outcome.kind === 'failed' && outcome.error.code === 'budgetExceeded') {
+        throw outcome.error;
+      }
+
+      if (
+        outcome.kind === 'failed' ||
+        (outcome.kind === 'recovered' && outcome.recovery.type === 'placeholder')
+      ) {
+        this.logger.warn(
+          `Front matter key "${field.key}" in ${relativePath} was not translated; keeping the source value.`,
+        );
         continue;
       }
 
-      buffer.push(line);
+      if (outcome.shouldCache) {
+        context.cache?.setSegment(
+          context.document,
+          context.resolvedConfig,
+          field.value,
+          promptFingerprint,
+          outcome.result,
+        );
+      }
+
+      translations.set(field.lineIndex, outcome.result.markdown.trim());
     }
 
-    flush();
+    return { frontMatter: applyFrontMatterTranslations(frontMatter, translations), usage };
+  }
+
+  private splitIntoSegments(markdown: string, lineOffset: number): TranslationSegment[] {
+    const segments: TranslationSegment[] = parseMarkdownBlocks(markdown).map((block) => ({
+      markdown: block.markdown,
+      blockType: block.type,
+      startLine: block.startLine + lineOffset,
+      endLine: block.endLine + lineOffset,
+    }));
 
     if (segments.length === 0 && markdown.trim().length > 0) {
-      return [markdown];
+      return [
+        {
+          markdown,
+          blockType: 'other',
+          startLine: lineOffset,
+          endLine: lineOffset + markdown.split(/\r?\n/).length,
+        },
+      ];
     }
 
     return segments;
@@ -276,9 +536,9 @@ export class TranslationService {
 
   private planSegments(
     markdown: string,
-    options: { adaptive: boolean },
+    options: { adaptive: boolean; lineOffset: number },
   ): {
-    segments: string[];
+    segments: TranslationSegment[];
     strategy: 'basic' | 'adaptive';
     metrics: {
       totalSegments: number;
@@ -289,10 +549,10 @@ export class TranslationService {
       baseSegments: number;
     };
   } {
-    const baseSegments = this.splitIntoSegments(markdown);
+    const baseSegments = this.splitIntoSegments(markdown, options.lineOffset);
     const strategy = options.adaptive ? 'adaptive' : 'basic';
     const segments = options.adaptive ? this.mergeSegments(baseSegments) : baseSegments;
-    const lengths = segments.map((segment) => segment.length);
+    const lengths = segments.map((segment) => segment.markdown.length);
     const metrics = {
       totalSegments: segments.length,
       averageLength: lengths.length > 0 ? lengths.reduce((acc, value) => acc + value, 0) / lengths.length : 0,
@@ -305,47 +565,56 @@ export class TranslationService {
     return { segments, strategy, metrics };
   }
 
-  private mergeSegments(segments: string[]): string[] {
-    const merged: string[] = [];
-    let buffer = '';
+  /**
+   * Merges neighbouring blocks into requests of roughly ADAPTIVE_TARGET_LENGTH characters. Blocks
+   * are never split, and a heading always starts a new segment so merged requests never span
+   * sections.
+   */
+  private mergeSegments(segments: TranslationSegment[]): TranslationSegment[] {
+    const merged: TranslationSegment[] = [];
+    let buffer: TranslationSegment | undefined;
 
     const pushBuffer = () => {
-      if (buffer.trim().length > 0) {
+      if (buffer && buffer.markdown.trim().length > 0) {
         merged.push(buffer);
       }
-      buffer = '';
+      buffer = undefined;
     };
 
     for (const segment of segments) {
-      const trimmedBuffer = buffer.trim();
-      const trimmedSegment = segment.trim();
+      if (segment.blockType === 'heading') {
+        pushBuffer();
+      }
 
-      if (!trimmedBuffer) {
-        buffer = segment;
-        if (segment.length >= TranslationService.ADAPTIVE_TARGET_LENGTH) {
+      if (!buffer) {
+        buffer = { ...segment };
+        if (segment.markdown.length >= TranslationService.ADAPTIVE_TARGET_LENGTH) {
           pushBuffer();
         }
         continue;
       }
 
-      const candidate = `${buffer}\n\n${segment}`;
+      const candidateMarkdown = `${buffer.markdown}\n\n${segment.markdown}`;
 
-      if (candidate.length > TranslationService.ADAPTIVE_MAX_LENGTH) {
+      if (candidateMarkdown.length > TranslationService.ADAPTIVE_MAX_LENGTH) {
         pushBuffer();
-        buffer = segment;
-        if (segment.length >= TranslationService.ADAPTIVE_TARGET_LENGTH || segment.length > TranslationService.ADAPTIVE_MAX_LENGTH) {
+        buffer = { ...segment };
+        if (segment.markdown.length >= TranslationService.ADAPTIVE_TARGET_LENGTH) {
           pushBuffer();
         }
         continue;
       }
 
-      if (candidate.length >= TranslationService.ADAPTIVE_TARGET_LENGTH || trimmedSegment.length === 0) {
-        buffer = candidate;
+      buffer = {
+        markdown: candidateMarkdown,
+        blockType: buffer.blockType === segment.blockType ? buffer.blockType : 'mixed',
+        startLine: buffer.startLine,
+        endLine: segment.endLine,
+      };
+
+      if (candidateMarkdown.length >= TranslationService.ADAPTIVE_TARGET_LENGTH) {
         pushBuffer();
-        continue;
       }
-
-      buffer = candidate;
     }
 
     pushBuffer();
@@ -364,7 +633,7 @@ export class TranslationService {
   }
 
   private async executeSegments(
-    segments: string[],
+    segments: TranslationSegment[],
     context: TranslationRequestContext,
     handlers: TranslationHandlers | undefined,
     options: { concurrency: number; relativePath: string },
@@ -390,20 +659,43 @@ export class TranslationService {
         providerId: string;
         wasCached: boolean;
         recovery?: TranslationSegmentRecovery;
+        usage?: TranslationUsage;
       }
     >();
     let aggregateLatency = 0;
+    let aggregateUsage: TranslationUsage | undefined;
     let providerId: string | undefined;
     let nextIndex = 0;
     let flushIndex = 0;
+    /** Segments answered without a provider request: overrides and cache hits. */
     const cachedIndices = new Set<number>();
     const recoveries: TranslationRecovery[] = [];
     let capturedError: { error: TranslationProviderError; index: number } | undefined;
     const promptFingerprint = context.prompt.fingerprint;
+    const overrides = matchOverrides(context.overrides ?? {}, segments);
+
+    for (const [index, match] of overrides) {
+      if (match.state !== 'applied') {
+        continue;
+      }
+
+      cachedIndices.add(index);
+      pending.set(index, {
+        markdown: match.override.translation,
+        html: renderMarkdownToHtml(match.override.translation),
+        latencyMs: 0,
+        providerId: 'override',
+        wasCached: false,
+      });
+    }
 
     if (context.cache) {
       for (let index = 0; index < totalSegments; index += 1) {
-        const segment = segments[index];
+        if (cachedIndices.has(index)) {
+          continue;
+        }
+
+        const segment = segments[index].markdown;
         const cached = context.cache.getSegment(
           context.document,
           context.resolvedConfig,
@@ -442,6 +734,49 @@ export class TranslationService {
       }
     }
 
+    const memory = this.getMemory(context);
+
+    if (memory) {
+      await memory.load(context.resolvedConfig.targetLanguage);
+
+      for (let index = 0; index < totalSegments; index += 1) {
+        if (cachedIndices.has(index)) {
+          continue;
+        }
+
+        const segment = segments[index].markdown;
+        const remembered = memory.lookup(
+          context.resolvedConfig.targetLanguage,
+          segment,
+          promptFingerprint,
+        );
+
+        if (!remembered) {
+          continue;
+        }
+
+        const result: RawTranslationResult = {
+          markdown: remembered.translation,
+          providerId: 'memory',
+          latencyMs: 0,
+        };
+        // Seed the segment cache so the document's own persisted segments include the match.
+        context.cache?.setSegment(
+          context.document,
+          context.resolvedConfig,
+          segment,
+          promptFingerprint,
+          result,
+        );
+        cachedIndices.add(index);
+        pending.set(index, {
+          ...result,
+          html: renderMarkdownToHtml(result.markdown),
+          wasCached: true,
+        });
+      }
+    }
+
     const takeNextIndex = (): number | undefined => {
       while (nextIndex < totalSegments) {
         if (capturedError) {
@@ -468,7 +803,10 @@ export class TranslationService {
 
         combinedMarkdown[flushIndex] = entry.markdown.trimEnd();
         aggregateLatency += entry.latencyMs;
-        providerId = entry.providerId;
+        aggregateUsage = addUsage(aggregateUsage, entry.usage);
+        if (overrides.get(flushIndex)?.state !== 'applied') {
+          providerId = entry.providerId;
+        }
 
         if (entry.recovery) {
           recoveries.push({
@@ -489,6 +827,8 @@ export class TranslationService {
           providerId: entry.providerId,
           wasCached: entry.wasCached,
           recovery: entry.recovery,
+          override: overrides.get(flushIndex)?.state,
+          usage: entry.usage,
         });
 
         flushIndex += 1;
@@ -511,6 +851,10 @@ export class TranslationService {
     const maxAttempts = this.normalizeRetryAttempts(
       context.configuration.translation.retryMaxAttempts,
     );
+    const onSegmentProgress =
+      context.configuration.translation.streamingEnabled && handlers?.onSegmentProgress
+        ? handlers.onSegmentProgress
+        : undefined;
 
     const worker = async (): Promise<void> => {
       while (true) {
@@ -528,10 +872,14 @@ export class TranslationService {
           const outcome = await this.translateSegmentWithRetries({
             segmentIndex: index,
             totalSegments,
-            segmentMarkdown: segments[index],
+            segmentMarkdown: segments[index].markdown,
             context,
             attemptLimit: maxAttempts,
             relativePath: options.relativePath,
+            onProgress: onSegmentProgress
+              ? (partialMarkdown) =>
+                  onSegmentProgress({ segmentIndex: index, totalSegments, markdown: partialMarkdown })
+              : undefined,
           });
 
           if (outcome.kind === 'failed') {
@@ -543,10 +891,16 @@ export class TranslationService {
             context.cache?.setSegment(
               context.document,
               context.resolvedConfig,
-              segments[index],
+              segments[index].markdown,
               promptFingerprint,
               outcome.result,
             );
+            memory?.record(
+              context.resolvedConfig.targetLanguage,
+              segments[index].markdown,
+              outcome.result.markdown,
+              promptFingerprint,
+            );
           }
 
           const wasCached =
@@ -559,6 +913,7 @@ export class TranslationService {
             providerId: outcome.result.providerId,
             wasCached,
             recovery: outcome.kind === 'recovered' ? outcome.recovery : undefined,
+            usage: outcome.result.usage,
           });
 
           flush();
@@ -593,6 +948,7 @@ export class TranslationService {
       markdown,
       providerId: providerId ?? context.resolvedConfig.model,
       latencyMs: aggregateLatency,
+      ...(aggregateUsage ? { usage: aggregateUsage } : {}),
       recoveries,
     };
   }
@@ -604,6 +960,9 @@ export class TranslationService {
     context: TranslationRequestContext;
     attemptLimit: number;
     relativePath: string;
+    onProgress?: (partialMarkdown: string) => void;
+    /** Ad-hoc guidance from a single-segment retry, e.g. "more formal". */
+    instruction?: string;
   }): Promise<SegmentProcessingOutcome> {
     const {
       segmentIndex,
@@ -612,9 +971,63 @@ export class TranslationService {
       context,
       attemptLimit,
       relativePath,
+      onProgress,
+      instruction,
     } = params;
 
+    const masked = maskMarkdown(segmentMarkdown);
+
+    if (!hasTranslatableText(masked)) {
+      // Code blocks, URLs and math come back unchanged anyway; don't spend a request on them.
+      return {
+        kind: 'success',
+        result: {
+          markdown: segmentMarkdown,
+          providerId: context.resolvedConfig.model,
+          latencyMs: 0,
+        },
+        shouldCache: false,
+      };
+    }
+
     const maxAttempts = Math.max(attemptLimit, 1);
+    const provider = this.providers.resolve(context.resolvedConfig.provider);
+    const glossaryMatches = context.prompt.glossary
+      ? findGlossaryMatches(context.prompt.glossary, masked.text, context.resolvedConfig.targetLanguage)
+      : [];
+    const { memoryFuzzyThreshold, memoryMaxReferences } = context.configuration.translation;
+    const memoryMatches =
+      this.getMemory(context)?.findSimilar(context.resolvedConfig.targetLanguage, segmentMarkdown, {
+        threshold: memoryFuzzyThreshold,
+        limit: memoryMaxReferences,
+      }) ?? [];
+    const extraInstructions = [
+      masked.tokens.length > 0 ? MASKING_INSTRUCTIONS : '',
+      buildGlossaryInstructions(glossaryMatches),
+      buildMemoryInstructions(memoryMatches),
+      instruction ? `## Additional instruction\n${instruction}` : '',
+    ].filter(Boolean);
+    const prompt =
+      extraInstructions.length > 0
+        ? {
+            ...context.prompt,
+            instructions: [context.prompt.instructions, ...extraInstructions].join('\n\n'),
+          }
+        : context.prompt;
+    const onMaskedProgress = onProgress
+      ? (partialMarkdown: string) => onProgress(unmaskMarkdown(partialMarkdown, masked.tokens).markdown)
+      : undefined;
+    const pricing = resolveModelPricing(
+      context.configuration.translation.pricing,
+      context.resolvedConfig.model,
+    );
+    // Translations run about as long as their source, so the text is counted again as output.
+    const estimatedUsage = {
+      promptTokens: estimateTokens(prompt.instructions) + estimateTokens(masked.text),
+      completionTokens: estimateTokens(masked.text),
+    };
+    const estimatedCost = pricing ? calculateCost(estimatedUsage, pricing) : 0;
+    const rateLimiter = this.getRateLimiter(context);
     let attempt = 0;
     let lastError: TranslationProviderError | undefined;
 
@@ -625,27 +1038,125 @@ export class TranslationService {
         throw new vscode.CancellationError();
       }
 
+      if (context.usageMeter && !context.usageMeter.reserve(estimatedCost)) {
+        const maxCost = formatCost(context.configuration.translation.budgetMaxCost);
+        this.logger.warn(
+          `Segment ${segmentIndex + 1}/${totalSegments} not sent; it would exceed the translation budget of ${maxCost}.`,
+        );
+        return {
+          kind: 'failed',
+          error: new TranslationProviderError(
+            `Stopped before exceeding the translation budget of ${maxCost}.`,
+            { code: 'budgetExceeded', retryable: false },
+          ),
+        };
+      }
+
+      let reserved = Boolean(context.usageMeter);
+
       try {
-        const result = await this.openAIClient.translate({
-          documentText: segmentMarkdown,
-          fileName: `${relativePath}#segment-${segmentIndex + 1}`,
-          documentLabel: relativePath,
-          resolvedConfig: context.resolvedConfig,
-          prompt: context.prompt,
-          signal: context.signal,
-        });
+        const request = async (): Promise<RawTranslationResult> => {
+          const granted = await rateLimiter.acquire(
+            estimatedUsage.promptTokens + estimatedUsage.completionTokens,
+            context.signal,
+          );
 
+          if (!granted) {
+            throw new vscode.CancellationError();
+          }
+
+          return provider.translate({
+            documentText: masked.text,
+            fileName: `${relativePath}#segment-${segmentIndex + 1}`,
+            documentLabel: relativePath,
+            resolvedConfig: context.resolvedConfig,
+            prompt,
+            signal: context.signal,
+            onProgress: onMaskedProgress,
+            onQuotaExhausted: (resetMs) => {
+              this.logger.warn(
+                `Provider quota for ${context.resolvedConfig.model} is used up; holding requests for ${resetMs}ms.`,
+              );
+              rateLimiter.pause(resetMs);
+            },
+          });
+        };
+        const result = context.requestLimiter
+          ? await context.requestLimiter.run(request)
+          : await request();
+        const usage: TranslationUsage | undefined = result.usage
+          ? { ...result.usage, ...(pricing ? { cost: calculateCost(result.usage, pricing) } : {}) }
+          : undefined;
+
+        context.usageMeter?.settle(estimatedCost, usage);
+        reserved = false;
+
+        const restored = unmaskMarkdown(
+          this.normalizeSegmentTranslation(masked.text, result.markdown),
+          masked.tokens,
+        );
         const normalizedResult: RawTranslationResult = {
           ...result,
-          markdown: this.normalizeSegmentTranslation(segmentMarkdown, result.markdown),
+          markdown: restored.markdown,
+          ...(usage ? { usage } : {}),
         };
 
+        if (restored.missing.length > 0 || restored.duplicated.length > 0) {
+          const details = [
+            restored.missing.length > 0 ? `dropped ${restored.missing.length}` : '',
+            restored.duplicated.length > 0 ? `duplicated ${restored.duplicated.length}` : '',
+          ]
+            .filter(Boolean)
+            .join(', ');
+          this.logger.warn(
+            `Segment ${segmentIndex + 1}/${totalSegments} ${details} protected token(s).`,
+          );
+
+          return {
+            kind: 'recovered',
+            result: normalizedResult,
+            recovery: {
+              type: 'maskMismatch',
+              code: 'invalidResponse',
+              attempts: attempt,
+              message: `Protected code, links or math were altered (${details}).`,
+            },
+            shouldCache: false,
+          };
+        }
+
+        const violations = findGlossaryViolations(glossaryMatches, normalizedResult.markdown);
+
+        if (violations.length > 0) {
+          const terms = violations.map((violation) => `"${violation.source}"`).join(', ');
+          this.logger.warn(
+            `Segment ${segmentIndex + 1}/${totalSegments} ignored glossary term(s): ${terms}.`,
+          );
+
+          // Keep the translation visible but leave it out of the cache so the next run retries it.
+          return {
+            kind: 'recovered',
+            result: normalizedResult,
+            recovery: {
+              type: 'glossary',
+              code: 'invalidResponse',
+              attempts: attempt,
+              message: `Glossary terms not applied: ${terms}.`,
+            },
+            shouldCache: false,
+          };
+        }
+
         return {
           kind: 'success',
           result: normalizedResult,
           shouldCache: true,
         };
       } catch (error) {
+        if (reserved) {
+          context.usageMeter?.release(estimatedCost);
+        }
+
         if (error instanceof vscode.CancellationError) {
           throw error;
         }
@@ -657,12 +1168,24 @@ export class TranslationService {
           return { kind: 'failed', error: providerError };
         }
 
-        if (providerError.retryable && attempt < maxAttempts) {
-          const delayMs = this.calculateRetryDelay(attempt);
+        const delayMs =
+          providerError.retryable && attempt < maxAttempts
+            ? this.calculateRetryDelay(attempt, providerError)
+            : undefined;
+
+        if (delayMs !== undefined) {
+          if (providerError.code === 'rateLimit') {
+            // Every preview and batch job sharing this endpoint backs off, not only this segment.
+            rateLimiter.pause(delayMs);
+          }
+
           this.logger.warn(
             `Segment ${segmentIndex + 1}/${totalSegments} failed (${providerError.code}). Retrying in ${delayMs}ms.`,
           );
-          await delay(delayMs);
+          // Retry-After waits can run to a minute; closing the preview must not sit through them.
+          if (!(await delay(delayMs, context.signal))) {
+            throw new vscode.CancellationError();
+          }
           continue;
         }
 
@@ -712,11 +1235,50 @@ export class TranslationService {
     return Math.max(1, Math.min(normalized, 6));
   }
 
-  private calculateRetryDelay(attempt: number): number {
-    const base = 250;
-    const max = 2000;
+  /**
+   * Waits as long as the provider asked for when it said so, otherwise backs off exponentially;
+   * rate limits start higher and back off further. Returns undefined when the provider asks for
+   * more than MAX_RETRY_AFTER_MS, in which case the attempt is not retried.
+   */
+  private calculateRetryDelay(
+    attempt: number,
+    error: TranslationProviderError,
+  ): number | undefined {
     const jitter = Math.random() * 100;
-    return Math.min(base * Math.pow(2, attempt - 1) + jitter, max);
+
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs > TranslationService.MAX_RETRY_AFTER_MS
+        ? undefined
+        : Math.round(error.retryAfterMs + jitter);
+    }
+
+    const rateLimited = error.code === 'rateLimit';
+    const base = rateLimited ? 1000 : 250;
+    const max = rateLimited ? 30_000 : 2000;
+    return Math.round(Math.min(base * Math.pow(2, attempt - 1) + jitter, max));
+  }
+
+  /**
+   * One limiter per provider endpoint and model, shared by every preview and batch job that goes
+   * through this service, so their combined traffic stays within the configured quota.
+   */
+  private getRateLimiter(context: TranslationRequestContext): RateLimiter {
+    const { provider, apiBaseUrl, model } = context.resolvedConfig;
+    const key = `${provider}|${apiBaseUrl}|${model}`;
+    const limits = {
+      requestsPerMinute: context.configuration.translation.rateLimitRequestsPerMinute,
+      tokensPerMinute: context.configuration.translation.rateLimitTokensPerMinute,
+    };
+    const existing = this.rateLimiters.get(key);
+
+    if (existing) {
+      existing.configure(limits);
+      return existing;
+    }
+
+    const limiter = createRateLimiter(limits);
+    this.rateLimiters.set(key, limiter);
+    return limiter;
   }
 
   private ensureProviderError(error: unknown): TranslationProviderError {
@@ -761,7 +1323,7 @@ export class TranslationService {
   }
 
   private isFatalCode(code: TranslationErrorCode): boolean {
-    return code === 'authentication';
+    return code === 'authentication' || code === 'budgetExceeded';
   }
 
   private tryRecoverSegment(params: {
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+
+import type { TranslationProviderId, TranslationUsage } from '../types/translation';
+import { ExtensionLogger } from '../utils/logger';
+import { addUsage } from '../utils/usage';
+
+export interface UsageLedgerEntry {
+  recordedAt: number;
+  /** Workspace-relative path of the translated document. */
+  documentPath: string;
+  targetLanguage: string;
+  provider: TranslationProviderId;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** US dollars; omitted when the model had no configured price. */
+  cost?: number;
+}
+
+interface UsageLedgerFile {
+  entries: UsageLedgerEntry[];
+}
+
+/** The oldest entries are dropped beyond this size so the file stays small. */
+const MAX_LEDGER_ENTRIES = 10000;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Token usage of every translation run, one entry per document and target language, kept in
+ * `usage-ledger.json` under the extension's global storage. Also totals what was spent since
+ * the window opened, which the preview shows next to each document's own usage.
+ */
+export class UsageLedger {
+  private entries: UsageLedgerEntry[] | undefined;
+  private loading: Promise<UsageLedgerEntry[]> | undefined;
+  private sessionUsage: TranslationUsage = { promptTokens: 0, completionTokens: 0 };
+  private dirty = false;
+
+  constructor(
+    private readonly storageRoot: vscode.Uri,
+    private readonly logger: ExtensionLogger,
+  ) {}
+
+  /** Usage recorded since the extension was activated. */
+  getSessionUsage(): TranslationUsage {
+    return { ...this.sessionUsage };
+  }
+
+  /** Every recorded entry, oldest first. */
+  async getEntries(): Promise<UsageLedgerEntry[]> {
+    return [...(await this.load())];
+  }
+
+  /** Appends an entry; runs that used no tokens are not recorded. Call `persist` to write it. */
+  async record(
+    entry: Omit<UsageLedgerEntry, 'recordedAt' | 'promptTokens' | 'completionTokens' | 'cost'>,
+    usage: TranslationUsage,
+  ): Promise<void> {
+    if (usage.promptTokens + usage.completionTokens === 0) {
+      return;
+    }
+
+    const entries = await this.load();
+    entries.push({
+      ...entry,
+      recordedAt: Date.now(),
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      ...(usage.cost === undefined ? {} : { cost: usage.cost }),
+    });
+
+    if (entries.length > MAX_LEDGER_ENTRIES) {
+      entries.splice(0, entries.length - MAX_LEDGER_ENTRIES);
+    }
+
+    this.sessionUsage = addUsage(this.sessionUsage, usage) ?? this.sessionUsage;
+    this.dirty = true;
+  }
+
+  async persist(): Promise<void> {
+    if (!this.dirty || !this.entries) {
+      return;
+    }
+
+    this.dirty = false;
+    const ledgerUri = this.resolveUri();
+    const file: UsageLedgerFile = { entries: this.entries };
+
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageRoot);
+      await vscode.workspace.fs.writeFile(ledgerUri, encoder.encode(JSON.stringify(file)));
+    } catch (error) {
+      this.logger.warn(
+        `Failed to persist usage ledger at ${ledgerUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+      );
+    }
+  }
+
+  private async load(): Promise<UsageLedgerEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.loading ??= this.readEntries();
+    const entries = await this.loading;
+    this.entries ??= entries;
+    return this.entries;
+  }
+
+  private async readEntries(): Promise<UsageLedgerEntry[]> {
+    const ledgerUri = this.resolveUri();
+    let raw: Uint8Array;
+
+    try {
+      raw = await vscode.workspace.fs.readFile(ledgerUri);
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+        this.logger.warn(
+          `Failed to read usage ledger at ${ledgerUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+        );
+      }
+      return [];
+    }
+
+    try {
+      const file = JSON.parse(decoder.decode(raw)) as Partial<UsageLedgerFile>;
+      return Array.isArray(file.entries) ? file.entries : [];
+    } catch (error) {
+      this.logger.warn(
+        `Failed to parse usage ledger at ${ledgerUri.fsPath}: ${error instanceof Error ? error.message : String(error)}.`,
+      );
+      return [];
+    }
+  }
+
+  private resolveUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageRoot, 'usage-ledger.json');
+  }
+}
@@ -1,19 +1,76 @@
+import type { MockProviderMode, TranslationProviderId } from './translation';
+
+export type TranslationAutoRefreshMode = 'off' | 'onSave' | 'onType';
+
+export type TranslationViewMode = 'translation' | 'parallel' | 'interleaved';
+
+export type TranslationBudgetAction = 'warn' | 'stop';
+
+export type PdfExportMode = 'document' | 'image';
+
+export type PdfPageSize = 'a4' | 'letter';
+
+/** US dollars per million tokens. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
 export interface TranslationConfiguration {
+  provider: TranslationProviderId;
   apiBaseUrl: string;
   apiKey?: string;
   model: string;
   targetLanguage: string;
+  /** Languages offered by the preview switcher; always starts with `targetLanguage`. */
+  targetLanguages: string[];
+  /** Only written to XLIFF and TMX exports; prompts never mention the source language. */
+  sourceLanguage: string;
   timeoutMs: number;
   adaptiveBatchingEnabled: boolean;
+  streamingEnabled: boolean;
+  autoRefresh: TranslationAutoRefreshMode;
+  autoRefreshDelayMs: number;
+  scrollSyncEnabled: boolean;
+  viewMode: TranslationViewMode;
   segmentMetricsLoggingEnabled: boolean;
   concurrencyLimit: number;
   parallelismFallbackEnabled: boolean;
   retryMaxAttempts: number;
   promptTemplate: string;
+  frontMatterKeys: string[];
+  outputPathPattern: string;
+  batchConcurrency: number;
+  memoryEnabled: boolean;
+  /** Minimum similarity, from 0 to 1, for a memory entry to become a prompt reference. */
+  memoryFuzzyThreshold: number;
+  memoryMaxReferences: number;
+  /** Keyed by model name; a trailing `*` matches every model with that prefix. */
+  pricing: Record<string, ModelPricing>;
+  /** Estimated cost ceiling of one translation run in US dollars; 0 disables the budget. */
+  budgetMaxCost: number;
+  budgetAction: TranslationBudgetAction;
+  /** Shared by every preview and batch job using the same endpoint and model; 0 is unlimited. */
+  rateLimitRequestsPerMinute: number;
+  /** Estimated prompt and completion tokens per minute; 0 is unlimited. */
+  rateLimitTokensPerMinute: number;
+  mockMode: MockProviderMode;
+  mockExpansion: number;
+  /** Workspace-relative or absolute; empty until replay fixtures are configured. */
+  mockFixturesPath: string;
+  mockLatencyMs: number;
+}
+
+export interface ExportConfiguration {
+  pdfMode: PdfExportMode;
+  pageSize: PdfPageSize;
+  /** Font file for PDF text the standard fonts cannot show; empty looks for a system font. */
+  pdfFont: string;
 }
 
 export interface ExtensionConfiguration {
   previewTheme: 'light' | 'dark';
   transformPlugins: string[];
+  export: ExportConfiguration;
   translation: TranslationConfiguration;
 }
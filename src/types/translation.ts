@@ -5,28 +5,75 @@ export type TranslationErrorCode =
   | 'network'
   | 'server'
   | 'invalidResponse'
+  | 'budgetExceeded'
   | 'unknown';
 
+export type TranslationProviderId =
+  | 'openai'
+  | 'azureOpenAI'
+  | 'anthropic'
+  | 'ollama'
+  | 'deepl'
+  | 'mock';
+
+/** `pseudo` fakes translations locally; `replay` serves recorded ones from fixture files. */
+export type MockProviderMode = 'pseudo' | 'replay';
+
+export interface MockProviderOptions {
+  mode: MockProviderMode;
+  /** Extra length of pseudo translations as a fraction of the source (0.3 adds 30%). */
+  expansion: number;
+  /** JSON or XLIFF file, or a folder of them, holding the translations to replay. */
+  fixturesPath: string;
+  /** Simulated response time; streamed previews receive the text in chunks meanwhile. */
+  latencyMs: number;
+}
+
 export type TranslationPromptSource = 'default' | 'configuration' | 'workspace';
 
+export type TranslationRecoveryType = 'cacheFallback' | 'placeholder' | 'glossary' | 'maskMismatch';
+
+export interface GlossaryEntry {
+  source: string;
+  /** Fixed translation for every target language. Omit to keep the term untranslated. */
+  target?: string;
+  /** Per-language overrides keyed by language code (e.g. `zh-CN`, or `de` for any German variant). */
+  targets?: Record<string, string>;
+  caseSensitive?: boolean;
+  note?: string;
+}
+
 export interface TranslationPrompt {
   instructions: string;
   source: TranslationPromptSource;
   fingerprint: string;
+  glossary?: GlossaryEntry[];
 }
 
 export interface ResolvedTranslationConfiguration {
+  provider: TranslationProviderId;
   apiBaseUrl: string;
   apiKey: string;
   model: string;
   targetLanguage: string;
   timeoutMs: number;
+  /** Only set for the offline `mock` provider. */
+  mock?: MockProviderOptions;
+}
+
+export interface TranslationUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** US dollars, from `translation.pricing`; omitted when the model has no configured price. */
+  cost?: number;
 }
 
 export interface RawTranslationResult {
   markdown: string;
   providerId: string;
   latencyMs: number;
+  /** Tokens billed for the request(s); absent for cache hits and providers that do not report it. */
+  usage?: TranslationUsage;
 }
 
 export interface TranslationResult extends RawTranslationResult {
@@ -41,7 +88,23 @@ export interface CachedSegmentResult extends RawTranslationResult {
 export interface TranslationRecovery {
   segmentIndex: number;
   code: TranslationErrorCode;
-  type: 'cacheFallback' | 'placeholder';
+  type: TranslationRecoveryType;
   attempts: number;
   message: string;
 }
+
+/** A hand-edited translation of one segment, kept in the workspace under `.babelmd/overrides/`. */
+export interface TranslationOverride {
+  /** Source Markdown of the segment when the override was saved. */
+  source: string;
+  translation: string;
+  /** Zero-based first source line of the segment when saved; locates outdated overrides. */
+  startLine: number;
+  updatedAt: number;
+}
+
+/** Overrides of one document and language, keyed by `fingerprintSegmentSource`. */
+export type TranslationOverrides = Record<string, TranslationOverride>;
+
+/** `outdated` marks a segment whose source changed after an override was saved for it. */
+export type TranslationOverrideState = 'applied' | 'outdated';
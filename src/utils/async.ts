@@ -1,5 +1,84 @@
-export async function delay(ms: number): Promise<void> {
-  await new Promise<void>((resolve) => {
-    setTimeout(resolve, ms);
+/** Waits `ms`; resolves to false as soon as `signal` aborts instead of holding the caller. */
+export function delay(ms: number, signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) {
+    return Promise.resolve(false);
+  }
+
+  return new Promise<boolean>((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
+
+export interface ConcurrencyLimiter {
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+/** Caps how many tasks run at once; queued tasks start in FIFO order as slots free up. */
+export function createConcurrencyLimiter(limit: number): ConcurrencyLimiter {
+  const capacity = Number.isFinite(limit) ? Math.max(1, Math.floor(limit)) : 1;
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  return {
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      if (active < capacity) {
+        active += 1;
+      } else {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+
+      try {
+        return await task();
+      } finally {
+        // Hand the slot straight to the next waiter so new callers cannot overtake it.
+        const next = waiting.shift();
+        if (next) {
+          next();
+        } else {
+          active -= 1;
+        }
+      }
+    },
+  };
+}
+
+export interface Debounced<Args extends unknown[]> {
+  (...args: Args): void;
+  cancel(): void;
+}
+
+/** Calls `fn` with the latest arguments once calls have stopped for `waitMs`. */
+export function debounce<Args extends unknown[]>(
+  fn: (...args: Args) => void,
+  waitMs: number,
+): Debounced<Args> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const debounced = (...args: Args): void => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      fn(...args);
+    }, waitMs);
+  };
+
+  debounced.cancel = (): void => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  return debounced;
+}
@@ -0,0 +1,93 @@
+import type { TranslationUsage } from '../types/translation';
+import { addUsage, formatCost } from './usage';
+
+export type BatchItemStatus = 'translated' | 'cached' | 'failed' | 'cancelled';
+
+export interface BatchTranslationItem {
+  /** Workspace-relative path of the source document. */
+  documentPath: string;
+  targetLanguage: string;
+  status: BatchItemStatus;
+  /** Workspace-relative path of the written translation. */
+  outputPath?: string;
+  /** Segments that needed a fallback or were flagged (glossary, masking). */
+  recoveries: number;
+  error?: string;
+  /** Provider usage of the item, including work done before it failed or was cancelled. */
+  usage?: TranslationUsage;
+}
+
+export interface BatchSummary {
+  translated: number;
+  cached: number;
+  withWarnings: number;
+  failed: number;
+  cancelled: number;
+}
+
+export function summarizeBatch(items: readonly BatchTranslationItem[]): BatchSummary {
+  const count = (status: BatchItemStatus): number =>
+    items.filter((item) => item.status === status).length;
+
+  return {
+    translated: count('translated'),
+    cached: count('cached'),
+    withWarnings: items.filter((item) => item.recoveries > 0).length,
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+  };
+}
+
+/** Renders a Markdown report; problems are listed first so they are not lost in long runs. */
+export function buildBatchReport(
+  items: readonly BatchTranslationItem[],
+  meta: { glob: string; startedAt: Date; finishedAt: Date },
+): string {
+  const summary = summarizeBatch(items);
+  const seconds = Math.round((meta.finishedAt.getTime() - meta.startedAt.getTime()) / 1000);
+  const escapeCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const rank: Record<BatchItemStatus, number> = {
+    failed: 0,
+    cancelled: 1,
+    translated: 2,
+    cached: 3,
+  };
+  const usage = items.reduce<TranslationUsage | undefined>(
+    (total, item) => addUsage(total, item.usage),
+    undefined,
+  );
+  const usageLine = usage
+    ? `- Tokens: ${usage.promptTokens} prompt · ${usage.completionTokens} completion${
+        usage.cost === undefined ? '' : ` · Cost: ${formatCost(usage.cost)}`
+      }`
+    : undefined;
+  const rows = [...items]
+    .sort(
+      (a, b) =>
+        rank[a.status] - rank[b.status] ||
+        b.recoveries - a.recoveries ||
+        a.documentPath.localeCompare(b.documentPath) ||
+        a.targetLanguage.localeCompare(b.targetLanguage),
+    )
+    .map((item) => {
+      const notes =
+        item.error ?? (item.recoveries > 0 ? `${item.recoveries} segment warning(s)` : '');
+      return `| ${escapeCell(item.documentPath)} | ${item.targetLanguage} | ${item.status} | ${escapeCell(
+        item.outputPath ?? '',
+      )} | ${escapeCell(notes)} |`;
+    });
+
+  return [
+    '# Batch Translation Report',
+    '',
+    `- Files: \`${meta.glob}\``,
+    `- Started: ${meta.startedAt.toISOString()} (${seconds}s)`,
+    `- Translated: ${summary.translated} · From cache: ${summary.cached} · With warnings: ${summary.withWarnings} · Failed: ${summary.failed} · Cancelled: ${summary.cancelled}`,
+    ...(usageLine ? [usageLine] : []),
+    '',
+    '| File | Language | Status | Output | Notes |',
+    '|---|---|---|---|---|',
+    ...rows,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,36 @@
+import { splitFrontMatter } from './frontMatter';
+
+export interface BilingualSegment {
+  /** Source Markdown of the segment. */
+  source: string;
+  /** Translated Markdown of the same segment. */
+  translation: string;
+}
+
+/**
+ * Builds a Markdown handout where each source segment is followed by its translation. The
+ * translated front matter is kept once at the top, and segments that came back unchanged (code
+ * blocks, for example) are written only once.
+ */
+export function buildInterleavedMarkdown(
+  segments: readonly BilingualSegment[],
+  translatedMarkdown: string,
+): string {
+  const frontMatter = splitFrontMatter(translatedMarkdown).frontMatter;
+  const blocks: string[] = frontMatter ? [frontMatter.lines.join('\n')] : [];
+
+  for (const segment of segments) {
+    const source = segment.source.trim();
+    const translation = segment.translation.trim();
+
+    if (source) {
+      blocks.push(source);
+    }
+
+    if (translation && translation !== source) {
+      blocks.push(translation);
+    }
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -1,24 +1,56 @@
 import * as vscode from 'vscode';
 
-import type { ExtensionConfiguration } from '../types/config';
+import type {
+  ExtensionConfiguration,
+  ModelPricing,
+  PdfExportMode,
+  PdfPageSize,
+  TranslationAutoRefreshMode,
+  TranslationBudgetAction,
+  TranslationConfiguration,
+  TranslationViewMode,
+} from '../types/config';
+import type {
+  MockProviderMode,
+  ResolvedTranslationConfiguration,
+  TranslationProviderId,
+} from '../types/translation';
 import { DEFAULT_TRANSLATION_PROMPT } from '../constants/prompts';
+import { DEFAULT_OUTPUT_PATH_PATTERN } from './outputPath';
 
 export function getExtensionConfiguration(
   scope?: vscode.ConfigurationScope,
 ): ExtensionConfiguration {
   const configuration = vscode.workspace.getConfiguration('babelMdViewer', scope);
   const apiKeyRaw = configuration.get<string>('translation.apiKey', '').trim();
+  const targetLanguage = configuration.get<string>('translation.targetLanguage', 'en');
 
   return {
     previewTheme: configuration.get<'light' | 'dark'>('previewTheme', 'light'),
     transformPlugins: configuration.get<string[]>('transformPlugins', []),
+    export: {
+      pdfMode: configuration.get<PdfExportMode>('export.pdfMode', 'document'),
+      pageSize: configuration.get<PdfPageSize>('export.pageSize', 'a4'),
+      pdfFont: configuration.get<string>('export.pdfFont', '').trim(),
+    },
     translation: {
+      provider: configuration.get<TranslationProviderId>('translation.provider', 'openai'),
       apiBaseUrl: configuration.get<string>('translation.apiBaseUrl', 'https://api.openai.com/v1'),
       apiKey: apiKeyRaw || undefined,
       model: configuration.get<string>('translation.model', 'gpt-4o-mini'),
-      targetLanguage: configuration.get<string>('translation.targetLanguage', 'en'),
+      targetLanguage,
+      targetLanguages: normalizeTargetLanguages(
+        targetLanguage,
+        configuration.get<string[]>('translation.targetLanguages', []),
+      ),
+      sourceLanguage: configuration.get<string>('translation.sourceLanguage', 'en').trim() || 'en',
       timeoutMs: configuration.get<number>('translation.timeoutMs', 30000),
       adaptiveBatchingEnabled: configuration.get<boolean>('translation.enableAdaptiveBatching', false),
+      streamingEnabled: configuration.get<boolean>('translation.enableStreaming', false),
+      autoRefresh: configuration.get<TranslationAutoRefreshMode>('translation.autoRefresh', 'off'),
+      autoRefreshDelayMs: configuration.get<number>('translation.autoRefreshDelayMs', 1500),
+      scrollSyncEnabled: configuration.get<boolean>('translation.syncScroll', true),
+      viewMode: configuration.get<TranslationViewMode>('translation.viewMode', 'translation'),
       segmentMetricsLoggingEnabled: configuration.get<boolean>('translation.logSegmentMetrics', false),
       concurrencyLimit: configuration.get<number>('translation.concurrencyLimit', 2),
       parallelismFallbackEnabled: configuration.get<boolean>('translation.parallelFallbackEnabled', true),
@@ -26,6 +58,79 @@ export function getExtensionConfiguration(
       promptTemplate:
         configuration.get<string>('translation.promptTemplate', DEFAULT_TRANSLATION_PROMPT).trim() ||
         DEFAULT_TRANSLATION_PROMPT,
+      frontMatterKeys: configuration
+        .get<string[]>('translation.frontMatterKeys', [])
+        .map((key) => key.trim())
+        .filter((key) => key.length > 0),
+      outputPathPattern:
+        configuration.get<string>('translation.outputPathPattern', DEFAULT_OUTPUT_PATH_PATTERN).trim() ||
+        DEFAULT_OUTPUT_PATH_PATTERN,
+      batchConcurrency: configuration.get<number>('translation.batch.concurrency', 4),
+      memoryEnabled: configuration.get<boolean>('translation.memory.enabled', true),
+      memoryFuzzyThreshold: configuration.get<number>('translation.memory.fuzzyThreshold', 0.75),
+      memoryMaxReferences: configuration.get<number>('translation.memory.maxReferences', 2),
+      pricing: normalizePricing(
+        configuration.get<Record<string, Partial<ModelPricing>>>('translation.pricing', {}),
+      ),
+      budgetMaxCost: configuration.get<number>('translation.budget.maxCost', 0),
+      budgetAction: configuration.get<TranslationBudgetAction>('translation.budget.action', 'warn'),
+      rateLimitRequestsPerMinute: configuration.get<number>('translation.rateLimit.requestsPerMinute', 0),
+      rateLimitTokensPerMinute: configuration.get<number>('translation.rateLimit.tokensPerMinute', 0),
+      mockMode: configuration.get<MockProviderMode>('translation.mock.mode', 'pseudo'),
+      mockExpansion: configuration.get<number>('translation.mock.expansion', 0.3),
+      mockFixturesPath: configuration.get<string>('translation.mock.fixturesPath', '').trim(),
+      mockLatencyMs: configuration.get<number>('translation.mock.latencyMs', 0),
     },
   };
 }
+
+export function resolveTranslationConfiguration(
+  translation: TranslationConfiguration,
+  apiKey: string,
+  targetLanguage: string = translation.targetLanguage,
+): ResolvedTranslationConfiguration {
+  return {
+    provider: translation.provider,
+    apiBaseUrl: translation.apiBaseUrl,
+    apiKey,
+    model: translation.model,
+    targetLanguage,
+    timeoutMs: translation.timeoutMs,
+    ...(translation.provider === 'mock'
+      ? {
+          mock: {
+            mode: translation.mockMode,
+            expansion: translation.mockExpansion,
+            fixturesPath: translation.mockFixturesPath,
+            latencyMs: translation.mockLatencyMs,
+          },
+        }
+      : {}),
+  };
+}
+
+function normalizeTargetLanguages(primary: string, additional: readonly string[]): string[] {
+  const languages = [primary, ...additional]
+    .map((language) => language.trim())
+    .filter((language) => language.length > 0);
+
+  return Array.from(new Set(languages));
+}
+
+/** Drops entries without a usable price so a half-typed setting does not make costs NaN. */
+function normalizePricing(
+  pricing: Record<string, Partial<ModelPricing>>,
+): Record<string, ModelPricing> {
+  const normalized: Record<string, ModelPricing> = {};
+
+  for (const [model, price] of Object.entries(pricing ?? {})) {
+    const input = Number(price?.input ?? 0);
+    const output = Number(price?.output ?? 0);
+
+    if (model.trim() && Number.isFinite(input) && Number.isFinite(output) && input >= 0 && output >= 0) {
+      normalized[model.trim()] = { input, output };
+    }
+  }
+
+  return normalized;
+}
@@ -0,0 +1,535 @@
+import type { PdfPageSize } from '../types/config';
+import {
+  DocumentBlock,
+  DocumentRun,
+  DocumentTableRow,
+  parseDocumentBlocks,
+} from './markdownDocument';
+import { slugifyHeading } from './text';
+import { escapeXml } from './xml';
+import { ZipEntry, createZip } from './zip';
+
+export interface DocxImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface DocxDocumentOptions {
+  pageSize: PdfPageSize;
+  /** Core-properties title; defaults to the first heading. */
+  title?: string;
+  /** Proofing language of the text, e.g. the translation's target language. */
+  language?: string;
+  /** Writes the Markdown as plain monospace text, for exports of the source view. */
+  preformatted?: boolean;
+  /** Reads an image the document references; images it cannot provide keep their alt text. */
+  loadImage?: (source: string) => Promise<DocxImage | undefined>;
+}
+
+interface EmbeddedImage {
+  data: Uint8Array;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+/** Nesting of the block being written. */
+interface BlockContext {
+  listDepth: number;
+  quoteDepth: number;
+}
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ');
+const RELATIONSHIP_TYPES = {
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+};
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** Width and height in twentieths of a point. */
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  a4: [11906, 16838],
+  letter: [12240, 15840],
+};
+const PAGE_MARGIN = 1440;
+const LIST_INDENT = 720;
+const QUOTE_INDENT = 360;
+const HEADING_SIZES = [36, 30, 26, 24, 22, 22];
+const BULLET_NUMBERING_ID = 1;
+const EMU_PER_PIXEL = 9525;
+const EMU_PER_TWIP = 635;
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+};
+/** Characters XML 1.0 does not allow, even escaped. */
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_PATTERN = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Builds a Word document from the Markdown structure rather than from a screenshot, so reviewers
+ * can edit, comment and track changes: headings use the built-in heading styles (and show in the
+ * navigation pane), lists use real numbering, links stay clickable and local or remote PNG, JPEG
+ * and GIF images are embedded.
+ */
+export async function renderMarkdownDocx(
+  markdown: string,
+  options: DocxDocumentOptions,
+): Promise<Uint8Array> {
+  const blocks: DocumentBlock[] = options.preformatted
+    ? [{ type: 'code', text: markdown.replace(/\r\n?/g, '\n').replace(/\n$/, '') }]
+    : parseDocumentBlocks(markdown);
+  const images = new Map<string, EmbeddedImage>();
+
+  for (const source of collectImageSources(blocks)) {
+    const loaded = await options.loadImage?.(source);
+    const extension = loaded && IMAGE_EXTENSIONS[loaded.mimeType];
+    const size = loaded && extension ? readImageSize(loaded.data, extension) : undefined;
+
+    if (loaded && extension && size) {
+      images.set(source, { data: loaded.data, extension, ...size });
+    }
+  }
+
+  const writer = new DocxWriter(images, PAGE_SIZES[options.pageSize] ?? PAGE_SIZES.a4);
+  const documentXml = writer.write(blocks);
+  const title = options.title ?? writer.firstHeading ?? '';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: buildContentTypes() },
+    { name: '_rels/.rels', data: buildPackageRelationships() },
+    { name: 'docProps/core.xml', data: buildCoreProperties(title, options.language) },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: buildStyles(options.language) },
+    { name: 'word/numbering.xml', data: writer.buildNumbering() },
+    { name: 'word/_rels/document.xml.rels', data: writer.buildRelationships() },
+    ...writer.media,
+  ]);
+}
+
+class DocxWriter {
+  firstHeading: string | undefined;
+  readonly media: ZipEntry[] = [];
+  private readonly relationships: string[] = [
+    relationship('rId1', RELATIONSHIP_TYPES.styles, 'styles.xml'),
+    relationship('rId2', RELATIONSHIP_TYPES.numbering, 'numbering.xml'),
+  ];
+  private readonly imageRelationships = new Map<EmbeddedImage, string>();
+  private readonly hyperlinkRelationships = new Map<string, string>();
+  /** Start value of each ordered list; list `n` uses numbering ID `n + 2`. */
+  private readonly orderedLists: Array<{ start: number; level: number }> = [];
+  /** Bookmark name of each heading in document order, and the name behind each `#slug`. */
+  private readonly headingBookmarks: string[] = [];
+  private readonly anchors = new Map<string, string>();
+  private headingIndex = 0;
+  private drawingCount = 0;
+  private pendingNumbering: { numId: number; level: number } | undefined;
+
+  constructor(
+    private readonly images: Map<string, EmbeddedImage>,
+    private readonly pageSize: [number, number],
+  ) {}
+
+  write(blocks: DocumentBlock[]): string {
+    this.assignBookmarks(blocks, new Map());
+
+    const [width, height] = this.pageSize;
+    const body = this.blocks(blocks, { listDepth: 0, quoteDepth: 0 });
+
+    return `${XML_DECLARATION}<w:document ${NAMESPACES}><w:body>${body}<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+  }
+
+  buildRelationships(): string {
+    return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${this.relationships.join('')}</Relationships>`;
+  }
+
+  /** One bullet and one decimal definition; each ordered list restarts at its own start value. */
+  buildNumbering(): string {
+    const levels = (format: 'bullet' | 'decimal'): string =>
+      Array.from({ length: 9 }, (_, level) => {
+        const text = format === 'bullet' ? ['•', '◦', '▪'][level % 3] : `%${level + 1}.`;
+
+        return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+      }).join('');
+    const ordered = this.orderedLists
+      .map(
+        ({ start, level }, index) =>
+          `<w:num w:numId="${index + 2}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`,
+      )
+      .join('');
+
+    return `${XML_DECLARATION}<w:numbering ${NAMESPACES}><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum><w:num w:numId="${BULLET_NUMBERING_ID}"><w:abstractNumId w:val="0"/></w:num>${ordered}</w:numbering>`;
+  }
+
+  /** Names are assigned up front so links can point at headings further down. */
+  private assignBookmarks(blocks: DocumentBlock[], slugCounts: Map<string, number>): void {
+    for (const block of blocks) {
+      if (block.type === 'heading') {
+        const title = plainText(block.runs);
+        const slug = slugifyHeading(title) || 'section';
+        const count = slugCounts.get(slug) ?? 0;
+        const name = `_heading${this.headingBookmarks.length + 1}`;
+
+        slugCounts.set(slug, count + 1);
+        this.anchors.set(count === 0 ? slug : `${slug}-${count}`, name);
+        this.headingBookmarks.push(name);
+        this.firstHeading ??= title;
+      } else if (block.type === 'quote') {
+        this.assignBookmarks(block.blocks, slugCounts);
+      } else if (block.type === 'list') {
+        block.items.forEach((item) => this.assignBookmarks(item, slugCounts));
+      }
+    }
+  }
+
+  private blocks(blocks: DocumentBlock[], context: BlockContext): string {
+    return blocks.map((block) => this.block(block, context)).join('');
+  }
+
+  private block(block: DocumentBlock, context: BlockContext): string {
+    switch (block.type) {
+      case 'heading': {
+        const id = this.headingIndex;
+        const name = this.headingBookmarks[this.headingIndex];
+        this.headingIndex += 1;
+
+        return this.paragraph(
+          `<w:bookmarkStart w:id="${id}" w:name="${name}"/>${this.runs(block.runs)}<w:bookmarkEnd w:id="${id}"/>`,
+          context,
+          `Heading${Math.min(Math.max(block.level, 1), 6)}`,
+        );
+      }
+      case 'paragraph':
+        return this.paragraph(
+          this.runs(block.runs),
+          context,
+          context.quoteDepth > 0 ? 'Quote' : undefined,
+        );
+      case 'list': {
+        const level = Math.min(context.listDepth, 8);
+        const numId = block.ordered
+          ? this.orderedLists.push({ start: block.start, level }) + 1
+          : BULLET_NUMBERING_ID;
+        const inner = { ...context, listDepth: context.listDepth + 1 };
+
+        return block.items
+          .map((item) => {
+            this.pendingNumbering = { numId, level };
+            const xml = this.blocks(item, inner);
+            this.pendingNumbering = undefined;
+            return xml;
+          })
+          .join('');
+      }
+      case 'quote':
+        return this.blocks(block.blocks, { ...context, quoteDepth: context.quoteDepth + 1 });
+      case 'code':
+        return this.paragraph(`<w:r>${textContent(block.text)}</w:r>`, context, 'Code');
+      case 'rule':
+        return this.paragraph(
+          '',
+          context,
+          undefined,
+          '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>',
+        );
+      case 'table':
+        this.pendingNumbering = undefined;
+        return this.table(block.rows);
+    }
+  }
+
+  /** Writes a paragraph, taking the list numbering of the item it starts, if any. */
+  private paragraph(
+    content: string,
+    context: BlockContext,
+    style?: string,
+    properties = '',
+  ): string {
+    const numbering = this.pendingNumbering;
+    const indent = LIST_INDENT * context.listDepth + QUOTE_INDENT * context.quoteDepth;
+    this.pendingNumbering = undefined;
+
+    const paragraphProperties = [
+      style ? `<w:pStyle w:val="${style}"/>` : '',
+      numbering
+        ? `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>`
+        : '',
+      properties,
+      indent > 0 ? `<w:ind w:left="${indent}"${numbering ? ' w:hanging="360"' : ''}/>` : '',
+    ].join('');
+
+    return `<w:p>${paragraphProperties ? `<w:pPr>${paragraphProperties}</w:pPr>` : ''}${content}</w:p>`;
+  }
+
+  /** Columns share the text width evenly; the header row repeats on every page. */
+  private table(rows: DocumentTableRow[]): string {
+    const columns = Math.max(1, ...rows.map((row) => row.cells.length));
+    const columnWidth = Math.floor((this.pageSize[0] - PAGE_MARGIN * 2) / columns);
+    const grid = `<w:gridCol w:w="${columnWidth}"/>`.repeat(columns);
+    const body = rows
+      .map((row) => {
+        const cells = Array.from({ length: columns }, (_, index) => {
+          const runs = (row.cells[index] ?? []).map((run) => ({
+            ...run,
+            bold: run.bold || row.header,
+          }));
+
+          return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/></w:tcPr><w:p>${this.runs(runs)}</w:p></w:tc>`;
+        }).join('');
+
+        return `<w:tr>${row.header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+      })
+      .join('');
+
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl>`;
+  }
+
+  /** Consecutive runs with the same link target share one hyperlink element. */
+  private runs(runs: DocumentRun[]): string {
+    const groups: Array<{ href?: string; xml: string }> = [];
+
+    for (const run of runs) {
+      const xml = this.run(run);
+      const last = groups[groups.length - 1];
+
+      if (last && last.href === run.href) {
+        last.xml += xml;
+      } else {
+        groups.push({ href: run.href, xml });
+      }
+    }
+
+    return groups.map((group) => this.hyperlink(group.href, group.xml)).join('');
+  }
+
+  private run(run: DocumentRun): string {
+    if (run.image !== undefined) {
+      const image = this.images.get(run.image);
+
+      if (image) {
+        return this.drawing(image, run.text);
+      }
+    }
+
+    if (!run.text) {
+      return '';
+    }
+
+    const properties = [
+      run.code ? '<w:rStyle w:val="InlineCode"/>' : run.href ? '<w:rStyle w:val="Hyperlink"/>' : '',
+      run.bold ? '<w:b/>' : '',
+      run.italic || run.image !== undefined ? '<w:i/>' : '',
+      run.strike ? '<w:strike/>' : '',
+    ].join('');
+    const text = run.image !== undefined ? `[${run.text}]` : run.text;
+
+    return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${textContent(text)}</w:r>`;
+  }
+
+  private hyperlink(href: string | undefined, content: string): string {
+    if (!href) {
+      return content;
+    }
+
+    if (href.startsWith('#')) {
+      const anchor = this.anchors.get(safeDecode(href.slice(1)));
+      return anchor
+        ? `<w:hyperlink w:anchor="${anchor}" w:history="1">${content}</w:hyperlink>`
+        : content;
+    }
+
+    let id = this.hyperlinkRelationships.get(href);
+
+    if (!id) {
+      id = `rId${this.relationships.length + 1}`;
+      this.hyperlinkRelationships.set(href, id);
+      this.relationships.push(relationship(id, RELATIONSHIP_TYPES.hyperlink, href, true));
+    }
+
+    return `<w:hyperlink r:id="${id}" w:history="1">${content}</w:hyperlink>`;
+  }
+
+  /** An inline picture, scaled down to the text width. */
+  private drawing(image: EmbeddedImage, alt: string): string {
+    let id = this.imageRelationships.get(image);
+
+    if (!id) {
+      id = `rId${this.relationships.length + 1}`;
+      const target = `media/image${this.imageRelationships.size + 1}.${image.extension}`;
+
+      this.imageRelationships.set(image, id);
+      this.relationships.push(relationship(id, RELATIONSHIP_TYPES.image, target));
+      this.media.push({ name: `word/${target}`, data: image.data });
+    }
+
+    this.drawingCount += 1;
+    const maxWidth = (this.pageSize[0] - PAGE_MARGIN * 2) * EMU_PER_TWIP;
+    const scale = Math.min(1, maxWidth / (image.width * EMU_PER_PIXEL));
+    const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+    const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+    const name = `Picture ${this.drawingCount}`;
+    const description = escapeXml(cleanText(alt));
+
+    return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${this.drawingCount}" name="${name}" descr="${description}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="${this.drawingCount}" name="${name}" descr="${description}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+  }
+}
+
+function collectImageSources(blocks: DocumentBlock[], sources = new Set<string>()): Set<string> {
+  const addRuns = (runs: DocumentRun[]): void => {
+    for (const run of runs) {
+      if (run.image) {
+        sources.add(run.image);
+      }
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading' || block.type === 'paragraph') {
+      addRuns(block.runs);
+    } else if (block.type === 'quote') {
+      collectImageSources(block.blocks, sources);
+    } else if (block.type === 'list') {
+      block.items.forEach((item) => collectImageSources(item, sources));
+    } else if (block.type === 'table') {
+      block.rows.forEach((row) => row.cells.forEach(addRuns));
+    }
+  }
+
+  return sources;
+}
+
+/** Pixel size from the PNG, GIF or JPEG header; undefined for files that do not parse. */
+function readImageSize(
+  data: Uint8Array,
+  extension: string,
+): { width: number; height: number } | undefined {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (extension === 'png' && data.length >= 24) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (extension === 'gif' && data.length >= 10) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  if (extension === 'jpeg') {
+    let offset = 2;
+
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const length = view.getUint16(offset + 2);
+
+      // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC).
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+
+      offset += 2 + length;
+    }
+  }
+
+  return undefined;
+}
+
+/** Text as `<w:t>` elements, with line breaks and tabs as Word break and tab elements. */
+function textContent(text: string): string {
+  return cleanText(text)
+    .split(/(\n|\t)/)
+    .map((part) => {
+      if (part === '\n') {
+        return '<w:br/>';
+      }
+      if (part === '\t') {
+        return '<w:tab/>';
+      }
+      return part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : '';
+    })
+    .join('');
+}
+
+function cleanText(text: string): string {
+  return text.replace(INVALID_XML_PATTERN, '');
+}
+
+function plainText(runs: DocumentRun[]): string {
+  return runs
+    .map((run) => run.text)
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function relationship(id: string, type: string, target: string, external = false): string {
+  return `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`;
+}
+
+function buildContentTypes(): string {
+  const images = Object.entries(IMAGE_EXTENSIONS)
+    .map(([mimeType, extension]) => `<Default Extension="${extension}" ContentType="${mimeType}"/>`)
+    .join('');
+  const main = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+  return `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${images}<Override PartName="/word/document.xml" ContentType="${main}.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="${main}.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="${main}.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+}
+
+function buildPackageRelationships(): string {
+  return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationship(
+    'rId1',
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+    'word/document.xml',
+  )}${relationship(
+    'rId2',
+    'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+    'docProps/core.xml',
+  )}</Relationships>`;
+}
+
+function buildCoreProperties(title: string, language?: string): string {
+  return `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeXml(
+    cleanText(title),
+  )}</dc:title><dc:creator>Babel Markdown Viewer</dc:creator>${
+    language ? `<dc:language>${escapeXml(language)}</dc:language>` : ''
+  }</cp:coreProperties>`;
+}
+
+function buildStyles(language?: string): string {
+  const lang = language ? `<w:lang w:val="${escapeXml(language)}"/>` : '';
+  const paragraphStyle = (id: string, name: string, body: string): string =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>${body}</w:style>`;
+  const headings = HEADING_SIZES.map((size, index) =>
+    paragraphStyle(
+      `Heading${index + 1}`,
+      `heading ${index + 1}`,
+      `<w:pPr><w:keepNext/><w:spacing w:before="${index < 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr>`,
+    ),
+  ).join('');
+  const mono = '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>';
+
+  return `${XML_DECLARATION}<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/>${lang}</w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${headings}${paragraphStyle(
+    'Quote',
+    'Quote',
+    '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="2563EB"/></w:pBdr></w:pPr><w:rPr><w:color w:val="4B5563"/></w:rPr>',
+  )}${paragraphStyle(
+    'Code',
+    'Code',
+    `<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F5F7FA"/><w:spacing w:after="120" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr>${mono}<w:sz w:val="19"/></w:rPr>`,
+  )}<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/><w:rPr>${mono}<w:shd w:val="clear" w:color="auto" w:fill="F5F7FA"/></w:rPr></w:style><w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="1D4ED8"/><w:u w:val="single"/></w:rPr></w:style><w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:left w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:right w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/></w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style></w:styles>`;
+}
@@ -0,0 +1,90 @@
+import { maskMarkdown } from './masking';
+import { parseXliff } from './xliff';
+
+export interface TranslationFixture {
+  /** Omitted to use the translation for every target language. */
+  targetLanguage?: string;
+  source: string;
+  translation: string;
+}
+
+interface TranslationFixtureFile {
+  translations?: TranslationFixture[];
+}
+
+export interface TranslationFixtureIndex {
+  readonly size: number;
+  /** The recorded translation of a segment as sent to a provider, i.e. with masked placeholders. */
+  lookup(targetLanguage: string, maskedSource: string): string | undefined;
+}
+
+/**
+ * Reads recorded translations from a JSON file (`{ "translations": [{ source, translation,
+ * targetLanguage? }] }`) or from an XLIFF export, whose units become fixtures for its target
+ * language. Units without a target are skipped.
+ */
+export function parseTranslationFixtures(fileName: string, content: string): TranslationFixture[] {
+  if (/\.xliff?$/i.test(fileName)) {
+    const document = parseXliff(content);
+
+    return document.units
+      .filter((unit) => unit.target !== undefined)
+      .map((unit) => ({
+        targetLanguage: document.trgLang,
+        source: unit.source,
+        translation: unit.target as string,
+      }));
+  }
+
+  const file = JSON.parse(content) as TranslationFixtureFile;
+
+  if (!Array.isArray(file.translations)) {
+    throw new Error('Expected a "translations" array.');
+  }
+
+  return file.translations.filter(
+    (fixture) => typeof fixture?.source === 'string' && typeof fixture.translation === 'string',
+  );
+}
+
+/**
+ * Indexes fixtures written as plain Markdown under the text providers actually receive: sources
+ * are masked the way `TranslationService` masks segments, and the protected pieces found in the
+ * translation are swapped for the same placeholders so they survive unmasking.
+ */
+export function createFixtureIndex(
+  fixtures: readonly TranslationFixture[],
+): TranslationFixtureIndex {
+  const entries = new Map<string, string>();
+
+  for (const fixture of fixtures) {
+    const masked = maskMarkdown(fixture.source);
+    // Longer tokens first, so a URL inside a masked link is not replaced on its own.
+    const order = masked.tokens
+      .map((token, index) => ({ token, index }))
+      .sort((a, b) => b.token.length - a.token.length);
+    let translation = fixture.translation;
+
+    for (const { token, index } of order) {
+      translation = translation.split(token).join(`⟦${index}⟧`);
+    }
+
+    entries.set(buildKey(fixture.targetLanguage, masked.text), translation);
+  }
+
+  return {
+    size: entries.size,
+    lookup(targetLanguage: string, maskedSource: string): string | undefined {
+      return (
+        entries.get(buildKey(targetLanguage, maskedSource)) ??
+        entries.get(buildKey(undefined, maskedSource))
+      );
+    },
+  };
+}
+
+function buildKey(targetLanguage: string | undefined, source: string): string {
+  const language = targetLanguage?.trim().toLowerCase() ?? '*';
+
+  return `${language}\n${source.replace(/\r\n/g, '\n').trim()}`;
+}
@@ -0,0 +1,198 @@
+export type FrontMatterFormat = 'yaml' | 'toml';
+
+export interface FrontMatter {
+  format: FrontMatterFormat;
+  /** Front matter lines including both delimiters. */
+  lines: string[];
+}
+
+export interface FrontMatterField {
+  key: string;
+  value: string;
+  /** Index into `FrontMatter.lines`. */
+  lineIndex: number;
+}
+
+export interface FrontMatterSplit {
+  frontMatter?: FrontMatter;
+  body: string;
+  /** Zero-based source line where the body starts. */
+  bodyStartLine: number;
+}
+
+const DELIMITERS: Record<FrontMatterFormat, string> = {
+  yaml: '---',
+  toml: '+++',
+};
+
+const YAML_FIELD_PATTERN = /^([A-Za-z0-9_][\w.-]*)(\s*:[ \t]+)(.+?)\s*$/;
+const TOML_FIELD_PATTERN = /^([A-Za-z0-9_][\w.-]*|"[^"]+")(\s*=\s*)(.+?)\s*$/;
+
+/**
+ * Splits YAML (`---`) or TOML (`+++`) front matter from the start of a Markdown document. The
+ * front matter is returned line by line so it can be written back verbatim.
+ */
+export function splitFrontMatter(markdown: string): FrontMatterSplit {
+  const lines = markdown.split(/\r?\n/);
+  const opening = lines[0]?.replace(/^\uFEFF/, '').trimEnd();
+  const format = (Object.keys(DELIMITERS) as FrontMatterFormat[]).find(
+    (candidate) => DELIMITERS[candidate] === opening,
+  );
+
+  if (!format) {
+    return { body: markdown, bodyStartLine: 0 };
+  }
+
+  const isClosing = (line: string): boolean =>
+    line.trimEnd() === DELIMITERS[format] || (format === 'yaml' && line.trimEnd() === '...');
+  const closingIndex = lines.findIndex((line, index) => index > 0 && isClosing(line));
+
+  if (closingIndex < 0) {
+    return { body: markdown, bodyStartLine: 0 };
+  }
+
+  return {
+    frontMatter: { format, lines: lines.slice(0, closingIndex + 1) },
+    body: lines.slice(closingIndex + 1).join('\n'),
+    bodyStartLine: closingIndex + 1,
+  };
+}
+
+/**
+ * Returns the top-level, single-line string values for the requested keys. Block scalars,
+ * flow collections, nested keys and anchors are skipped so they are never rewritten.
+ */
+export function findFrontMatterFields(
+  frontMatter: FrontMatter,
+  keys: readonly string[],
+): FrontMatterField[] {
+  if (keys.length === 0) {
+    return [];
+  }
+
+  const wanted = new Set(keys);
+  const pattern = frontMatter.format === 'yaml' ? YAML_FIELD_PATTERN : TOML_FIELD_PATTERN;
+  const fields: FrontMatterField[] = [];
+
+  frontMatter.lines.slice(1, -1).forEach((line, offset) => {
+    const match = pattern.exec(line);
+
+    if (!match) {
+      return;
+    }
+
+    const key = match[1].replace(/^"|"$/g, '');
+    if (!wanted.has(key)) {
+      return;
+    }
+
+    const parsed = parseFieldValue(frontMatter.format, match[3]);
+
+    if (parsed && parsed.value.trim() !== '') {
+      fields.push({ key, value: parsed.value, lineIndex: offset + 1 });
+    }
+  });
+
+  return fields;
+}
+
+/** Writes translated values back into the front matter, quoting them so the result stays valid. */
+export function applyFrontMatterTranslations(
+  frontMatter: FrontMatter,
+  translations: ReadonlyMap<number, string>,
+): string {
+  const pattern = frontMatter.format === 'yaml' ? YAML_FIELD_PATTERN : TOML_FIELD_PATTERN;
+
+  return frontMatter.lines
+    .map((line, index) => {
+      const translated = translations.get(index);
+      const match = translated === undefined ? null : pattern.exec(line);
+
+      if (!match || translated === undefined) {
+        return line;
+      }
+
+      // JSON string escapes are valid in both YAML double-quoted scalars and TOML basic strings.
+      const singleLine = translated.replace(/\s*\r?\n\s*/g, ' ').trim();
+      const comment = parseFieldValue(frontMatter.format, match[3])?.comment ?? '';
+      return `${match[1]}${match[2]}${JSON.stringify(singleLine)}${comment}`;
+    })
+    .join('\n');
+}
+
+interface ParsedScalar {
+  value: string;
+  /** Trailing comment (with its leading whitespace) to keep when the value is rewritten. */
+  comment: string;
+}
+
+function parseFieldValue(format: FrontMatterFormat, raw: string): ParsedScalar | undefined {
+  const value = raw.trim();
+
+  if (value.startsWith('"')) {
+    return parseQuoted(value, '"');
+  }
+
+  if (value.startsWith("'")) {
+    return parseQuoted(value, "'");
+  }
+
+  if (format === 'toml' || /^[|>[{&*!]/.test(value)) {
+    // TOML bare values are never strings; YAML block scalars, collections and anchors are skipped.
+    return undefined;
+  }
+
+  const commentIndex = value.search(/\s#/);
+  const plain = commentIndex >= 0 ? value.slice(0, commentIndex) : value;
+
+  // Numbers, booleans and nulls are not translatable text.
+  if (/^(?:true|false|yes|no|on|off|null|~|-?\d[\d_.:eE+-]*)$/i.test(plain)) {
+    return undefined;
+  }
+
+  return { value: plain, comment: commentIndex >= 0 ? value.slice(commentIndex) : '' };
+}
+
+function parseQuoted(value: string, quote: '"' | "'"): ParsedScalar | undefined {
+  if (value.startsWith(quote.repeat(3))) {
+    return undefined;
+  }
+
+  let closing = -1;
+  for (let index = 1; index < value.length; index += 1) {
+    if (quote === '"' && value[index] === '\\') {
+      index += 1;
+      continue;
+    }
+    if (value[index] === quote) {
+      // YAML escapes a single quote by doubling it.
+      if (quote === "'" && value[index + 1] === "'") {
+        index += 1;
+        continue;
+      }
+      closing = index;
+      break;
+    }
+  }
+
+  if (closing < 0) {
+    return undefined;
+  }
+
+  const rest = value.slice(closing + 1);
+  if (rest.trim() !== '' && !/^\s+#/.test(rest)) {
+    return undefined;
+  }
+
+  const inner = value.slice(0, closing + 1);
+
+  if (quote === "'") {
+    return { value: inner.slice(1, -1).replace(/''/g, "'"), comment: rest };
+  }
+
+  try {
+    return { value: JSON.parse(inner) as string, comment: rest };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,238 @@
+import type { GlossaryEntry } from '../types/translation';
+
+export interface GlossaryMatch {
+  source: string;
+  /** Required rendering in the target language; `undefined` means the term must stay untranslated. */
+  target?: string;
+  caseSensitive: boolean;
+  note?: string;
+}
+
+const RESERVED_CSV_COLUMNS = new Set(['source', 'target', 'note', 'casesensitive']);
+
+export function parseGlossaryJson(raw: string): GlossaryEntry[] {
+  const parsed = JSON.parse(raw) as unknown;
+  const items = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { terms?: unknown })?.terms)
+      ? (parsed as { terms: unknown[] }).terms
+      : undefined;
+
+  if (!items) {
+    throw new Error('Glossary JSON must be an array of terms or an object with a "terms" array.');
+  }
+
+  return items.map(normalizeEntry).filter((entry): entry is GlossaryEntry => entry !== undefined);
+}
+
+/**
+ * Parses a glossary CSV with a header row. `source` is required; `target`, `note` and
+ * `caseSensitive` are optional, and any other column is read as a per-language target keyed by
+ * its header (for example `zh-CN`).
+ */
+export function parseGlossaryCsv(raw: string): GlossaryEntry[] {
+  const rows = parseCsvRows(raw).filter((row) => row.some((cell) => cell.trim() !== ''));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map((cell) => cell.trim());
+  const sourceIndex = header.findIndex((cell) => cell.toLowerCase() === 'source');
+
+  if (sourceIndex < 0) {
+    throw new Error('Glossary CSV must have a "source" column.');
+  }
+
+  const columnIndex = (name: string): number =>
+    header.findIndex((cell) => cell.toLowerCase() === name);
+  const targetIndex = columnIndex('target');
+  const noteIndex = columnIndex('note');
+  const caseSensitiveIndex = columnIndex('casesensitive');
+
+  return rows
+    .slice(1)
+    .map((row) => {
+      const cell = (index: number): string | undefined =>
+        index >= 0 && row[index] !== undefined && row[index].trim() !== '' ? row[index].trim() : undefined;
+      const targets: Record<string, string> = {};
+
+      header.forEach((name, index) => {
+        const value = cell(index);
+        if (value !== undefined && !RESERVED_CSV_COLUMNS.has(name.toLowerCase())) {
+          targets[name] = value;
+        }
+      });
+
+      return normalizeEntry({
+        source: cell(sourceIndex),
+        target: cell(targetIndex),
+        targets: Object.keys(targets).length > 0 ? targets : undefined,
+        note: cell(noteIndex),
+        caseSensitive: /^(true|yes|1)$/i.test(cell(caseSensitiveIndex) ?? ''),
+      });
+    })
+    .filter((entry): entry is GlossaryEntry => entry !== undefined);
+}
+
+export function findGlossaryMatches(
+  glossary: readonly GlossaryEntry[],
+  segment: string,
+  targetLanguage: string,
+): GlossaryMatch[] {
+  const matches: GlossaryMatch[] = [];
+
+  for (const entry of glossary) {
+    const caseSensitive = entry.caseSensitive ?? false;
+
+    if (!containsTerm(segment, entry.source, caseSensitive)) {
+      continue;
+    }
+
+    matches.push({
+      source: entry.source,
+      target: resolveTarget(entry, targetLanguage),
+      caseSensitive,
+      note: entry.note,
+    });
+  }
+
+  return matches;
+}
+
+export function buildGlossaryInstructions(matches: readonly GlossaryMatch[]): string {
+  if (matches.length === 0) {
+    return '';
+  }
+
+  const lines = matches.map((match) => {
+    const rule = match.target
+      ? `"${match.source}" → "${match.target}"`
+      : `"${match.source}" → keep as-is (do not translate)`;
+    return match.note ? `- ${rule} (${match.note})` : `- ${rule}`;
+  });
+
+  return `## Glossary\nUse exactly these renderings for the following terms:\n${lines.join('\n')}`;
+}
+
+export function findGlossaryViolations(
+  matches: readonly GlossaryMatch[],
+  translation: string,
+): GlossaryMatch[] {
+  return matches.filter(
+    (match) => !containsTerm(translation, match.target ?? match.source, match.caseSensitive),
+  );
+}
+
+function resolveTarget(entry: GlossaryEntry, targetLanguage: string): string | undefined {
+  if (entry.targets) {
+    const normalizedLanguage = targetLanguage.toLowerCase();
+    const baseLanguage = normalizedLanguage.split('-')[0];
+    const keys = Object.keys(entry.targets);
+    const exact = keys.find((key) => key.toLowerCase() === normalizedLanguage);
+    const base = keys.find((key) => key.toLowerCase() === baseLanguage);
+    const key = exact ?? base;
+
+    if (key) {
+      return entry.targets[key];
+    }
+  }
+
+  return entry.target;
+}
+
+function containsTerm(text: string, term: string, caseSensitive: boolean): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Only enforce word boundaries on edges that are ASCII word characters, so CJK terms still
+  // match inside running text.
+  const leading = /^[A-Za-z0-9_]/.test(term) ? '(?<![A-Za-z0-9_])' : '';
+  const trailing = /[A-Za-z0-9_]$/.test(term) ? '(?![A-Za-z0-9_])' : '';
+  const pattern = new RegExp(`${leading}${escaped}${trailing}`, caseSensitive ? 'u' : 'iu');
+  return pattern.test(text);
+}
+
+function normalizeEntry(value: unknown): GlossaryEntry | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const source = typeof candidate.source === 'string' ? candidate.source.trim() : '';
+
+  if (!source) {
+    return undefined;
+  }
+
+  const entry: GlossaryEntry = { source };
+
+  if (typeof candidate.target === 'string' && candidate.target.trim()) {
+    entry.target = candidate.target.trim();
+  }
+
+  if (candidate.targets && typeof candidate.targets === 'object') {
+    const targets = Object.entries(candidate.targets as Record<string, unknown>).filter(
+      (pair): pair is [string, string] => typeof pair[1] === 'string' && pair[1].trim() !== '',
+    );
+    if (targets.length > 0) {
+      entry.targets = Object.fromEntries(targets.map(([key, target]) => [key, target.trim()]));
+    }
+  }
+
+  if (candidate.caseSensitive === true) {
+    entry.caseSensitive = true;
+  }
+
+  if (typeof candidate.note === 'string' && candidate.note.trim()) {
+    entry.note = candidate.note.trim();
+  }
+
+  return entry;
+}
+
+function parseCsvRows(raw: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const text = raw.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
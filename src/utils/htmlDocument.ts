@@ -0,0 +1,162 @@
+import { buildPreviewStyles } from './previewStyles';
+import { escapeHtml, slugifyHeading } from './text';
+
+export interface HtmlHeading {
+  level: number;
+  id: string;
+  text: string;
+}
+
+export interface StandaloneHtmlOptions {
+  /** Page title when the document has no heading; otherwise the first heading is used. */
+  fallbackTitle: string;
+  /** BCP 47 tag for the `lang` attribute, e.g. the translation's target language. */
+  languageTag: string;
+  theme: 'light' | 'dark';
+  /** Sanitized document HTML, such as the output of `renderMarkdownToHtml`. */
+  bodyHtml: string;
+  /** Heading of the table of contents; omitted when the document has no headings. */
+  tableOfContentsTitle: string;
+}
+
+const HEADING_PATTERN = /<h([1-6])>([\s\S]*?)<\/h\1>/g;
+const IMAGE_SOURCE_PATTERN = /(<img\b[^>]*?\ssrc=")([^"]*)(")/g;
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+/**
+ * Gives every heading an `id`, using the same slugs as the `headingAnchors` plugin, and returns
+ * the headings in document order for a table of contents.
+ */
+export function addHeadingIds(html: string): { html: string; headings: HtmlHeading[] } {
+  const headings: HtmlHeading[] = [];
+  const used = new Map<string, number>();
+  const result = html.replace(HEADING_PATTERN, (_match, level: string, inner: string) => {
+    const text = decodeEntities(inner.replace(/<[^>]*>/g, ''))
+      .replace(/\s+/g, ' ')
+      .trim();
+    const slug = slugifyHeading(text) || 'section';
+    const count = used.get(slug) ?? 0;
+    const id = count === 0 ? slug : `${slug}-${count}`;
+
+    used.set(slug, count + 1);
+    headings.push({ level: Number(level), id, text });
+    return `<h${level} id="${escapeHtml(id)}">${inner}</h${level}>`;
+  });
+
+  return { html: result, headings };
+}
+
+/**
+ * Swaps each `<img>` source for the data URI `resolve` returns, so the page has no external
+ * files. Sources that cannot be resolved keep their original URL; each distinct source is
+ * resolved once.
+ */
+export async function inlineImageSources(
+  html: string,
+  resolve: (source: string) => Promise<string | undefined>,
+): Promise<string> {
+  const resolved = new Map<string, string>();
+
+  for (const [, , source] of html.matchAll(IMAGE_SOURCE_PATTERN)) {
+    if (resolved.has(source) || source.startsWith('data:')) {
+      continue;
+    }
+
+    const dataUri = await resolve(decodeEntities(source));
+    if (dataUri) {
+      resolved.set(source, dataUri);
+    }
+  }
+
+  return html.replace(IMAGE_SOURCE_PATTERN, (match, start: string, source: string, end: string) => {
+    const dataUri = resolved.get(source);
+    return dataUri ? `${start}${escapeHtml(dataUri)}${end}` : match;
+  });
+}
+
+/** A self-contained page: inline preview styles, a table of contents and the document. */
+export function buildStandaloneHtml(options: StandaloneHtmlOptions): string {
+  const { html, headings } = addHeadingIds(options.bodyHtml);
+  const isDark = options.theme === 'dark';
+  const styles = buildPreviewStyles({
+    theme: options.theme,
+    background: isDark ? '#1e1e1e' : '#ffffff',
+    foreground: isDark ? '#d4d4d4' : '#1e1e1e',
+    border: isDark ? '#2d2d2d' : '#e5e5e5',
+  });
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+  const tableOfContents =
+    headings.length > 0
+      ? `  <nav class="toc" aria-label="${escapeHtml(options.tableOfContentsTitle)}">
+    <p class="toc__title">${escapeHtml(options.tableOfContentsTitle)}</p>
+    <ul>
+${headings
+  .map(
+    (heading) =>
+      `      <li class="toc__level-${heading.level - topLevel}"><a href="#${escapeHtml(heading.id)}">${escapeHtml(heading.text)}</a></li>`,
+  )
+  .join('\n')}
+    </ul>
+  </nav>
+`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(options.languageTag)}">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${escapeHtml(headings[0]?.text || options.fallbackTitle)}</title>
+  <style>
+    ${styles}
+
+    .toc {
+      margin-bottom: 24px;
+      padding-bottom: 12px;
+      border-bottom: 1px solid ${isDark ? '#374151' : '#e5e7eb'};
+    }
+
+    .toc__title {
+      font-weight: 600;
+    }
+
+    .toc ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+${[1, 2, 3, 4, 5].map((depth) => `    .toc__level-${depth} { padding-left: ${depth * 16}px; }`).join('\n')}
+  </style>
+</head>
+<body>
+<main>
+${tableOfContents}  <article>
+${html}
+  </article>
+</main>
+</body>
+</html>
+`;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : match;
+    }
+
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
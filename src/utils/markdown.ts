@@ -7,6 +7,43 @@ const markdownRenderer = new MarkdownIt({
   typographer: true,
 });
 
+// Parsing only: HTML is enabled so raw HTML blocks are recognized as blocks instead of being
+// treated as paragraph text. Nothing parsed here is rendered.
+const blockParser = new MarkdownIt({ html: true });
+
+export type MarkdownBlockType =
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'blockquote'
+  | 'code'
+  | 'table'
+  | 'html'
+  | 'hr'
+  | 'other';
+
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  markdown: string;
+  /** Zero-based first source line of the block. */
+  startLine: number;
+  /** Zero-based line after the last source line of the block (exclusive). */
+  endLine: number;
+}
+
+const BLOCK_TYPES_BY_TOKEN: Record<string, MarkdownBlockType> = {
+  heading_open: 'heading',
+  paragraph_open: 'paragraph',
+  bullet_list_open: 'list',
+  ordered_list_open: 'list',
+  blockquote_open: 'blockquote',
+  table_open: 'table',
+  fence: 'code',
+  code_block: 'code',
+  html_block: 'html',
+  hr: 'hr',
+};
+
 const allowedTags = Array.from(
   new Set([
     ...sanitizeHtml.defaults.allowedTags,
@@ -63,3 +100,72 @@ export function renderMarkdownToHtml(markdown: string): string {
     },
   });
 }
+
+/**
+ * Splits Markdown into top-level blocks using the markdown-it token stream, so fences, indented
+ * code, loose lists, tables, block quotes and HTML blocks stay intact. Non-blank lines that
+ * produce no token (such as link reference definitions) are kept as `other` blocks so no source
+ * text is lost.
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.split(/\r?\n/);
+  const ranges: Array<{ type: MarkdownBlockType; start: number; end: number }> = [];
+
+  for (const token of blockParser.parse(markdown, {})) {
+    if (token.level !== 0 || token.nesting === -1 || !token.map) {
+      continue;
+    }
+
+    ranges.push({
+      type: BLOCK_TYPES_BY_TOKEN[token.type] ?? 'other',
+      start: token.map[0],
+      end: token.map[1],
+    });
+  }
+
+  const blocks: MarkdownBlock[] = [];
+  let cursor = 0;
+
+  const pushBlock = (type: MarkdownBlockType, start: number, end: number): void => {
+    let last = end;
+    while (last > start && lines[last - 1].trim() === '') {
+      last -= 1;
+    }
+    let first = start;
+    while (first < last && lines[first].trim() === '') {
+      first += 1;
+    }
+    if (first < last) {
+      blocks.push({
+        type,
+        markdown: lines.slice(first, last).join('\n'),
+        startLine: first,
+        endLine: last,
+      });
+    }
+  };
+
+  const pushUncovered = (start: number, end: number): void => {
+    let groupStart = start;
+    for (let line = start; line <= end; line += 1) {
+      if (line === end || lines[line].trim() === '') {
+        pushBlock('other', groupStart, line);
+        groupStart = line + 1;
+      }
+    }
+  };
+
+  for (const range of ranges) {
+    if (range.start < cursor) {
+      continue;
+    }
+
+    pushUncovered(cursor, range.start);
+    pushBlock(range.type, range.start, range.end);
+    cursor = range.end;
+  }
+
+  pushUncovered(cursor, lines.length);
+
+  return blocks;
+}
@@ -0,0 +1,183 @@
+import MarkdownIt from 'markdown-it';
+
+import { splitFrontMatter } from './frontMatter';
+
+export interface DocumentRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+  /** Source of an image; `text` holds its alt text. */
+  image?: string;
+}
+
+export interface DocumentTableRow {
+  header: boolean;
+  cells: DocumentRun[][];
+}
+
+export type DocumentBlock =
+  | { type: 'heading'; level: number; runs: DocumentRun[] }
+  | { type: 'paragraph'; runs: DocumentRun[] }
+  | { type: 'list'; ordered: boolean; start: number; items: DocumentBlock[][] }
+  | { type: 'quote'; blocks: DocumentBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' }
+  | { type: 'table'; rows: DocumentTableRow[] };
+
+const parser = new MarkdownIt({ html: false, linkify: true });
+
+/**
+ * Reduces Markdown to the block and inline structure that document exports (PDF, Word) lay out
+ * themselves. Front matter is dropped and raw HTML is kept as text, as in the preview.
+ */
+export function parseDocumentBlocks(markdown: string): DocumentBlock[] {
+  const { body } = splitFrontMatter(markdown.replace(/\r\n?/g, '\n'));
+
+  return parseBlocks(parser.parse(body, {}), 0).blocks;
+}
+
+function parseBlocks(
+  tokens: MarkdownIt.Token[],
+  start: number,
+  closeType?: string,
+): { blocks: DocumentBlock[]; next: number } {
+  const blocks: DocumentBlock[] = [];
+  let index = start;
+
+  while (index < tokens.length && tokens[index].type !== closeType) {
+    const token = tokens[index];
+
+    switch (token.type) {
+      case 'heading_open':
+        blocks.push({
+          type: 'heading',
+          level: Number(token.tag.slice(1)),
+          runs: parseInline(tokens[index + 1]),
+        });
+        index += 3;
+        continue;
+      case 'paragraph_open':
+        blocks.push({ type: 'paragraph', runs: parseInline(tokens[index + 1]) });
+        index += 3;
+        continue;
+      case 'bullet_list_open':
+      case 'ordered_list_open': {
+        const items: DocumentBlock[][] = [];
+        index += 1;
+
+        while (tokens[index]?.type === 'list_item_open') {
+          const item = parseBlocks(tokens, index + 1, 'list_item_close');
+          items.push(item.blocks);
+          index = item.next + 1;
+        }
+
+        blocks.push({
+          type: 'list',
+          ordered: token.type === 'ordered_list_open',
+          start: Number(token.attrGet('start') ?? 1),
+          items,
+        });
+        break;
+      }
+      case 'blockquote_open': {
+        const quote = parseBlocks(tokens, index + 1, 'blockquote_close');
+        blocks.push({ type: 'quote', blocks: quote.blocks });
+        index = quote.next;
+        break;
+      }
+      case 'fence':
+      case 'code_block':
+        blocks.push({ type: 'code', text: token.content.replace(/\n$/, '') });
+        break;
+      case 'hr':
+        blocks.push({ type: 'rule' });
+        break;
+      case 'table_open': {
+        const rows: DocumentTableRow[] = [];
+        index += 1;
+
+        for (; index < tokens.length && tokens[index].type !== 'table_close'; index += 1) {
+          const cell = tokens[index];
+
+          if (cell.type === 'tr_open') {
+            rows.push({ header: false, cells: [] });
+          } else if ((cell.type === 'th_open' || cell.type === 'td_open') && rows.length > 0) {
+            rows[rows.length - 1].header = cell.type === 'th_open';
+            rows[rows.length - 1].cells.push(parseInline(tokens[index + 1]));
+          }
+        }
+
+        blocks.push({ type: 'table', rows });
+        break;
+      }
+      default:
+        break;
+    }
+
+    index += 1;
+  }
+
+  return { blocks, next: index };
+}
+
+function parseInline(token: MarkdownIt.Token | undefined): DocumentRun[] {
+  const runs: DocumentRun[] = [];
+  let bold = 0;
+  let italic = 0;
+  let strike = 0;
+  let href: string | undefined;
+  const push = (text: string, style: Partial<DocumentRun> = {}): void => {
+    runs.push({ text, bold: bold > 0, italic: italic > 0, strike: strike > 0, href, ...style });
+  };
+
+  for (const child of token?.children ?? []) {
+    switch (child.type) {
+      case 'text':
+        push(child.content);
+        break;
+      case 'code_inline':
+        push(child.content, { code: true });
+        break;
+      case 'softbreak':
+        push(' ');
+        break;
+      case 'hardbreak':
+        push('\n');
+        break;
+      case 'image':
+        push(child.content, { image: child.attrGet('src') ?? '' });
+        break;
+      case 'strong_open':
+        bold += 1;
+        break;
+      case 'strong_close':
+        bold -= 1;
+        break;
+      case 'em_open':
+        italic += 1;
+        break;
+      case 'em_close':
+        italic -= 1;
+        break;
+      case 's_open':
+        strike += 1;
+        break;
+      case 's_close':
+        strike -= 1;
+        break;
+      case 'link_open':
+        href = child.attrGet('href') ?? undefined;
+        break;
+      case 'link_close':
+        href = undefined;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return runs;
+}
@@ -0,0 +1,123 @@
+export interface MaskedMarkdown {
+  text: string;
+  tokens: string[];
+}
+
+export interface UnmaskResult {
+  markdown: string;
+  missing: number[];
+  duplicated: number[];
+}
+
+const SENTINEL_OPEN = '⟦';
+const SENTINEL_CLOSE = '⟧';
+const SENTINEL_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Inline constructs that must reach the output byte-for-byte. Alternatives are tried left to
+ * right at each position, so inline code wins over the math and URL rules it may contain.
+ */
+const INLINE_PROTECTED_PATTERN = new RegExp(
+  [
+    // Inline code spans of any backtick run length.
+    /(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/.source,
+    // Display math.
+    /\$\$[\s\S]+?\$\$/.source,
+    // Inline math; the spacing and digit rules keep currency amounts such as "$5 and $10" intact.
+    /(?<![\\$\w])\$(?![\s$])(?:\\.|[^$\n\\])+?(?<![\s\\])\$(?![\d$])/.source,
+    // Autolinks.
+    /<(?:https?|ftp|mailto):[^\s>]+>/.source,
+    // Inline link and image destinations (the link text and title stay translatable).
+    /(?<=\]\()(?:<[^\n<>]*>|(?:[^\s()<>]|\([^\s()<>]*\))+)/.source,
+    // Reference-style link definitions.
+    /(?<=^ {0,3}\[[^\]\n]+\]:[ \t]*)\S+/.source,
+    // Bare URLs, without trailing sentence punctuation.
+    /\bhttps?:\/\/[^\s<>()[\]]*[^\s<>()[\].,;:!?'"]/.source,
+    // HTML entities.
+    /&(?:#\d+|#x[0-9a-fA-F]+|[A-Za-z][A-Za-z0-9]+);/.source,
+  ].join('|'),
+  'gm',
+);
+
+export const MASKING_INSTRUCTIONS =
+  'The text contains placeholders such as ⟦0⟧ that stand for code, links, URLs and math. Copy every placeholder exactly once and unchanged, in the position that fits the translated sentence.';
+
+/**
+ * Replaces fenced code blocks, inline code, link destinations, URLs, HTML entities and math with
+ * numbered sentinels so the model never sees (or rewrites) them.
+ */
+export function maskMarkdown(markdown: string): MaskedMarkdown {
+  if (markdown.includes(SENTINEL_OPEN)) {
+    // The source already uses our sentinel glyphs; masking would make restoration ambiguous.
+    return { text: markdown, tokens: [] };
+  }
+
+  const tokens: string[] = [];
+  const register = (value: string): string => {
+    tokens.push(value);
+    return `${SENTINEL_OPEN}${tokens.length - 1}${SENTINEL_CLOSE}`;
+  };
+
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  let prose: string[] = [];
+
+  const flushProse = (): void => {
+    if (prose.length > 0) {
+      output.push(prose.join('\n').replace(INLINE_PROTECTED_PATTERN, (match) => register(match)));
+      prose = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const opening = FENCE_PATTERN.exec(lines[index]);
+
+    if (!opening) {
+      prose.push(lines[index]);
+      continue;
+    }
+
+    const fence = opening[1];
+    const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+    let end = index + 1;
+
+    while (end < lines.length && !closing.test(lines[end])) {
+      end += 1;
+    }
+
+    flushProse();
+    output.push(register(lines.slice(index, Math.min(end, lines.length - 1) + 1).join('\n')));
+    index = end;
+  }
+
+  flushProse();
+
+  return { text: output.join('\n'), tokens };
+}
+
+export function unmaskMarkdown(translated: string, tokens: readonly string[]): UnmaskResult {
+  const counts = new Array<number>(tokens.length).fill(0);
+
+  const markdown = translated.replace(SENTINEL_PATTERN, (match, rawIndex: string) => {
+    const index = Number(rawIndex);
+
+    if (index >= tokens.length) {
+      return match;
+    }
+
+    counts[index] += 1;
+    return tokens[index];
+  });
+
+  return {
+    markdown,
+    missing: counts.flatMap((count, index) => (count === 0 ? [index] : [])),
+    duplicated: counts.flatMap((count, index) => (count > 1 ? [index] : [])),
+  };
+}
+
+/** True when the masked text still has something for the model to translate. */
+export function hasTranslatableText(masked: MaskedMarkdown): boolean {
+  return masked.text.replace(SENTINEL_PATTERN, '').trim().length > 0;
+}
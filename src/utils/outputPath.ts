@@ -0,0 +1,59 @@
+import { posix } from 'path';
+
+export const DEFAULT_OUTPUT_PATH_PATTERN = '{dir}/{name}.{lang}{ext}';
+
+export interface OutputPathContext {
+  /** POSIX path of the source document (`Uri.path`). */
+  documentPath: string;
+  /** POSIX path of the containing workspace folder, if any. */
+  workspacePath?: string;
+  targetLanguage: string;
+}
+
+/**
+ * Expands an output path pattern. Supported placeholders are `{workspace}`, `{dir}`, `{name}`,
+ * `{ext}`, `{lang}`, `{relpath}` and `{reldir}`; relative results are resolved against the
+ * workspace folder (or the document folder outside a workspace).
+ */
+export function resolveOutputPath(pattern: string, context: OutputPathContext): string {
+  const dir = posix.dirname(context.documentPath);
+  const ext = posix.extname(context.documentPath);
+  const name = posix.basename(context.documentPath, ext);
+  const workspace = context.workspacePath ?? dir;
+  const relpath = posix.relative(workspace, context.documentPath);
+  const reldir = posix.dirname(relpath);
+  const values: Record<string, string> = {
+    workspace,
+    dir,
+    name,
+    ext,
+    lang: context.targetLanguage,
+    relpath,
+    reldir: reldir === '.' ? '' : reldir,
+  };
+
+  const expanded = (pattern.trim() || DEFAULT_OUTPUT_PATH_PATTERN).replace(
+    /\{(\w+)\}/g,
+    (match, token: string) => values[token] ?? match,
+  );
+
+  return posix.normalize(posix.isAbsolute(expanded) ? expanded : posix.join(workspace, expanded));
+}
+
+/**
+ * Path of a batch export inside its output folder: the document's workspace-relative path with
+ * the export's extension, preceded by the language for translations (`docs/guide.zh-CN.pdf`).
+ */
+export function resolveExportPath(
+  relativePath: string,
+  extension: string,
+  targetLanguage?: string,
+): string {
+  const normalized = posix
+    .normalize(relativePath.replace(/\\/g, '/'))
+    .replace(/^(?:\.\.\/|\/)+/, '');
+  const ext = posix.extname(normalized);
+  const base = ext ? normalized.slice(0, -ext.length) : normalized;
+
+  return `${base}${targetLanguage ? `.${targetLanguage}` : ''}.${extension}`;
+}
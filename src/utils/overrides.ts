@@ -0,0 +1,53 @@
+import type {
+  TranslationOverride,
+  TranslationOverrideState,
+  TranslationOverrides,
+} from '../types/translation';
+import { sha256Hex } from './hash';
+
+/**
+ * Overrides are keyed by the source text alone, so they survive provider, model and prompt
+ * changes; whitespace at the edges and line endings do not count as a change.
+ */
+export function fingerprintSegmentSource(markdown: string): string {
+  return sha256Hex(markdown.replace(/\r\n/g, '\n').trim());
+}
+
+/**
+ * Resolves the override state of each planned segment. Overrides whose source no longer matches
+ * any segment are attached, as `outdated`, to the segment that now covers their original line.
+ */
+export function matchOverrides(
+  overrides: TranslationOverrides,
+  segments: ReadonlyArray<{ markdown: string; startLine: number; endLine: number }>,
+): Map<number, { state: TranslationOverrideState; override: TranslationOverride }> {
+  const matches = new Map<
+    number,
+    { state: TranslationOverrideState; override: TranslationOverride }
+  >();
+  const fingerprints = segments.map((segment) => fingerprintSegmentSource(segment.markdown));
+  const current = new Set(fingerprints);
+
+  fingerprints.forEach((fingerprint, index) => {
+    const override = overrides[fingerprint];
+    if (override) {
+      matches.set(index, { state: 'applied', override });
+    }
+  });
+
+  for (const [fingerprint, override] of Object.entries(overrides)) {
+    if (current.has(fingerprint)) {
+      continue;
+    }
+
+    const index = segments.findIndex(
+      (segment) => segment.startLine <= override.startLine && override.startLine < segment.endLine,
+    );
+
+    if (index >= 0 && !matches.has(index)) {
+      matches.set(index, { state: 'outdated', override });
+    }
+  }
+
+  return matches;
+}
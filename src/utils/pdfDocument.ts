@@ -0,0 +1,769 @@
+import fontkit from '@pdf-lib/fontkit';
+import {
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  rgb,
+} from 'pdf-lib';
+import type { Color } from 'pdf-lib';
+
+import type { PdfPageSize } from '../types/config';
+import {
+  DocumentBlock,
+  DocumentRun,
+  DocumentTableRow,
+  parseDocumentBlocks,
+} from './markdownDocument';
+import { slugifyHeading } from './text';
+
+export interface PdfDocumentOptions {
+  pageSize: PdfPageSize;
+  /** Document title stored in the metadata; defaults to the first heading. */
+  title?: string;
+  /** Lays the text out verbatim in a monospace font instead of rendering it as Markdown. */
+  preformatted?: boolean;
+  /**
+   * Loads a TrueType/OpenType font (the first face of a collection) to embed in place of the
+   * standard fonts when the text has characters they cannot encode, such as CJK or Cyrillic text.
+   * Only called for such text.
+   */
+  loadUnicodeFont?: () => Promise<Uint8Array | undefined>;
+}
+
+/**
+ * The text uses characters that neither the WinAnsi set of the standard PDF fonts nor the
+ * Unicode font, if one was given, can show, such as emoji. Such documents are exported as images.
+ */
+export class PdfEncodingError extends Error {
+  constructor(readonly characters: string[]) {
+    super(`The PDF fonts cannot encode ${characters.join(' ')}.`);
+    this.name = 'PdfEncodingError';
+  }
+}
+
+/** Width and height in points. */
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+const MARGIN = 56;
+const BODY_SIZE = 11;
+const CODE_SIZE = 9;
+const TABLE_SIZE = 10;
+/** Inline code is set slightly smaller, as Courier runs wider than Helvetica. */
+const INLINE_CODE_SCALE = 0.9;
+const LINE_SPACING = 1.4;
+const BLOCK_GAP = 8;
+const LIST_ITEM_GAP = 3;
+const HEADING_SIZES = [20, 16, 14, 12, 11, 11];
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CODE_PADDING = 6;
+const CELL_PADDING = 4;
+
+const TEXT_COLOR = rgb(0.12, 0.12, 0.12);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const LINK_COLOR = rgb(0.02, 0.36, 0.75);
+const SHADE_COLOR = rgb(0.95, 0.95, 0.95);
+const RULE_COLOR = rgb(0.82, 0.82, 0.82);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+  code: PDFFont;
+}
+
+/** A piece of a laid-out line drawn with a single font. */
+interface Fragment {
+  text: string;
+  font: PDFFont;
+  size: number;
+  width: number;
+  run: DocumentRun;
+}
+
+/** Horizontal extent of the block being drawn, narrowed by list and quote nesting. */
+interface Frame {
+  left: number;
+  width: number;
+  /** Positions of the blockquote bars drawn beside every line. */
+  bars: number[];
+  color: Color;
+}
+
+interface PlacedHeading {
+  level: number;
+  title: string;
+  slug: string;
+  page: PDFPage;
+  top: number;
+}
+
+type Fontkit = Parameters<PDFDocument['registerFontkit']>[0];
+
+/**
+ * pdf-lib hands font files straight to fontkit, which returns a collection for `.ttc` files such
+ * as most system CJK fonts; its first face is used.
+ */
+const FIRST_FACE_FONTKIT: Fontkit = {
+  create: (buffer, postscriptName) => {
+    const font = fontkit.create(buffer, postscriptName) as ReturnType<Fontkit['create']> & {
+      fonts?: Array<ReturnType<Fontkit['create']>>;
+    };
+    return font.fonts?.[0] ?? font;
+  },
+};
+
+/**
+ * Lays Markdown out as a paginated PDF with real text: headings become outline bookmarks,
+ * links become link annotations (`#heading` links jump within the document), and long code
+ * blocks and tables continue on the next page. Uses the standard Helvetica and Courier fonts,
+ * or a subset of the Unicode font for text they cannot show; see `PdfEncodingError` for text
+ * neither can show.
+ */
+export async function renderMarkdownPdf(
+  markdown: string,
+  options: PdfDocumentOptions,
+): Promise<Uint8Array> {
+  const text = markdown.replace(/\r\n?/g, '\n');
+
+  let encodingError: PdfEncodingError;
+
+  try {
+    return await layOutPdf(text, options, embedStandardFonts);
+  } catch (error) {
+    if (!(error instanceof PdfEncodingError)) {
+      throw error;
+    }
+    encodingError = error;
+  }
+
+  const unicodeFont = await options.loadUnicodeFont?.();
+  if (!unicodeFont) {
+    throw encodingError;
+  }
+
+  return layOutPdf(text, options, async (pdf) => {
+    pdf.registerFontkit(FIRST_FACE_FONTKIT);
+    // One face serves every style; headings and strong text still differ in size and position.
+    const font = await pdf.embedFont(unicodeFont, { subset: true });
+    return { regular: font, bold: font, italic: font, boldItalic: font, code: font };
+  });
+}
+
+async function embedStandardFonts(pdf: PDFDocument): Promise<Fonts> {
+  return {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await pdf.embedFont(StandardFonts.HelveticaBoldOblique),
+    code: await pdf.embedFont(StandardFonts.Courier),
+  };
+}
+
+async function layOutPdf(
+  text: string,
+  options: PdfDocumentOptions,
+  embedFonts: (pdf: PDFDocument) => Promise<Fonts>,
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts = await embedFonts(pdf);
+  const layout = new PdfLayout(pdf, fonts, PAGE_SIZES[options.pageSize] ?? PAGE_SIZES.a4);
+
+  if (options.preformatted) {
+    layout.drawPreformatted(text);
+  } else {
+    layout.drawDocument(parseDocumentBlocks(text));
+  }
+
+  if (layout.unsupported.size > 0) {
+    throw new PdfEncodingError([...layout.unsupported]);
+  }
+
+  layout.finish();
+
+  const title = options.title ?? layout.headings[0]?.title;
+  if (title) {
+    pdf.setTitle(title);
+  }
+  pdf.setCreator('Babel Markdown Viewer');
+
+  return pdf.save();
+}
+
+class PdfLayout {
+  readonly headings: PlacedHeading[] = [];
+  /** Characters the fonts cannot encode; drawn as `?` until the export is rejected. */
+  readonly unsupported = new Set<string>();
+  private readonly pages: PDFPage[] = [];
+  private readonly internalLinks: Array<{ page: PDFPage; rect: number[]; slug: string }> = [];
+  private readonly slugCounts = new Map<string, number>();
+  private readonly charset: Set<number>;
+  private readonly width: number;
+  private readonly height: number;
+  private page!: PDFPage;
+  private y = 0;
+  /** List marker drawn beside the next line, whichever block it belongs to. */
+  private pendingMarker: { text: string; right: number } | undefined;
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly fonts: Fonts,
+    [width, height]: [number, number],
+  ) {
+    this.width = width;
+    this.height = height;
+    this.charset = new Set(fonts.regular.getCharacterSet());
+    this.addPage();
+  }
+
+  private get top(): number {
+    return this.height - MARGIN;
+  }
+
+  private get rootFrame(): Frame {
+    return { left: MARGIN, width: this.width - MARGIN * 2, bars: [], color: TEXT_COLOR };
+  }
+
+  drawDocument(blocks: DocumentBlock[]): void {
+    this.drawBlocks(blocks, this.rootFrame, BLOCK_GAP);
+  }
+
+  drawPreformatted(text: string): void {
+    this.drawCode(text, this.rootFrame, false);
+  }
+
+  /** Adds page numbers, the outline and links to headings once every page exists. */
+  finish(): void {
+    this.pages.forEach((page, index) => {
+      const label = `${index + 1} / ${this.pages.length}`;
+      const size = 9;
+      page.drawText(label, {
+        x: (this.width - this.fonts.regular.widthOfTextAtSize(label, size)) / 2,
+        y: MARGIN / 2,
+        size,
+        font: this.fonts.regular,
+        color: MUTED_COLOR,
+      });
+    });
+
+    for (const link of this.internalLinks) {
+      const target = this.headings.find((heading) => heading.slug === link.slug);
+
+      if (target) {
+        this.annotate(link.page, link.rect, {
+          Type: 'Action',
+          S: 'GoTo',
+          D: [target.page.ref, 'XYZ', null, target.top, null],
+        });
+      }
+    }
+
+    this.buildOutline();
+  }
+
+  private addPage(): void {
+    this.page = this.pdf.addPage([this.width, this.height]);
+    this.pages.push(this.page);
+    this.y = this.top;
+  }
+
+  /** Starts a new page unless `height` still fits; a block taller than a page starts at the top. */
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN && this.y < this.top) {
+      this.addPage();
+    }
+  }
+
+  private drawBlocks(blocks: DocumentBlock[], frame: Frame, gap: number): void {
+    blocks.forEach((block, index) => {
+      if (index > 0) {
+        this.y -= gap;
+      }
+
+      switch (block.type) {
+        case 'heading':
+          this.drawHeading(block.level, block.runs, frame);
+          break;
+        case 'paragraph':
+          this.drawRuns(block.runs, frame, BODY_SIZE);
+          break;
+        case 'list':
+          this.drawList(block, frame);
+          break;
+        case 'quote':
+          this.drawBlocks(
+            block.blocks,
+            {
+              left: frame.left + QUOTE_INDENT,
+              width: frame.width - QUOTE_INDENT,
+              bars: [...frame.bars, frame.left + 2],
+              color: MUTED_COLOR,
+            },
+            gap,
+          );
+          break;
+        case 'code':
+          this.drawCode(block.text, frame, true);
+          break;
+        case 'rule':
+          this.ensureSpace(12);
+          this.y -= 6;
+          this.page.drawLine({
+            start: { x: frame.left, y: this.y },
+            end: { x: frame.left + frame.width, y: this.y },
+            thickness: 0.75,
+            color: RULE_COLOR,
+          });
+          this.y -= 6;
+          break;
+        case 'table':
+          this.drawTable(block.rows, frame);
+          break;
+      }
+    });
+  }
+
+  private drawHeading(level: number, runs: DocumentRun[], frame: Frame): void {
+    const size = HEADING_SIZES[level - 1] ?? BODY_SIZE;
+    const lineHeight = size * LINE_SPACING;
+
+    // Keep the heading on the same page as the first line that follows it.
+    this.ensureSpace(size * 0.6 + lineHeight + BODY_SIZE * LINE_SPACING);
+    if (this.y < this.top) {
+      this.y -= size * 0.6;
+    }
+
+    const title = runs
+      .map((run) => run.text)
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const baseSlug = slugifyHeading(title) || 'section';
+    const count = this.slugCounts.get(baseSlug) ?? 0;
+    this.slugCounts.set(baseSlug, count + 1);
+    this.headings.push({
+      level,
+      title,
+      slug: count === 0 ? baseSlug : `${baseSlug}-${count}`,
+      page: this.page,
+      top: this.y,
+    });
+
+    this.drawRuns(
+      runs.map((run) => ({ ...run, bold: true })),
+      frame,
+      size,
+    );
+
+    if (level <= 2) {
+      this.y -= 3;
+      this.page.drawLine({
+        start: { x: frame.left, y: this.y },
+        end: { x: frame.left + frame.width, y: this.y },
+        thickness: 0.5,
+        color: RULE_COLOR,
+      });
+    }
+  }
+
+  private drawList(block: Extract<DocumentBlock, { type: 'list' }>, frame: Frame): void {
+    const inner = { ...frame, left: frame.left + LIST_INDENT, width: frame.width - LIST_INDENT };
+
+    block.items.forEach((item, index) => {
+      if (index > 0) {
+        this.y -= LIST_ITEM_GAP;
+      }
+
+      this.pendingMarker = {
+        text: block.ordered ? `${block.start + index}.` : '•',
+        right: inner.left - 5,
+      };
+      this.drawBlocks(item, inner, LIST_ITEM_GAP);
+      this.pendingMarker = undefined;
+    });
+  }
+
+  private drawRuns(runs: DocumentRun[], frame: Frame, size: number): void {
+    const lineHeight = size * LINE_SPACING;
+
+    for (const line of this.wrap(runs, frame.width, size)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.decorateLine(frame, lineHeight, size);
+      this.drawFragments(line, frame.left, this.baseline(lineHeight, size), frame.color);
+    }
+  }
+
+  /** Code keeps its line breaks; lines wider than the frame wrap at the character level. */
+  private drawCode(text: string, frame: Frame, shaded: boolean): void {
+    const font = this.fonts.code;
+    const lineHeight = CODE_SIZE * LINE_SPACING;
+    const padding = shaded ? CODE_PADDING : 0;
+    const columns = Math.max(
+      1,
+      Math.floor((frame.width - padding * 2) / font.widthOfTextAtSize('M', CODE_SIZE)),
+    );
+    const lines = this.encodable(text.replace(/\t/g, '    '))
+      .split('\n')
+      .flatMap((line) => line.match(new RegExp(`.{1,${columns}}`, 'g')) ?? ['']);
+    const shade = (height: number): void => {
+      if (shaded) {
+        this.page.drawRectangle({
+          x: frame.left,
+          y: this.y,
+          width: frame.width,
+          height,
+          color: SHADE_COLOR,
+        });
+      }
+    };
+
+    this.ensureSpace(padding + lineHeight);
+    this.y -= padding;
+    shade(padding);
+
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      shade(lineHeight);
+      this.decorateLine(frame, lineHeight, BODY_SIZE);
+      this.page.drawText(line, {
+        x: frame.left + padding,
+        y: this.baseline(lineHeight, CODE_SIZE),
+        size: CODE_SIZE,
+        font,
+        color: frame.color,
+      });
+    }
+
+    this.y -= padding;
+    shade(padding);
+  }
+
+  /** Columns share the width evenly; a row moves to the next page as a whole. */
+  private drawTable(rows: DocumentTableRow[], frame: Frame): void {
+    const columns = Math.max(1, ...rows.map((row) => row.cells.length));
+    const columnWidth = frame.width / columns;
+    const lineHeight = TABLE_SIZE * LINE_SPACING;
+
+    for (const row of rows) {
+      const cells = row.cells.map((runs) =>
+        this.wrap(
+          runs.map((run) => ({ ...run, bold: run.bold || row.header })),
+          columnWidth - CELL_PADDING * 2,
+          TABLE_SIZE,
+        ),
+      );
+      const rowHeight =
+        Math.max(1, ...cells.map((lines) => lines.length)) * lineHeight + CELL_PADDING * 2;
+
+      this.ensureSpace(rowHeight);
+      const top = this.y;
+      this.y -= rowHeight;
+      this.decorateLine(frame, rowHeight, TABLE_SIZE);
+
+      for (let column = 0; column < columns; column += 1) {
+        const x = frame.left + column * columnWidth;
+
+        this.page.drawRectangle({
+          x,
+          y: this.y,
+          width: columnWidth,
+          height: rowHeight,
+          color: row.header ? SHADE_COLOR : undefined,
+          borderColor: RULE_COLOR,
+          borderWidth: 0.5,
+        });
+
+        (cells[column] ?? []).forEach((line, index) => {
+          const lineBottom = top - CELL_PADDING - (index + 1) * lineHeight;
+          this.drawFragments(
+            line,
+            x + CELL_PADDING,
+            lineBottom + (lineHeight - TABLE_SIZE) / 2 + TABLE_SIZE * 0.2,
+            frame.color,
+          );
+        });
+      }
+    }
+  }
+
+  /** Draws the blockquote bars and any pending list marker beside the line just placed. */
+  private decorateLine(frame: Frame, lineHeight: number, size: number): void {
+    for (const x of frame.bars) {
+      this.page.drawRectangle({ x, y: this.y, width: 2.5, height: lineHeight, color: RULE_COLOR });
+    }
+
+    if (this.pendingMarker) {
+      const { text, right } = this.pendingMarker;
+      const markerSize = Math.min(size, BODY_SIZE);
+
+      this.page.drawText(text, {
+        x: right - this.fonts.regular.widthOfTextAtSize(text, markerSize),
+        y: this.baseline(lineHeight, markerSize),
+        size: markerSize,
+        font: this.fonts.regular,
+        color: frame.color,
+      });
+      this.pendingMarker = undefined;
+    }
+  }
+
+  private baseline(lineHeight: number, size: number): number {
+    return this.y + (lineHeight - size) / 2 + size * 0.2;
+  }
+
+  private drawFragments(fragments: Fragment[], left: number, baseline: number, color: Color): void {
+    let x = left;
+    let link: { href: string; start: number } | undefined;
+    const closeLink = (): void => {
+      if (link) {
+        this.addLink(link.href, [link.start, baseline - 3, x, baseline + 9]);
+        link = undefined;
+      }
+    };
+
+    for (const fragment of fragments) {
+      const { run } = fragment;
+
+      if (link && link.href !== run.href) {
+        closeLink();
+      }
+
+      if (run.code) {
+        this.page.drawRectangle({
+          x,
+          y: baseline - fragment.size * 0.3,
+          width: fragment.width,
+          height: fragment.size * 1.2,
+          color: SHADE_COLOR,
+        });
+      }
+
+      this.page.drawText(fragment.text, {
+        x,
+        y: baseline,
+        size: fragment.size,
+        font: fragment.font,
+        color: run.href ? LINK_COLOR : color,
+      });
+
+      if (run.href) {
+        this.page.drawLine({
+          start: { x, y: baseline - 1.5 },
+          end: { x: x + fragment.width, y: baseline - 1.5 },
+          thickness: 0.5,
+          color: LINK_COLOR,
+        });
+        link ??= { href: run.href, start: x };
+      }
+
+      x += fragment.width;
+    }
+
+    closeLink();
+  }
+
+  /** Greedy word wrap; words wider than the line are split between characters. */
+  private wrap(runs: DocumentRun[], width: number, size: number): Fragment[][] {
+    const lines: Fragment[][] = [[]];
+    let lineWidth = 0;
+    const breakLine = (): void => {
+      const line = lines[lines.length - 1];
+
+      while (line.length > 0 && !line[line.length - 1].text.trim()) {
+        line.pop();
+      }
+
+      lines.push([]);
+      lineWidth = 0;
+    };
+
+    for (const run of runs) {
+      const font = this.fontFor(run);
+      const fontSize = run.code ? size * INLINE_CODE_SCALE : size;
+      // Images are not embedded; their alt text keeps the sentence readable.
+      const label = run.image === undefined ? run.text : run.text && `[${run.text}]`;
+      const text = this.encodable(label.replace(/\t/g, '    '));
+
+      for (const piece of text.split(/(\n| +)/)) {
+        if (!piece) {
+          continue;
+        }
+
+        if (piece === '\n') {
+          breakLine();
+          continue;
+        }
+
+        const line = lines[lines.length - 1];
+        const pieceWidth = font.widthOfTextAtSize(piece, fontSize);
+
+        if (!piece.trim()) {
+          if (line.length > 0) {
+            line.push({ text: piece, font, size: fontSize, width: pieceWidth, run });
+            lineWidth += pieceWidth;
+          }
+          continue;
+        }
+
+        if (lineWidth + pieceWidth > width && line.length > 0) {
+          breakLine();
+        }
+
+        let rest = piece;
+
+        while (rest) {
+          let chunk = rest;
+          let chunkWidth = font.widthOfTextAtSize(chunk, fontSize);
+
+          while (chunk.length > 1 && lineWidth + chunkWidth > width) {
+            chunk = chunk.slice(0, -1);
+            chunkWidth = font.widthOfTextAtSize(chunk, fontSize);
+          }
+
+          lines[lines.length - 1].push({
+            text: chunk,
+            font,
+            size: fontSize,
+            width: chunkWidth,
+            run,
+          });
+          lineWidth += chunkWidth;
+          rest = rest.slice(chunk.length);
+
+          if (rest) {
+            breakLine();
+          }
+        }
+      }
+    }
+
+    if (lines.length > 1 && lines[lines.length - 1].length === 0) {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  private fontFor(run: DocumentRun): PDFFont {
+    if (run.code) {
+      return this.fonts.code;
+    }
+
+    if (run.bold) {
+      return run.italic ? this.fonts.boldItalic : this.fonts.bold;
+    }
+
+    return run.italic || run.image !== undefined ? this.fonts.italic : this.fonts.regular;
+  }
+
+  /** Records characters the fonts cannot encode and replaces them so layout can continue. */
+  private encodable(text: string): string {
+    return Array.from(text, (character) => {
+      const codePoint = character.codePointAt(0) ?? 0;
+
+      if (character === '\n' || this.charset.has(codePoint)) {
+        return character;
+      }
+
+      this.unsupported.add(character);
+      return '?';
+    }).join('');
+  }
+
+  private addLink(href: string, rect: number[]): void {
+    if (href.startsWith('#')) {
+      this.internalLinks.push({ page: this.page, rect, slug: decodeURIComponent(href.slice(1)) });
+    } else if (/^(?:https?|mailto):/i.test(href)) {
+      this.annotate(this.page, rect, { Type: 'Action', S: 'URI', URI: PDFString.of(href) });
+    }
+  }
+
+  private annotate(
+    page: PDFPage,
+    rect: number[],
+    action: Record<string, string | PDFString | Array<PDFRef | string | number | null>>,
+  ): void {
+    const annotation = this.pdf.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: rect,
+      Border: [0, 0, 0],
+      A: action,
+    });
+
+    page.node.addAnnot(this.pdf.context.register(annotation));
+  }
+
+  /** Nests bookmarks by heading level, so an `h3` after an `h1` sits directly under it. */
+  private buildOutline(): void {
+    if (this.headings.length === 0) {
+      return;
+    }
+
+    interface OutlineNode {
+      heading?: PlacedHeading;
+      ref: PDFRef;
+      children: OutlineNode[];
+    }
+
+    const { context } = this.pdf;
+    const root: OutlineNode = { ref: context.nextRef(), children: [] };
+    const stack: OutlineNode[] = [];
+
+    for (const heading of this.headings) {
+      while (stack.length > 0 && (stack[stack.length - 1].heading?.level ?? 0) >= heading.level) {
+        stack.pop();
+      }
+
+      const node: OutlineNode = { heading, ref: context.nextRef(), children: [] };
+      (stack[stack.length - 1] ?? root).children.push(node);
+      stack.push(node);
+    }
+
+    const countDescendants = (node: OutlineNode): number =>
+      node.children.reduce((total, child) => total + 1 + countDescendants(child), 0);
+    const linkChildren = (node: OutlineNode, dict: PDFDict): void => {
+      if (node.children.length > 0) {
+        dict.set(PDFName.of('First'), node.children[0].ref);
+        dict.set(PDFName.of('Last'), node.children[node.children.length - 1].ref);
+        dict.set(PDFName.of('Count'), PDFNumber.of(countDescendants(node)));
+      }
+    };
+    const write = (nodes: OutlineNode[], parent: PDFRef): void => {
+      nodes.forEach((node, index) => {
+        const heading = node.heading as PlacedHeading;
+        const dict = context.obj({
+          Title: PDFHexString.fromText(heading.title || 'Untitled'),
+          Parent: parent,
+          Prev: nodes[index - 1]?.ref,
+          Next: nodes[index + 1]?.ref,
+          Dest: [heading.page.ref, 'XYZ', null, heading.top, null],
+        });
+
+        linkChildren(node, dict);
+        context.assign(node.ref, dict);
+        write(node.children, node.ref);
+      });
+    };
+
+    const outlines = context.obj({ Type: 'Outlines' });
+    linkChildren(root, outlines);
+    context.assign(root.ref, outlines);
+    write(root.children, root.ref);
+
+    this.pdf.catalog.set(PDFName.of('Outlines'), root.ref);
+    this.pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+  }
+}
@@ -0,0 +1,108 @@
+export interface PseudoLocalizeOptions {
+  /** Extra length added to each line of text, as a fraction of its letters (0.3 adds 30%). */
+  expansion: number;
+}
+
+const PLAIN_LETTERS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const LOOKALIKE_LETTERS = 'áƀçðéƒĝĥîĵķļɱñöþǫŕšţûṽŵẋýžÅƁÇĐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽ';
+const ACCENTED = new Map(
+  Array.from(PLAIN_LETTERS, (letter, index) => [letter, LOOKALIKE_LETTERS[index]]),
+);
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const THEMATIC_BREAK_PATTERN = /^ {0,3}(?:([-*_=])[ \t]*){3,}$/;
+const LINK_DEFINITION_PATTERN = /^ {0,3}\[[^\]\n]+\]:/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+/** Blockquote, heading, list and task markers stay in front of the bracketed text. */
+const BLOCK_PREFIX_PATTERN =
+  /^(\s*(?:>\s?)*\s*(?:#{1,6}[ \t]+|[-*+][ \t]+(?:\[[ xX]\][ \t]+)?|\d{1,9}[.)][ \t]+)?)([\s\S]*)$/;
+/**
+ * Inline pieces copied verbatim: masking placeholders, code spans, HTML tags, entities, link
+ * destinations, autolinks and bare URLs.
+ */
+const PROTECTED_PATTERN =
+  /⟦\s*\d+\s*⟧|(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)|<\/?[A-Za-z][^<>]*>|&(?:#\d+|#x[0-9a-fA-F]+|[A-Za-z][A-Za-z0-9]+);|(?<=\]\()[^)\s]+|<(?:https?|mailto):[^\s>]+>|\bhttps?:\/\/[^\s<>()[\]]+/g;
+const PADDING_CHAR = '·';
+
+/**
+ * Fake translation for development and layout testing: letters are swapped for accented
+ * look-alikes, and every line of text is wrapped in `[` `]` and padded to simulate languages that
+ * run longer than the source. Markdown structure (block markers, tables, code, links, HTML) is
+ * left intact, so the result renders like the original while untranslated text stands out.
+ */
+export function pseudoLocalize(markdown: string, options: PseudoLocalizeOptions): string {
+  const expansion = Number.isFinite(options.expansion) ? Math.max(0, options.expansion) : 0;
+  let fence: string | undefined;
+
+  return markdown
+    .split('\n')
+    .map((line) => {
+      const fenceMatch = FENCE_PATTERN.exec(line);
+
+      if (fence) {
+        if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+          fence = undefined;
+        }
+        return line;
+      }
+
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        return line;
+      }
+
+      if (
+        !line.trim() ||
+        THEMATIC_BREAK_PATTERN.test(line) ||
+        TABLE_DELIMITER_PATTERN.test(line) ||
+        LINK_DEFINITION_PATTERN.test(line)
+      ) {
+        return line;
+      }
+
+      if (/^\s*\|/.test(line)) {
+        return line.replace(
+          /(\|\s*)([^|]*?)(?=\s*(?:\||$))/g,
+          (_match, pipe: string, cell: string) =>
+            cell.trim() ? `${pipe}${pseudoLocalizeText(cell, expansion)}` : `${pipe}${cell}`,
+        );
+      }
+
+      const [, prefix, text] = BLOCK_PREFIX_PATTERN.exec(line) ?? ['', '', line];
+      const trailingBreak = /( {2,}|\\)$/.exec(text)?.[0] ?? '';
+      const body = text.slice(0, text.length - trailingBreak.length);
+
+      return body.trim() ? `${prefix}${pseudoLocalizeText(body, expansion)}${trailingBreak}` : line;
+    })
+    .join('\n');
+}
+
+function pseudoLocalizeText(text: string, expansion: number): string {
+  let letters = 0;
+  let result = '';
+  let lastIndex = 0;
+  const accent = (value: string): string =>
+    value.replace(/[A-Za-z]/g, (letter) => {
+      letters += 1;
+      return ACCENTED.get(letter) ?? letter;
+    });
+
+  for (const match of text.matchAll(PROTECTED_PATTERN)) {
+    const index = match.index ?? 0;
+    result += accent(text.slice(lastIndex, index)) + match[0];
+    lastIndex = index + match[0].length;
+  }
+
+  result += accent(text.slice(lastIndex));
+
+  if (letters === 0) {
+    // Nothing to translate, e.g. an HTML tag or a masked code block on its own line.
+    return text;
+  }
+
+  const paddingLength = Math.round(letters * expansion);
+  // Grouped into short words so padded lines still wrap like text.
+  const padding = PADDING_CHAR.repeat(paddingLength).replace(/(.{5})(?=.)/g, '$1 ');
+
+  return `[${result}${padding ? ` ${padding}` : ''}]`;
+}
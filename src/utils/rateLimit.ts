@@ -0,0 +1,277 @@
+export interface HeaderSource {
+  get(name: string): string | null;
+}
+
+export interface RateLimits {
+  /** 0 leaves the dimension unlimited. */
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Waits until a request estimated at `tokens` fits both per-minute budgets and no pause is in
+   * effect. Resolves to false when `signal` aborts first; nothing is consumed then.
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<boolean>;
+  /** Holds every request back for `ms`, e.g. after a 429 or an exhausted provider quota. */
+  pause(ms: number): void;
+  /** Applies changed settings without dropping queued requests. */
+  configure(limits: RateLimits): void;
+}
+
+const MINUTE_MS = 60_000;
+const DURATION_PATTERN =
+  /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/;
+
+/** Parses reset durations such as `20ms`, `1.5s` or `6m0s`, as sent by OpenAI. */
+export function parseResetDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const match = DURATION_PATTERN.exec(trimmed);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, hours, minutes, seconds, milliseconds] = match.map((part) => Number(part ?? 0));
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + milliseconds;
+}
+
+/** A reset given either as a duration or as a timestamp (Anthropic uses RFC 3339). */
+function parseReset(value: string | null, now: number): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const duration = parseResetDuration(value);
+  if (duration !== undefined) {
+    return duration;
+  }
+
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? undefined : Math.max(0, timestamp - now);
+}
+
+/**
+ * Time until an exhausted provider quota refills, from the `x-ratelimit-*` (OpenAI, Azure) and
+ * `anthropic-ratelimit-*` headers. Only quotas whose remaining count is 0 are considered.
+ */
+export function parseQuotaReset(
+  headers: HeaderSource,
+  now: number = Date.now(),
+): number | undefined {
+  const quotas = [
+    ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+    ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+    ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+    ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset'],
+    ['anthropic-ratelimit-input-tokens-remaining', 'anthropic-ratelimit-input-tokens-reset'],
+    ['anthropic-ratelimit-output-tokens-remaining', 'anthropic-ratelimit-output-tokens-reset'],
+  ];
+  let longest: number | undefined;
+
+  for (const [remainingHeader, resetHeader] of quotas) {
+    if (headers.get(remainingHeader)?.trim() !== '0') {
+      continue;
+    }
+
+    const reset = parseReset(headers.get(resetHeader), now);
+    if (reset !== undefined && (longest === undefined || reset > longest)) {
+      longest = reset;
+    }
+  }
+
+  return longest;
+}
+
+/**
+ * How long a rate-limited response asks the client to wait: `retry-after-ms`, then the standard
+ * `Retry-After` (seconds or an HTTP date), then the reset of whichever quota ran out.
+ */
+export function parseRetryAfter(
+  headers: HeaderSource,
+  now: number = Date.now(),
+): number | undefined {
+  const milliseconds = Number(headers.get('retry-after-ms') ?? NaN);
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const retryAfter = headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  return parseQuotaReset(headers, now);
+}
+
+/**
+ * Token-bucket limiter for requests and tokens per minute. Both buckets start full and refill
+ * continuously; waiters are served in FIFO order so a large request is not starved by small
+ * ones. A request larger than the whole token budget waits for a full bucket instead of forever.
+ */
+export function createRateLimiter(initialLimits: RateLimits): RateLimiter {
+  let limits = normalizeLimits(initialLimits);
+  let requestsAvailable = limits.requestsPerMinute;
+  let tokensAvailable = limits.tokensPerMinute;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const waiting: Array<{ tokens: number; resolve: (granted: boolean) => void }> = [];
+
+  const refill = (now: number): void => {
+    const elapsed = now - lastRefill;
+    lastRefill = now;
+    requestsAvailable = Math.min(
+      limits.requestsPerMinute,
+      requestsAvailable + (elapsed * limits.requestsPerMinute) / MINUTE_MS,
+    );
+    tokensAvailable = Math.min(
+      limits.tokensPerMinute,
+      tokensAvailable + (elapsed * limits.tokensPerMinute) / MINUTE_MS,
+    );
+  };
+
+  /** Milliseconds until `tokens` fit, 0 when they fit now. */
+  const waitFor = (tokens: number, now: number): number => {
+    let wait = Math.max(0, pausedUntil - now);
+
+    if (limits.requestsPerMinute > 0 && requestsAvailable < 1) {
+      wait = Math.max(wait, ((1 - requestsAvailable) * MINUTE_MS) / limits.requestsPerMinute);
+    }
+
+    if (limits.tokensPerMinute > 0) {
+      const needed = Math.min(tokens, limits.tokensPerMinute);
+      if (tokensAvailable < needed) {
+        wait = Math.max(wait, ((needed - tokensAvailable) * MINUTE_MS) / limits.tokensPerMinute);
+      }
+    }
+
+    return wait;
+  };
+
+  const pump = (): void => {
+    timer = undefined;
+    const now = Date.now();
+    refill(now);
+
+    while (waiting.length > 0) {
+      const next = waiting[0];
+      const wait = waitFor(next.tokens, now);
+
+      if (wait > 0) {
+        timer = setTimeout(pump, Math.ceil(wait));
+        return;
+      }
+
+      waiting.shift();
+      if (limits.requestsPerMinute > 0) {
+        requestsAvailable -= 1;
+      }
+      if (limits.tokensPerMinute > 0) {
+        tokensAvailable -= Math.min(next.tokens, limits.tokensPerMinute);
+      }
+      next.resolve(true);
+    }
+  };
+
+  const reschedule = (): void => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+    }
+    pump();
+  };
+
+  return {
+    acquire(tokens: number, signal?: AbortSignal): Promise<boolean> {
+      if (signal?.aborted) {
+        return Promise.resolve(false);
+      }
+
+      return new Promise<boolean>((resolve) => {
+        const waiter = {
+          tokens: Math.max(0, tokens),
+          resolve: (granted: boolean) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(granted);
+          },
+        };
+        const onAbort = (): void => {
+          const index = waiting.indexOf(waiter);
+          if (index >= 0) {
+            waiting.splice(index, 1);
+            waiter.resolve(false);
+            reschedule();
+          }
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiting.push(waiter);
+        if (waiting.length === 1) {
+          reschedule();
+        }
+      });
+    },
+
+    pause(ms: number): void {
+      if (!Number.isFinite(ms) || ms <= 0) {
+        return;
+      }
+
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+      reschedule();
+    },
+
+    configure(nextLimits: RateLimits): void {
+      const normalized = normalizeLimits(nextLimits);
+
+      if (
+        normalized.requestsPerMinute === limits.requestsPerMinute &&
+        normalized.tokensPerMinute === limits.tokensPerMinute
+      ) {
+        return;
+      }
+
+      refill(Date.now());
+      // A newly enabled dimension starts full, like a fresh limiter.
+      requestsAvailable =
+        limits.requestsPerMinute > 0
+          ? Math.min(requestsAvailable, normalized.requestsPerMinute)
+          : normalized.requestsPerMinute;
+      tokensAvailable =
+        limits.tokensPerMinute > 0
+          ? Math.min(tokensAvailable, normalized.tokensPerMinute)
+          : normalized.tokensPerMinute;
+      limits = normalized;
+      reschedule();
+    },
+  };
+}
+
+function normalizeLimits(limits: RateLimits): RateLimits {
+  const normalize = (value: number): number => (Number.isFinite(value) && value > 0 ? value : 0);
+
+  const requestsPerMinute = normalize(limits.requestsPerMinute);
+
+  return {
+    // A request needs a whole slot, so a bucket smaller than one would never grant anything.
+    requestsPerMinute: requestsPerMinute > 0 ? Math.max(1, Math.round(requestsPerMinute)) : 0,
+    tokensPerMinute: normalize(limits.tokensPerMinute),
+  };
+}
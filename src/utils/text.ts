@@ -9,3 +9,12 @@ const htmlEscapeMap: Record<string, string> = {
 export function escapeHtml(value: string): string {
   return value.replace(/[&<>"']/g, (character) => htmlEscapeMap[character] ?? character);
 }
+
+/** Anchor ID for a heading, matching the `headingAnchors` transform plugin. */
+export function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-');
+}
@@ -0,0 +1,48 @@
+import { escapeXml } from './xml';
+
+export interface TmxUnit {
+  source: string;
+  target: string;
+  /** Epoch milliseconds of the last change. */
+  changedAt?: number;
+}
+
+/** TMX dates are compact UTC timestamps, e.g. `20240131T094500Z`. */
+function formatTmxDate(timestamp: number): string {
+  return new Date(timestamp)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d+Z$/, 'Z');
+}
+
+/** Serializes translation pairs as a TMX 1.4b memory with one `<tu>` per pair. */
+export function buildTmx(options: {
+  srcLang: string;
+  trgLang: string;
+  toolVersion: string;
+  units: readonly TmxUnit[];
+}): string {
+  const srcLang = escapeXml(options.srcLang);
+  const trgLang = escapeXml(options.trgLang);
+  const units = options.units.map((unit) => {
+    const changeDate = unit.changedAt ? ` changedate="${formatTmxDate(unit.changedAt)}"` : '';
+
+    return [
+      `    <tu${changeDate}>`,
+      `      <tuv xml:lang="${srcLang}"><seg>${escapeXml(unit.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${trgLang}"><seg>${escapeXml(unit.target)}</seg></tuv>`,
+      '    </tu>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="Babel Markdown" creationtoolversion="${escapeXml(options.toolVersion)}" segtype="block" o-tmf="babel-md" adminlang="en" srclang="${srcLang}" datatype="markdown"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+}
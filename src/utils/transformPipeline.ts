@@ -0,0 +1,225 @@
+import MarkdownIt from 'markdown-it';
+
+import { slugifyHeading } from './text';
+
+export interface TransformEnvironment {
+  /** URI of the document being rendered. */
+  documentUri: string;
+}
+
+/**
+ * One entry of `babelMdViewer.transformPlugins`. Every hook is optional; hooks run in the order
+ * the plugins are listed, each receiving the previous plugin's output.
+ */
+export interface TransformPlugin {
+  id: string;
+  /** Registers rules on the markdown-it instance, like `md.use(plugin)`. */
+  markdownIt?: (md: MarkdownIt) => void;
+  /** Rewrites the parsed token stream; returning nothing keeps the (possibly mutated) tokens. */
+  transformTokens?: (
+    tokens: MarkdownIt.Token[],
+    env: TransformEnvironment,
+  ) => MarkdownIt.Token[] | void;
+  /** Rewrites the rendered HTML. */
+  transformHtml?: (html: string, env: TransformEnvironment) => string | Promise<string>;
+}
+
+export type TransformPhase = 'setup' | 'render' | 'tokens' | 'html';
+
+export interface TransformPluginFailure {
+  id: string;
+  phase: TransformPhase;
+  error: unknown;
+}
+
+export interface TransformPipelineResult {
+  html: string;
+  /** Milliseconds spent in each plugin's own hooks, in plugin order. */
+  timings: Array<{ id: string; ms: number }>;
+  /** Plugins skipped because one of their hooks threw; the rest of the pipeline still ran. */
+  failures: TransformPluginFailure[];
+}
+
+/**
+ * Renders `content` through the plugins in order. A plugin that throws is left out of the phase
+ * it failed in (and, for markdown-it rules, out of the render) so one broken plugin cannot take
+ * the preview down. When parsing or rendering fails, plugins are re-added one by one to find the
+ * one responsible.
+ */
+export async function runTransformPipeline(
+  content: string,
+  plugins: readonly TransformPlugin[],
+  env: TransformEnvironment,
+  createMarkdown: () => MarkdownIt,
+): Promise<TransformPipelineResult> {
+  const elapsed = new Map<string, number>(plugins.map((plugin) => [plugin.id, 0]));
+  const failures: TransformPluginFailure[] = [];
+  const timed = <T>(plugin: TransformPlugin, run: () => T): T => {
+    const started = performance.now();
+
+    try {
+      return run();
+    } finally {
+      elapsed.set(plugin.id, (elapsed.get(plugin.id) ?? 0) + performance.now() - started);
+    }
+  };
+
+  const build = (active: readonly TransformPlugin[]): MarkdownIt => {
+    const md = createMarkdown();
+
+    for (const plugin of active) {
+      if (plugin.markdownIt) {
+        md.use(plugin.markdownIt);
+      }
+    }
+
+    return md;
+  };
+
+  // Plugins are applied to a fresh instance each time one fails, as it may have half-registered.
+  let active: TransformPlugin[] = [];
+
+  for (const plugin of plugins) {
+    const { markdownIt } = plugin;
+
+    if (!markdownIt) {
+      active.push(plugin);
+      continue;
+    }
+
+    try {
+      const md = build(active);
+      timed(plugin, () => md.use(markdownIt));
+      active.push(plugin);
+    } catch (error) {
+      failures.push({ id: plugin.id, phase: 'setup', error });
+    }
+  }
+
+  const render = (candidates: readonly TransformPlugin[]): string => {
+    const md = build(candidates);
+    let tokens = md.parse(content, { ...env });
+
+    for (const plugin of candidates) {
+      const { transformTokens } = plugin;
+
+      if (!transformTokens || failures.some((failure) => failure.id === plugin.id)) {
+        continue;
+      }
+
+      try {
+        tokens = timed(plugin, () => transformTokens(tokens, env)) ?? tokens;
+      } catch (error) {
+        failures.push({ id: plugin.id, phase: 'tokens', error });
+      }
+    }
+
+    return md.renderer.render(tokens, md.options, { ...env });
+  };
+
+  let html: string | undefined;
+
+  while (html === undefined) {
+    try {
+      html = render(active);
+    } catch (error) {
+      const culprit = findFailingPlugin(active, render);
+
+      if (!culprit) {
+        throw error;
+      }
+
+      failures.push({ id: culprit.id, phase: 'render', error });
+      active = active.filter((plugin) => plugin !== culprit);
+    }
+  }
+
+  for (const plugin of active) {
+    const { transformHtml } = plugin;
+
+    if (!transformHtml || failures.some((failure) => failure.id === plugin.id)) {
+      continue;
+    }
+
+    const started = performance.now();
+
+    try {
+      html = await transformHtml(html, env);
+    } catch (error) {
+      failures.push({ id: plugin.id, phase: 'html', error });
+    } finally {
+      elapsed.set(plugin.id, (elapsed.get(plugin.id) ?? 0) + performance.now() - started);
+    }
+  }
+
+  return {
+    html,
+    timings: plugins.map((plugin) => ({ id: plugin.id, ms: elapsed.get(plugin.id) ?? 0 })),
+    failures,
+  };
+}
+
+/** The first plugin whose rules or tokens make rendering throw; undefined if Markdown alone does. */
+function findFailingPlugin(
+  active: readonly TransformPlugin[],
+  render: (candidates: readonly TransformPlugin[]) => string,
+): TransformPlugin | undefined {
+  for (let count = 1; count <= active.length; count += 1) {
+    try {
+      render(active.slice(0, count));
+    } catch {
+      return active[count - 1];
+    }
+  }
+
+  return undefined;
+}
+
+/** Plugins shipped with the extension, referenced by bare ID in `transformPlugins`. */
+export const BUILTIN_TRANSFORM_PLUGINS: Record<string, TransformPlugin> = {
+  headingAnchors: {
+    id: 'headingAnchors',
+    markdownIt: (md) => {
+      md.core.ruler.push('heading_anchors', (state) => {
+        const used = new Map<string, number>();
+
+        state.tokens.forEach((token, index) => {
+          if (token.type !== 'heading_open' || token.attrGet('id')) {
+            return;
+          }
+
+          const slug = slugifyHeading(state.tokens[index + 1]?.content ?? '') || 'section';
+          const count = used.get(slug) ?? 0;
+          used.set(slug, count + 1);
+          token.attrSet('id', count === 0 ? slug : `${slug}-${count}`);
+        });
+      });
+    },
+  },
+  taskLists: {
+    id: 'taskLists',
+    markdownIt: (md) => {
+      md.core.ruler.push('task_lists', (state) => {
+        state.tokens.forEach((token, index) => {
+          const inline = state.tokens[index + 2];
+          const match = /^\[([ xX])\]\s+/.exec(inline?.content ?? '');
+
+          if (token.type !== 'list_item_open' || inline?.type !== 'inline' || !match) {
+            return;
+          }
+
+          const checked = match[1] !== ' ';
+          const firstText = inline.children?.[0];
+          if (firstText?.type === 'text') {
+            firstText.content = firstText.content.slice(match[0].length);
+          }
+
+          const checkbox = new state.Token('html_inline', '', 0);
+          checkbox.content = `<input type="checkbox" class="task-list-item-checkbox" disabled${checked ? ' checked' : ''}> `;
+          inline.children?.unshift(checkbox);
+          token.attrJoin('class', 'task-list-item');
+        });
+      });
+    },
+  },
+};
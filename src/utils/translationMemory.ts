@@ -0,0 +1,109 @@
+export interface TranslationMemoryEntry {
+  source: string;
+  translation: string;
+  /** Prompt the translation was produced with; exact matches require the same prompt. */
+  promptFingerprint: string;
+  updatedAt: number;
+}
+
+export interface TranslationMemoryMatch {
+  entry: TranslationMemoryEntry;
+  /** Dice similarity of the two sources, from 0 to 1. */
+  similarity: number;
+}
+
+/** Runs of whitespace and line endings do not count as differences between sources. */
+export function normalizeMemorySource(markdown: string): string {
+  return markdown.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized sources. Character bigrams work
+ * the same for space-separated and CJK text, which a word-based measure would not.
+ */
+export function computeSimilarity(left: string, right: string): number {
+  const a = normalizeMemorySource(left);
+  const b = normalizeMemorySource(right);
+
+  if (a === b) {
+    return 1;
+  }
+
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < a.length - 1; index += 1) {
+    const bigram = a.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (let index = 0; index < b.length - 1; index += 1) {
+    const bigram = b.slice(index, index + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared += 1;
+    }
+  }
+
+  return (2 * shared) / (a.length - 1 + (b.length - 1));
+}
+
+/**
+ * Returns up to `limit` entries whose source is at least `threshold` similar to `source`, best
+ * first. Identical sources are left out; those are exact matches, not references.
+ */
+export function findFuzzyMatches(
+  entries: Iterable<TranslationMemoryEntry>,
+  source: string,
+  options: { threshold: number; limit: number },
+): TranslationMemoryMatch[] {
+  if (options.limit <= 0) {
+    return [];
+  }
+
+  const normalized = normalizeMemorySource(source);
+  const matches: TranslationMemoryMatch[] = [];
+
+  for (const entry of entries) {
+    const candidate = normalizeMemorySource(entry.source);
+
+    if (candidate === normalized) {
+      continue;
+    }
+
+    // Only the shorter text's bigrams can be shared, which caps the score before comparing.
+    const shorter = Math.min(candidate.length, normalized.length);
+    const upperBound = (2 * shorter) / Math.max(candidate.length + normalized.length, 1);
+    if (upperBound < options.threshold) {
+      continue;
+    }
+
+    const similarity = computeSimilarity(candidate, normalized);
+    if (similarity >= options.threshold) {
+      matches.push({ entry, similarity });
+    }
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit);
+}
+
+export function buildMemoryInstructions(matches: readonly TranslationMemoryMatch[]): string {
+  if (matches.length === 0) {
+    return '';
+  }
+
+  const examples = matches.map(
+    (match, index) =>
+      `Example ${index + 1} (${Math.round(match.similarity * 100)}% similar)\nSource:\n${match.entry.source.trim()}\nTranslation:\n${match.entry.translation.trim()}`,
+  );
+
+  return [
+    '## Reference translations',
+    'Similar passages were translated before. Reuse their terminology and style where they apply, but translate the current text as written:',
+    ...examples,
+  ].join('\n\n');
+}
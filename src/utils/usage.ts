@@ -0,0 +1,163 @@
+import type { ModelPricing, TranslationBudgetAction } from '../types/config';
+import type { TranslationUsage } from '../types/translation';
+
+/** Sums two usage records; the cost is kept only while at least one side has one. */
+export function addUsage(
+  total: TranslationUsage | undefined,
+  usage: TranslationUsage | undefined,
+): TranslationUsage | undefined {
+  if (!usage) {
+    return total;
+  }
+
+  if (!total) {
+    return { ...usage };
+  }
+
+  const cost =
+    total.cost === undefined && usage.cost === undefined
+      ? undefined
+      : (total.cost ?? 0) + (usage.cost ?? 0);
+
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    ...(cost === undefined ? {} : { cost }),
+  };
+}
+
+/**
+ * Finds the price of `model`: an exact key first, then the longest `prefix*` key that matches.
+ * Providers often answer with a dated model name (`gpt-4o-2024-08-06`), which wildcards cover.
+ */
+export function resolveModelPricing(
+  pricing: Record<string, ModelPricing>,
+  model: string,
+): ModelPricing | undefined {
+  const exact = pricing[model];
+
+  if (exact) {
+    return exact;
+  }
+
+  const normalized = model.toLowerCase();
+  let best: { prefix: string; price: ModelPricing } | undefined;
+
+  for (const [key, price] of Object.entries(pricing)) {
+    const lowered = key.toLowerCase();
+
+    if (lowered === normalized) {
+      return price;
+    }
+
+    if (!lowered.endsWith('*')) {
+      continue;
+    }
+
+    const prefix = lowered.slice(0, -1);
+    if (normalized.startsWith(prefix) && (!best || prefix.length > best.prefix.length)) {
+      best = { prefix, price };
+    }
+  }
+
+  return best?.price;
+}
+
+export function calculateCost(
+  usage: Pick<TranslationUsage, 'promptTokens' | 'completionTokens'>,
+  pricing: ModelPricing,
+): number {
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Rough token count used to price a request before it is sent: about four characters per token
+ * for alphabetic scripts and one per character for CJK text, which tokenizers rarely merge.
+ */
+export function estimateTokens(text: string): number {
+  const wide = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g)?.length ?? 0;
+
+  return Math.ceil((text.length - wide) / 4) + wide;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+export interface UsageMeter {
+  /** Tokens and cost of every request settled so far. */
+  readonly usage: TranslationUsage;
+  /**
+   * Claims `estimatedCost` for a request about to be sent. Returns false when the request would
+   * take the run past its ceiling and the budget action is `stop`; the request must not be sent.
+   */
+  reserve(estimatedCost: number): boolean;
+  /**
+   * Swaps the reservation for what the request actually used. Without reported usage the
+   * estimate is counted, so the budget errs towards stopping early.
+   */
+  settle(estimatedCost: number, usage?: TranslationUsage): void;
+  /** Gives back the reservation of a request that failed before anything was billed. */
+  release(estimatedCost: number): void;
+}
+
+export interface UsageMeterOptions {
+  /** Ceiling in US dollars; 0 or less only counts usage. */
+  maxCost?: number;
+  action?: TranslationBudgetAction;
+  /** Called once per meter, when a run first goes past the ceiling under `warn`. */
+  onBudgetWarning?: (spent: number, maxCost: number) => void;
+  /** Meter of the enclosing run (e.g. a workspace batch); its budget applies as well. */
+  parent?: UsageMeter;
+}
+
+/** Counts the usage of one translation run and keeps it under an optional cost ceiling. */
+export function createUsageMeter(options: UsageMeterOptions = {}): UsageMeter {
+  const maxCost =
+    Number.isFinite(options.maxCost) && (options.maxCost ?? 0) > 0
+      ? (options.maxCost as number)
+      : 0;
+  const action = options.action ?? 'warn';
+  let usage: TranslationUsage = { promptTokens: 0, completionTokens: 0 };
+  let spent = 0;
+  let reserved = 0;
+  let warned = false;
+
+  return {
+    get usage(): TranslationUsage {
+      return { ...usage };
+    },
+
+    reserve(estimatedCost: number): boolean {
+      if (maxCost > 0 && spent + reserved + estimatedCost > maxCost) {
+        if (action === 'stop') {
+          return false;
+        }
+
+        if (!warned) {
+          warned = true;
+          options.onBudgetWarning?.(spent, maxCost);
+        }
+      }
+
+      if (options.parent && !options.parent.reserve(estimatedCost)) {
+        return false;
+      }
+
+      reserved += estimatedCost;
+      return true;
+    },
+
+    settle(estimatedCost: number, requestUsage?: TranslationUsage): void {
+      reserved = Math.max(0, reserved - estimatedCost);
+      spent += requestUsage?.cost ?? estimatedCost;
+      usage = addUsage(usage, requestUsage) ?? usage;
+      options.parent?.settle(estimatedCost, requestUsage);
+    },
+
+    release(estimatedCost: number): void {
+      reserved = Math.max(0, reserved - estimatedCost);
+      options.parent?.release(estimatedCost);
+    },
+  };
+}
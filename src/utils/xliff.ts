@@ -0,0 +1,126 @@
+import { decodeXmlText, escapeXml, readXmlAttribute } from './xml';
+
+export interface XliffUnit {
+  id: string;
+  source: string;
+  target?: string;
+  /** XLIFF 2.0 segment state: `initial`, `translated`, `reviewed` or `final`. */
+  state?: string;
+  /** False for units marked `translate="no"`, such as code-only segments. */
+  translate: boolean;
+}
+
+export interface XliffDocument {
+  srcLang: string;
+  trgLang?: string;
+  /** Path of the source document the units came from. */
+  original?: string;
+  units: XliffUnit[];
+}
+
+/** Serializes one document as XLIFF 2.0, one unit per translated segment. */
+export function buildXliff(document: XliffDocument): string {
+  const units = document.units.map((unit) => {
+    const attributes = [`id="${escapeXml(unit.id)}"`, unit.translate ? '' : 'translate="no"']
+      .filter(Boolean)
+      .join(' ');
+    const state = unit.state ? ` state="${escapeXml(unit.state)}"` : '';
+    const target =
+      unit.target === undefined
+        ? ''
+        : `\n        <target xml:space="preserve">${escapeXml(unit.target)}</target>`;
+
+    return [
+      `    <unit ${attributes}>`,
+      `      <segment${state}>`,
+      `        <source xml:space="preserve">${escapeXml(unit.source)}</source>${target}`,
+      '      </segment>',
+      '    </unit>',
+    ].join('\n');
+  });
+  const rootAttributes = [
+    'xmlns="urn:oasis:names:tc:xliff:document:2.0"',
+    'version="2.0"',
+    `srcLang="${escapeXml(document.srcLang)}"`,
+    document.trgLang ? `trgLang="${escapeXml(document.trgLang)}"` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+  const original = document.original ? ` original="${escapeXml(document.original)}"` : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff ${rootAttributes}>`,
+    `  <file id="f1"${original}>`,
+    ...units,
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Reads the units of an XLIFF 2.0 file. Segments of a unit are joined back together, and a
+ * unit without a `<target>` is returned with `target` unset.
+ */
+export function parseXliff(xml: string): XliffDocument {
+  const root = /<xliff\b[^>]*>/.exec(xml);
+
+  if (!root || readXmlAttribute(root[0], 'version')?.startsWith('2.') !== true) {
+    throw new Error('Not an XLIFF 2.0 document.');
+  }
+
+  const file = /<file\b[^>]*>/.exec(xml);
+  const units: XliffUnit[] = [];
+  const unitPattern = /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g;
+
+  for (const unitMatch of xml.matchAll(unitPattern)) {
+    const unitTag = `<unit${unitMatch[1]}>`;
+    const segments = Array.from(unitMatch[2].matchAll(/<segment\b([^>]*)>([\s\S]*?)<\/segment>/g));
+    const sources: string[] = [];
+    const targets: string[] = [];
+    let state: string | undefined;
+    let hasTarget = false;
+
+    for (const segment of segments) {
+      state ??= readXmlAttribute(`<segment${segment[1]}>`, 'state');
+      sources.push(
+        decodeXmlText(/<source\b[^>]*>([\s\S]*?)<\/source>/.exec(segment[2])?.[1] ?? ''),
+      );
+      const target = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(segment[2]);
+      if (target) {
+        hasTarget = true;
+        targets.push(decodeXmlText(target[1]));
+      }
+    }
+
+    units.push({
+      id: readXmlAttribute(unitTag, 'id') ?? `u${units.length + 1}`,
+      source: sources.join(''),
+      target: hasTarget ? targets.join('') : undefined,
+      state,
+      translate: readXmlAttribute(unitTag, 'translate') !== 'no',
+    });
+  }
+
+  return {
+    srcLang: readXmlAttribute(root[0], 'srcLang') ?? '',
+    trgLang: readXmlAttribute(root[0], 'trgLang'),
+    original: file ? readXmlAttribute(file[0], 'original') : undefined,
+    units,
+  };
+}
+
+/**
+ * Finds the configured language a file's `trgLang` refers to. Tags compare case-insensitively
+ * with `_` read as `-`, so `zh_cn` from another tool still lands on a configured `zh-CN`.
+ */
+export function matchTargetLanguage(
+  trgLang: string,
+  languages: readonly string[],
+): string | undefined {
+  const normalize = (tag: string): string => tag.trim().replace(/_/g, '-').toLowerCase();
+  const wanted = normalize(trgLang);
+
+  return languages.find((language) => normalize(language) === wanted);
+}
@@ -0,0 +1,53 @@
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => XML_ESCAPES[char]);
+}
+
+/**
+ * Turns element content back into text: CDATA sections are kept verbatim, entities are decoded
+ * and inline markup a CAT tool may have added (`<ph/>`, `<pc>` and the like) is dropped.
+ */
+export function decodeXmlText(content: string): string {
+  return content
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith('<![CDATA[')
+        ? part.slice('<![CDATA['.length, -']]>'.length)
+        : part
+            .replace(/<[^>]*>/g, '')
+            .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+              if (name.startsWith('#x') || name.startsWith('#X')) {
+                return String.fromCodePoint(parseInt(name.slice(2), 16));
+              }
+              if (name.startsWith('#')) {
+                return String.fromCodePoint(parseInt(name.slice(1), 10));
+              }
+              return NAMED_ENTITIES[name] ?? entity;
+            }),
+    )
+    .join('');
+}
+
+/** Reads an attribute from the text of a start tag, such as `<unit id="s1" translate="no">`. */
+export function readXmlAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(
+    `\\s${name.replace(/[.:]/g, '\\$&')}\\s*=\\s*("([^"]*)"|'([^']*)')`,
+  ).exec(tag);
+
+  return match ? decodeXmlText(match[2] ?? match[3] ?? '') : undefined;
+}
@@ -1,4 +1,8 @@
 import type { HostToWebviewMessage, WebviewToHostMessage } from '../messaging/channel';
+import type { TranslationViewMode } from '../types/config';
+import type { TranslationOverrideState, TranslationUsage } from '../types/translation';
+import { debounce } from '../utils/async';
+import { formatCost } from '../utils/usage';
 
 declare const acquireVsCodeApi: <T>() => {
   postMessage(message: T): void;
@@ -11,6 +15,9 @@ type WebviewLocaleBundle = {
   pageTitle: string;
   retryButtonLabel: string;
   ariaContentLabel: string;
+  languageSelectLabel: string;
+  viewModeLabel: string;
+  viewModes: Record<TranslationViewMode, string>;
   placeholders: {
     currentDocument: string;
     configuredLanguage: string;
@@ -24,14 +31,32 @@ type WebviewLocaleBundle = {
     errorMessage: string;
     warningCacheFallback: string;
     warningPlaceholder: string;
+    warningGlossary: string;
+    warningMaskMismatch: string;
   };
   meta: {
     cachedLabel: string;
     recoveredLabel: string;
+    tokensTemplate: string;
+    sessionTemplate: string;
+  };
+  segmentActions: {
+    retryLabel: string;
+    instructionPlaceholder: string;
+    submitLabel: string;
+    cancelLabel: string;
+    editLabel: string;
+    saveLabel: string;
+    revertLabel: string;
+    overrideAppliedNotice: string;
+    overrideOutdatedNotice: string;
   };
   exportControls: {
     imageButtonLabel: string;
     pdfButtonLabel: string;
+    htmlButtonLabel: string;
+    docxButtonLabel: string;
+    markdownButtonLabel: string;
     failureMessage: string;
     inProgressMessage: string;
   };
@@ -55,6 +80,13 @@ const FALLBACK_LOCALE: WebviewLocaleBundle = {
   pageTitle: 'Translation Preview',
   retryButtonLabel: 'Retry translation',
   ariaContentLabel: 'Translated Markdown',
+  languageSelectLabel: 'Target language',
+  viewModeLabel: 'Layout',
+  viewModes: {
+    translation: 'Translation only',
+    parallel: 'Side by side',
+    interleaved: 'Interleaved',
+  },
   placeholders: {
     currentDocument: 'current document',
     configuredLanguage: 'configured language',
@@ -68,14 +100,32 @@ const FALLBACK_LOCALE: WebviewLocaleBundle = {
     errorMessage: 'Failed to translate {document} → {language}: {message}{hint}',
     warningCacheFallback: 'Reused cached translations for {count} segment(s) after errors.',
     warningPlaceholder: 'Showing original text for {count} segment(s) because translation failed.',
+    warningGlossary: '{count} segment(s) did not follow the workspace glossary.',
+    warningMaskMismatch: 'Code, links or math may be incomplete in {count} segment(s).',
   },
   meta: {
     cachedLabel: 'cached',
     recoveredLabel: 'warnings',
+    tokensTemplate: '{count} tokens',
+    sessionTemplate: 'session: {usage}',
+  },
+  segmentActions: {
+    retryLabel: 'Re-translate…',
+    instructionPlaceholder: 'Optional instruction, e.g. "more formal" or "keep English terms"',
+    submitLabel: 'Re-translate',
+    cancelLabel: 'Cancel',
+    editLabel: 'Edit…',
+    saveLabel: 'Save edit',
+    revertLabel: 'Discard edit',
+    overrideAppliedNotice: 'Edited by hand; kept until the source text changes.',
+    overrideOutdatedNotice: 'An edit saved for an earlier version of this text no longer applies.',
   },
   exportControls: {
     imageButtonLabel: 'Save as PNG',
     pdfButtonLabel: 'Save as PDF',
+    htmlButtonLabel: 'Save as HTML',
+    docxButtonLabel: 'Save as Word',
+    markdownButtonLabel: 'Save Bilingual Markdown',
     failureMessage: 'Unable to capture the preview for export.',
     inProgressMessage: 'Preparing export…',
   },
@@ -115,6 +165,9 @@ const statusElement = document.getElementById('preview-status');
 const errorElement = document.getElementById('preview-error');
 const warningElement = document.getElementById('preview-warning');
 const retryElement = document.getElementById('preview-retry');
+const languageElement = document.getElementById('preview-language');
+const viewModeElement = document.getElementById('preview-view-mode');
+const markdownExportElement = document.querySelector('[data-export-markdown]');
 const exportButtonElements = Array.from(
   document.querySelectorAll<HTMLButtonElement>('[data-export-format]'),
 );
@@ -140,6 +193,18 @@ if (!(retryElement instanceof HTMLButtonElement)) {
   throw new Error('Translation preview DOM failed to initialize: preview-retry.');
 }
 
+if (!(languageElement instanceof HTMLSelectElement)) {
+  throw new Error('Translation preview DOM failed to initialize: preview-language.');
+}
+
+if (!(viewModeElement instanceof HTMLSelectElement)) {
+  throw new Error('Translation preview DOM failed to initialize: preview-view-mode.');
+}
+
+if (!(markdownExportElement instanceof HTMLButtonElement)) {
+  throw new Error('Translation preview DOM failed to initialize: markdown export button.');
+}
+
 for (const button of exportButtonElements) {
   if (!(button instanceof HTMLButtonElement)) {
     throw new Error('Translation preview DOM failed to initialize: export button.');
@@ -155,6 +220,9 @@ const statusContainer = statusElement;
 const errorContainer = errorElement;
 const warningContainer = warningElement;
 const retryButton = retryElement;
+const languageSelect = languageElement;
+const viewModeSelect = viewModeElement;
+const markdownExportButton = markdownExportElement;
 const exportButtons = exportButtonElements;
 const exportErrorArea = exportErrorElement instanceof HTMLElement ? exportErrorElement : undefined;
 
@@ -177,6 +245,8 @@ function logExport(message: string, details?: unknown): void {
 
 retryButton.textContent = locale.retryButtonLabel;
 outputContainer.setAttribute('aria-label', locale.ariaContentLabel);
+languageSelect.setAttribute('aria-label', locale.languageSelectLabel);
+viewModeSelect.setAttribute('aria-label', locale.viewModeLabel);
 disableExportButtons(false);
 setExportMessage(false);
 
@@ -190,12 +260,223 @@ let pendingRetry = false;
 let totalSegments = 0;
 let completedSegments = 0;
 let exportInProgress = false;
+/** Language of the translation currently on screen; empty when the panel shows none. */
+let renderedLanguage = '';
+const chunkSources = new WeakMap<HTMLElement, string>();
+const chunkHtml = new WeakMap<HTMLElement, string>();
+/** Translated Markdown of each chunk, used to prefill the edit form. */
+const chunkMarkdown = new WeakMap<HTMLElement, string>();
+let sourceLineCount = 0;
+/** Scroll events until this time come from `scrollToLine` and are not echoed to the editor. */
+let ignoreScrollUntil = 0;
+const SCROLL_ECHO_SUPPRESS_MS = 250;
+const SCROLL_SYNC_DELAY_MS = 100;
 
 function resetStreamingState(): void {
   totalSegments = 0;
   completedSegments = 0;
 }
 
+function hasCompleteChunks(): boolean {
+  const chunks = outputContainer.querySelectorAll<HTMLElement>('[data-chunk-index]');
+
+  return (
+    totalSegments > 0 &&
+    chunks.length === totalSegments &&
+    Array.from(chunks).every((chunk) => chunk.classList.contains('preview__chunk--translated'))
+  );
+}
+
+function setChunkLines(chunk: HTMLElement, startLine?: number, endLine?: number): void {
+  if (typeof startLine === 'number' && typeof endLine === 'number') {
+    chunk.dataset.startLine = startLine.toString();
+    chunk.dataset.endLine = endLine.toString();
+  }
+}
+
+/**
+ * Every block holds the rendered source and its translation side by side; the view mode decides
+ * through CSS whether the source part is shown, so switching layouts never re-renders.
+ */
+function createChunk(segmentIndex: number, sourceHtml = ''): HTMLElement {
+  const section = document.createElement('section');
+  section.className = 'preview__chunk';
+  section.dataset.chunkIndex = segmentIndex.toString();
+
+  const source = document.createElement('div');
+  source.className = 'preview__chunk-source';
+  source.innerHTML = sourceHtml;
+  const translation = document.createElement('div');
+  translation.className = 'preview__chunk-translation';
+  const actions = document.createElement('div');
+  actions.className = 'preview__chunk-actions';
+  actions.append(
+    createChunkAction('retry', locale.segmentActions.retryLabel),
+    createChunkAction('edit', locale.segmentActions.editLabel),
+    createChunkAction('revert', locale.segmentActions.revertLabel),
+  );
+  section.append(source, translation, actions);
+
+  return section;
+}
+
+function createChunkAction(action: string, label: string): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'preview__chunkAction';
+  button.dataset.segmentAction = action;
+  button.textContent = label;
+  return button;
+}
+
+function closeSegmentForm(): void {
+  outputContainer.querySelector('.preview__segmentForm')?.remove();
+}
+
+/** Inline form for re-translating one segment; the instruction is optional. */
+function openRetryForm(chunk: HTMLElement): void {
+  closeSegmentForm();
+
+  const form = document.createElement('form');
+  form.className = 'preview__segmentForm';
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'preview__retryInput';
+  input.placeholder = locale.segmentActions.instructionPlaceholder;
+  input.setAttribute('aria-label', locale.segmentActions.instructionPlaceholder);
+  const submit = document.createElement('button');
+  submit.type = 'submit';
+  submit.className = 'preview__chunkAction';
+  submit.textContent = locale.segmentActions.submitLabel;
+  const cancel = document.createElement('button');
+  cancel.type = 'button';
+  cancel.className = 'preview__chunkAction';
+  cancel.textContent = locale.segmentActions.cancelLabel;
+  form.append(input, submit, cancel);
+
+  form.addEventListener('submit', (event) => {
+    event.preventDefault();
+    closeSegmentForm();
+    chunk.classList.add('preview__chunk--streaming');
+    postMessage({
+      type: 'retrySegment',
+      payload: {
+        segmentIndex: Number(chunk.dataset.chunkIndex),
+        instruction: input.value.trim() || undefined,
+      },
+    });
+  });
+  cancel.addEventListener('click', () => closeSegmentForm());
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') {
+      closeSegmentForm();
+    }
+  });
+
+  chunk.appendChild(form);
+  input.focus();
+}
+
+/** Inline editor for the translated Markdown of one segment; saving stores an override. */
+function openEditForm(chunk: HTMLElement): void {
+  closeSegmentForm();
+
+  const form = document.createElement('form');
+  form.className = 'preview__segmentForm preview__segmentForm--edit';
+  const textarea = document.createElement('textarea');
+  textarea.className = 'preview__segmentEditor';
+  textarea.value = chunkMarkdown.get(chunk) ?? '';
+  textarea.rows = Math.min(Math.max(textarea.value.split('\n').length + 1, 3), 20);
+  textarea.setAttribute('aria-label', locale.segmentActions.editLabel);
+  const submit = document.createElement('button');
+  submit.type = 'submit';
+  submit.className = 'preview__chunkAction';
+  submit.textContent = locale.segmentActions.saveLabel;
+  const cancel = document.createElement('button');
+  cancel.type = 'button';
+  cancel.className = 'preview__chunkAction';
+  cancel.textContent = locale.segmentActions.cancelLabel;
+  form.append(textarea, submit, cancel);
+
+  form.addEventListener('submit', (event) => {
+    event.preventDefault();
+    const markdown = textarea.value.trim();
+
+    closeSegmentForm();
+    if (!markdown || markdown === chunkMarkdown.get(chunk)?.trim()) {
+      return;
+    }
+
+    chunk.classList.add('preview__chunk--streaming');
+    postMessage({
+      type: 'saveSegmentOverride',
+      payload: {
+        segmentIndex: Number(chunk.dataset.chunkIndex),
+        markdown,
+      },
+    });
+  });
+  cancel.addEventListener('click', () => closeSegmentForm());
+  textarea.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') {
+      closeSegmentForm();
+    } else if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      form.requestSubmit();
+    }
+  });
+
+  chunk.appendChild(form);
+  textarea.focus();
+}
+
+/** Marks chunks whose translation comes from, or no longer matches, a hand edit. */
+function setChunkOverride(chunk: HTMLElement, override?: TranslationOverrideState): void {
+  chunk.classList.toggle('preview__chunk--override', override === 'applied');
+  chunk.classList.toggle('preview__chunk--override-outdated', override === 'outdated');
+
+  if (override && !chunk.title) {
+    chunk.title =
+      override === 'applied'
+        ? locale.segmentActions.overrideAppliedNotice
+        : locale.segmentActions.overrideOutdatedNotice;
+  }
+}
+
+function getChunkTranslation(chunk: HTMLElement): HTMLElement {
+  const translation = chunk.querySelector<HTMLElement>(':scope > .preview__chunk-translation');
+
+  if (translation) {
+    return translation;
+  }
+
+  const created = document.createElement('div');
+  created.className = 'preview__chunk-translation';
+  chunk.appendChild(created);
+  return created;
+}
+
+function createSourceChunk(
+  segment: Extract<HostToWebviewMessage, { type: 'translationSource' }>['payload']['segments'][number],
+): HTMLElement {
+  const section = createChunk(segment.segmentIndex, segment.html);
+  section.classList.add('preview__chunk--source');
+  setChunkLines(section, segment.startLine, segment.endLine);
+  chunkSources.set(section, segment.markdown);
+
+  const pre = document.createElement('pre');
+  pre.textContent = segment.markdown;
+  getChunkTranslation(section).appendChild(pre);
+
+  return section;
+}
+
+function setViewMode(viewMode: TranslationViewMode): void {
+  outputContainer.dataset.viewMode = viewMode;
+  viewModeSelect.value = viewMode;
+  markdownExportButton.hidden = viewMode === 'translation';
+}
+
 function renderHtml(html: string): void {
   outputContainer.innerHTML = html;
 }
@@ -215,20 +496,47 @@ function renderSourceSegments(
   retryButton.disabled = true;
   setExportMessage(false);
 
-  outputContainer.innerHTML = '';
+  // Translated blocks whose source is unchanged are moved into their new position; only edited
+  // segments fall back to a source placeholder, so the rest of the panel does not flicker.
+  const reusable = new Map<string, HTMLElement[]>();
+
+  if (payload.incremental && payload.targetLanguage === renderedLanguage) {
+    const chunks = Array.from(outputContainer.querySelectorAll<HTMLElement>('[data-chunk-index]'));
+
+    for (const chunk of chunks) {
+      const source = chunkSources.get(chunk);
+      if (source !== undefined && chunk.classList.contains('preview__chunk--translated')) {
+        reusable.set(source, [...(reusable.get(source) ?? []), chunk]);
+      }
+    }
+  }
+
+  if (reusable.size === 0) {
+    outputContainer.innerHTML = '';
+  }
+
+  let cursor = outputContainer.firstChild;
 
   for (const segment of payload.segments) {
-    const section = document.createElement('section');
-    section.className = 'preview__chunk preview__chunk--source';
-    section.dataset.chunkIndex = segment.segmentIndex.toString();
+    const chunk = reusable.get(segment.markdown)?.shift() ?? createSourceChunk(segment);
+    chunk.dataset.chunkIndex = segment.segmentIndex.toString();
+    setChunkLines(chunk, segment.startLine, segment.endLine);
 
-    const pre = document.createElement('pre');
-    pre.textContent = segment.markdown;
-    section.appendChild(pre);
+    if (chunk === cursor) {
+      cursor = cursor.nextSibling;
+    } else {
+      outputContainer.insertBefore(chunk, cursor);
+    }
+  }
 
-    outputContainer.appendChild(section);
+  while (cursor) {
+    const next = cursor.nextSibling;
+    outputContainer.removeChild(cursor);
+    cursor = next;
   }
 
+  renderedLanguage = payload.targetLanguage;
+
   const documentLabel = lastDocumentPath || locale.placeholders.currentDocument;
   const languageLabel = lastTargetLanguage || locale.placeholders.configuredLanguage;
   statusContainer.dataset.state = 'loading';
@@ -244,6 +552,7 @@ function setLoading(
   documentPath: string,
   targetLanguage: string,
   segmentsHint?: number,
+  incremental = false,
 ): void {
   if (documentPath) {
     lastDocumentPath = documentPath;
@@ -260,7 +569,10 @@ function setLoading(
     if (typeof segmentsHint === 'number' && Number.isFinite(segmentsHint)) {
       totalSegments = segmentsHint;
     }
-    outputContainer.innerHTML = '';
+    if (!incremental || targetLanguage !== renderedLanguage) {
+      outputContainer.innerHTML = '';
+      renderedLanguage = '';
+    }
     const documentLabel = lastDocumentPath || locale.placeholders.currentDocument;
     const languageLabel = lastTargetLanguage || locale.placeholders.configuredLanguage;
     statusContainer.textContent = format(locale.translations.statusInProgress, {
@@ -281,7 +593,7 @@ function setLoading(
 }
 
 function disableExportButtons(isDisabled: boolean): void {
-  for (const button of exportButtons) {
+  for (const button of [...exportButtons, markdownExportButton]) {
     button.disabled = isDisabled;
   }
 }
@@ -300,11 +612,18 @@ function setExportMessage(isVisible: boolean, message?: string): void {
   exportErrorArea.hidden = false;
 }
 
-async function requestExport(format: 'png' | 'pdf'): Promise<void> {
+async function requestExport(format: 'png' | 'pdf' | 'html' | 'docx'): Promise<void> {
   if (exportInProgress) {
     return;
   }
 
+  if (format === 'html' || format === 'docx') {
+    // Built by the extension from the translated Markdown; nothing to capture.
+    logExport('Requesting translation document export', { format, content: 'preview' });
+    postMessage({ type: 'exportContent', payload: { format, content: 'preview' } });
+    return;
+  }
+
   if (!window.__babelMdViewerExport?.captureElement) {
     setExportMessage(true);
     return;
@@ -339,9 +658,19 @@ async function requestExport(format: 'png' | 'pdf'): Promise<void> {
   }
 }
 
+function formatUsage(usage: TranslationUsage): string {
+  const tokens = format(locale.meta.tokensTemplate, {
+    count: (usage.promptTokens + usage.completionTokens).toLocaleString(locale.languageTag),
+  });
+
+  return usage.cost === undefined ? tokens : `${tokens} (${formatCost(usage.cost)})`;
+}
+
 function renderResult(payload: Extract<HostToWebviewMessage, { type: 'translationResult' }>['payload']): void {
   pendingRetry = false;
+  const keepChunks = hasCompleteChunks() && renderedLanguage === payload.targetLanguage;
   resetStreamingState();
+  renderedLanguage = payload.targetLanguage;
   lastDocumentPath = payload.documentPath;
   lastTargetLanguage = payload.targetLanguage;
   errorContainer.hidden = true;
@@ -354,6 +683,15 @@ function renderResult(payload: Extract<HostToWebviewMessage, { type: 'translatio
     `v${payload.sourceVersion}`,
   ];
 
+  if (payload.usage) {
+    metaSegments.push(formatUsage(payload.usage));
+  }
+
+  const sessionUsage = payload.sessionUsage;
+  if (sessionUsage && sessionUsage.promptTokens + sessionUsage.completionTokens > 0) {
+    metaSegments.push(format(locale.meta.sessionTemplate, { usage: formatUsage(sessionUsage) }));
+  }
+
   if (payload.wasCached) {
     metaSegments.push(locale.meta.cachedLabel);
   }
@@ -362,7 +700,11 @@ function renderResult(payload: Extract<HostToWebviewMessage, { type: 'translatio
     payload.recoveries?.filter((entry) => entry.type === 'cacheFallback').length ?? 0;
   const placeholderCount =
     payload.recoveries?.filter((entry) => entry.type === 'placeholder').length ?? 0;
-  const hasWarnings = cacheFallbackCount + placeholderCount > 0;
+  const glossaryCount =
+    payload.recoveries?.filter((entry) => entry.type === 'glossary').length ?? 0;
+  const maskMismatchCount =
+    payload.recoveries?.filter((entry) => entry.type === 'maskMismatch').length ?? 0;
+  const hasWarnings = cacheFallbackCount + placeholderCount + glossaryCount + maskMismatchCount > 0;
 
   if (hasWarnings) {
     metaSegments.push(locale.meta.recoveredLabel);
@@ -382,6 +724,16 @@ function renderResult(payload: Extract<HostToWebviewMessage, { type: 'translatio
         format(locale.translations.warningPlaceholder, { count: placeholderCount }),
       );
     }
+    if (glossaryCount > 0) {
+      warningMessages.push(
+        format(locale.translations.warningGlossary, { count: glossaryCount }),
+      );
+    }
+    if (maskMismatchCount > 0) {
+      warningMessages.push(
+        format(locale.translations.warningMaskMismatch, { count: maskMismatchCount }),
+      );
+    }
 
     warningContainer.hidden = false;
     warningContainer.textContent = warningMessages.join(' ');
@@ -400,7 +752,11 @@ function renderResult(payload: Extract<HostToWebviewMessage, { type: 'translatio
       meta: metaSegments.join(' · '),
     },
   );
-  renderHtml(payload.html);
+
+  // Streamed blocks already show this result; keeping them lets the next edit update in place.
+  if (!keepChunks) {
+    renderHtml(payload.html);
+  }
 }
 
 function renderError(payload: Extract<HostToWebviewMessage, { type: 'translationError' }>['payload']): void {
@@ -424,11 +780,17 @@ function renderError(payload: Extract<HostToWebviewMessage, { type: 'translation
         language: languageLabel,
       });
   outputContainer.innerHTML = '';
+  renderedLanguage = '';
   retryButton.hidden = false;
   retryButton.disabled = false;
   warningContainer.hidden = true;
   warningContainer.textContent = '';
 }
+/** Recoveries where the translation is shown but needs a second look. */
+function isFlaggedRecovery(type: string): boolean {
+  return type === 'glossary' || type === 'maskMismatch';
+}
+
 function appendChunk(
   payload: Extract<HostToWebviewMessage, { type: 'translationChunk' }>['payload'],
 ): void {
@@ -441,8 +803,13 @@ function appendChunk(
   );
 
   if (existing) {
-    existing.innerHTML = payload.html;
+    setChunkLines(existing, payload.startLine, payload.endLine);
+    if (chunkHtml.get(existing) !== payload.html) {
+      getChunkTranslation(existing).innerHTML = payload.html;
+      chunkHtml.set(existing, payload.html);
+    }
     existing.classList.remove('preview__chunk--source');
+    existing.classList.remove('preview__chunk--streaming');
     existing.classList.add('preview__chunk--translated');
     existing.dataset.cached = wasCached ? 'true' : 'false';
     if (wasCached) {
@@ -459,15 +826,24 @@ function appendChunk(
       } else {
         existing.classList.remove('preview__chunk--placeholder');
       }
+      existing.classList.toggle('preview__chunk--glossary', payload.recovery.type === 'glossary');
+      existing.classList.toggle(
+        'preview__chunk--mask-mismatch',
+        payload.recovery.type === 'maskMismatch',
+      );
+      existing.title = isFlaggedRecovery(payload.recovery.type) ? payload.recovery.message : '';
     } else {
       existing.classList.remove('preview__chunk--recovered');
       existing.classList.remove('preview__chunk--placeholder');
+      existing.classList.remove('preview__chunk--glossary');
+      existing.classList.remove('preview__chunk--mask-mismatch');
       existing.removeAttribute('data-recovery-type');
+      existing.removeAttribute('title');
     }
   } else {
-    const wrapper = document.createElement('section');
-    wrapper.className = 'preview__chunk preview__chunk--translated';
-    wrapper.dataset.chunkIndex = payload.segmentIndex.toString();
+    const wrapper = createChunk(payload.segmentIndex);
+    wrapper.classList.add('preview__chunk--translated');
+    setChunkLines(wrapper, payload.startLine, payload.endLine);
     wrapper.dataset.cached = wasCached ? 'true' : 'false';
     if (wasCached) {
       wrapper.classList.add('preview__chunk--cached');
@@ -479,11 +855,28 @@ function appendChunk(
         wrapper.classList.add('preview__chunk--placeholder');
         wrapper.classList.remove('preview__chunk--cached');
       }
+      if (payload.recovery.type === 'glossary') {
+        wrapper.classList.add('preview__chunk--glossary');
+      }
+      if (payload.recovery.type === 'maskMismatch') {
+        wrapper.classList.add('preview__chunk--mask-mismatch');
+      }
+      if (isFlaggedRecovery(payload.recovery.type)) {
+        wrapper.title = payload.recovery.message;
+      }
     }
-    wrapper.innerHTML = payload.html;
+    getChunkTranslation(wrapper).innerHTML = payload.html;
+    chunkHtml.set(wrapper, payload.html);
     outputContainer.appendChild(wrapper);
   }
 
+  const chunk =
+    existing ?? outputContainer.querySelector<HTMLElement>(`[data-chunk-index="${payload.segmentIndex}"]`);
+  if (chunk) {
+    chunkMarkdown.set(chunk, payload.markdown);
+    setChunkOverride(chunk, payload.override);
+  }
+
   const documentLabel = lastDocumentPath || payload.documentPath || locale.placeholders.currentDocument;
   const languageLabel = lastTargetLanguage || payload.targetLanguage || locale.placeholders.configuredLanguage;
   statusContainer.dataset.state = 'loading';
@@ -497,6 +890,140 @@ function appendChunk(
   errorContainer.hidden = true;
 }
 
+function renderLanguages(
+  payload: Extract<HostToWebviewMessage, { type: 'setLanguages' }>['payload'],
+): void {
+  lastTargetLanguage = payload.targetLanguage;
+  languageSelect.innerHTML = '';
+
+  for (const language of payload.languages) {
+    const option = document.createElement('option');
+    option.value = language;
+    option.textContent = language;
+    languageSelect.appendChild(option);
+  }
+
+  languageSelect.value = payload.targetLanguage;
+  languageSelect.hidden = payload.languages.length < 2;
+}
+
+function renderChunkDelta(
+  payload: Extract<HostToWebviewMessage, { type: 'translationChunkDelta' }>['payload'],
+): void {
+  const existing = outputContainer.querySelector<HTMLElement>(
+    `[data-chunk-index="${payload.segmentIndex}"]`,
+  );
+
+  if (existing?.classList.contains('preview__chunk--translated')) {
+    return;
+  }
+
+  const section = existing ?? createChunk(payload.segmentIndex);
+
+  if (!existing) {
+    outputContainer.appendChild(section);
+  }
+
+  section.classList.remove('preview__chunk--source');
+  section.classList.add('preview__chunk--streaming');
+  getChunkTranslation(section).innerHTML = payload.html;
+}
+
+function getLineChunks(): Array<{ element: HTMLElement; startLine: number; endLine: number }> {
+  return Array.from(outputContainer.querySelectorAll<HTMLElement>('[data-start-line]')).map(
+    (element) => ({
+      element,
+      startLine: Number(element.dataset.startLine),
+      endLine: Number(element.dataset.endLine),
+    }),
+  );
+}
+
+function getDocumentTop(element: HTMLElement): number {
+  return element.getBoundingClientRect().top + window.scrollY;
+}
+
+function clampFraction(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
+
+/**
+ * Scrolls so the block translated from `line` is at the top, interpolating inside the block.
+ * Without segment blocks (e.g. a result served whole from the cache) the position is proportional.
+ */
+function scrollToSourceLine(
+  payload: Extract<HostToWebviewMessage, { type: 'scrollToLine' }>['payload'],
+): void {
+  sourceLineCount = payload.lineCount;
+  const chunks = getLineChunks();
+  let top: number;
+
+  if (chunks.length > 0) {
+    const chunk = [...chunks].reverse().find((entry) => entry.startLine <= payload.line);
+
+    if (!chunk) {
+      top = 0;
+    } else {
+      const fraction = clampFraction(
+        (payload.line - chunk.startLine) / (chunk.endLine - chunk.startLine),
+      );
+      top = getDocumentTop(chunk.element) + fraction * chunk.element.offsetHeight;
+    }
+  } else {
+    const fraction = clampFraction(payload.line / Math.max(1, payload.lineCount));
+    top = getDocumentTop(outputContainer) + fraction * outputContainer.offsetHeight;
+  }
+
+  ignoreScrollUntil = Date.now() + SCROLL_ECHO_SUPPRESS_MS;
+  window.scrollTo({ top: payload.line <= 0 ? 0 : top });
+}
+
+function getSourceLineAtTop(): number | undefined {
+  const scrollTop = window.scrollY;
+
+  if (scrollTop <= 0) {
+    return 0;
+  }
+
+  const chunks = getLineChunks();
+
+  if (chunks.length === 0) {
+    if (sourceLineCount === 0) {
+      return undefined;
+    }
+
+    const fraction = clampFraction(
+      (scrollTop - getDocumentTop(outputContainer)) / outputContainer.offsetHeight,
+    );
+    return fraction * sourceLineCount;
+  }
+
+  for (const chunk of chunks) {
+    const chunkTop = getDocumentTop(chunk.element);
+
+    if (chunkTop + chunk.element.offsetHeight > scrollTop) {
+      const fraction = clampFraction((scrollTop - chunkTop) / chunk.element.offsetHeight);
+      return chunk.startLine + fraction * (chunk.endLine - chunk.startLine);
+    }
+  }
+
+  return chunks[chunks.length - 1].endLine;
+}
+
+const revealSourceAtTop = debounce(() => {
+  if (Date.now() < ignoreScrollUntil) {
+    return;
+  }
+
+  const line = getSourceLineAtTop();
+
+  if (line !== undefined) {
+    postMessage({ type: 'revealSourceLine', payload: { line } });
+  }
+}, SCROLL_SYNC_DELAY_MS);
+
+window.addEventListener('scroll', () => revealSourceAtTop(), { passive: true });
+
 window.addEventListener('message', (event: MessageEvent<HostToWebviewMessage>) => {
   const message = event.data;
 
@@ -507,6 +1034,7 @@ window.addEventListener('message', (event: MessageEvent<HostToWebviewMessage>) =
         message.payload.documentPath,
         message.payload.targetLanguage,
         message.payload.totalSegments,
+        message.payload.incremental,
       );
       break;
     case 'translationResult':
@@ -523,6 +1051,18 @@ window.addEventListener('message', (event: MessageEvent<HostToWebviewMessage>) =
     case 'translationChunk':
       appendChunk(message.payload);
       break;
+    case 'translationChunkDelta':
+      renderChunkDelta(message.payload);
+      break;
+    case 'setLanguages':
+      renderLanguages(message.payload);
+      break;
+    case 'setViewMode':
+      setViewMode(message.payload.viewMode);
+      break;
+    case 'scrollToLine':
+      scrollToSourceLine(message.payload);
+      break;
     default: {
       const unexpected: never = message;
       void unexpected;
@@ -535,12 +1075,66 @@ window.addEventListener('message', (event: MessageEvent<HostToWebviewMessage>) =
 for (const button of exportButtons) {
   button.addEventListener('click', () => {
     const format = button.dataset.exportFormat;
-    if (format === 'png' || format === 'pdf') {
+    if (format === 'png' || format === 'pdf' || format === 'html' || format === 'docx') {
       void requestExport(format);
     }
   });
 }
 
+outputContainer.addEventListener('click', (event) => {
+  const target = event.target instanceof Element ? event.target : undefined;
+  const actionButton = target?.closest<HTMLElement>('[data-segment-action]');
+  const chunk = actionButton?.closest<HTMLElement>('[data-chunk-index]');
+
+  if (!actionButton || !chunk?.classList.contains('preview__chunk--translated')) {
+    return;
+  }
+
+  switch (actionButton.dataset.segmentAction) {
+    case 'retry':
+      openRetryForm(chunk);
+      break;
+    case 'edit':
+      openEditForm(chunk);
+      break;
+    case 'revert':
+      closeSegmentForm();
+      chunk.classList.add('preview__chunk--streaming');
+      postMessage({
+        type: 'clearSegmentOverride',
+        payload: { segmentIndex: Number(chunk.dataset.chunkIndex) },
+      });
+      break;
+    default:
+      break;
+  }
+});
+
+markdownExportButton.addEventListener('click', () => {
+  postMessage({ type: 'exportBilingualMarkdown' });
+});
+
+viewModeSelect.addEventListener('change', () => {
+  const viewMode = viewModeSelect.value as TranslationViewMode;
+
+  if (viewMode === outputContainer.dataset.viewMode) {
+    return;
+  }
+
+  setViewMode(viewMode);
+  postMessage({ type: 'changeViewMode', payload: { viewMode } });
+});
+
+languageSelect.addEventListener('change', () => {
+  const targetLanguage = languageSelect.value;
+
+  if (!targetLanguage || targetLanguage === lastTargetLanguage) {
+    return;
+  }
+
+  postMessage({ type: 'switchLanguage', payload: { targetLanguage } });
+});
+
 retryButton.addEventListener('click', () => {
   if (pendingRetry) {
     return;
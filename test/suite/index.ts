@@ -1,25 +1,77 @@
 import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
 import Mocha from 'mocha';
+import MarkdownIt from 'markdown-it';
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
 import * as vscode from 'vscode';
+import { inflateRawSync } from 'zlib';
 
+import type { HostToWebviewMessage } from '../../src/messaging/channel';
+import { TranslationPreviewManager } from '../../src/panel/TranslationPreviewManager';
 import { SecretStorageService } from '../../src/services/SecretStorageService';
 import { BabelMarkdownService } from '../../src/services/BabelMarkdownService';
 import { TranslationCache } from '../../src/services/TranslationCache';
+import { TranslationCacheStore } from '../../src/services/TranslationCacheStore';
+import { TranslationOverrideStore } from '../../src/services/TranslationOverrideStore';
+import { MarkdownExportService } from '../../src/services/MarkdownExportService';
+import { PromptResolver } from '../../src/services/PromptResolver';
+import { UsageLedger } from '../../src/services/UsageLedger';
+import { TranslationMemory } from '../../src/services/TranslationMemory';
+import { MockTranslationClient } from '../../src/services/MockTranslationClient';
 import { TranslationService, TranslationRunError } from '../../src/services/TranslationService';
 import {
   TranslationProviderError,
-  type OpenAITranslationClient,
   type TranslateRequest,
-} from '../../src/services/OpenAITranslationClient';
+  type TranslationProvider,
+} from '../../src/services/TranslationProvider';
+import { TranslationProviderRegistry } from '../../src/services/TranslationProviderRegistry';
+import { AnthropicTranslationClient } from '../../src/services/AnthropicTranslationClient';
+import { OpenAITranslationClient } from '../../src/services/OpenAITranslationClient';
 import type { ExtensionConfiguration, TranslationConfiguration } from '../../src/types/config';
 import type {
   RawTranslationResult,
   ResolvedTranslationConfiguration,
   TranslationPrompt,
 } from '../../src/types/translation';
-import { getExtensionConfiguration } from '../../src/utils/config';
+import { getExtensionConfiguration, resolveTranslationConfiguration } from '../../src/utils/config';
 import { ExtensionLogger } from '../../src/utils/logger';
 import { DEFAULT_TRANSLATION_PROMPT } from '../../src/constants/prompts';
+import {
+  findGlossaryMatches,
+  findGlossaryViolations,
+  parseGlossaryCsv,
+} from '../../src/utils/glossary';
+import { maskMarkdown, unmaskMarkdown } from '../../src/utils/masking';
+import { resolveExportPath, resolveOutputPath } from '../../src/utils/outputPath';
+import { createConcurrencyLimiter, debounce } from '../../src/utils/async';
+import { buildBatchReport } from '../../src/utils/batchReport';
+import { buildInterleavedMarkdown } from '../../src/utils/bilingual';
+import { renderMarkdownDocx } from '../../src/utils/docxDocument';
+import { buildStandaloneHtml, inlineImageSources } from '../../src/utils/htmlDocument';
+import { renderMarkdownToHtml } from '../../src/utils/markdown';
+import { fingerprintSegmentSource } from '../../src/utils/overrides';
+import { PdfEncodingError, renderMarkdownPdf } from '../../src/utils/pdfDocument';
+import { pseudoLocalize } from '../../src/utils/pseudoLocalize';
+import {
+  BUILTIN_TRANSFORM_PLUGINS,
+  TransformPlugin,
+  runTransformPipeline,
+} from '../../src/utils/transformPipeline';
+import { buildTmx } from '../../src/utils/tmx';
+import {
+  buildMemoryInstructions,
+  computeSimilarity,
+  findFuzzyMatches,
+} from '../../src/utils/translationMemory';
+import { createRateLimiter, parseQuotaReset, parseRetryAfter } from '../../src/utils/rateLimit';
+import {
+  addUsage,
+  createUsageMeter,
+  estimateTokens,
+  resolveModelPricing,
+} from '../../src/utils/usage';
+import { buildXliff, matchTargetLanguage, parseXliff } from '../../src/utils/xliff';
 
 const CONFIG_SECTION = 'babelMdViewer';
 const DEFAULT_TEST_PROMPT: TranslationPrompt = {
@@ -56,6 +108,108 @@ class InMemorySecretStorage implements vscode.SecretStorage {
   }
 }
 
+function createProviders(logger: ExtensionLogger, client: Partial<TranslationProvider>): TranslationProviderRegistry {
+  return new TranslationProviderRegistry(logger, [
+    { id: 'openai', requiresApiKey: true, ...client } as TranslationProvider,
+  ]);
+}
+
+/** Reads the entries of a ZIP archive through its central directory. */
+function readZipEntries(archive: Uint8Array): Map<string, Buffer> {
+  const buffer = Buffer.from(archive);
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entries = new Map<string, Buffer>();
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let index = 0; index < buffer.readUInt16LE(end + 10); index += 1) {
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+
+    entries.set(name, inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize)));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/** A preview manager over temporary storage that records the messages it posts to webviews. */
+function createPreviewManager(
+  logger: ExtensionLogger,
+  providers: TranslationProviderRegistry,
+  storageUri: vscode.Uri,
+): {
+  manager: TranslationPreviewManager;
+  messages: HostToWebviewMessage[];
+  secrets: SecretStorageService;
+} {
+  const secrets = new SecretStorageService(new InMemorySecretStorage(), logger);
+  const manager = new TranslationPreviewManager(
+    storageUri,
+    new TranslationService(logger, providers),
+    new PromptResolver(logger),
+    new TranslationCacheStore(storageUri, logger),
+    new TranslationOverrideStore(logger),
+    new TranslationMemory(storageUri, logger),
+    new UsageLedger(storageUri, logger),
+    new MarkdownExportService(logger),
+    secrets,
+    logger,
+  );
+  const messages: HostToWebviewMessage[] = [];
+
+  (manager as unknown as {
+    postMessage: (panel: vscode.WebviewPanel, message: HostToWebviewMessage) => void;
+  }).postMessage = (_panel, message) => {
+    messages.push(message);
+  };
+
+  return { manager, messages, secrets };
+}
+
+/** Replaces the preview's render with a recorder of the contexts it is asked to render. */
+function recordRenders(
+  manager: TranslationPreviewManager,
+): Array<{ document: vscode.TextDocument; resolvedConfig: ResolvedTranslationConfiguration }> {
+  const contexts: Array<{
+    document: vscode.TextDocument;
+    resolvedConfig: ResolvedTranslationConfiguration;
+  }> = [];
+
+  (manager as unknown as {
+    render: (panel: vscode.WebviewPanel, context: (typeof contexts)[number]) => Promise<void>;
+  }).render = async (_panel, context) => {
+    contexts.push(context);
+  };
+
+  return contexts;
+}
+
+function scheduleAutoRefresh(
+  manager: TranslationPreviewManager,
+  document: vscode.TextDocument,
+  trigger: 'type' | 'save',
+): void {
+  (manager as unknown as {
+    scheduleAutoRefresh: (document: vscode.TextDocument, trigger: 'type' | 'save') => void;
+  }).scheduleAutoRefresh(document, trigger);
+}
+
+async function appendText(document: vscode.TextDocument, text: string): Promise<void> {
+  const edit = new vscode.WorkspaceEdit();
+  edit.insert(document.uri, document.positionAt(document.getText().length), text);
+  await vscode.workspace.applyEdit(edit);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 class InMemoryTextDocument {
   constructor(public readonly uri: vscode.Uri, public version: number) {}
 }
@@ -71,6 +225,11 @@ describe('Configuration Helper', () => {
   after(async () => {
     const configuration = vscode.workspace.getConfiguration(CONFIG_SECTION);
 
+    await configuration.update(
+      'translation.provider',
+      originalConfig?.provider,
+      vscode.ConfigurationTarget.Workspace,
+    );
     await configuration.update(
       'translation.apiBaseUrl',
       originalConfig?.apiBaseUrl,
@@ -91,6 +250,11 @@ describe('Configuration Helper', () => {
       originalConfig?.targetLanguage,
       vscode.ConfigurationTarget.Workspace,
     );
+    await configuration.update(
+      'translation.targetLanguages',
+      undefined,
+      vscode.ConfigurationTarget.Workspace,
+    );
     await configuration.update(
       'translation.timeoutMs',
       originalConfig?.timeoutMs,
@@ -131,6 +295,11 @@ describe('Configuration Helper', () => {
   it('reads translation configuration with overrides', async () => {
     const configuration = vscode.workspace.getConfiguration(CONFIG_SECTION);
 
+    await configuration.update(
+      'translation.provider',
+      'anthropic',
+      vscode.ConfigurationTarget.Workspace,
+    );
     await configuration.update(
       'translation.apiBaseUrl',
       'https://example.com/v1',
@@ -151,6 +320,11 @@ describe('Configuration Helper', () => {
       'fr',
       vscode.ConfigurationTarget.Workspace,
     );
+    await configuration.update(
+      'translation.targetLanguages',
+      ['de', 'fr', ' ja '],
+      vscode.ConfigurationTarget.Workspace,
+    );
     await configuration.update(
       'translation.timeoutMs',
       45000,
@@ -189,10 +363,12 @@ describe('Configuration Helper', () => {
 
     const result = getExtensionConfiguration();
 
+    assert.strictEqual(result.translation.provider, 'anthropic');
     assert.strictEqual(result.translation.apiBaseUrl, 'https://example.com/v1');
     assert.strictEqual(result.translation.apiKey, 'secret-key');
     assert.strictEqual(result.translation.model, 'gpt-test');
     assert.strictEqual(result.translation.targetLanguage, 'fr');
+    assert.deepStrictEqual(result.translation.targetLanguages, ['fr', 'de', 'ja']);
     assert.strictEqual(result.translation.timeoutMs, 45000);
     assert.strictEqual(result.translation.adaptiveBatchingEnabled, true);
     assert.strictEqual(result.translation.segmentMetricsLoggingEnabled, true);
@@ -228,7 +404,8 @@ describe('TranslationCache', () => {
   it('stores and retrieves cache entries within ttl', () => {
     const cache = new TranslationCache({ ttlMs: 1000, maxEntries: 2 });
     const doc = new InMemoryTextDocument(vscode.Uri.parse('file:///doc.md'), 1);
-    const config = {
+    const config: ResolvedTranslationConfiguration = {
+      provider: 'openai',
       apiBaseUrl: 'https://example.com',
       apiKey: 'sk-example',
       model: 'gpt-test',
@@ -252,7 +429,8 @@ describe('TranslationCache', () => {
   it('evicts entries when ttl expires', async () => {
     const cache = new TranslationCache({ ttlMs: 10, maxEntries: 2 });
     const doc = new InMemoryTextDocument(vscode.Uri.parse('file:///doc.md'), 1);
-    const config = {
+    const config: ResolvedTranslationConfiguration = {
+      provider: 'openai',
       apiBaseUrl: 'https://example.com',
       apiKey: 'sk-example',
       model: 'gpt-test',
@@ -278,7 +456,8 @@ describe('TranslationCache', () => {
     const cache = new TranslationCache({ ttlMs: 1000, maxEntries: 1 });
     const docA = new InMemoryTextDocument(vscode.Uri.parse('file:///a.md'), 1);
     const docB = new InMemoryTextDocument(vscode.Uri.parse('file:///b.md'), 1);
-    const config = {
+    const config: ResolvedTranslationConfiguration = {
+      provider: 'openai',
       apiBaseUrl: 'https://example.com',
       apiKey: 'sk-example',
       model: 'gpt-test',
@@ -313,6 +492,7 @@ describe('TranslationCache', () => {
     const cache = new TranslationCache({ ttlMs: 1000, maxEntries: 2 });
     const doc = new InMemoryTextDocument(vscode.Uri.parse('file:///doc.md'), 1);
     const config: ResolvedTranslationConfiguration = {
+      provider: 'openai',
       apiBaseUrl: 'https://example.com',
       apiKey: 'sk-example',
       model: 'gpt-test',
@@ -338,6 +518,82 @@ describe('TranslationCache', () => {
   const afterClear = cache.getSegment(doc, config, segment, promptFingerprint);
     assert.strictEqual(afterClear, undefined);
   });
+
+  it('clears segment entries for one target language only', () => {
+    const cache = new TranslationCache({ ttlMs: 1000, maxEntries: 2 });
+    const doc = new InMemoryTextDocument(vscode.Uri.parse('file:///doc.md'), 1);
+    const german: ResolvedTranslationConfiguration = {
+      provider: 'openai',
+      apiBaseUrl: 'https://example.com',
+      apiKey: 'sk-example',
+      model: 'gpt-test',
+      targetLanguage: 'de',
+      timeoutMs: 1000,
+    };
+    const japanese: ResolvedTranslationConfiguration = { ...german, targetLanguage: 'ja' };
+    const segment = 'Segment content.';
+
+    cache.setSegment(doc, german, segment, promptFingerprint, {
+      markdown: 'Segmentinhalt.',
+      providerId: 'mock',
+      latencyMs: 1,
+    });
+    cache.setSegment(doc, japanese, segment, promptFingerprint, {
+      markdown: 'セグメントの内容。',
+      providerId: 'mock',
+      latencyMs: 1,
+    });
+
+    cache.clearForDocument(doc, 'de');
+
+    assert.strictEqual(cache.getSegment(doc, german, segment, promptFingerprint), undefined);
+    assert.strictEqual(
+      cache.getSegment(doc, japanese, segment, promptFingerprint)?.markdown,
+      'セグメントの内容。',
+    );
+  });
+
+  it('restores persisted segments and reports only the ones a run used', () => {
+    const cache = new TranslationCache({ ttlMs: 1000, maxEntries: 2 });
+    const doc = new InMemoryTextDocument(vscode.Uri.parse('file:///doc.md'), 1);
+    const config: ResolvedTranslationConfiguration = {
+      provider: 'openai',
+      apiBaseUrl: 'https://example.com',
+      apiKey: 'sk-example',
+      model: 'gpt-test',
+      targetLanguage: 'de',
+      timeoutMs: 1000,
+    };
+
+    cache.setSegment(doc, config, 'First.', promptFingerprint, {
+      markdown: 'Erstens.',
+      providerId: 'mock',
+      latencyMs: 1,
+    });
+    cache.setSegment(doc, config, 'Second.', promptFingerprint, {
+      markdown: 'Zweitens.',
+      providerId: 'mock',
+      latencyMs: 1,
+    });
+    const persisted = cache.getUsedSegments(doc, 'de');
+    assert.strictEqual(Object.keys(persisted).length, 2);
+
+    const restored = new TranslationCache({ ttlMs: 1000, maxEntries: 2 });
+    restored.restoreSegments(doc, 'de', persisted);
+    restored.resetSegmentUsage(doc, 'de');
+
+    assert.strictEqual(
+      restored.getSegment(doc, config, 'First.', promptFingerprint)?.markdown,
+      'Erstens.',
+    );
+    assert.deepStrictEqual(
+      Object.values(restored.getUsedSegments(doc, 'de')).map((entry) => entry.markdown),
+      ['Erstens.'],
+    );
+
+    restored.clearForDocument(doc, 'de');
+    assert.strictEqual(restored.getSegment(doc, config, 'Second.', promptFingerprint), undefined);
+  });
 });
 
 describe('Babel Markdown Service', () => {
@@ -355,27 +611,110 @@ describe('Babel Markdown Service', () => {
     assert.strictEqual(result.html.includes('&lt;world&gt;'), true);
     logger.dispose();
   });
+
+  it('runs transform plugins in order and skips the ones that throw', async () => {
+    const calls: string[] = [];
+    const plugins: TransformPlugin[] = [
+      BUILTIN_TRANSFORM_PLUGINS.headingAnchors,
+      BUILTIN_TRANSFORM_PLUGINS.taskLists,
+      {
+        id: 'brokenSetup',
+        markdownIt: () => {
+          throw new Error('setup failed');
+        },
+      },
+      {
+        id: 'brokenRule',
+        markdownIt: (md) => {
+          md.core.ruler.push('broken', () => {
+            throw new Error('rule failed');
+          });
+        },
+      },
+      {
+        id: 'uppercaseText',
+        transformTokens: (tokens) => {
+          calls.push('tokens');
+          tokens
+            .flatMap((token) => token.children ?? [])
+            .filter((token) => token.type === 'text')
+            .forEach((token) => {
+              token.content = token.content.toUpperCase();
+            });
+        },
+        transformHtml: (html, env) => {
+          calls.push(`html ${env.documentUri}`);
+          return `<article>${html}</article>`;
+        },
+      },
+    ];
+
+    const result = await runTransformPipeline(
+      '# Intro\n\n# Intro\n\n- [x] done\n- [ ] todo',
+      plugins,
+      { documentUri: 'file:///doc.md' },
+      () => new MarkdownIt(),
+    );
+
+    assert.ok(result.html.startsWith('<article><h1 id="intro">INTRO</h1>'), result.html);
+    assert.ok(result.html.includes('<h1 id="intro-1">'));
+    assert.ok(result.html.includes('<input type="checkbox" class="task-list-item-checkbox" disabled checked> DONE'));
+    assert.deepStrictEqual(
+      result.failures.map((failure) => `${failure.id}:${failure.phase}`),
+      ['brokenSetup:setup', 'brokenRule:render'],
+    );
+    assert.strictEqual(calls[calls.length - 1], 'html file:///doc.md');
+    assert.deepStrictEqual(
+      result.timings.map((timing) => timing.id),
+      ['headingAnchors', 'taskLists', 'brokenSetup', 'brokenRule', 'uppercaseText'],
+    );
+  });
 });
 
 describe('TranslationService', () => {
   const configuration: ExtensionConfiguration = {
     previewTheme: 'light',
     transformPlugins: [],
+    export: { pdfMode: 'document', pageSize: 'a4', pdfFont: '' },
     translation: {
+      provider: 'openai',
       apiBaseUrl: 'https://example.com',
       apiKey: 'sk-test',
       model: 'gpt-test',
       targetLanguage: 'de',
+      targetLanguages: ['de'],
+      sourceLanguage: 'en',
       timeoutMs: 1000,
       adaptiveBatchingEnabled: false,
+      streamingEnabled: false,
+      autoRefresh: 'off',
+      autoRefreshDelayMs: 1500,
+      scrollSyncEnabled: true,
+      viewMode: 'translation',
       segmentMetricsLoggingEnabled: false,
       concurrencyLimit: 1,
       parallelismFallbackEnabled: true,
       retryMaxAttempts: 3,
       promptTemplate: DEFAULT_TRANSLATION_PROMPT,
+      frontMatterKeys: [],
+      outputPathPattern: '{dir}/{name}.{lang}{ext}',
+      batchConcurrency: 4,
+      memoryEnabled: true,
+      memoryFuzzyThreshold: 0.75,
+      memoryMaxReferences: 2,
+      pricing: {},
+      budgetMaxCost: 0,
+      budgetAction: 'warn',
+      rateLimitRequestsPerMinute: 0,
+      rateLimitTokensPerMinute: 0,
+      mockMode: 'pseudo',
+      mockExpansion: 0.3,
+      mockFixturesPath: '',
+      mockLatencyMs: 0,
     },
   };
   const resolvedConfig: ResolvedTranslationConfiguration = {
+    provider: configuration.translation.provider,
     apiBaseUrl: configuration.translation.apiBaseUrl,
     apiKey: 'sk-test',
     model: configuration.translation.model,
@@ -391,11 +730,11 @@ describe('TranslationService', () => {
       latencyMs: 12,
     };
 
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async (): Promise<RawTranslationResult> => stubResponse,
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: '# Source',
@@ -420,7 +759,7 @@ describe('TranslationService', () => {
   it('emits placeholder content when translation fails without cache', async () => {
   const logger = new ExtensionLogger('Babel Markdown (Translation Error Test)');
     let attemptCount = 0;
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async (): Promise<RawTranslationResult> => {
         attemptCount += 1;
         throw new Error('boom');
@@ -435,7 +774,7 @@ describe('TranslationService', () => {
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: 'Source <script>alert(1)</script>',
@@ -471,7 +810,7 @@ describe('TranslationService', () => {
 
   it('strips wrapping markdown fences from provider response', async () => {
   const logger = new ExtensionLogger('Babel Markdown (Fence Strip Test)');
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async (): Promise<RawTranslationResult> => ({
         markdown: '```markdown\n## Translated Heading\n```',
         providerId: 'stub-provider',
@@ -479,7 +818,7 @@ describe('TranslationService', () => {
       }),
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: '## Heading',
@@ -502,13 +841,13 @@ describe('TranslationService', () => {
   it('strips wrapping fences when served from segment cache', async () => {
   const logger = new ExtensionLogger('Babel Markdown (Fence Cache Strip Test)');
     const cache = new TranslationCache({ ttlMs: 1000 });
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async (): Promise<RawTranslationResult> => {
         throw new Error('should not call provider when cache hit');
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: 'Paragraph to translate.',
@@ -534,17 +873,15 @@ describe('TranslationService', () => {
     logger.dispose();
   });
 
-  it('preserves code fences when source segment is a code block', async () => {
+  it('preserves code-only segments without calling the provider', async () => {
   const logger = new ExtensionLogger('Babel Markdown (Fence Preserve Test)');
-    const client: Partial<OpenAITranslationClient> = {
-      translate: async (): Promise<RawTranslationResult> => ({
-        markdown: '```typescript\nconst value = 1;\n```',
-        providerId: 'stub-provider',
-        latencyMs: 5,
-      }),
+    const client: Partial<TranslationProvider> = {
+      translate: async (): Promise<RawTranslationResult> => {
+        throw new Error('should not call provider for code-only segments');
+      },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: '```ts\nconst value = 1;\n```',
@@ -557,15 +894,60 @@ describe('TranslationService', () => {
       prompt: DEFAULT_TEST_PROMPT,
     });
 
-    assert.strictEqual(result.markdown.trim(), '```typescript\nconst value = 1;\n```');
+    assert.strictEqual(result.markdown.trim(), '```ts\nconst value = 1;\n```');
     assert.strictEqual(result.html.includes('<code'), true);
+    assert.strictEqual(result.recoveries?.length, 0);
+
+    logger.dispose();
+  });
+
+  it('masks protected tokens and flags dropped sentinels', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Masking Test)');
+    const received: string[] = [];
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+        received.push(documentText);
+        return {
+          markdown: documentText.startsWith('Run')
+            ? documentText.replace('Run', 'Führe').replace('see', 'siehe')
+            : 'Zweiter Absatz ohne Platzhalter.',
+          providerId: 'stub-provider',
+          latencyMs: 1,
+        };
+      },
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: 'Run `npm test`, see [docs](https://example.com/docs).\n\nSecond &amp; $x$ paragraph.',
+    });
+
+    const result = await service.translateDocument({
+      document,
+      configuration,
+      resolvedConfig,
+      prompt: DEFAULT_TEST_PROMPT,
+      cache: new TranslationCache(),
+    });
+
+    assert.strictEqual(received[0], 'Run ⟦0⟧, see [docs](⟦1⟧).');
+    assert.strictEqual(received[1], 'Second ⟦0⟧ ⟦1⟧ paragraph.');
+    assert.strictEqual(
+      result.markdown.startsWith('Führe `npm test`, siehe [docs](https://example.com/docs).'),
+      true,
+    );
+    assert.deepStrictEqual(
+      result.recoveries?.map((entry) => ({ type: entry.type, segmentIndex: entry.segmentIndex })),
+      [{ type: 'maskMismatch', segmentIndex: 1 }],
+    );
 
     logger.dispose();
   });
 
   it('raises structured error on authentication failure', async () => {
   const logger = new ExtensionLogger('Babel Markdown (Auth Error Test)');
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async (): Promise<RawTranslationResult> => {
         throw new TranslationProviderError('Unauthorized', {
           code: 'authentication',
@@ -574,7 +956,7 @@ describe('TranslationService', () => {
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: '# Heading',
@@ -598,10 +980,50 @@ describe('TranslationService', () => {
     logger.dispose();
   });
 
+  it('stops waiting for a retry once the translation is cancelled', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Retry Cancel Test)');
+    const controller = new AbortController();
+    let callCount = 0;
+    const client: Partial<TranslationProvider> = {
+      translate: async (): Promise<RawTranslationResult> => {
+        callCount += 1;
+        setTimeout(() => controller.abort(), 20);
+        throw new TranslationProviderError('Service unavailable', {
+          code: 'server',
+          retryable: true,
+          retryAfterMs: 20_000,
+        });
+      },
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: '# Heading',
+    });
+    const started = Date.now();
+
+    await assert.rejects(
+      service.translateDocument({
+        document,
+        configuration,
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+        cache: new TranslationCache(),
+        signal: controller.signal,
+      }),
+      vscode.CancellationError,
+    );
+    assert.strictEqual(callCount, 1);
+    assert.ok(Date.now() - started < 5000, 'expected the abort to end the Retry-After wait');
+
+    logger.dispose();
+  });
+
   it('invokes segment handler for each translated paragraph', async () => {
   const logger = new ExtensionLogger('Babel Markdown (Translation Segments Test)');
     let callCount = 0;
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
         callCount += 1;
         return {
@@ -612,7 +1034,7 @@ describe('TranslationService', () => {
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: 'First paragraph.\n\nSecond paragraph.\nStill second.',
@@ -649,7 +1071,7 @@ describe('TranslationService', () => {
   const logger = new ExtensionLogger('Babel Markdown (Adaptive Segments Test)');
     let callCount = 0;
     const translatedSegments: string[] = [];
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
         callCount += 1;
         translatedSegments.push(documentText);
@@ -669,7 +1091,7 @@ describe('TranslationService', () => {
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: 'Short one.\n\nShort two.\n\nShort three.',
@@ -700,12 +1122,155 @@ describe('TranslationService', () => {
     logger.dispose();
   });
 
+  it('plans segments from markdown blocks and never merges across headings', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Segment Plan Test)');
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => ({
+        markdown: documentText,
+        providerId: 'stub-provider',
+        latencyMs: 1,
+      }),
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: [
+        '# Setup',
+        'Install it.',
+        '',
+        '- first item',
+        '',
+        '  continued item',
+        '- second item',
+        '',
+        '~~~sh',
+        'npm install',
+        '',
+        'npm test',
+        '~~~',
+        '',
+        '## Usage',
+        '',
+        '| a | b |',
+        '|---|---|',
+        '| 1 | 2 |',
+      ].join('\n'),
+    });
+
+    const plans: Array<Array<{ blockType: string; startLine: number; endLine: number }>> = [];
+    const capturePlan = (segments: Array<{ blockType: string; startLine: number; endLine: number }>) => {
+      plans.push(segments.map(({ blockType, startLine, endLine }) => ({ blockType, startLine, endLine })));
+    };
+
+    await service.translateDocument(
+      { document, configuration, resolvedConfig, prompt: DEFAULT_TEST_PROMPT },
+      { onPlan: capturePlan },
+    );
+    await service.translateDocument(
+      {
+        document,
+        configuration: {
+          ...configuration,
+          translation: { ...configuration.translation, adaptiveBatchingEnabled: true },
+        },
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+      },
+      { onPlan: capturePlan },
+    );
+
+    assert.deepStrictEqual(plans[0], [
+      { blockType: 'heading', startLine: 0, endLine: 1 },
+      { blockType: 'paragraph', startLine: 1, endLine: 2 },
+      { blockType: 'list', startLine: 3, endLine: 7 },
+      { blockType: 'code', startLine: 8, endLine: 13 },
+      { blockType: 'heading', startLine: 14, endLine: 15 },
+      { blockType: 'table', startLine: 16, endLine: 19 },
+    ]);
+    assert.deepStrictEqual(plans[1], [
+      { blockType: 'mixed', startLine: 0, endLine: 13 },
+      { blockType: 'mixed', startLine: 14, endLine: 19 },
+    ]);
+
+    logger.dispose();
+  });
+
+  it('keeps front matter verbatim and translates only the configured keys', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Front Matter Test)');
+    const requests: string[] = [];
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+        requests.push(documentText);
+        return {
+          markdown: `DE ${documentText}`,
+          providerId: 'stub-provider',
+          latencyMs: 1,
+        };
+      },
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: [
+        '---',
+        'title: Getting "started" # shown in nav',
+        "description: 'It''s quick'",
+        'date: 2024-01-01',
+        'tags: [intro]',
+        '---',
+        '',
+        'Body paragraph.',
+      ].join('\n'),
+    });
+
+    const plans: Array<Array<{ startLine: number; endLine: number }>> = [];
+    const result = await service.translateDocument(
+      {
+        document,
+        configuration: {
+          ...configuration,
+          translation: {
+            ...configuration.translation,
+            frontMatterKeys: ['title', 'description', 'tags'],
+          },
+        },
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+      },
+      {
+        onPlan: (segments) =>
+          plans.push(segments.map(({ startLine, endLine }) => ({ startLine, endLine }))),
+      },
+    );
+
+    assert.deepStrictEqual(requests, ['Body paragraph.', 'Getting "started"', "It's quick"]);
+    assert.deepStrictEqual(plans[0], [{ startLine: 7, endLine: 8 }]);
+    assert.strictEqual(
+      result.markdown,
+      [
+        '---',
+        'title: "DE Getting \\"started\\"" # shown in nav',
+        'description: "DE It\'s quick"',
+        'date: 2024-01-01',
+        'tags: [intro]',
+        '---',
+        '',
+        'DE Body paragraph.',
+      ].join('\n'),
+    );
+    assert.ok(!result.html.includes('title'));
+
+    logger.dispose();
+  });
+
   it('parallel scheduler preserves segment order', async () => {
   const logger = new ExtensionLogger('Babel Markdown (Parallel Order Test)');
     const callOrder: number[] = [];
     const emissionOrder: number[] = [];
 
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async ({ fileName, documentText }: TranslateRequest): Promise<RawTranslationResult> => {
         const match = /#segment-(\d+)/.exec(fileName);
         const index = match ? Number(match[1]) - 1 : 0;
@@ -733,7 +1298,7 @@ describe('TranslationService', () => {
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: 'Alpha paragraph.\n\nBeta paragraph.\n\nGamma paragraph.',
@@ -775,7 +1340,7 @@ describe('TranslationService', () => {
     const failureCounts = new Map<number, number>();
     const segmentUpdates = new Map<number, string>();
 
-    const client: Partial<OpenAITranslationClient> = {
+    const client: Partial<TranslationProvider> = {
       translate: async ({ fileName, documentText }: TranslateRequest): Promise<RawTranslationResult> => {
         const match = /#segment-(\d+)/.exec(fileName);
         const index = match ? Number(match[1]) - 1 : 0;
@@ -802,7 +1367,7 @@ describe('TranslationService', () => {
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
       content: 'One paragraph.\n\nTwo paragraph.\n\nThree paragraph.',
@@ -834,75 +1399,1487 @@ describe('TranslationService', () => {
     logger.dispose();
   });
 
-  it('segment cache prevents repeated provider calls', async () => {
-  const logger = new ExtensionLogger('Babel Markdown (Segment Cache Test)');
+  it('forwards streamed partial text and caches the final segment', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Streaming Test)');
     const cache = new TranslationCache({ ttlMs: 1000 });
-    let callCount = 0;
+    const progress: string[] = [];
 
-    const client: Partial<OpenAITranslationClient> = {
-      translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
-        callCount += 1;
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ onProgress }: TranslateRequest): Promise<RawTranslationResult> => {
+        onProgress?.('Hal');
+        onProgress?.('Hallo Welt');
         return {
-          markdown: `cached-${documentText}`,
+          markdown: 'Hallo Welt',
           providerId: 'stub-provider',
-          latencyMs: 2,
+          latencyMs: 3,
         };
       },
     };
 
-    const cachedConfiguration: ExtensionConfiguration = {
+    const streamingConfiguration: ExtensionConfiguration = {
       ...configuration,
       translation: {
         ...configuration.translation,
-        concurrencyLimit: 2,
+        streamingEnabled: true,
       },
     };
 
-    const service = new TranslationService(logger, client as OpenAITranslationClient);
+    const service = new TranslationService(logger, createProviders(logger, client));
     const document = await vscode.workspace.openTextDocument({
       language: 'markdown',
-      content: 'Cache me first.\n\nCache me second.',
+      content: 'Hello world',
     });
 
-    await service.translateDocument(
-      {
-        document,
-        configuration: cachedConfiguration,
-        resolvedConfig,
-        prompt: DEFAULT_TEST_PROMPT,
-        cache,
-      },
-      {
-        onSegment: () => undefined,
-      },
-    );
-
-    assert.strictEqual(callCount, 2);
-
-    const cachedSegments: Array<{ index: number; wasCached: boolean }> = [];
-    await service.translateDocument(
+    const result = await service.translateDocument(
       {
         document,
-        configuration: cachedConfiguration,
+        configuration: streamingConfiguration,
         resolvedConfig,
         prompt: DEFAULT_TEST_PROMPT,
         cache,
       },
       {
-        onSegment: (update) => {
-          cachedSegments.push({ index: update.segmentIndex, wasCached: update.wasCached });
+        onSegmentProgress: (update) => {
+          assert.strictEqual(update.segmentIndex, 0);
+          progress.push(update.markdown);
         },
       },
     );
 
-    assert.strictEqual(callCount, 2);
-    assert.deepStrictEqual(cachedSegments, [
-      { index: 0, wasCached: true },
-      { index: 1, wasCached: true },
-    ]);
+    assert.deepStrictEqual(progress, ['Hal', 'Hallo Welt']);
+    assert.strictEqual(result.markdown, 'Hallo Welt');
+    assert.strictEqual(
+      cache.getSegment(document, resolvedConfig, 'Hello world', DEFAULT_TEST_PROMPT.fingerprint)?.markdown,
+      'Hallo Welt',
+    );
 
     logger.dispose();
   });
+
+  it('injects matching glossary terms and flags ignored ones', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Glossary Test)');
+    const cache = new TranslationCache({ ttlMs: 1000 });
+    const instructions: string[] = [];
+
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText, prompt }: TranslateRequest): Promise<RawTranslationResult> => {
+        instructions.push(prompt.instructions);
+        return {
+          markdown: documentText.includes('Babel') ? 'Öffne Babylon Markdown.' : 'Zweiter Absatz.',
+          providerId: 'stub-provider',
+          latencyMs: 1,
+        };
+      },
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: 'Open Babel Markdown.\n\nSecond paragraph.',
+    });
+
+    const result = await service.translateDocument({
+      document,
+      configuration,
+      resolvedConfig,
+      prompt: {
+        ...DEFAULT_TEST_PROMPT,
+        glossary: [{ source: 'Babel Markdown' }, { source: 'Preview', target: 'Vorschau' }],
+      },
+      cache,
+    });
+
+    assert.strictEqual(instructions.length, 2);
+    assert.strictEqual(instructions[0].includes('"Babel Markdown" → keep as-is'), true);
+    assert.strictEqual(instructions[0].includes('Vorschau'), false);
+    assert.strictEqual(instructions[1].includes('## Glossary'), false);
+    assert.deepStrictEqual(
+      result.recoveries?.map((entry) => ({ type: entry.type, segmentIndex: entry.segmentIndex })),
+      [{ type: 'glossary', segmentIndex: 0 }],
+    );
+    assert.strictEqual(result.markdown.includes('Babylon'), true);
+    assert.strictEqual(
+      cache.getSegment(document, resolvedConfig, 'Open Babel Markdown.', DEFAULT_TEST_PROMPT.fingerprint),
+      undefined,
+    );
+
+    logger.dispose();
+  });
+
+  it('segment cache prevents repeated provider calls', async () => {
+  const logger = new ExtensionLogger('Babel Markdown (Segment Cache Test)');
+    const cache = new TranslationCache({ ttlMs: 1000 });
+    let callCount = 0;
+
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+        callCount += 1;
+        return {
+          markdown: `cached-${documentText}`,
+          providerId: 'stub-provider',
+          latencyMs: 2,
+        };
+      },
+    };
+
+    const cachedConfiguration: ExtensionConfiguration = {
+      ...configuration,
+      translation: {
+        ...configuration.translation,
+        concurrencyLimit: 2,
+      },
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: 'Cache me first.\n\nCache me second.',
+    });
+
+    await service.translateDocument(
+      {
+        document,
+        configuration: cachedConfiguration,
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+        cache,
+      },
+      {
+        onSegment: () => undefined,
+      },
+    );
+
+    assert.strictEqual(callCount, 2);
+
+    const cachedSegments: Array<{ index: number; wasCached: boolean }> = [];
+    await service.translateDocument(
+      {
+        document,
+        configuration: cachedConfiguration,
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+        cache,
+      },
+      {
+        onSegment: (update) => {
+          cachedSegments.push({ index: update.segmentIndex, wasCached: update.wasCached });
+        },
+      },
+    );
+
+    assert.strictEqual(callCount, 2);
+    assert.deepStrictEqual(cachedSegments, [
+      { index: 0, wasCached: true },
+      { index: 1, wasCached: true },
+    ]);
+
+    logger.dispose();
+  });
+
+  it('re-translates a single segment with an instruction and replaces its cache entry', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Segment Retry Test)');
+    const cache = new TranslationCache({ ttlMs: 1000 });
+    const instructions: string[] = [];
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText, prompt }: TranslateRequest): Promise<RawTranslationResult> => {
+        instructions.push(prompt.instructions);
+        return {
+          markdown: `v${instructions.length}-${documentText}`,
+          providerId: 'stub-provider',
+          latencyMs: 1,
+        };
+      },
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: 'First.\n\nSecond.',
+    });
+    const context = {
+      document,
+      configuration,
+      resolvedConfig,
+      prompt: DEFAULT_TEST_PROMPT,
+      cache,
+    };
+
+    await service.translateDocument(context);
+    const update = await service.translateSegment(
+      context,
+      { markdown: 'Second.', segmentIndex: 1, totalSegments: 2 },
+      'more formal',
+    );
+
+    assert.strictEqual(update.markdown, 'v3-Second.');
+    assert.strictEqual(update.wasCached, false);
+    assert.ok(instructions[2]?.includes('more formal'));
+    assert.ok(!instructions[0]?.includes('more formal'));
+    assert.strictEqual(
+      cache.getSegment(document, resolvedConfig, 'Second.', DEFAULT_TEST_PROMPT.fingerprint)
+        ?.markdown,
+      'v3-Second.',
+    );
+
+    logger.dispose();
+  });
+
+  it('applies matching overrides without a provider call and flags outdated ones', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Override Test)');
+    const requested: string[] = [];
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+        requested.push(documentText);
+        return {
+          markdown: `machine-${documentText}`,
+          providerId: 'stub-provider',
+          latencyMs: 1,
+        };
+      },
+    };
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: 'Intro, revised.\n\nSecond.',
+    });
+    const updates: Array<{ markdown: string; override?: string }> = [];
+
+    const result = await service.translateDocument(
+      {
+        document,
+        configuration,
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+        overrides: {
+          [fingerprintSegmentSource('Intro.')]: {
+            source: 'Intro.',
+            translation: 'Hand-edited intro.',
+            startLine: 0,
+            updatedAt: 1,
+          },
+          [fingerprintSegmentSource('Second.\n')]: {
+            source: 'Second.\n',
+            translation: 'Hand-edited second.',
+            startLine: 2,
+            updatedAt: 1,
+          },
+        },
+      },
+      {
+        onSegment: (update) => {
+          updates.push({ markdown: update.markdown, override: update.override });
+        },
+      },
+    );
+
+    assert.deepStrictEqual(requested, ['Intro, revised.']);
+    assert.deepStrictEqual(updates, [
+      { markdown: 'machine-Intro, revised.', override: 'outdated' },
+      { markdown: 'Hand-edited second.', override: 'applied' },
+    ]);
+    assert.strictEqual(result.providerId, 'stub-provider');
+
+    logger.dispose();
+  });
+
+  it('reuses exact translation memory matches and passes similar ones as references', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Translation Memory Test)');
+    const memory = new TranslationMemory(
+      vscode.Uri.file(path.join(os.tmpdir(), `babel-md-memory-${Date.now()}`)),
+      logger,
+    );
+    const prompts: string[] = [];
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText, prompt }: TranslateRequest): Promise<RawTranslationResult> => {
+        prompts.push(prompt.instructions);
+        return {
+          markdown: `fresh-${documentText}`,
+          providerId: 'stub-provider',
+          latencyMs: 1,
+        };
+      },
+    };
+
+    await memory.load(resolvedConfig.targetLanguage);
+    memory.record(
+      resolvedConfig.targetLanguage,
+      'Install the command line tool before you continue.',
+      'remembered-install',
+      DEFAULT_TEST_PROMPT.fingerprint,
+    );
+
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content:
+        'Install the command line tool before you continue.\n\nInstall the command line tools before you go on.',
+    });
+    const updates: Array<{ markdown: string; providerId: string; wasCached: boolean }> = [];
+
+    await service.translateDocument(
+      {
+        document,
+        configuration,
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+        memory,
+      },
+      {
+        onSegment: (update) => {
+          updates.push({
+            markdown: update.markdown,
+            providerId: update.providerId,
+            wasCached: update.wasCached,
+          });
+        },
+      },
+    );
+
+    assert.strictEqual(prompts.length, 1);
+    assert.ok(prompts[0]?.includes('## Reference translations'));
+    assert.ok(prompts[0]?.includes('remembered-install'));
+    assert.deepStrictEqual(updates[0], {
+      markdown: 'remembered-install',
+      providerId: 'memory',
+      wasCached: true,
+    });
+    assert.strictEqual(
+      memory.lookup(
+        resolvedConfig.targetLanguage,
+        'Install the command line tools before you go on.',
+        DEFAULT_TEST_PROMPT.fingerprint,
+      )?.translation,
+      'fresh-Install the command line tools before you go on.',
+    );
+
+    logger.dispose();
+  });
+
+  it('totals priced token usage and stops before exceeding the budget', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Translation Budget Test)');
+    let requestCount = 0;
+    const client: Partial<TranslationProvider> = {
+      translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+        requestCount += 1;
+        return {
+          markdown: `de-${documentText}`,
+          providerId: 'stub-provider',
+          latencyMs: 1,
+          usage: { promptTokens: 1000, completionTokens: 500 },
+        };
+      },
+    };
+    const pricedConfiguration: ExtensionConfiguration = {
+      ...configuration,
+      translation: {
+        ...configuration.translation,
+        pricing: { 'gpt-*': { input: 2, output: 8 } },
+      },
+    };
+    const service = new TranslationService(logger, createProviders(logger, client));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: 'First paragraph.\n\nSecond paragraph.\n\nThird paragraph.',
+    });
+    const segmentUsage: Array<number | undefined> = [];
+
+    const result = await service.translateDocument(
+      {
+        document,
+        configuration: pricedConfiguration,
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+        usageMeter: createUsageMeter(),
+      },
+      { onSegment: (update) => segmentUsage.push(update.usage?.cost) },
+    );
+
+    assert.deepStrictEqual(segmentUsage, [0.006, 0.006, 0.006]);
+    assert.strictEqual(result.usage?.promptTokens, 3000);
+    assert.strictEqual(result.usage?.completionTokens, 1500);
+    assert.ok(Math.abs((result.usage?.cost ?? 0) - 0.018) < 1e-9);
+
+    requestCount = 0;
+    const usageMeter = createUsageMeter({ maxCost: 0.005, action: 'stop' });
+
+    await assert.rejects(
+      service.translateDocument({
+        document,
+        configuration: {
+          ...pricedConfiguration,
+          translation: { ...pricedConfiguration.translation, budgetMaxCost: 0.005, budgetAction: 'stop' },
+        },
+        resolvedConfig,
+        prompt: DEFAULT_TEST_PROMPT,
+        usageMeter,
+      }),
+      (error: unknown) => error instanceof TranslationRunError && error.code === 'budgetExceeded',
+    );
+    assert.strictEqual(requestCount, 1);
+    assert.strictEqual(usageMeter.usage.promptTokens, 1000);
+
+    logger.dispose();
+  });
+
+  it('runs the whole pipeline offline with the mock provider', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Mock Provider Test)');
+    const service = new TranslationService(
+      logger,
+      new TranslationProviderRegistry(logger, [new MockTranslationClient(logger)]),
+    );
+    const mockConfiguration: ExtensionConfiguration = {
+      ...configuration,
+      translation: { ...configuration.translation, provider: 'mock' },
+    };
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: '# Guide\n\nRun `npm test` and read [the docs](https://example.com/docs).\n\n```sh\nnpm test\n```',
+    });
+
+    const result = await service.translateDocument({
+      document,
+      configuration: mockConfiguration,
+      resolvedConfig: resolveTranslationConfiguration(mockConfiguration.translation, ''),
+      prompt: DEFAULT_TEST_PROMPT,
+    });
+
+    assert.ok(result.markdown.startsWith('# [Ĝûîðé'), result.markdown);
+    assert.ok(result.markdown.includes('`npm test`'));
+    assert.ok(result.markdown.includes('(https://example.com/docs)'));
+    assert.ok(result.markdown.includes('```sh\nnpm test\n```'));
+    assert.strictEqual(result.recoveries, undefined);
+    assert.ok(result.html.includes('<h1'));
+
+    logger.dispose();
+  });
+
+  it('keeps mock translations out of the translation memory', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Mock Memory Test)');
+    const memory = new TranslationMemory(
+      vscode.Uri.file(path.join(os.tmpdir(), `babel-md-mock-memory-${Date.now()}`)),
+      logger,
+    );
+    const requested: string[] = [];
+    const service = new TranslationService(
+      logger,
+      new TranslationProviderRegistry(logger, [
+        new MockTranslationClient(logger),
+        {
+          id: 'openai',
+          requiresApiKey: true,
+          translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+            requested.push(documentText);
+            return { markdown: `real-${documentText}`, providerId: 'stub-provider', latencyMs: 1 };
+          },
+        },
+      ]),
+    );
+    const mockConfiguration: ExtensionConfiguration = {
+      ...configuration,
+      translation: { ...configuration.translation, provider: 'mock' },
+    };
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: 'This sentence was first translated by the mock provider.',
+    });
+
+    const pseudo = await service.translateDocument({
+      document,
+      configuration: mockConfiguration,
+      resolvedConfig: resolveTranslationConfiguration(mockConfiguration.translation, ''),
+      prompt: DEFAULT_TEST_PROMPT,
+      memory,
+    });
+    const real = await service.translateDocument({
+      document,
+      configuration,
+      resolvedConfig,
+      prompt: DEFAULT_TEST_PROMPT,
+      memory,
+    });
+
+    assert.ok(pseudo.markdown.startsWith('[Ţĥîš'), pseudo.markdown);
+    assert.deepStrictEqual(requested, ['This sentence was first translated by the mock provider.']);
+    assert.strictEqual(real.markdown, 'real-This sentence was first translated by the mock provider.');
+
+    logger.dispose();
+  });
+
+  describe('Translation preview', () => {
+    it('renders a translation reopened from the cache segment by segment', async () => {
+      const logger = new ExtensionLogger('Babel Markdown (Preview Cache Test)');
+      const storageUri = vscode.Uri.file(path.join(os.tmpdir(), `babel-md-preview-${Date.now()}`));
+      let calls = 0;
+      const providers = createProviders(logger, {
+        translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+          calls += 1;
+          return { markdown: `de-${documentText}`, providerId: 'stub-provider', latencyMs: 1 };
+        },
+      });
+      const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: '# Title\n\nFirst paragraph.\n\n- Item',
+      });
+      const context = { document, configuration, resolvedConfig };
+
+      const first = createPreviewManager(logger, providers, storageUri);
+      await first.manager.openPreview(context);
+      first.manager.dispose();
+      const callsBeforeReopen = calls;
+
+      const reopened = createPreviewManager(logger, providers, storageUri);
+      await reopened.manager.openPreview(context);
+      reopened.manager.dispose();
+
+      const source = reopened.messages.find(
+        (message): message is Extract<HostToWebviewMessage, { type: 'translationSource' }> =>
+          message.type === 'translationSource',
+      );
+      const chunks = reopened.messages.filter(
+        (message): message is Extract<HostToWebviewMessage, { type: 'translationChunk' }> =>
+          message.type === 'translationChunk',
+      );
+      const result = reopened.messages.find(
+        (message): message is Extract<HostToWebviewMessage, { type: 'translationResult' }> =>
+          message.type === 'translationResult',
+      );
+
+      assert.ok(callsBeforeReopen > 0);
+      assert.strictEqual(calls, callsBeforeReopen);
+      assert.ok(source && source.payload.segments.length > 0);
+      assert.strictEqual(chunks.length, source.payload.segments.length);
+      assert.ok(chunks.every((chunk) => chunk.payload.wasCached));
+      assert.ok(chunks.every((chunk) => chunk.payload.startLine !== undefined));
+      assert.strictEqual(result?.payload.wasCached, true);
+
+      logger.dispose();
+    });
+
+    it('stamps the result with the source version it was translated from', async () => {
+      const logger = new ExtensionLogger('Babel Markdown (Preview Version Test)');
+      const storageUri = vscode.Uri.file(
+        path.join(os.tmpdir(), `babel-md-preview-version-${Date.now()}`),
+      );
+      const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: '# Title',
+      });
+      const translatedVersion = document.version;
+      const providers = createProviders(logger, {
+        translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => {
+          // The user keeps typing while the provider works.
+          await appendText(document, '\n\nAdded during the run.');
+          return { markdown: `de-${documentText}`, providerId: 'stub-provider', latencyMs: 1 };
+        },
+      });
+      const { manager, messages } = createPreviewManager(logger, providers, storageUri);
+
+      await manager.openPreview({ document, configuration, resolvedConfig });
+
+      const result = messages.find((message) => message.type === 'translationResult');
+      assert.ok(result && result.type === 'translationResult');
+      assert.notStrictEqual(document.version, translatedVersion);
+      assert.strictEqual(result.payload.sourceVersion, translatedVersion);
+
+      manager.dispose();
+      logger.dispose();
+    });
+
+    describe('auto refresh', () => {
+      const settings = vscode.workspace.getConfiguration(CONFIG_SECTION);
+      const stubProviders = (logger: ExtensionLogger): TranslationProviderRegistry =>
+        createProviders(logger, {
+          translate: async ({ documentText }: TranslateRequest): Promise<RawTranslationResult> => ({
+            markdown: `de-${documentText}`,
+            providerId: 'stub-provider',
+            latencyMs: 1,
+          }),
+        });
+      const openDocument = (): Thenable<vscode.TextDocument> =>
+        vscode.workspace.openTextDocument({ language: 'markdown', content: '# Title' });
+      const configure = async (autoRefresh: string, autoRefreshDelayMs: number): Promise<void> => {
+        await settings.update(
+          'translation.autoRefresh',
+          autoRefresh,
+          vscode.ConfigurationTarget.Workspace,
+        );
+        await settings.update(
+          'translation.autoRefreshDelayMs',
+          autoRefreshDelayMs,
+          vscode.ConfigurationTarget.Workspace,
+        );
+      };
+      const storage = (): vscode.Uri =>
+        vscode.Uri.file(path.join(os.tmpdir(), `babel-md-auto-refresh-${Date.now()}`));
+
+      afterEach(async () => {
+        for (const key of ['autoRefresh', 'autoRefreshDelayMs', 'model']) {
+          await settings.update(`translation.${key}`, undefined, vscode.ConfigurationTarget.Workspace);
+        }
+      });
+
+      it('coalesces edits into one debounced render when typing', async () => {
+        const logger = new ExtensionLogger('Babel Markdown (Auto Refresh onType Test)');
+        await configure('onType', 50);
+        const document = await openDocument();
+        const { manager } = createPreviewManager(logger, stubProviders(logger), storage());
+        await manager.openPreview({ document, configuration, resolvedConfig });
+        const renders = recordRenders(manager);
+
+        await appendText(document, '\n\nOne');
+        await appendText(document, '\n\nTwo');
+        assert.strictEqual(renders.length, 0);
+        await wait(200);
+
+        assert.strictEqual(renders.length, 1);
+        assert.strictEqual(renders[0].document.version, document.version);
+
+        manager.dispose();
+        logger.dispose();
+      });
+
+      it('renders on save without waiting for the typing delay', async () => {
+        const logger = new ExtensionLogger('Babel Markdown (Auto Refresh onSave Test)');
+        await configure('onSave', 60000);
+        const document = await openDocument();
+        const { manager } = createPreviewManager(logger, stubProviders(logger), storage());
+        await manager.openPreview({ document, configuration, resolvedConfig });
+        const renders = recordRenders(manager);
+
+        await appendText(document, '\n\nEdited');
+        await wait(50);
+        assert.strictEqual(renders.length, 0);
+
+        scheduleAutoRefresh(manager, document, 'save');
+        await wait(50);
+
+        assert.strictEqual(renders.length, 1);
+
+        manager.dispose();
+        logger.dispose();
+      });
+
+      it('does nothing when off', async () => {
+        const logger = new ExtensionLogger('Babel Markdown (Auto Refresh off Test)');
+        await configure('off', 0);
+        const document = await openDocument();
+        const { manager } = createPreviewManager(logger, stubProviders(logger), storage());
+        await manager.openPreview({ document, configuration, resolvedConfig });
+        const renders = recordRenders(manager);
+
+        await appendText(document, '\n\nEdited');
+        scheduleAutoRefresh(manager, document, 'save');
+        await wait(100);
+
+        assert.strictEqual(renders.length, 0);
+
+        manager.dispose();
+        logger.dispose();
+      });
+
+      it('cancels the translation in flight and renders with current settings', async () => {
+        const logger = new ExtensionLogger('Babel Markdown (Auto Refresh Cancel Test)');
+        await configure('onSave', 0);
+        await settings.update(
+          'translation.model',
+          'gpt-updated',
+          vscode.ConfigurationTarget.Workspace,
+        );
+        const signals: AbortSignal[] = [];
+        const providers = createProviders(logger, {
+          translate: ({ signal }: TranslateRequest): Promise<RawTranslationResult> =>
+            new Promise((_resolve, reject) => {
+              if (signal) {
+                signals.push(signal);
+                signal.addEventListener('abort', () => reject(new vscode.CancellationError()));
+              }
+            }),
+        });
+        const document = await openDocument();
+        const { manager, secrets } = createPreviewManager(logger, providers, storage());
+        await secrets.storeTranslationApiKey('sk-updated');
+        const opening = manager.openPreview({ document, configuration, resolvedConfig });
+
+        while (signals.length === 0) {
+          await wait(10);
+        }
+
+        const renders = recordRenders(manager);
+        await appendText(document, '\n\nEdited');
+        scheduleAutoRefresh(manager, document, 'save');
+        await wait(50);
+        await opening;
+
+        assert.ok(signals[0].aborted);
+        assert.strictEqual(renders.length, 1);
+        assert.strictEqual(renders[0].resolvedConfig.model, 'gpt-updated');
+        assert.strictEqual(renders[0].resolvedConfig.apiKey, 'sk-updated');
+        assert.strictEqual(renders[0].resolvedConfig.targetLanguage, resolvedConfig.targetLanguage);
+
+        manager.dispose();
+        logger.dispose();
+      });
+    });
+  });
+});
+
+describe('Glossary', () => {
+  it('parses csv terms with per-language columns and detects violations', () => {
+    const glossary = parseGlossaryCsv(
+      'source,target,zh-CN,note\nBabel Markdown,,,product name\n"workspace, folder",Arbeitsbereich,工作区,\n',
+    );
+
+    assert.deepStrictEqual(glossary, [
+      { source: 'Babel Markdown', note: 'product name' },
+      { source: 'workspace, folder', target: 'Arbeitsbereich', targets: { 'zh-CN': '工作区' } },
+    ]);
+
+    const matches = findGlossaryMatches(glossary, 'Open Babel Markdown in a workspace, folder.', 'zh-CN');
+    assert.deepStrictEqual(
+      matches.map((match) => match.target),
+      [undefined, '工作区'],
+    );
+    assert.strictEqual(findGlossaryMatches(glossary, 'Babel Markdownish', 'de').length, 0);
+
+    const violations = findGlossaryViolations(matches, '在工作区中打开巴别 Markdown。');
+    assert.deepStrictEqual(
+      violations.map((violation) => violation.source),
+      ['Babel Markdown'],
+    );
+  });
+});
+
+describe('Markdown masking', () => {
+  it('round-trips fences, inline code, urls, entities and math', () => {
+    const source = [
+      'Costs $5 and $10, solve $a+b$ with `x = 1` and &nbsp; <https://a.io>.',
+      '[ref]: https://r.io/path',
+      '~~~python',
+      'print("hi")',
+      '~~~',
+      'See https://b.io/c.',
+    ].join('\n');
+    const masked = maskMarkdown(source);
+
+    assert.strictEqual(
+      masked.text,
+      'Costs $5 and $10, solve ⟦0⟧ with ⟦1⟧ and ⟦2⟧ ⟦3⟧.\n[ref]: ⟦4⟧\n⟦5⟧\nSee ⟦6⟧.',
+    );
+    assert.strictEqual(unmaskMarkdown(masked.text, masked.tokens).markdown, source);
+
+    const broken = unmaskMarkdown(masked.text.replace('⟦0⟧', '').replace('⟦1⟧', '⟦1⟧ ⟦ 1 ⟧'), masked.tokens);
+    assert.deepStrictEqual(broken.missing, [0]);
+    assert.deepStrictEqual(broken.duplicated, [1]);
+  });
+});
+
+describe('Output path pattern', () => {
+  it('expands sibling and mirrored-tree patterns', () => {
+    const context = {
+      documentPath: '/repo/docs/guide/setup.md',
+      workspacePath: '/repo',
+      targetLanguage: 'zh-CN',
+    };
+
+    assert.strictEqual(
+      resolveOutputPath('{dir}/{name}.{lang}{ext}', context),
+      '/repo/docs/guide/setup.zh-CN.md',
+    );
+    assert.strictEqual(
+      resolveOutputPath('{workspace}/i18n/{lang}/{relpath}', context),
+      '/repo/i18n/zh-CN/docs/guide/setup.md',
+    );
+    assert.strictEqual(
+      resolveOutputPath('docs/{lang}/{name}{ext}', context),
+      '/repo/docs/zh-CN/setup.md',
+    );
+  });
+
+  it('names batch exports after the workspace path', () => {
+    assert.strictEqual(resolveExportPath('docs/guide/setup.md', 'pdf'), 'docs/guide/setup.pdf');
+    assert.strictEqual(
+      resolveExportPath('docs\\guide\\setup.md', 'png', 'zh-CN'),
+      'docs/guide/setup.zh-CN.png',
+    );
+    assert.strictEqual(resolveExportPath('../outside/notes.markdown', 'docx'), 'outside/notes.docx');
+  });
+});
+
+describe('Batch translation', () => {
+  it('never runs more tasks than the concurrency budget', async () => {
+    const limiter = createConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const task = async (): Promise<void> => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running -= 1;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+
+    assert.strictEqual(peak, 2);
+  });
+
+  it('lists failures first in the report', () => {
+    const report = buildBatchReport(
+      [
+        { documentPath: 'a.md', targetLanguage: 'de', status: 'cached', recoveries: 0 },
+        {
+          documentPath: 'b.md',
+          targetLanguage: 'de',
+          status: 'failed',
+          recoveries: 0,
+          error: 'Rate | limited',
+        },
+      ],
+      {
+        glob: '**/*.md',
+        startedAt: new Date('2024-01-01T00:00:00Z'),
+        finishedAt: new Date('2024-01-01T00:00:03Z'),
+      },
+    );
+
+    assert.ok(report.includes('From cache: 1'));
+    assert.ok(report.includes('Failed: 1'));
+    assert.ok(report.indexOf('| b.md |') < report.indexOf('| a.md |'));
+    assert.ok(report.includes('Rate \\| limited'));
+  });
+});
+
+describe('Scroll sync', () => {
+  it('debounces bursts of scroll events to the last position', async () => {
+    const lines: number[] = [];
+    const reveal = debounce((line: number) => lines.push(line), 10);
+
+    reveal(3);
+    reveal(7);
+    reveal(12);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    reveal(20);
+    reveal.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    assert.deepStrictEqual(lines, [12]);
+  });
+});
+
+describe('Bilingual view', () => {
+  it('interleaves source and translation, keeping front matter and unchanged blocks once', () => {
+    const markdown = buildInterleavedMarkdown(
+      [
+        { source: '# Title\n', translation: '# 标题' },
+        { source: '```js\nrun();\n```', translation: '```js\nrun();\n```\n' },
+        { source: 'Hello.', translation: '你好。' },
+      ],
+      '---\ntitle: 标题\n---\n\n# 标题\n\n你好。\n',
+    );
+
+    assert.strictEqual(
+      markdown,
+      '---\ntitle: 标题\n---\n\n# Title\n\n# 标题\n\n```js\nrun();\n```\n\nHello.\n\n你好。\n',
+    );
+  });
+});
+
+describe('Translation memory', () => {
+  it('ranks similar sources above the threshold and skips identical ones', () => {
+    const entries = [
+      { source: 'Open the settings page.', translation: '打开设置页面。', promptFingerprint: 'p', updatedAt: 1 },
+      { source: 'Open the settings pages.', translation: '打开各设置页面。', promptFingerprint: 'p', updatedAt: 2 },
+      { source: 'Delete the cache folder.', translation: '删除缓存文件夹。', promptFingerprint: 'p', updatedAt: 3 },
+    ];
+
+    assert.strictEqual(computeSimilarity('Open  the\nsettings page.', 'Open the settings page.'), 1);
+
+    const matches = findFuzzyMatches(entries, 'Open the settings panel.', { threshold: 0.75, limit: 2 });
+    assert.deepStrictEqual(
+      matches.map((match) => match.entry.translation),
+      ['打开设置页面。', '打开各设置页面。'],
+    );
+    assert.deepStrictEqual(
+      findFuzzyMatches(entries, 'Open the settings page.', { threshold: 0.75, limit: 2 }).map(
+        (match) => match.entry.translation,
+      ),
+      ['打开各设置页面。'],
+    );
+    assert.ok(buildMemoryInstructions(matches).includes('Source:\nOpen the settings page.'));
+    assert.strictEqual(buildMemoryInstructions([]), '');
+  });
+});
+
+describe('Usage accounting', () => {
+  it('prices models by exact name or longest wildcard prefix', () => {
+    const pricing = {
+      'gpt-4o*': { input: 2.5, output: 10 },
+      'gpt-4o-mini*': { input: 0.15, output: 0.6 },
+      'claude-3-5-haiku': { input: 0.8, output: 4 },
+    };
+
+    assert.strictEqual(resolveModelPricing(pricing, 'gpt-4o-mini-2024-07-18')?.input, 0.15);
+    assert.strictEqual(resolveModelPricing(pricing, 'gpt-4o-2024-08-06')?.input, 2.5);
+    assert.strictEqual(resolveModelPricing(pricing, 'Claude-3-5-Haiku')?.output, 4);
+    assert.strictEqual(resolveModelPricing(pricing, 'llama3'), undefined);
+    assert.strictEqual(estimateTokens('abcdefgh'), 2);
+    assert.strictEqual(estimateTokens('翻译预览'), 4);
+    assert.deepStrictEqual(
+      addUsage({ promptTokens: 1, completionTokens: 2 }, { promptTokens: 3, completionTokens: 4, cost: 0.5 }),
+      { promptTokens: 4, completionTokens: 6, cost: 0.5 },
+    );
+  });
+
+  it('warns once or refuses requests past the budget and passes usage to the parent', () => {
+    const warnings: number[] = [];
+    const warnMeter = createUsageMeter({
+      maxCost: 1,
+      action: 'warn',
+      onBudgetWarning: (spent) => warnings.push(spent),
+    });
+
+    assert.ok(warnMeter.reserve(0.6));
+    warnMeter.settle(0.6, { promptTokens: 10, completionTokens: 10, cost: 0.7 });
+    assert.ok(warnMeter.reserve(0.6));
+    assert.ok(warnMeter.reserve(0.6));
+    assert.deepStrictEqual(warnings, [0.7]);
+
+    const parent = createUsageMeter({ maxCost: 1, action: 'stop' });
+    const child = createUsageMeter({ parent });
+
+    assert.ok(child.reserve(0.5));
+    child.settle(0.5, { promptTokens: 100, completionTokens: 50, cost: 0.4 });
+    assert.ok(child.reserve(0.5));
+    child.release(0.5);
+    assert.strictEqual(child.reserve(0.7), false);
+    assert.strictEqual(parent.usage.promptTokens, 100);
+    assert.strictEqual(child.usage.cost, 0.4);
+  });
+});
+
+describe('Rate limiting', () => {
+  it('reads the wait from Retry-After and rate-limit reset headers', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    assert.strictEqual(parseRetryAfter(new Headers({ 'retry-after-ms': '750', 'retry-after': '9' }), now), 750);
+    assert.strictEqual(parseRetryAfter(new Headers({ 'retry-after': '12' }), now), 12_000);
+    assert.strictEqual(
+      parseRetryAfter(new Headers({ 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' }), now),
+      5000,
+    );
+    assert.strictEqual(
+      parseQuotaReset(
+        new Headers({
+          'x-ratelimit-remaining-requests': '0',
+          'x-ratelimit-reset-requests': '1.5s',
+          'x-ratelimit-remaining-tokens': '0',
+          'x-ratelimit-reset-tokens': '6m0s',
+        }),
+        now,
+      ),
+      360_000,
+    );
+    assert.strictEqual(
+      parseRetryAfter(
+        new Headers({
+          'anthropic-ratelimit-tokens-remaining': '0',
+          'anthropic-ratelimit-tokens-reset': '2025-01-01T00:00:20Z',
+        }),
+        now,
+      ),
+      20_000,
+    );
+    assert.strictEqual(
+      parseQuotaReset(new Headers({ 'x-ratelimit-remaining-requests': '3', 'x-ratelimit-reset-requests': '1s' }), now),
+      undefined,
+    );
+  });
+
+  it('treats a fractional request limit as at least one request per minute', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 0.5, tokensPerMinute: 0 });
+    const started = Date.now();
+
+    assert.strictEqual(await limiter.acquire(1), true);
+    assert.ok(Date.now() - started < 1000, 'expected the first request to be granted right away');
+
+    const controller = new AbortController();
+    const pending = limiter.acquire(1, controller.signal);
+    controller.abort();
+    assert.strictEqual(await pending, false);
+  });
+
+  it('holds requests until tokens refill or a pause ends, and drops aborted waiters', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 0, tokensPerMinute: 60_000 });
+
+    let started = Date.now();
+    assert.strictEqual(await limiter.acquire(60_000), true);
+    assert.strictEqual(await limiter.acquire(40), true);
+    assert.ok(Date.now() - started >= 30, 'expected to wait for 40 tokens to refill');
+
+    limiter.configure({ requestsPerMinute: 0, tokensPerMinute: 0 });
+    limiter.pause(50);
+    started = Date.now();
+    assert.strictEqual(await limiter.acquire(1_000_000), true);
+    assert.ok(Date.now() - started >= 40, 'expected the pause to hold the request');
+
+    const controller = new AbortController();
+    limiter.pause(10_000);
+    const pending = limiter.acquire(1, controller.signal);
+    controller.abort();
+    assert.strictEqual(await pending, false);
+  });
+});
+
+describe('Mock translation provider', () => {
+  it('pseudo-localizes text while keeping the Markdown structure', () => {
+    const source = [
+      '## Install',
+      '',
+      '- [ ] Run `pnpm install` ⟦0⟧',
+      '> See <a href="https://example.com">docs</a>.',
+      '',
+      '| Key | Value |',
+      '| --- | ----- |',
+      '| id  | Name  |',
+      '',
+      '[docs]: https://example.com',
+    ].join('\n');
+
+    const lines = pseudoLocalize(source, { expansion: 0.5 }).split('\n');
+
+    assert.strictEqual(lines[0], '## [Îñšţáļļ ····]');
+    assert.strictEqual(lines[2], '- [ ] [Ŕûñ `pnpm install` ⟦0⟧ ··]');
+    assert.strictEqual(lines[3], '> [Šéé <a href="https://example.com">ðöçš</a>. ····]');
+    assert.strictEqual(lines[5], '| [Ķéý ··] | [Ṽáļûé ···] |');
+    assert.strictEqual(lines[6], '| --- | ----- |');
+    assert.strictEqual(lines[9], '[docs]: https://example.com');
+    assert.strictEqual(pseudoLocalize('Hi', { expansion: 0 }), '[Ĥî]');
+  });
+
+  it('replays recorded translations and fails for unrecorded segments', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Mock Replay Test)');
+    const client = new MockTranslationClient(logger);
+    const fixturesUri = vscode.Uri.file(path.join(os.tmpdir(), `babel-md-fixtures-${Date.now()}.json`));
+    const source = 'Run `npm test` first.';
+    const masked = maskMarkdown(source);
+    const request = {
+      documentText: masked.text,
+      fileName: 'doc.md#segment-1',
+      documentLabel: 'doc.md',
+      prompt: DEFAULT_TEST_PROMPT,
+      resolvedConfig: {
+        provider: 'mock' as const,
+        apiBaseUrl: '',
+        apiKey: '',
+        model: 'gpt-test',
+        targetLanguage: 'de',
+        timeoutMs: 1000,
+        mock: { mode: 'replay' as const, expansion: 0, fixturesPath: fixturesUri.fsPath, latencyMs: 0 },
+      },
+    };
+
+    await vscode.workspace.fs.writeFile(
+      fixturesUri,
+      new TextEncoder().encode(
+        JSON.stringify({
+          translations: [{ targetLanguage: 'de', source, translation: 'Zuerst `npm test` ausführen.' }],
+        }),
+      ),
+    );
+
+    try {
+      const result = await client.translate(request);
+
+      assert.strictEqual(result.providerId, 'mock-replay');
+      assert.strictEqual(unmaskMarkdown(result.markdown, masked.tokens).markdown, 'Zuerst `npm test` ausführen.');
+      await assert.rejects(
+        client.translate({ ...request, documentText: 'Something else.' }),
+        (error: unknown) => error instanceof TranslationProviderError && error.code === 'invalidResponse',
+      );
+    } finally {
+      await vscode.workspace.fs.delete(fixturesUri);
+      logger.dispose();
+    }
+  });
+});
+
+describe('Translation exchange formats', () => {
+  it('round-trips segments through XLIFF 2.0 and reads edited targets back', () => {
+    const xml = buildXliff({
+      srcLang: 'en',
+      trgLang: 'de',
+      original: 'docs/guide.md',
+      units: [
+        { id: 's1', source: 'Use `a < b` & "quotes".', target: 'Nutze `a < b` & „Zitate“.', state: 'translated', translate: true },
+        { id: 's2', source: '```sh\nnpm test\n```', target: '```sh\nnpm test\n```', translate: false },
+      ],
+    });
+
+    assert.ok(xml.includes('srcLang="en" trgLang="de"'));
+    assert.ok(xml.includes('&lt;'));
+
+    const reviewed = xml
+      .replace('Nutze `a &lt; b` &amp; „Zitate“.', 'Verwende <ph id="1"/>`a &lt; b` &#38; „Zitate“.')
+      .replace('state="translated"', 'state="final"');
+    const parsed = parseXliff(reviewed);
+
+    assert.strictEqual(parsed.trgLang, 'de');
+    assert.strictEqual(parsed.original, 'docs/guide.md');
+    assert.deepStrictEqual(parsed.units[0], {
+      id: 's1',
+      source: 'Use `a < b` & "quotes".',
+      target: 'Verwende `a < b` & „Zitate“.',
+      state: 'final',
+      translate: true,
+    });
+    assert.strictEqual(parsed.units[1]?.source, '```sh\nnpm test\n```');
+    assert.strictEqual(parsed.units[1]?.translate, false);
+    assert.throws(() => parseXliff('<xliff version="1.2"></xliff>'));
+  });
+
+  it('matches the XLIFF target language to a configured one', () => {
+    const languages = ['de-DE', 'zh-CN', 'pt'];
+
+    assert.strictEqual(matchTargetLanguage('de-DE', languages), 'de-DE');
+    assert.strictEqual(matchTargetLanguage('zh_cn', languages), 'zh-CN');
+    assert.strictEqual(matchTargetLanguage(' PT ', languages), 'pt');
+    assert.strictEqual(matchTargetLanguage('de', languages), undefined);
+  });
+
+  it('writes one TMX translation unit per memory entry', () => {
+    const tmx = buildTmx({
+      srcLang: 'en',
+      trgLang: 'zh-CN',
+      toolVersion: '1.2.5',
+      units: [{ source: 'Save <file>', target: '保存 <文件>', changedAt: Date.UTC(2024, 0, 31, 9, 45) }],
+    });
+
+    assert.ok(tmx.includes('srclang="en"'));
+    assert.ok(tmx.includes('<tu changedate="20240131T094500Z">'));
+    assert.ok(tmx.includes('<tuv xml:lang="zh-CN"><seg>保存 &lt;文件&gt;</seg></tuv>'));
+  });
+});
+
+describe('PDF export', () => {
+  it('lays Markdown out on paginated pages with bookmarks and links', async () => {
+    const paragraphs = Array.from(
+      { length: 60 },
+      (_, index) => `Paragraph ${index} has **bold**, _italic_ and \`code\` text that wraps onto another line.`,
+    );
+    const markdown = [
+      '# Guide',
+      'See [usage](#usage) and [the docs](https://example.com/docs).',
+      ...paragraphs,
+      '## Usage',
+      '- one\n- two',
+      '```\n' + 'const a = 1;\n'.repeat(40) + '```',
+      '| A | B |\n| --- | --- |\n| 1 | 2 |',
+    ].join('\n\n');
+
+    const pdf = await PDFDocument.load(await renderMarkdownPdf(markdown, { pageSize: 'letter' }));
+    const outlines = pdf.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+
+    assert.ok(pdf.getPageCount() > 1);
+    assert.deepStrictEqual(pdf.getPage(0).getSize(), { width: 612, height: 792 });
+    assert.strictEqual(pdf.getTitle(), 'Guide');
+    assert.strictEqual(outlines.get(PDFName.of('Count'))?.toString(), '2');
+    assert.strictEqual(pdf.getPage(0).node.Annots()?.size(), 2);
+  });
+
+  it('rejects characters the standard fonts cannot encode', async () => {
+    await assert.rejects(
+      renderMarkdownPdf('# 指南\n\nText', { pageSize: 'a4' }),
+      (error: unknown) =>
+        error instanceof PdfEncodingError && error.characters.join('') === '指南',
+    );
+  });
+
+  it('sets text the standard fonts cannot encode in the Unicode font', async () => {
+    const fontData = await vscode.workspace.fs.readFile(
+      vscode.Uri.file(require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf')),
+    );
+    let loads = 0;
+    const loadUnicodeFont = async (): Promise<Uint8Array> => {
+      loads += 1;
+      return fontData;
+    };
+
+    await renderMarkdownPdf('# Guide\n\nPlain text.', { pageSize: 'a4', loadUnicodeFont });
+    assert.strictEqual(loads, 0);
+
+    const pdf = await PDFDocument.load(
+      await renderMarkdownPdf('# Руководство\n\nΓεια σου, **мир** and `код`.', {
+        pageSize: 'a4',
+        loadUnicodeFont,
+      }),
+    );
+    const fontNames = pdf.context
+      .enumerateIndirectObjects()
+      .map(([, object]) => object)
+      .filter((object): object is PDFDict => object instanceof PDFDict)
+      .map((dict) => dict.get(PDFName.of('BaseFont'))?.toString())
+      .filter(Boolean);
+
+    assert.strictEqual(loads, 1);
+    assert.strictEqual(pdf.getTitle(), 'Руководство');
+    assert.ok(fontNames.some((name) => name?.includes('DejaVuSans')), fontNames.join(', '));
+    await assert.rejects(
+      renderMarkdownPdf('# 指南', { pageSize: 'a4', loadUnicodeFont }),
+      (error: unknown) =>
+        error instanceof PdfEncodingError && error.characters.join('') === '指南',
+    );
+  });
+});
+
+describe('HTML export', () => {
+  it('builds a standalone page with a table of contents and inline images', async () => {
+    const body = renderMarkdownToHtml(
+      '# Guide\n\n## Setup & use\n\n![logo](images/logo.png) ![remote](https://example.com/a.png)\n\n## Setup & use\n\n<script>alert(1)</script>',
+    );
+    const requested: string[] = [];
+    const inlined = await inlineImageSources(body, async (source) => {
+      requested.push(source);
+      return source === 'images/logo.png' ? 'data:image/png;base64,AAAA' : undefined;
+    });
+    const html = buildStandaloneHtml({
+      fallbackTitle: 'guide',
+      languageTag: 'de',
+      theme: 'light',
+      bodyHtml: inlined,
+      tableOfContentsTitle: 'Contents',
+    });
+
+    assert.deepStrictEqual(requested, ['images/logo.png', 'https://example.com/a.png']);
+    assert.ok(html.startsWith('<!DOCTYPE html>\n<html lang="de">'));
+    assert.ok(html.includes('<title>Guide</title>'));
+    assert.ok(html.includes('<h2 id="setup-use">Setup &amp; use</h2>'));
+    assert.ok(html.includes('<h2 id="setup-use-1">'));
+    assert.ok(html.includes('<a href="#setup-use-1">Setup &amp; use</a>'));
+    assert.ok(html.includes('src="data:image/png;base64,AAAA"'));
+    assert.ok(html.includes('src="https://example.com/a.png"'));
+    assert.ok(!html.includes('<script>'));
+    assert.ok(html.includes('blockquote {'));
+  });
+});
+
+describe('Word export', () => {
+  it('builds a document from the Markdown structure with embedded images', async () => {
+    // A 2x1 PNG header is enough for the size lookup.
+    const png = Buffer.alloc(24);
+    png.write('\x89PNG\r\n\x1a\n', 0, 'latin1');
+    png.writeUInt32BE(2, 16);
+    png.writeUInt32BE(1, 20);
+    const requested: string[] = [];
+    const docx = await renderMarkdownDocx(
+      [
+        '# Guide',
+        '',
+        'See [setup](#setup) and [docs](https://example.com/?a=1&b=2).',
+        '',
+        '## Setup',
+        '',
+        '1. First **step**',
+        '2. Second',
+        '',
+        '- Bullet',
+        '',
+        '| Key | Value |',
+        '| --- | ----- |',
+        '| a | `b` |',
+        '',
+        '![logo](logo.png) ![missing](missing.png)',
+        '',
+        '```',
+        'const x = 1;',
+        '```',
+      ].join('\n'),
+      {
+        pageSize: 'letter',
+        language: 'de',
+        loadImage: async (source) => {
+          requested.push(source);
+          return source === 'logo.png' ? { data: png, mimeType: 'image/png' } : undefined;
+        },
+      },
+    );
+    const entries = readZipEntries(docx);
+    const document = entries.get('word/document.xml')?.toString('utf8') ?? '';
+    const relationships = entries.get('word/_rels/document.xml.rels')?.toString('utf8') ?? '';
+
+    assert.deepStrictEqual(Array.from(entries.keys()).slice(0, 1), ['[Content_Types].xml']);
+    assert.deepStrictEqual(requested, ['logo.png', 'missing.png']);
+    assert.ok(entries.has('word/media/image1.png'));
+    assert.ok(document.includes('<w:pStyle w:val="Heading2"/>'));
+    assert.ok(document.includes('<w:hyperlink w:anchor="_heading2"'));
+    assert.ok(document.includes('<w:numId w:val="2"/>'));
+    assert.ok(document.includes('<w:numId w:val="1"/>'));
+    assert.ok(document.includes('<w:b/></w:rPr><w:t xml:space="preserve">step</w:t>'));
+    assert.ok(document.includes('<w:tblHeader/>'));
+    assert.ok(document.includes('<w:rStyle w:val="InlineCode"/>'));
+    assert.ok(document.includes('<a:blip r:embed="rId4"/>'));
+    assert.ok(document.includes('[missing]'));
+    assert.ok(document.includes('<w:pStyle w:val="Code"/>'));
+    assert.ok(document.includes('<w:pgSz w:w="12240" w:h="15840"/>'));
+    assert.ok(relationships.includes('Target="https://example.com/?a=1&amp;b=2" TargetMode="External"'));
+    assert.ok(entries.get('word/styles.xml')?.toString('utf8').includes('<w:lang w:val="de"/>'));
+    assert.ok(entries.get('docProps/core.xml')?.toString('utf8').includes('<dc:title>Guide</dc:title>'));
+  });
+});
+
+describe('TranslationProviderRegistry', () => {
+  it('falls back to the default provider for unknown ids', () => {
+    const logger = new ExtensionLogger('Babel Markdown (Provider Registry Test)');
+    const registry = createProviders(logger, {
+      translate: async (): Promise<RawTranslationResult> => ({
+        markdown: 'ok',
+        providerId: 'stub',
+        latencyMs: 1,
+      }),
+    });
+
+    assert.strictEqual(registry.resolve('deepl').id, 'openai');
+    assert.strictEqual(registry.requiresApiKey('openai'), true);
+
+    logger.dispose();
+  });
+
+  it('assembles server-sent events into the final translation', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Provider Stream Test)');
+    const client = new OpenAITranslationClient(logger);
+    const originalFetch = globalThis.fetch;
+    const events = [
+      'data: {"model":"gpt-test","choices":[{"index":0,"finish_reason":null,"delta":{"content":"Hallo"}}]}\n\n',
+      'data: {"model":"gpt-test","choices":[{"index":0,"finish_reason":null,"delta":{"content":" Welt"}}]}\n\n',
+      'data: {"model":"gpt-test","choices":[],"usage":{"prompt_tokens":42,"completion_tokens":7,"total_tokens":49}}\n\n',
+      'data: [DONE]\n\n',
+    ];
+    let requestBody: { stream?: boolean; stream_options?: { include_usage?: boolean } } = {};
+
+    globalThis.fetch = (async (_input: string | URL | Request, init?: RequestInit) => {
+      requestBody = JSON.parse(String(init?.body)) as typeof requestBody;
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const event of events) {
+            controller.enqueue(encoder.encode(event));
+          }
+          controller.close();
+        },
+      });
+      return new Response(body, { status: 200 });
+    }) as typeof fetch;
+
+    const progress: string[] = [];
+
+    try {
+      const result = await client.translate({
+        documentText: 'Hello world',
+        fileName: 'doc.md',
+        documentLabel: 'doc.md',
+        prompt: DEFAULT_TEST_PROMPT,
+        resolvedConfig: {
+          provider: 'openai',
+          apiBaseUrl: 'https://example.com/v1',
+          apiKey: 'sk-test',
+          model: 'gpt-test',
+          targetLanguage: 'de',
+          timeoutMs: 1000,
+        },
+        onProgress: (partial) => progress.push(partial),
+      });
+
+      assert.strictEqual(requestBody.stream, true);
+      assert.deepStrictEqual(progress, ['Hallo', 'Hallo Welt']);
+      assert.strictEqual(result.markdown, 'Hallo Welt');
+      assert.strictEqual(result.providerId, 'gpt-test');
+      assert.strictEqual(requestBody.stream_options?.include_usage, true);
+      assert.deepStrictEqual(result.usage, { promptTokens: 42, completionTokens: 7 });
+    } finally {
+      globalThis.fetch = originalFetch;
+      logger.dispose();
+    }
+  });
+
+  it('maps provider http failures to structured errors', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Provider Error Test)');
+    const client = new AnthropicTranslationClient(logger);
+    const originalFetch = globalThis.fetch;
+    let requestedUrl = '';
+
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      requestedUrl = String(input);
+      return new Response('{"error":"invalid x-api-key"}', { status: 401 });
+    }) as typeof fetch;
+
+    try {
+      await assert.rejects(
+        client.translate({
+          documentText: '# Heading',
+          fileName: 'doc.md',
+          documentLabel: 'doc.md',
+          prompt: DEFAULT_TEST_PROMPT,
+          resolvedConfig: {
+            provider: 'anthropic',
+            apiBaseUrl: 'https://example.com/v1/',
+            apiKey: 'key',
+            model: 'claude-test',
+            targetLanguage: 'de',
+            timeoutMs: 1000,
+          },
+        }),
+        (error: unknown) => {
+          assert.ok(error instanceof TranslationProviderError);
+          assert.strictEqual(error.code, 'authentication');
+          assert.strictEqual(error.retryable, false);
+          return true;
+        },
+      );
+      assert.strictEqual(requestedUrl, 'https://example.com/v1/messages');
+    } finally {
+      globalThis.fetch = originalFetch;
+      logger.dispose();
+    }
+  });
+
+  it('passes the Retry-After wait of rate-limited responses on', async () => {
+    const logger = new ExtensionLogger('Babel Markdown (Rate Limit Test)');
+    const client = new OpenAITranslationClient(logger);
+    const originalFetch = globalThis.fetch;
+
+    globalThis.fetch = (async () =>
+      new Response('{"error":{"message":"Rate limit reached"}}', {
+        status: 429,
+        headers: { 'retry-after': '3' },
+      })) as typeof fetch;
+
+    try {
+      await assert.rejects(
+        client.translate({
+          documentText: '# Heading',
+          fileName: 'doc.md',
+          documentLabel: 'doc.md',
+          prompt: DEFAULT_TEST_PROMPT,
+          resolvedConfig: {
+            provider: 'openai',
+            apiBaseUrl: 'https://example.com/v1',
+            apiKey: 'key',
+            model: 'gpt-test',
+            targetLanguage: 'de',
+            timeoutMs: 1000,
+          },
+        }),
+        (error: unknown) => {
+          assert.ok(error instanceof TranslationProviderError);
+          assert.strictEqual(error.code, 'rateLimit');
+          assert.strictEqual(error.retryAfterMs, 3000);
+          return true;
+        },
+      );
+    } finally {
+      globalThis.fetch = originalFetch;
+      logger.dispose();
+    }
+  });
 });
 
 export async function run(): Promise<void> {